@@ -0,0 +1,118 @@
+// Service Worker del Pomodoro (lo registra src/lib/pomodoroAlerts.ts)
+//
+// La página le manda la fase en curso y la renueva cada pocos segundos mientras el
+// timer corre; cada mensaje mantiene vivo al worker hasta el fin de la fase. Al
+// terminar muestra una notificación del sistema (salvo que la página esté a la
+// vista) y registra el enfoque en Supabase, así se guarda aunque la pestaña esté
+// dormida o cerrada. La página registra el mismo enfoque con el mismo inicio, y el
+// índice único (user_id, started_at) descarta el duplicado.
+//
+// Los navegadores cierran un worker inactivo a los pocos minutos: si la pestaña se
+// cerró mucho antes del fin de fase, el enfoque se registra al volver a abrir el
+// Pomodoro.
+
+let current = null; // fase programada
+let timer = null;
+let release = null; // libera el waitUntil de la fase programada
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('message', (event) => {
+  const data = event.data || {};
+
+  if (data.type === 'pomodoro:schedule' && data.alert) {
+    event.waitUntil(schedule(data.alert));
+  } else if (data.type === 'pomodoro:cancel') {
+    clear();
+  }
+});
+
+function clear() {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  current = null;
+  if (release) release();
+  release = null;
+}
+
+function schedule(alert) {
+  clear();
+  current = alert;
+
+  return new Promise((resolve) => {
+    release = resolve;
+    timer = setTimeout(async () => {
+      const ended = current;
+      current = null;
+      timer = null;
+      release = null;
+      await firePhaseEnd(ended).catch(() => {});
+      resolve();
+    }, Math.max(0, alert.endsAt - Date.now()));
+  });
+}
+
+async function firePhaseEnd(alert) {
+  if (!alert) return;
+
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const visible = windows.some((c) => c.visibilityState === 'visible');
+
+  const jobs = [];
+  if (alert.session && alert.auth) jobs.push(recordSession(alert));
+  if (alert.notify && !visible) {
+    jobs.push(
+      self.registration.showNotification(alert.title, {
+        body: alert.body,
+        tag: 'pomodoro-phase',
+        renotify: true,
+        requireInteraction: true,
+        icon: '/taskademic-logo.svg',
+        actions: alert.actions,
+        data: { mode: alert.mode },
+      }),
+    );
+  }
+  await Promise.all(jobs.map((job) => job.catch(() => {})));
+}
+
+// Misma inserción que createPomodoroSession: ignora el enfoque si ya estaba registrado
+function recordSession(alert) {
+  const { url, anonKey, accessToken } = alert.auth;
+  return fetch(`${url}/rest/v1/pomodoro_sessions?on_conflict=user_id,started_at`, {
+    method: 'POST',
+    headers: {
+      apikey: anonKey,
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      Prefer: 'resolution=ignore-duplicates,return=minimal',
+    },
+    body: JSON.stringify(alert.session),
+  });
+}
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const action = event.action || 'open';
+  const mode = (event.notification.data && event.notification.data.mode) || 'focus';
+  event.waitUntil(openPomodoro(action, mode));
+});
+
+async function openPomodoro(action, mode) {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const page = windows.find((c) => new URL(c.url).pathname === '/pomodoro');
+
+  if (page) {
+    if (action !== 'open') page.postMessage({ type: 'pomodoro:action', action, mode });
+    return page.focus();
+  }
+
+  const url = action === 'open' ? '/pomodoro' : `/pomodoro?accion=${action}&fase=${mode}`;
+  return self.clients.openWindow(url);
+}
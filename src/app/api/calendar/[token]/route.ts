@@ -0,0 +1,41 @@
+// Feed iCalendar por usuario: /api/calendar/<token>
+// Google Calendar, Apple Calendar y Thunderbird se suscriben a esta URL.
+
+import { getCalendarFeedData } from '@/lib/db/calendarFeed';
+import { buildCalendar, buildTaskademicEvents } from '@/lib/ical';
+
+export const dynamic = 'force-dynamic';
+
+const TOKEN_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  // Se acepta el token con o sin extensión .ics
+  const { token: rawToken } = await params;
+  const token = rawToken.replace(/\.ics$/, '');
+
+  if (!TOKEN_REGEX.test(token)) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  // Ante un error no se sirve un calendario vacío: el cliente volvería a intentar más tarde
+  const { data, error } = await getCalendarFeedData(token);
+  if (error) {
+    return new Response('Internal Server Error', { status: 500 });
+  }
+  if (!data) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const ics = buildCalendar(buildTaskademicEvents(data));
+
+  return new Response(ics, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="taskademic.ics"',
+      'Cache-Control': 'private, max-age=900',
+    },
+  });
+}
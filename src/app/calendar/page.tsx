@@ -4,35 +4,42 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
-import { supabaseClient } from '@/lib/supabaseClient';
-
-type Priority = 'low' | 'medium' | 'high';
-
-type Task = {
-  id: string;
-  title: string;
-  due_date: string | null; // YYYY-MM-DD
-  completed: boolean;
-  course_id: string | null;
-  priority: Priority | null;
-};
-
-type Session = {
-  id: string;
-  started_at: string;
-  duration_minutes: number;
-};
-
-type Course = {
-  id: string;
-  name: string;
-  color: string | null;
-};
+import {
+  completeTask,
+  getProfile,
+  listCourses,
+  listExamPlans,
+  listExamTopics,
+  listPomodoroSessions,
+  listTasks,
+  updateTask,
+  type Course,
+  type ExamPlan,
+  type ExamTopic,
+  type PomodoroSession,
+  type Priority,
+  type StudyAvailability,
+  type Task,
+} from '@/lib/db';
+import { CalendarSync } from '@/components/CalendarSync';
+import { describeRecurrence, projectOccurrences, type ProjectedOccurrence } from '@/lib/recurrence';
+import {
+  blocksByDate,
+  buildStudySchedule,
+  nextExamTopic,
+  planProgress,
+  resolveAvailability,
+  savePomodoroExamContext,
+  topicsByPlan,
+  type StudyBlock,
+} from '@/lib/studySchedule';
 
 type DayInfo = {
   date: string; // YYYY-MM-DD
   dayNumber: number;
   tasks: Task[];
+  projected: ProjectedOccurrence[]; // repeticiones futuras que aún no son tareas
+  studyBlocks: StudyBlock[]; // bloques agendados desde el planificador de examen
   minutesFocus: number;
 };
 
@@ -78,8 +85,11 @@ export default function CalendarPage() {
   const [month, setMonth] = useState(today.getMonth()); // 0-11
 
   const [tasks, setTasks] = useState<Task[]>([]);
-  const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessions, setSessions] = useState<PomodoroSession[]>([]);
   const [coursesMap, setCoursesMap] = useState<Map<string, Course>>(new Map());
+  const [examPlans, setExamPlans] = useState<ExamPlan[]>([]);
+  const [examTopics, setExamTopics] = useState<ExamTopic[]>([]);
+  const [savedAvailability, setSavedAvailability] = useState<StudyAvailability | null>(null);
   const [loadingData, setLoadingData] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -101,38 +111,42 @@ export default function CalendarPage() {
       setLoadingData(true);
       setError(null);
 
-      const [tasksResult, sessionsResult, coursesResult] = await Promise.all([
-        supabaseClient
-          .from('tasks')
-          .select('id, title, due_date, completed, course_id, priority')
-          .eq('user_id', user.id),
-        supabaseClient
-          .from('pomodoro_sessions')
-          .select('id, started_at, duration_minutes')
-          .eq('user_id', user.id),
-        supabaseClient
-          .from('courses')
-          .select('id, name, color')
-          .eq('user_id', user.id),
-      ]);
+      const [tasksResult, sessionsResult, coursesResult, plansResult, examTopicsResult, profileResult] =
+        await Promise.all([
+          listTasks(user.id),
+          listPomodoroSessions(user.id),
+          listCourses(user.id),
+          listExamPlans(user.id),
+          listExamTopics(user.id),
+          getProfile(user.id),
+        ]);
 
       if (tasksResult.error) {
         setError('No se pudieron cargar las tareas.');
       } else {
-        setTasks((tasksResult.data ?? []) as Task[]);
+        setTasks(tasksResult.data);
       }
 
       if (!sessionsResult.error) {
-        setSessions((sessionsResult.data ?? []) as Session[]);
+        setSessions(sessionsResult.data);
       }
 
       if (!coursesResult.error) {
         const map = new Map<string, Course>(
-          ((coursesResult.data ?? []) as Course[]).map((c) => [c.id, c]),
+          coursesResult.data.map((c) => [c.id, c]),
         );
         setCoursesMap(map);
       }
 
+      // Sin la tabla exam_plans el calendario funciona igual, solo sin bloques de estudio
+      if (!plansResult.error) {
+        setExamPlans(plansResult.data);
+      }
+      if (!examTopicsResult.error) {
+        setExamTopics(examTopicsResult.data);
+      }
+      setSavedAvailability(profileResult.data?.study_availability ?? null);
+
       setLoadingData(false);
     };
 
@@ -140,6 +154,28 @@ export default function CalendarPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user]);
 
+  const planTopics = useMemo(() => topicsByPlan(examTopics), [examTopics]);
+
+  // Bloques de estudio agendados a partir de hoy
+  const studyBlocksMap = useMemo(() => {
+    const taskCourseMap = new Map<string, string>();
+    tasks.forEach((t) => { if (t.course_id) taskCourseMap.set(t.id, t.course_id); });
+
+    const { blocks } = buildStudySchedule({
+      plans: examPlans,
+      remaining: new Map(
+        examPlans.map((p) => [
+          p.id,
+          planProgress(p, planTopics.get(p.id) ?? [], sessions, taskCourseMap).remainingMinutes,
+        ]),
+      ),
+      tasks,
+      availability: resolveAvailability(savedAvailability),
+      today: new Date().toISOString().slice(0, 10),
+    });
+    return blocksByDate(blocks);
+  }, [examPlans, planTopics, sessions, tasks, savedAvailability]);
+
   // Construir mapa de día -> info (con array de tareas completo)
   const daysInfo = useMemo(() => {
     const matrix = getMonthMatrix(year, month);
@@ -148,7 +184,14 @@ export default function CalendarPage() {
     matrix.forEach((dateStr) => {
       if (!dateStr) return;
       const dayNumber = parseInt(dateStr.slice(8, 10), 10);
-      map.set(dateStr, { date: dateStr, dayNumber, tasks: [], minutesFocus: 0 });
+      map.set(dateStr, {
+        date: dateStr,
+        dayNumber,
+        tasks: [],
+        projected: [],
+        studyBlocks: studyBlocksMap.get(dateStr) ?? [],
+        minutesFocus: 0,
+      });
     });
 
     tasks.forEach((t) => {
@@ -158,6 +201,13 @@ export default function CalendarPage() {
       info.tasks.push(t);
     });
 
+    const monthDates = matrix.filter(Boolean);
+    if (monthDates.length > 0) {
+      projectOccurrences(tasks, monthDates[0], monthDates[monthDates.length - 1]).forEach((p) => {
+        map.get(p.date)?.projected.push(p);
+      });
+    }
+
     sessions.forEach((s) => {
       const dayKey = new Date(s.started_at).toISOString().slice(0, 10);
       const info = map.get(dayKey);
@@ -166,7 +216,7 @@ export default function CalendarPage() {
     });
 
     return matrix.map((dateStr) => (dateStr ? map.get(dateStr)! : null));
-  }, [year, month, tasks, sessions]);
+  }, [year, month, tasks, sessions, studyBlocksMap]);
 
   // Datos del día seleccionado
   const selectedDayTasks = useMemo(
@@ -174,6 +224,11 @@ export default function CalendarPage() {
     [selectedDate, tasks],
   );
 
+  const selectedDayProjected = useMemo(
+    () => (selectedDate ? projectOccurrences(tasks, selectedDate, selectedDate) : []),
+    [selectedDate, tasks],
+  );
+
   const selectedDaySessions = useMemo(
     () =>
       selectedDate
@@ -184,27 +239,56 @@ export default function CalendarPage() {
     [selectedDate, sessions],
   );
 
+  const selectedDayBlocks = selectedDate ? studyBlocksMap.get(selectedDate) ?? [] : [];
+
+  // Abre el Pomodoro ya vinculado al examen del bloque
+  const startBlock = (block: StudyBlock) => {
+    const course = block.courseId ? coursesMap.get(block.courseId) : null;
+    const topic = nextExamTopic(planTopics.get(block.planId) ?? []);
+    savePomodoroExamContext({
+      courseId: block.courseId,
+      examName: block.examName,
+      suggested: block.minutes,
+      courseName: course?.name ?? null,
+      planId: block.planId,
+      blockMinutes: block.minutes,
+      examTopicId: topic?.id,
+      examTopicName: topic?.name,
+      autoStart: true,
+    });
+    router.push('/pomodoro');
+  };
+
   const selectedDayMinutes = selectedDaySessions.reduce(
     (acc, s) => acc + (s.duration_minutes || 0),
     0,
   );
 
-  // Toggle completado de una tarea (optimista)
+  // Toggle completado de una tarea; completar una recurrente crea la siguiente
   const toggleTask = useCallback(
-    async (taskId: string, current: boolean) => {
-      setToggling(taskId);
-      const { error } = await supabaseClient
-        .from('tasks')
-        .update({ completed: !current })
-        .eq('id', taskId);
-      if (!error) {
-        setTasks((prev) =>
-          prev.map((t) => (t.id === taskId ? { ...t, completed: !current } : t)),
-        );
+    async (task: Task) => {
+      if (!user) return;
+      setToggling(task.id);
+      if (task.completed) {
+        const { error } = await updateTask(user.id, task.id, { completed: false });
+        if (!error) {
+          setTasks((prev) =>
+            prev.map((t) => (t.id === task.id ? { ...t, completed: false } : t)),
+          );
+        }
+      } else {
+        const { data, error } = await completeTask(user.id, task);
+        if (!error) {
+          setTasks((prev) => [
+            ...(data.next ? [data.next] : []),
+            ...prev.map((t) => (t.id === task.id ? data.task : t)),
+          ]);
+          if (data.nextError) setError('La tarea se completó, pero no se pudo crear la siguiente repetición.');
+        }
       }
       setToggling(null);
     },
-    [],
+    [user],
   );
 
   const monthLabel = new Date(year, month, 1).toLocaleString('es-AR', {
@@ -397,7 +481,7 @@ export default function CalendarPage() {
                     {/* Indicadores */}
                     <div className="flex-1 flex flex-col justify-end gap-1">
                       {/* Puntos de color por materia */}
-                      {info.tasks.length > 0 && (
+                      {(info.tasks.length > 0 || info.projected.length > 0) && (
                         <div className="flex items-center gap-0.5 flex-wrap">
                           {info.tasks.slice(0, 3).map((t) => {
                             const course = t.course_id ? coursesMap.get(t.course_id) : null;
@@ -417,6 +501,26 @@ export default function CalendarPage() {
                               +{info.tasks.length - 3}
                             </span>
                           )}
+                          {/* Repeticiones futuras: solo contorno */}
+                          {info.projected.slice(0, 2).map((p) => {
+                            const course = p.task.course_id ? coursesMap.get(p.task.course_id) : null;
+                            return (
+                              <span
+                                key={`${p.task.series_id}-${p.date}`}
+                                className="w-2 h-2 rounded-full shrink-0 border"
+                                style={{ borderColor: course?.color || 'var(--accent)' }}
+                              />
+                            );
+                          })}
+                        </div>
+                      )}
+                      {/* Bloques de estudio agendados */}
+                      {info.studyBlocks.length > 0 && (
+                        <div className="flex items-center gap-1">
+                          <span className="w-1.5 h-1.5 rounded-sm bg-[var(--primary-soft)]" />
+                          <span className="text-[10px] text-[var(--primary-soft)] font-medium">
+                            {info.studyBlocks.reduce((acc, b) => acc + b.minutes, 0)} min plan
+                          </span>
                         </div>
                       )}
                       {/* Minutos de enfoque */}
@@ -446,6 +550,8 @@ export default function CalendarPage() {
               <p className="font-semibold text-[var(--foreground)] capitalize">{selectedDateLabel}</p>
               <p className="text-xs text-[var(--text-muted)] mt-0.5">
                 {selectedDayTasks.length} {selectedDayTasks.length === 1 ? 'tarea' : 'tareas'}
+                {selectedDayBlocks.length > 0 &&
+                  ` · ${selectedDayBlocks.reduce((acc, b) => acc + b.minutes, 0)} min de estudio agendados`}
                 {selectedDayMinutes > 0 && ` · ${selectedDayMinutes} min de enfoque`}
               </p>
             </div>
@@ -473,7 +579,51 @@ export default function CalendarPage() {
 
           {/* Lista de tareas */}
           <div className="px-5 py-4">
-            {selectedDayTasks.length === 0 ? (
+            {/* Bloques de estudio del planificador */}
+            {selectedDayBlocks.length > 0 && (
+              <div className="mb-4 flex flex-col gap-2">
+                {selectedDayBlocks.map((block) => {
+                  const course = block.courseId ? coursesMap.get(block.courseId) : null;
+                  const topic = nextExamTopic(planTopics.get(block.planId) ?? []);
+                  const canStart = selectedDate === todayStr;
+                  return (
+                    <div
+                      key={block.planId}
+                      className="flex items-center gap-3 p-3 rounded-xl border border-[var(--primary-soft)]/30 bg-[var(--primary-soft)]/8"
+                    >
+                      <span
+                        className="w-2.5 h-2.5 rounded-sm shrink-0"
+                        style={{ backgroundColor: course?.color || 'var(--primary-soft)' }}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-[var(--foreground)] truncate">
+                          Estudiar para {block.examName}
+                          {topic && <span className="text-[var(--text-muted)] font-normal"> · {topic.name}</span>}
+                        </p>
+                        <p className="text-[11px] text-[var(--text-muted)] truncate">
+                          {block.minutes} min
+                          {course && ` · ${course.name}`}
+                          {' · examen el '}
+                          {new Date(block.examDate + 'T12:00:00').toLocaleDateString('es-AR', {
+                            day: 'numeric',
+                            month: 'short',
+                          })}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => startBlock(block)}
+                        className="shrink-0 px-3 py-1.5 rounded-lg bg-[var(--accent)] text-[var(--foreground)] text-xs font-semibold hover:opacity-90 transition-opacity"
+                        title={canStart ? 'Iniciar Pomodoro para este bloque' : 'Adelantar este bloque con un Pomodoro'}
+                      >
+                        ▶ Pomodoro
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {selectedDayTasks.length === 0 && selectedDayProjected.length === 0 ? (
               <div className="flex flex-col items-center justify-center py-8 rounded-xl bg-[var(--background)]/60 border border-dashed border-[var(--card-border)]">
                 <svg className="w-8 h-8 text-[var(--text-muted)] mb-2 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
@@ -503,7 +653,7 @@ export default function CalendarPage() {
                     >
                       {/* Checkbox */}
                       <button
-                        onClick={() => toggleTask(task.id, task.completed)}
+                        onClick={() => toggleTask(task)}
                         disabled={isToggling}
                         aria-label={task.completed ? 'Marcar como pendiente' : 'Marcar como completada'}
                         className="shrink-0 w-5 h-5 rounded-md border-2 flex items-center justify-center transition-all duration-200 disabled:opacity-50"
@@ -561,6 +711,34 @@ export default function CalendarPage() {
                     </div>
                   );
                 })}
+
+                {/* Repeticiones futuras (se crean al completar la anterior) */}
+                {selectedDayProjected.map(({ task, date }) => {
+                  const course = task.course_id ? coursesMap.get(task.course_id) : null;
+                  return (
+                    <div
+                      key={`${task.series_id}-${date}`}
+                      className="flex items-center gap-3 p-3 rounded-xl border border-dashed border-[var(--card-border)] bg-[var(--background)]/40"
+                    >
+                      <span className="shrink-0 w-5 h-5 flex items-center justify-center text-[var(--accent)] text-sm">
+                        ↻
+                      </span>
+                      {course && (
+                        <span
+                          className="w-2.5 h-2.5 rounded-full shrink-0"
+                          style={{ backgroundColor: course.color || 'var(--accent)' }}
+                          title={course.name}
+                        />
+                      )}
+                      <span className="flex-1 text-sm min-w-0 truncate text-[var(--text-muted)]">
+                        {task.title}
+                      </span>
+                      <span className="text-[10px] text-[var(--text-muted)] shrink-0 hidden sm:block">
+                        {task.recurrence ? describeRecurrence(task.recurrence) : ''}
+                      </span>
+                    </div>
+                  );
+                })}
               </div>
             )}
 
@@ -584,6 +762,14 @@ export default function CalendarPage() {
           <span className="w-3 h-3 rounded-full bg-[var(--accent)]" />
           <span className="text-[var(--text-muted)]">Tareas (color = materia)</span>
         </div>
+        <div className="flex items-center gap-2">
+          <span className="w-3 h-3 rounded-full border-2 border-[var(--accent)]" />
+          <span className="text-[var(--text-muted)]">Repetición futura</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="w-3 h-3 rounded-sm bg-[var(--primary-soft)]" />
+          <span className="text-[var(--text-muted)]">Bloque de estudio agendado</span>
+        </div>
         <div className="flex items-center gap-2">
           <span className="w-3 h-3 rounded-full bg-[var(--success)]" />
           <span className="text-[var(--text-muted)]">Tiempo de enfoque</span>
@@ -593,6 +779,9 @@ export default function CalendarPage() {
           <span className="text-[var(--text-muted)]">Día actual</span>
         </div>
       </section>
+
+      {/* Exportar / suscribirse (.ics) */}
+      <CalendarSync />
     </main>
   );
 }
@@ -1,25 +1,22 @@
 'use client';
 
-import { FormEvent, useEffect, useState } from 'react';
+import { FormEvent, useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { useAuth } from '@/context/AuthContext';
 import { usePlan } from '@/context/PlanContext';
-import { supabaseClient } from '@/lib/supabaseClient';
+import { useTerm } from '@/context/TermContext';
+import { createCourse, deleteCourse, listCourses, updateCourse, type Course } from '@/lib/db';
 import { validateCourseName, validateColor } from '@/lib/validation';
 import { getLimitMessage } from '@/lib/plans';
+import { countActiveCourses, countsTowardLimit, filterCoursesByTerm } from '@/lib/terms';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
-
-type Course = {
-  id: string;
-  user_id: string;
-  name: string;
-  color: string | null;
-  created_at: string;
-};
+import { TermManager } from '@/components/TermManager';
 
 export default function CoursesPage() {
   const { user, loading } = useAuth();
   const { isWithinLimit } = usePlan();
+  const { terms, selection, activeTerm } = useTerm();
   const router = useRouter();
 
   const [courses, setCourses] = useState<Course[]>([]);
@@ -28,6 +25,8 @@ export default function CoursesPage() {
 
   const [name, setName] = useState('');
   const [color, setColor] = useState('#80499d');
+  // null: la materia nueva va al cuatrimestre activo del switcher
+  const [termChoice, setTermChoice] = useState<string | null>(null);
 
   const [courseToDelete, setCourseToDelete] = useState<Course | null>(null);
   const [deleting, setDeleting] = useState(false);
@@ -45,16 +44,12 @@ export default function CoursesPage() {
       setLoadingCourses(true);
       setError(null);
 
-      const { data, error } = await supabaseClient
-        .from('courses')
-        .select('id, user_id, name, color, created_at')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: true });
+      const { data, error } = await listCourses(user.id, 'created_at');
 
       if (error) {
         setError('No se pudieron cargar las materias.');
       } else {
-        setCourses((data ?? []) as Course[]);
+        setCourses(data);
       }
 
       setLoadingCourses(false);
@@ -63,6 +58,13 @@ export default function CoursesPage() {
     fetchCourses();
   }, [user]);
 
+  const visibleCourses = useMemo(
+    () => filterCoursesByTerm(courses, selection),
+    [courses, selection],
+  );
+
+  const formTermId = termChoice ?? (selection === 'all' ? '' : selection);
+
   const handleAddCourse = async (e: FormEvent) => {
     e.preventDefault();
     if (!user) return;
@@ -81,33 +83,53 @@ export default function CoursesPage() {
       return;
     }
 
-    // Verificar límite del plan
-    if (!isWithinLimit('courses', courses.length)) {
+    // Verificar límite del plan (las materias archivadas no cuentan)
+    if (!isWithinLimit('courses', countActiveCourses(courses, terms))) {
       setError(getLimitMessage('courses'));
       return;
     }
 
     setError(null);
 
-    const { data, error } = await supabaseClient
-      .from('courses')
-      .insert({
-        user_id: user.id,
-        name: name.trim(),
-        color: color || null,
-      })
-      .select('id, user_id, name, color, created_at')
-      .single();
+    const { data, error } = await createCourse(user.id, {
+      name: name.trim(),
+      color: color || null,
+      term_id: formTermId || null,
+    });
 
     if (error) {
       setError('No se pudo crear la materia.');
       return;
     }
 
-    setCourses((prev) => [...prev, data as Course]);
+    setCourses((prev) => [...prev, data]);
     setName('');
   };
 
+  const moveCourse = async (course: Course, termId: string) => {
+    if (!user) return;
+
+    const moved = { ...course, term_id: termId || null };
+    if (
+      !countsTowardLimit(course, terms) &&
+      countsTowardLimit(moved, terms) &&
+      !isWithinLimit('courses', countActiveCourses(courses, terms))
+    ) {
+      setError(getLimitMessage('courses'));
+      return;
+    }
+
+    setError(null);
+    const { data, error } = await updateCourse(user.id, course.id, { term_id: moved.term_id });
+
+    if (error) {
+      setError('No se pudo cambiar el cuatrimestre de la materia.');
+      return;
+    }
+
+    setCourses((prev) => prev.map((c) => (c.id === data.id ? data : c)));
+  };
+
   const askDeleteCourse = (course: Course) => {
     setCourseToDelete(course);
   };
@@ -120,11 +142,7 @@ export default function CoursesPage() {
     if (!courseToDelete || !user) return;
 
     setDeleting(true);
-    const { error } = await supabaseClient
-      .from('courses')
-      .delete()
-      .eq('id', courseToDelete.id)
-      .eq('user_id', user.id);
+    const { error } = await deleteCourse(user.id, courseToDelete.id);
 
     setDeleting(false);
 
@@ -156,6 +174,12 @@ export default function CoursesPage() {
           <p className="text-[var(--text-muted)] max-w-md mx-auto">
             Organiza tus cursos y asignaturas para gestionar mejor tus tareas académicas
           </p>
+          <Link
+            href="/import?target=courses"
+            className="inline-block mt-3 text-sm text-[var(--accent)] hover:underline"
+          >
+            Importar desde CSV o JSON
+          </Link>
         </header>
 
         {/* Formulario nueva materia */}
@@ -198,6 +222,23 @@ export default function CoursesPage() {
                 <span className="text-sm text-[var(--text-soft)]">Color</span>
               </label>
 
+              {terms.length > 0 && (
+                <select
+                  value={formTermId}
+                  onChange={(e) => setTermChoice(e.target.value)}
+                  className="px-3 py-3 rounded-xl border border-[var(--card-border)] bg-[var(--background)] text-sm text-[var(--foreground)]"
+                  aria-label="Cuatrimestre"
+                >
+                  <option value="">Sin cuatrimestre</option>
+                  {terms.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}
+                      {t.archived ? ' (archivado)' : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+
               <button
                 type="submit"
                 className="px-6 py-3 rounded-xl bg-[var(--accent)] text-[var(--foreground)] font-semibold hover:opacity-90 transition-opacity shadow-sm"
@@ -214,14 +255,23 @@ export default function CoursesPage() {
           )}
         </section>
 
+        <TermManager
+          courses={courses}
+          onTermDeleted={(termId) =>
+            setCourses((prev) =>
+              prev.map((c) => (c.term_id === termId ? { ...c, term_id: null } : c)),
+            )
+          }
+        />
+
         {/* Lista de materias */}
         <section>
           <div className="flex items-center justify-between mb-4">
             <h2 className="font-semibold text-[var(--foreground)]">
-              Tus materias
+              {activeTerm ? `Materias de ${activeTerm.name}` : 'Tus materias'}
             </h2>
             <span className="text-xs text-[var(--text-muted)] bg-[var(--card-bg)] px-3 py-1 rounded-full border border-[var(--card-border)]">
-              {courses.length} {courses.length === 1 ? 'materia' : 'materias'}
+              {visibleCourses.length} {visibleCourses.length === 1 ? 'materia' : 'materias'}
             </span>
           </div>
 
@@ -229,21 +279,24 @@ export default function CoursesPage() {
             <div className="flex items-center justify-center py-12">
               <div className="w-8 h-8 border-2 border-[var(--accent)] border-t-transparent rounded-full animate-spin" />
             </div>
-          ) : courses.length === 0 ? (
+          ) : visibleCourses.length === 0 ? (
             <div className="text-center py-12 border border-dashed border-[var(--card-border)] rounded-2xl bg-[var(--card-bg)]/50">
               <div className="w-16 h-16 mx-auto mb-4 rounded-2xl bg-[var(--accent)]/10 flex items-center justify-center">
                 <svg className="w-8 h-8 text-[var(--accent)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
                 </svg>
               </div>
-              <p className="text-[var(--text-muted)] mb-1">No tienes materias todavía</p>
+              <p className="text-[var(--text-muted)] mb-1">
+                {activeTerm ? 'No hay materias en este cuatrimestre' : 'No tienes materias todavía'}
+              </p>
               <p className="text-xs text-[var(--text-muted)]">Agrega tu primera materia usando el formulario de arriba</p>
             </div>
           ) : (
             <div className="grid gap-3 sm:grid-cols-2">
-              {courses.map((c) => (
+              {visibleCourses.map((c) => (
                 <div
                   key={c.id}
+                  id={`materia-${c.id}`}
                   className="group relative flex items-center gap-4 p-4 rounded-2xl border border-[var(--card-border)] bg-[var(--card-bg)] hover:border-[var(--primary-soft)]/30 transition-all duration-200"
                 >
                   {/* Indicador de color */}
@@ -259,6 +312,22 @@ export default function CoursesPage() {
                     <h3 className="font-medium text-[var(--foreground)] truncate">
                       {c.name}
                     </h3>
+                    {terms.length > 0 && (
+                      <select
+                        value={c.term_id ?? ''}
+                        onChange={(e) => moveCourse(c, e.target.value)}
+                        className="mt-1 max-w-full text-xs bg-transparent text-[var(--text-muted)] focus:outline-none"
+                        aria-label={`Cuatrimestre de ${c.name}`}
+                      >
+                        <option value="">Sin cuatrimestre</option>
+                        {terms.map((t) => (
+                          <option key={t.id} value={t.id}>
+                            {t.name}
+                            {t.archived ? ' (archivado)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    )}
                   </div>
 
                   {/* Botón eliminar */}
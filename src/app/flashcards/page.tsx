@@ -0,0 +1,296 @@
+// src/app/flashcards/page.tsx
+'use client';
+
+import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/context/AuthContext';
+import { useTerm } from '@/context/TermContext';
+import {
+  createDeck,
+  listCards,
+  listCourses,
+  listDecks,
+  logCardReview,
+  updateCard,
+  type Course,
+  type Flashcard,
+  type FlashcardDeck,
+} from '@/lib/db';
+import { filterCoursesByTerm } from '@/lib/terms';
+import { dueCards } from '@/lib/flashcards';
+import { reviewPatch, type ReviewRating } from '@/lib/spacedRepetition';
+import { DeckEditor } from '@/components/DeckEditor';
+import { FlashcardStudy } from '@/components/FlashcardStudy';
+import { FaChevronDown, FaChevronUp, FaLayerGroup, FaPlay, FaPlus } from 'react-icons/fa';
+
+export default function FlashcardsPage() {
+  const { user, loading } = useAuth();
+  const { selection, activeTerm } = useTerm();
+  const router = useRouter();
+
+  const [decks, setDecks] = useState<FlashcardDeck[]>([]);
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [loadingData, setLoadingData] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [formCourseId, setFormCourseId] = useState('');
+  const [formName, setFormName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [openDeckId, setOpenDeckId] = useState<string | null>(null);
+  // Mazo en estudio y la cola armada al abrirlo
+  const [study, setStudy] = useState<{ deck: FlashcardDeck; queue: Flashcard[] } | null>(null);
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/login');
+    }
+  }, [loading, user, router]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchData = async () => {
+      setLoadingData(true);
+      setError(null);
+
+      const [decksRes, cardsRes, coursesRes] = await Promise.all([
+        listDecks(user.id),
+        listCards(user.id),
+        listCourses(user.id),
+      ]);
+
+      if (decksRes.error || cardsRes.error) {
+        setError('No se pudieron cargar los mazos. Verificá que las tablas de tarjetas existan en Supabase.');
+      } else {
+        setDecks(decksRes.data);
+        setCards(cardsRes.data);
+      }
+      setCourses(coursesRes.data ?? []);
+      setLoadingData(false);
+    };
+
+    fetchData();
+  }, [user]);
+
+  const termCourses = useMemo(() => filterCoursesByTerm(courses, selection), [courses, selection]);
+  const coursesMap = useMemo(() => new Map(courses.map((c) => [c.id, c])), [courses]);
+
+  const visibleDecks = useMemo(() => {
+    const ids = new Set(termCourses.map((c) => c.id));
+    return decks.filter((d) => ids.has(d.course_id));
+  }, [decks, termCourses]);
+
+  // deck_id → tarjetas
+  const cardsByDeck = useMemo(() => {
+    const m = new Map<string, Flashcard[]>();
+    cards.forEach((c) => m.set(c.deck_id, [...(m.get(c.deck_id) ?? []), c]));
+    return m;
+  }, [cards]);
+
+  const courseId = formCourseId || termCourses[0]?.id || '';
+
+  const handleCreateDeck = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const name = formName.trim();
+    if (!name) {
+      setError('Escribí el nombre del mazo.');
+      return;
+    }
+    if (!courseId) {
+      setError('Elegí una materia para el mazo.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const { data, error: insertError } = await createDeck(user.id, { course_id: courseId, name });
+    setSaving(false);
+
+    if (insertError) {
+      setError('No se pudo crear el mazo.');
+      return;
+    }
+    setDecks((prev) => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+    setFormName('');
+    setOpenDeckId(data.id);
+  };
+
+  const handleRate = async (card: Flashcard, rating: ReviewRating) => {
+    if (!user) return null;
+
+    const { data, error: updateError } = await updateCard(
+      user.id,
+      card.id,
+      reviewPatch(card, rating, today),
+    );
+    if (updateError) return null;
+
+    // El historial alimenta las estadísticas; si falla, la tarjeta ya quedó agendada
+    await logCardReview(user.id, { card_id: card.id, deck_id: card.deck_id, rating });
+    setCards((prev) => prev.map((c) => (c.id === card.id ? data : c)));
+    return data;
+  };
+
+  if (loading || (!user && !loading)) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-[var(--accent)] border-t-transparent rounded-full animate-spin" />
+      </main>
+    );
+  }
+
+  return (
+    <main className="max-w-3xl mx-auto px-6 py-10 flex flex-col gap-8">
+      <header>
+        <h1 className="text-2xl font-bold flex items-center gap-2 text-[var(--foreground)]">
+          <FaLayerGroup className="text-[var(--accent)]" />
+          Tarjetas
+        </h1>
+        <p className="text-sm text-[var(--text-muted)] mt-1">
+          Mazos por materia con repaso espaciado: cada tarjeta vuelve cuando estás por olvidarla
+        </p>
+      </header>
+
+      {/* Nuevo mazo */}
+      <section className="border border-[var(--card-border)] rounded-2xl p-6 bg-[var(--card-bg)]">
+        {courses.length === 0 && !loadingData ? (
+          <p className="text-sm text-[var(--text-muted)]">
+            Primero{' '}
+            <Link href="/courses" className="text-[var(--accent)] hover:underline">
+              creá una materia
+            </Link>{' '}
+            para armar sus mazos.
+          </p>
+        ) : (
+          <form onSubmit={handleCreateDeck} className="flex flex-col sm:flex-row gap-3">
+            <select
+              value={courseId}
+              onChange={(e) => setFormCourseId(e.target.value)}
+              className="px-3 py-2.5 rounded-xl border border-[var(--card-border)] bg-[var(--background)] text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/40"
+              aria-label="Materia"
+            >
+              {termCourses.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Ej: Definiciones de Análisis II"
+              value={formName}
+              onChange={(e) => setFormName(e.target.value)}
+              className="flex-1 px-3 py-2.5 rounded-xl border border-[var(--card-border)] bg-[var(--background)] text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/40"
+            />
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-[var(--accent)] text-[var(--foreground)] text-sm font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              <FaPlus size={11} />
+              Crear mazo
+            </button>
+          </form>
+        )}
+
+        {error && (
+          <p className="mt-3 text-sm text-[var(--danger)] bg-[var(--danger)]/10 px-4 py-2 rounded-lg">
+            {error}
+          </p>
+        )}
+      </section>
+
+      {/* Mazos */}
+      {loadingData ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-2 border-[var(--accent)] border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : visibleDecks.length === 0 ? (
+        <p className="text-sm text-[var(--text-muted)] py-10 text-center rounded-2xl border border-dashed border-[var(--card-border)]">
+          {activeTerm ? `No hay mazos en ${activeTerm.name}.` : 'Todavía no tenés mazos.'}
+        </p>
+      ) : (
+        <section className="flex flex-col gap-3">
+          {visibleDecks.map((deck) => {
+            const course = coursesMap.get(deck.course_id);
+            const deckCards = cardsByDeck.get(deck.id) ?? [];
+            const due = dueCards(deckCards, today);
+            const isOpen = openDeckId === deck.id;
+
+            return (
+              <article
+                key={deck.id}
+                className="border border-[var(--card-border)] rounded-2xl bg-[var(--card-bg)] overflow-hidden"
+              >
+                <div className="flex items-center gap-3 p-4">
+                  <span
+                    className="w-3 h-3 rounded-full shrink-0"
+                    style={{ backgroundColor: course?.color || 'var(--accent)' }}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-[var(--foreground)] truncate">{deck.name}</p>
+                    <p className="text-xs text-[var(--text-muted)] truncate">
+                      {course?.name} · {deckCards.length} {deckCards.length === 1 ? 'tarjeta' : 'tarjetas'}
+                      {due.length > 0 && (
+                        <span className="text-[var(--warn)] font-medium"> · {due.length} para hoy</span>
+                      )}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setStudy({ deck, queue: due })}
+                    disabled={due.length === 0}
+                    className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-[var(--accent)] text-[var(--foreground)] text-xs font-semibold hover:opacity-90 disabled:opacity-40"
+                  >
+                    <FaPlay size={9} />
+                    Estudiar
+                  </button>
+                  <button
+                    onClick={() => setOpenDeckId(isOpen ? null : deck.id)}
+                    className="w-8 h-8 flex items-center justify-center rounded-xl border border-[var(--card-border)] text-[var(--text-muted)] hover:text-[var(--foreground)]"
+                    aria-label={isOpen ? 'Cerrar mazo' : 'Editar mazo'}
+                  >
+                    {isOpen ? <FaChevronUp size={11} /> : <FaChevronDown size={11} />}
+                  </button>
+                </div>
+
+                {isOpen && (
+                  <div className="border-t border-[var(--card-border)] p-4">
+                    <DeckEditor
+                      deck={deck}
+                      cards={deckCards}
+                      today={today}
+                      onCardsAdded={(added) => setCards((prev) => [...prev, ...added])}
+                      onCardDeleted={(cardId) => setCards((prev) => prev.filter((c) => c.id !== cardId))}
+                      onDeckDeleted={() => {
+                        setDecks((prev) => prev.filter((d) => d.id !== deck.id));
+                        setCards((prev) => prev.filter((c) => c.deck_id !== deck.id));
+                        setOpenDeckId(null);
+                      }}
+                    />
+                  </div>
+                )}
+              </article>
+            );
+          })}
+        </section>
+      )}
+
+      {study && (
+        <FlashcardStudy
+          deckName={study.deck.name}
+          cards={study.queue}
+          today={today}
+          onRate={handleRate}
+          onClose={() => setStudy(null)}
+        />
+      )}
+    </main>
+  );
+}
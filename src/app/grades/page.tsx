@@ -5,8 +5,36 @@ import { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/context/AuthContext';
-import { supabaseClient } from '@/lib/supabaseClient';
+import { useTerm } from '@/context/TermContext';
+import { useGradingScale } from '@/context/GradingScaleContext';
+import {
+  createCourseGrade,
+  deleteCourseGrade,
+  listCourseGrades,
+  listCourses,
+  listExamPlans,
+  updateCourse,
+  type Course,
+  type CourseGrade,
+  type ExamPlan,
+} from '@/lib/db';
+import {
+  draftFromScheme,
+  EXAM_TYPES,
+  gradeBadgeClasses,
+  gradeColor,
+  gradeStatusLabel,
+  hasWeights,
+  schemeForCourse,
+  schemeFromDraft,
+  summarizeCourseGrades,
+  type GradingSchemeDraft,
+} from '@/lib/grades';
+import { courseIdsForTerm, filterCoursesByTerm } from '@/lib/terms';
+import { formatGrade, letterOptions, parseScaleInput, scaleStep } from '@/lib/gradingScales';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { FinalGradeCalculator } from '@/components/FinalGradeCalculator';
+import { GradingSchemeForm } from '@/components/GradingSchemeForm';
 import {
   FaGraduationCap,
   FaPlus,
@@ -17,67 +45,22 @@ import {
   FaChartLine,
   FaHistory,
   FaLayerGroup,
+  FaSlidersH,
 } from 'react-icons/fa';
 
-type Course = {
-  id: string;
-  name: string;
-};
-
-type CourseGradeRow = {
-  id: string;
-  course_id: string;
-  grade: number;
-  exam_type: string | null;
-  exam_date: string | null;
-  created_at: string;
-};
-
-type GradeWithCourse = CourseGradeRow & {
+type GradeWithCourse = CourseGrade & {
   courseName: string;
 };
 
-const EXAM_TYPES = [
-  'Primer parcial',
-  'Segundo parcial',
-  'Recuperatorio',
-  'Globalizador',
-  'Examen final',
-];
-
-// Clases para el color de la nota individual
-function gradeBadgeClasses(grade: number): string {
-  if (grade >= 8) {
-    return 'bg-[var(--success)]/15 text-[var(--success)] border-[var(--success)]/40';
-  }
-  if (grade >= 6) {
-    return 'bg-[var(--warn)]/15 text-[var(--warn)] border-[var(--warn)]/40';
-  }
-  return 'bg-[var(--danger)]/15 text-[var(--danger)] border-[var(--danger)]/40';
-}
-
-// Color sólido para el número grande
-function gradeColor(grade: number): string {
-  if (grade >= 8) return 'text-[var(--success)]';
-  if (grade >= 6) return 'text-[var(--warn)]';
-  return 'text-[var(--danger)]';
-}
-
-// Texto para la etiqueta de estado
-function gradeStatusLabel(grade: number): string {
-  if (grade >= 10) return 'Excelente';
-  if (grade >= 8) return 'Muy bien';
-  if (grade >= 6) return 'Aprobado';
-  if (grade >= 4) return 'En riesgo';
-  return 'Desaprobado';
-}
-
 export default function GradesPage() {
   const { user, loading } = useAuth();
+  const { selection, activeTerm } = useTerm();
+  const { scale } = useGradingScale();
   const router = useRouter();
 
   const [courses, setCourses] = useState<Course[]>([]);
   const [grades, setGrades] = useState<GradeWithCourse[]>([]);
+  const [examPlans, setExamPlans] = useState<ExamPlan[]>([]);
 
   const [loadingData, setLoadingData] = useState(true);
   const [formLoading, setFormLoading] = useState(false);
@@ -103,6 +86,13 @@ export default function GradesPage() {
   const [gradeToDelete, setGradeToDelete] = useState<string | null>(null);
   const [deleteLoadingId, setDeleteLoadingId] = useState<string | null>(null);
 
+  // Esquema de evaluación en edición
+  const [schemeCourse, setSchemeCourse] = useState<Course | null>(null);
+  const [schemeDraft, setSchemeDraft] = useState<GradingSchemeDraft>(() =>
+    draftFromScheme(schemeForCourse(null)),
+  );
+  const [savingScheme, setSavingScheme] = useState(false);
+
   // Proteger ruta
   useEffect(() => {
     if (!loading && !user) {
@@ -119,11 +109,7 @@ export default function GradesPage() {
       setError(null);
 
       // MATERIAS
-      const { data: coursesData, error: coursesError } = await supabaseClient
-        .from('courses')
-        .select('id, name')
-        .eq('user_id', user.id)
-        .order('name', { ascending: true });
+      const { data: coursesData, error: coursesError } = await listCourses(user.id);
 
       if (coursesError) {
         console.warn('Error cargando materias:', coursesError);
@@ -132,7 +118,7 @@ export default function GradesPage() {
         return;
       }
 
-      const coursesList = (coursesData ?? []) as Course[];
+      const coursesList = coursesData;
       setCourses(coursesList);
 
       if (coursesList.length > 0 && !selectedCourseId) {
@@ -140,12 +126,7 @@ export default function GradesPage() {
       }
 
       // NOTAS POR MATERIA
-      const { data: gradesData, error: gradesError } = await supabaseClient
-        .from('course_grades')
-        .select('id, course_id, grade, exam_type, exam_date, created_at')
-        .eq('user_id', user.id)
-        .order('exam_date', { ascending: false })
-        .order('created_at', { ascending: false });
+      const { data: gradesData, error: gradesError } = await listCourseGrades(user.id);
 
       if (gradesError) {
         console.warn('Error cargando notas de exámenes:', gradesError);
@@ -154,7 +135,7 @@ export default function GradesPage() {
         return;
       }
 
-      const rawGrades = (gradesData ?? []) as CourseGradeRow[];
+      const rawGrades = gradesData;
       const coursesMap = new Map(coursesList.map((c) => [c.id, c.name]));
 
       const withNames: GradeWithCourse[] = rawGrades.map((g) => ({
@@ -163,6 +144,11 @@ export default function GradesPage() {
       }));
 
       setGrades(withNames);
+
+      // Exámenes planificados (pendientes para la calculadora)
+      const { data: plansData } = await listExamPlans(user.id);
+      setExamPlans(plansData ?? []);
+
       setLoadingData(false);
     };
 
@@ -188,25 +174,21 @@ export default function GradesPage() {
       return;
     }
 
-    const numericGrade = Number(gradeValue.replace(',', '.'));
-    if (isNaN(numericGrade) || numericGrade < 0 || numericGrade > 10) {
-      setError('Ingrese una nota válida entre 0 y 10.');
+    // La nota se carga en la escala del usuario y se guarda de 0 a 10
+    const { grade: numericGrade, error: gradeError } = parseScaleInput(gradeValue, scale);
+    if (numericGrade === null) {
+      setError(gradeError ?? 'Ingrese una nota válida.');
       return;
     }
 
     setFormLoading(true);
 
-    const { data, error: insertError } = await supabaseClient
-      .from('course_grades')
-      .insert({
-        user_id: user.id,
-        course_id: selectedCourseId,
-        grade: numericGrade,
-        exam_type: examType,
-        exam_date: examDate || null,
-      })
-      .select('id, course_id, grade, exam_type, exam_date, created_at')
-      .single();
+    const { data: inserted, error: insertError } = await createCourseGrade(user.id, {
+      course_id: selectedCourseId,
+      grade: numericGrade,
+      exam_type: examType,
+      exam_date: examDate || null,
+    });
 
     setFormLoading(false);
 
@@ -215,9 +197,6 @@ export default function GradesPage() {
       return;
     }
 
-    if (!data) return;
-
-    const inserted = data as CourseGradeRow;
     const courseName =
       courses.find((c) => c.id === inserted.course_id)?.name ?? 'Materia';
 
@@ -255,11 +234,7 @@ export default function GradesPage() {
     setDeleteLoadingId(idToDelete);
     setError(null);
 
-    const { error: deleteError } = await supabaseClient
-      .from('course_grades')
-      .delete()
-      .eq('id', idToDelete)
-      .eq('user_id', user.id);
+    const { error: deleteError } = await deleteCourseGrade(user.id, idToDelete);
 
     setDeleteLoadingId(null);
     setDeleteDialogOpen(false);
@@ -273,28 +248,98 @@ export default function GradesPage() {
     setGrades((prev) => prev.filter((g) => g.id !== idToDelete));
   };
 
+  // --- Esquema de evaluación por materia ---
+  const openSchemeEditor = (course: Course) => {
+    setSchemeCourse(course);
+    setSchemeDraft(draftFromScheme(schemeForCourse(course, scale), scale));
+    setError(null);
+  };
+
+  const handleSaveScheme = async () => {
+    if (!user || !schemeCourse) return;
+
+    const { scheme, error: schemeError } = schemeFromDraft(schemeDraft, scale);
+    if (!scheme) {
+      setError(schemeError ?? 'Esquema inválido.');
+      return;
+    }
+
+    setSavingScheme(true);
+    const { data: updated, error: updateError } = await updateCourse(user.id, schemeCourse.id, {
+      grading_scheme: scheme,
+    });
+    setSavingScheme(false);
+
+    if (updateError) {
+      setError('No se pudo guardar el esquema de evaluación.');
+      return;
+    }
+
+    setCourses((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+    setSchemeCourse(null);
+  };
+
+  const coursesById = useMemo(() => new Map(courses.map((c) => [c.id, c])), [courses]);
+
+  // Materias y notas del cuatrimestre elegido en el sidebar
+  const termCourses = useMemo(() => filterCoursesByTerm(courses, selection), [courses, selection]);
+  const termGrades = useMemo(() => {
+    const ids = courseIdsForTerm(courses, selection);
+    return ids ? grades.filter((g) => ids.has(g.course_id)) : grades;
+  }, [grades, courses, selection]);
+
   // Agrupar notas por materia
   const groupedGrades = useMemo(() => {
     const map = new Map<string, GradeWithCourse[]>();
-    for (const g of grades) {
+    for (const g of termGrades) {
       if (filterCourseId !== 'all' && g.course_id !== filterCourseId) continue;
       const list = map.get(g.course_id) ?? [];
       list.push(g);
       map.set(g.course_id, list);
     }
     return map;
-  }, [grades, filterCourseId]);
+  }, [termGrades, filterCourseId]);
 
-  // Estadísticas generales
+  // Resumen por materia según su esquema (todas las notas, sin filtro)
+  const courseSummaries = useMemo(() => {
+    const byCourse = new Map<string, GradeWithCourse[]>();
+    for (const g of grades) {
+      const list = byCourse.get(g.course_id) ?? [];
+      list.push(g);
+      byCourse.set(g.course_id, list);
+    }
+    return new Map(
+      Array.from(byCourse.entries()).map(([courseId, list]) => [
+        courseId,
+        summarizeCourseGrades(list, schemeForCourse(coursesById.get(courseId), scale)),
+      ]),
+    );
+  }, [grades, coursesById, scale]);
+
+  // Estadísticas del cuatrimestre (el promedio es el de las notas de cada materia)
   const stats = useMemo(() => {
-    if (grades.length === 0) return null;
-    const total = grades.length;
-    const sum = grades.reduce((acc, g) => acc + g.grade, 0);
-    const avg = sum / total;
-    const approved = grades.filter((g) => g.grade >= 6).length;
-    const highest = Math.max(...grades.map((g) => g.grade));
-    return { total, avg, approved, highest };
-  }, [grades]);
+    if (termGrades.length === 0) return null;
+    const total = termGrades.length;
+    const meanOf = (courseIds: string[]) => {
+      const averages = courseIds
+        .map((id) => courseSummaries.get(id)?.average ?? null)
+        .filter((a): a is number => a !== null);
+      return averages.reduce((acc, a) => acc + a, 0) / (averages.length || 1);
+    };
+    const approved = termGrades.filter(
+      (g) => g.grade >= schemeForCourse(coursesById.get(g.course_id), scale).passing_grade,
+    ).length;
+    const best = termGrades.reduce((a, b) => (b.grade > a.grade ? b : a));
+    return {
+      total,
+      avg: meanOf(Array.from(new Set(termGrades.map((g) => g.course_id)))),
+      // Promedio acumulado: todas las materias, de todos los cuatrimestres
+      cumulativeAvg: meanOf(Array.from(courseSummaries.keys())),
+      approved,
+      highest: best.grade,
+      highestScheme: schemeForCourse(coursesById.get(best.course_id), scale),
+    };
+  }, [termGrades, courseSummaries, coursesById, scale]);
 
   if (loading || (!user && !loading)) {
     return (
@@ -318,15 +363,23 @@ export default function GradesPage() {
               Registra y visualiza tus calificaciones por materia
             </p>
           </div>
-          <button
-            type="button"
-            onClick={() => setShowModal(true)}
-            disabled={!hasCourses}
-            className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-[var(--accent)] text-[var(--foreground)] font-semibold text-sm hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <FaPlus className="text-xs" />
-            Nueva nota
-          </button>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/import?target=grades"
+              className="px-4 py-2.5 rounded-xl border border-[var(--card-border)] text-sm text-[var(--text-muted)] hover:text-[var(--foreground)] hover:border-[var(--primary-soft)] transition-all duration-200"
+            >
+              Importar
+            </Link>
+            <button
+              type="button"
+              onClick={() => setShowModal(true)}
+              disabled={!hasCourses}
+              className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-[var(--accent)] text-[var(--foreground)] font-semibold text-sm hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FaPlus className="text-xs" />
+              Nueva nota
+            </button>
+          </div>
         </header>
 
         {error && (
@@ -350,12 +403,18 @@ export default function GradesPage() {
             <article className="border border-[var(--card-border)] rounded-2xl p-4 bg-[var(--card-bg)]">
               <div className="flex items-center gap-2 mb-2">
                 <FaChartLine className="text-[var(--primary-soft)] text-sm" />
-                <span className="text-xs text-muted uppercase tracking-wide">Promedio</span>
+                <span className="text-xs text-muted uppercase tracking-wide">
+                  {activeTerm ? 'Promedio del cuatrimestre' : 'Promedio'}
+                </span>
               </div>
-              <p className={`text-2xl font-bold ${gradeColor(stats.avg)}`}>
-                {stats.avg.toFixed(2)}
+              <p className={`text-2xl font-bold ${gradeColor(stats.avg, undefined, scale)}`}>
+                {formatGrade(stats.avg, scale)}
+              </p>
+              <p className="text-xs text-muted">
+                {activeTerm
+                  ? `Acumulado: ${formatGrade(stats.cumulativeAvg, scale)}`
+                  : gradeStatusLabel(stats.avg, undefined, scale)}
               </p>
-              <p className="text-xs text-muted">{gradeStatusLabel(stats.avg)}</p>
             </article>
 
             <article className="border border-[var(--card-border)] rounded-2xl p-4 bg-[var(--card-bg)]">
@@ -372,10 +431,10 @@ export default function GradesPage() {
                 <FaTrophy className="text-[var(--warn)] text-sm" />
                 <span className="text-xs text-muted uppercase tracking-wide">Mejor nota</span>
               </div>
-              <p className={`text-2xl font-bold ${gradeColor(stats.highest)}`}>
-                {stats.highest.toFixed(2)}
+              <p className={`text-2xl font-bold ${gradeColor(stats.highest, stats.highestScheme, scale)}`}>
+                {formatGrade(stats.highest, scale)}
               </p>
-              <p className="text-xs text-muted">{gradeStatusLabel(stats.highest)}</p>
+              <p className="text-xs text-muted">{gradeStatusLabel(stats.highest, stats.highestScheme, scale)}</p>
             </article>
           </section>
         )}
@@ -399,6 +458,11 @@ export default function GradesPage() {
           </div>
         )}
 
+        {/* Calculadora de nota necesaria */}
+        {hasCourses && !loadingData && (
+          <FinalGradeCalculator courses={termCourses} grades={termGrades} examPlans={examPlans} />
+        )}
+
         {/* Filtro y listado */}
         {hasCourses && (
           <>
@@ -441,7 +505,7 @@ export default function GradesPage() {
                 className="text-sm border border-[var(--card-border)] rounded-xl px-3 py-2 bg-[var(--card-bg)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/50"
               >
                 <option value="all">Todas las materias</option>
-                {courses.map((c) => (
+                {termCourses.map((c) => (
                   <option key={c.id} value={c.id}>
                     {c.name}
                   </option>
@@ -454,7 +518,7 @@ export default function GradesPage() {
               <div className="flex items-center justify-center py-12">
                 <div className="w-8 h-8 border-2 border-[var(--accent)] border-t-transparent rounded-full animate-spin" />
               </div>
-            ) : grades.length === 0 ? (
+            ) : termGrades.length === 0 ? (
               <div className="text-center py-12 border border-dashed border-[var(--card-border)] rounded-2xl bg-[var(--card-bg)]/50">
                 <div className="w-16 h-16 mx-auto mb-4 rounded-2xl bg-[var(--accent)]/10 flex items-center justify-center">
                   <FaGraduationCap className="text-2xl text-[var(--accent)]" />
@@ -474,7 +538,10 @@ export default function GradesPage() {
                 <div className="flex flex-col gap-4">
                   {Array.from(groupedGrades.entries()).map(([courseIdKey, list]) => {
                     const courseName = list[0]?.courseName ?? 'Materia';
-                    const avg = list.reduce((acc, g) => acc + g.grade, 0) / list.length;
+                    const course = coursesById.get(courseIdKey) ?? null;
+                    const scheme = schemeForCourse(course, scale);
+                    const summary = courseSummaries.get(courseIdKey);
+                    const avg = summary?.average ?? 0;
 
                     return (
                       <article
@@ -489,14 +556,33 @@ export default function GradesPage() {
                             </div>
                             <div>
                               <h3 className="font-semibold">{courseName}</h3>
-                              <p className="text-xs text-muted">{list.length} {list.length === 1 ? 'nota' : 'notas'}</p>
+                              <p className="text-xs text-muted">
+                                {list.length} {list.length === 1 ? 'nota' : 'notas'}
+                                {summary && summary.evaluatedShare !== null &&
+                                  ` · ponderado, ${Math.round(summary.evaluatedShare * 100)}% evaluado`}
+                              </p>
                             </div>
                           </div>
-                          <div className="text-right">
-                            <p className="text-xs text-muted">Promedio</p>
-                            <p className={`text-xl font-bold ${gradeColor(avg)}`}>
-                              {avg.toFixed(2)}
-                            </p>
+                          <div className="flex items-center gap-3">
+                            {course && (
+                              <button
+                                type="button"
+                                onClick={() => openSchemeEditor(course)}
+                                className="p-2 rounded-lg text-muted hover:text-[var(--foreground)] hover:bg-[var(--card-border)]/40 transition-colors"
+                                title="Esquema de evaluación"
+                              >
+                                <FaSlidersH className="text-sm" />
+                              </button>
+                            )}
+                            <div className="text-right">
+                              <p className="text-xs text-muted">{hasWeights(scheme) ? 'Nota' : 'Promedio'}</p>
+                              <p className={`text-xl font-bold ${gradeColor(avg, scheme, scale)}`}>
+                                {formatGrade(avg, scale)}
+                              </p>
+                              <p className={`text-[10px] ${gradeColor(avg, scheme, scale)}`}>
+                                {gradeStatusLabel(avg, scheme, scale)}
+                              </p>
+                            </div>
                           </div>
                         </div>
 
@@ -510,25 +596,32 @@ export default function GradesPage() {
                                   year: 'numeric',
                                 })
                               : null;
+                            const replaced = summary?.replacedIds.has(g.id) ?? false;
 
                             return (
                               <div
                                 key={g.id}
+                                id={`nota-${g.id}`}
                                 className="flex items-center justify-between p-4 hover:bg-[var(--card-bg)]/50 transition-colors group"
                               >
-                                <div className="flex items-center gap-4">
+                                <div className={`flex items-center gap-4 ${replaced ? 'opacity-50' : ''}`}>
                                   <span
-                                    className={`w-14 h-14 rounded-xl flex items-center justify-center text-lg font-bold border ${gradeBadgeClasses(g.grade)}`}
+                                    className={`w-14 h-14 rounded-xl flex items-center justify-center text-lg font-bold border ${gradeBadgeClasses(g.grade, scheme, scale)}`}
                                   >
-                                    {g.grade.toFixed(1)}
+                                    {formatGrade(g.grade, scale, 1)}
                                   </span>
                                   <div>
                                     <p className="font-medium">
                                       {g.exam_type || 'Examen'}
+                                      {g.exam_type && (scheme.weights[g.exam_type] ?? 0) > 0 && (
+                                        <span className="ml-2 text-xs text-muted font-normal">
+                                          {scheme.weights[g.exam_type]}%
+                                        </span>
+                                      )}
                                     </p>
                                     <div className="flex items-center gap-3 text-xs text-muted">
-                                      <span className={gradeColor(g.grade)}>
-                                        {gradeStatusLabel(g.grade)}
+                                      <span className={replaced ? '' : gradeColor(g.grade, scheme, scale)}>
+                                        {replaced ? 'Reemplazada por recuperatorio' : gradeStatusLabel(g.grade, scheme, scale)}
                                       </span>
                                       {dateLabel && (
                                         <>
@@ -566,8 +659,8 @@ export default function GradesPage() {
               (() => {
                 // Filtrar por materia si es necesario
                 const filteredGrades = filterCourseId === 'all'
-                  ? grades
-                  : grades.filter((g) => g.course_id === filterCourseId);
+                  ? termGrades
+                  : termGrades.filter((g) => g.course_id === filterCourseId);
 
                 if (filteredGrades.length === 0) {
                   return (
@@ -589,17 +682,19 @@ export default function GradesPage() {
                               year: 'numeric',
                             })
                           : 'Sin fecha';
+                        const scheme = schemeForCourse(coursesById.get(g.course_id), scale);
 
                         return (
                           <div
                             key={g.id}
+                            id={`nota-${g.id}`}
                             className="flex items-center justify-between p-4 hover:bg-[var(--card-bg)]/50 transition-colors group"
                           >
                             <div className="flex items-center gap-4">
                               <span
-                                className={`w-12 h-12 rounded-xl flex items-center justify-center text-base font-bold border ${gradeBadgeClasses(g.grade)}`}
+                                className={`w-12 h-12 rounded-xl flex items-center justify-center text-base font-bold border ${gradeBadgeClasses(g.grade, scheme, scale)}`}
                               >
-                                {g.grade.toFixed(1)}
+                                {formatGrade(g.grade, scale, 1)}
                               </span>
                               <div>
                                 <div className="flex items-center gap-2">
@@ -609,8 +704,8 @@ export default function GradesPage() {
                                   </span>
                                 </div>
                                 <div className="flex items-center gap-3 text-xs text-muted mt-0.5">
-                                  <span className={gradeColor(g.grade)}>
-                                    {gradeStatusLabel(g.grade)}
+                                  <span className={gradeColor(g.grade, scheme, scale)}>
+                                    {gradeStatusLabel(g.grade, scheme, scale)}
                                   </span>
                                   <span>•</span>
                                   <span className="flex items-center gap-1">
@@ -716,18 +811,36 @@ export default function GradesPage() {
               <div className="grid grid-cols-2 gap-3">
                 {/* Nota */}
                 <label className="flex flex-col gap-1.5">
-                  <span className="text-xs text-soft font-medium">Nota (0-10)</span>
-                  <input
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    max="10"
-                    value={gradeValue}
-                    onChange={(e) => setGradeValue(e.target.value)}
-                    className="border border-[var(--card-border)] rounded-xl px-3 py-2.5 bg-[var(--card-bg)] text-[var(--foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/50"
-                    placeholder="8.50"
-                    required
-                  />
+                  <span className="text-xs text-soft font-medium">
+                    Nota ({scale.letters ? scale.name : `${scale.min}-${scale.max}`})
+                  </span>
+                  {scale.letters ? (
+                    <select
+                      value={gradeValue}
+                      onChange={(e) => setGradeValue(e.target.value)}
+                      className="border border-[var(--card-border)] rounded-xl px-3 py-2.5 bg-[var(--card-bg)] text-[var(--foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/50"
+                      required
+                    >
+                      <option value="">Elegir</option>
+                      {letterOptions(scale).map((o) => (
+                        <option key={o.label} value={o.label}>
+                          {o.label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="number"
+                      step={scaleStep(scale)}
+                      min={scale.min}
+                      max={scale.max}
+                      value={gradeValue}
+                      onChange={(e) => setGradeValue(e.target.value)}
+                      className="border border-[var(--card-border)] rounded-xl px-3 py-2.5 bg-[var(--card-bg)] text-[var(--foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/50"
+                      placeholder={formatGrade(8.5, scale)}
+                      required
+                    />
+                  )}
                 </label>
 
                 {/* Fecha */}
@@ -775,6 +888,18 @@ export default function GradesPage() {
         onCancel={handleCancelDelete}
         onConfirm={handleConfirmDelete}
       />
+
+      {/* Esquema de evaluación de la materia */}
+      <ConfirmDialog
+        open={!!schemeCourse}
+        title={`Esquema de evaluación · ${schemeCourse?.name ?? ''}`}
+        description={<GradingSchemeForm value={schemeDraft} onChange={setSchemeDraft} />}
+        confirmLabel="Guardar"
+        cancelLabel="Cancelar"
+        loading={savingScheme}
+        onCancel={() => setSchemeCourse(null)}
+        onConfirm={handleSaveScheme}
+      />
     </>
   );
 }
@@ -0,0 +1,393 @@
+// src/app/import/ics/page.tsx
+'use client';
+
+import { ChangeEvent, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/context/AuthContext';
+import { usePlan } from '@/context/PlanContext';
+import { getLimitMessage, PLAN_LIMITS } from '@/lib/plans';
+import { validateTaskTitle } from '@/lib/validation';
+import {
+  createExamPlan,
+  createTask,
+  listCourses,
+  listExamPlans,
+  listTasks,
+  type Course,
+  type ExamPlan,
+  type Task,
+} from '@/lib/db';
+import { parseCalendar, type ParsedIcsEvent } from '@/lib/ical';
+import { guessCourseId, guessIcsKind, normalizeKey, type IcsImportKind } from '@/lib/import';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { FaArrowLeft, FaCalendarPlus } from 'react-icons/fa';
+
+type EventRow = {
+  key: string;
+  event: ParsedIcsEvent;
+  include: boolean;
+  kind: IcsImportKind;
+  courseId: string;
+};
+
+const DEFAULT_STUDY_HOURS = '10';
+
+export default function IcsImportPage() {
+  const { user, loading } = useAuth();
+  const { plan } = usePlan();
+  const router = useRouter();
+
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [examPlans, setExamPlans] = useState<ExamPlan[]>([]);
+
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<EventRow[]>([]);
+  const [studyHours, setStudyHours] = useState(DEFAULT_STUDY_HOURS);
+
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && !user) router.push('/login');
+  }, [loading, user, router]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchData = async () => {
+      const [coursesRes, tasksRes, plansRes] = await Promise.all([
+        listCourses(user.id),
+        listTasks(user.id),
+        listExamPlans(user.id),
+      ]);
+      setCourses(coursesRes.data ?? []);
+      setTasks(tasksRes.data ?? []);
+      setExamPlans(plansRes.data ?? []);
+    };
+
+    fetchData();
+  }, [user]);
+
+  // Claves título+fecha de lo que ya existe, para detectar duplicados
+  const existingKeys = useMemo(() => {
+    const taskKeys = new Set(tasks.map((t) => `${normalizeKey(t.title)}|${t.due_date}`));
+    const examKeys = new Set(examPlans.map((p) => `${normalizeKey(p.name)}|${p.exam_date}`));
+    return { task: taskKeys, exam: examKeys };
+  }, [tasks, examPlans]);
+
+  const isDuplicate = (row: EventRow) =>
+    existingKeys[row.kind].has(`${normalizeKey(row.event.summary)}|${row.event.date}`);
+
+  const activeTasks = tasks.filter((t) => !t.completed).length;
+  const taskQuota = PLAN_LIMITS.active_tasks[plan] - activeTasks;
+
+  const selected = rows.filter((r) => r.include && !isDuplicate(r));
+  const recurringCount = rows.filter((r) => r.event.repeats || r.event.recurrenceId).length;
+  const selectedTasks = selected.filter((r) => r.kind === 'task').length;
+  const overLimit = selectedTasks > taskQuota;
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setInfo(null);
+
+    const parsed = parseCalendar(await file.text());
+
+    // Una ocurrencia modificada (RECURRENCE-ID) reemplaza la fecha original de su serie,
+    // y los eventos repetidos dentro del archivo se muestran una sola vez
+    const overridden = new Set(
+      parsed.filter((ev) => ev.uid && ev.recurrenceId).map((ev) => `${ev.uid}|${ev.recurrenceId}`),
+    );
+    const seen = new Set<string>();
+    const events = parsed.filter((ev) => {
+      if (ev.uid && !ev.recurrenceId && overridden.has(`${ev.uid}|${ev.date}`)) return false;
+      const key = `${normalizeKey(ev.summary)}|${ev.date}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    if (events.length === 0) {
+      setError('No se encontraron eventos con fecha en el archivo.');
+      return;
+    }
+
+    setFileName(file.name);
+    setRows(
+      events.map((event, i) => {
+        const kind = guessIcsKind(event.summary);
+        const duplicate = (kind === 'task' ? existingKeys.task : existingKeys.exam).has(
+          `${normalizeKey(event.summary)}|${event.date}`,
+        );
+        return {
+          key: `event-${i}`, // el UID se repite en las ocurrencias de una serie
+          event,
+          include: !duplicate,
+          kind,
+          courseId: guessCourseId(`${event.summary} ${event.description}`, courses) ?? '',
+        };
+      }),
+    );
+  };
+
+  const updateRow = (key: string, patch: Partial<EventRow>) => {
+    setRows((prev) => prev.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+  };
+
+  const handleImport = async () => {
+    if (!user || selected.length === 0) return;
+
+    if (overLimit) {
+      setError(getLimitMessage('active_tasks'));
+      return;
+    }
+
+    const hours = parseFloat(studyHours);
+    if (selected.some((r) => r.kind === 'exam') && (isNaN(hours) || hours <= 0)) {
+      setError('Ingresá una cantidad de horas de estudio válida.');
+      return;
+    }
+
+    const invalid = selected.find(
+      (r) => r.kind === 'task' && !validateTaskTitle(r.event.summary).valid,
+    );
+    if (invalid) {
+      setError(`"${invalid.event.summary.slice(0, 40)}…": ${validateTaskTitle(invalid.event.summary).error}`);
+      return;
+    }
+
+    setImporting(true);
+    setError(null);
+
+    let created = 0;
+    let failed = 0;
+    const newTasks: Task[] = [];
+    const newPlans: ExamPlan[] = [];
+
+    for (const row of selected) {
+      const courseId = row.courseId || null;
+
+      if (row.kind === 'task') {
+        const { data, error: insertError } = await createTask(user.id, {
+          title: row.event.summary.trim(),
+          description: row.event.description || null,
+          due_date: row.event.date,
+          course_id: courseId,
+          priority: 'medium',
+        });
+        if (insertError) failed += 1;
+        else {
+          created += 1;
+          newTasks.push(data);
+        }
+      } else {
+        const { data, error: insertError } = await createExamPlan(user.id, {
+          course_id: courseId,
+          name: row.event.summary.trim(),
+          exam_date: row.event.date,
+          study_hours: hours,
+        });
+        if (insertError) failed += 1;
+        else {
+          created += 1;
+          newPlans.push(data);
+        }
+      }
+    }
+
+    setTasks((prev) => [...newTasks, ...prev]);
+    setExamPlans((prev) => [...prev, ...newPlans]);
+    setRows([]);
+    setFileName('');
+    setImporting(false);
+
+    setInfo(`Se importaron ${created} eventos.`);
+    if (failed > 0) setError(`${failed} eventos no se pudieron guardar.`);
+  };
+
+  if (loading || (!user && !loading)) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <main className="max-w-5xl mx-auto px-4 py-8 flex flex-col gap-6">
+      {/* Header */}
+      <header className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2 text-[var(--foreground)]">
+            <FaCalendarPlus className="text-[var(--accent)]" />
+            Importar calendario (.ics)
+          </h1>
+          <p className="text-sm text-[var(--text-muted)] mt-1">
+            Convertí fechas de exámenes y entregas en tareas o planes de estudio
+          </p>
+        </div>
+        <Link
+          href="/calendar"
+          className="inline-flex items-center gap-2 text-sm text-[var(--text-muted)] hover:text-[var(--foreground)]"
+        >
+          <FaArrowLeft className="text-xs" />
+          Volver al calendario
+        </Link>
+      </header>
+
+      {error && (
+        <p className="text-sm text-[var(--danger)] bg-[var(--danger)]/10 px-4 py-2 rounded-lg">
+          {error}
+        </p>
+      )}
+      {info && (
+        <p className="text-sm text-[var(--success)] bg-[var(--success)]/10 px-4 py-2 rounded-lg">
+          {info}
+        </p>
+      )}
+
+      {rows.length === 0 ? (
+        <label className="flex flex-col items-center justify-center gap-2 py-12 border border-dashed border-[var(--card-border)] rounded-2xl bg-[var(--card-bg)] cursor-pointer hover:border-[var(--primary-soft)] transition-colors">
+          <FaCalendarPlus className="text-2xl text-[var(--accent)]" />
+          <span className="text-sm text-[var(--foreground)]">Elegí un archivo .ics</span>
+          <span className="text-xs text-[var(--text-muted)]">
+            Podrás revisar cada evento antes de importarlo
+          </span>
+          <input type="file" accept=".ics,text/calendar" onChange={handleFile} className="hidden" />
+        </label>
+      ) : (
+        <section className="border border-[var(--card-border)] rounded-2xl p-6 bg-[var(--card-bg)] flex flex-col gap-5">
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <p className="text-sm text-[var(--text-muted)]">
+              {fileName} · {rows.length} eventos · {selected.length} seleccionados
+            </p>
+            <div>
+              <label className="block text-xs text-[var(--text-muted)] mb-1">
+                Horas de estudio por examen
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={studyHours}
+                onChange={(e) => setStudyHours(e.target.value)}
+                className="w-28 border border-[var(--card-border)] rounded-xl px-3 py-2 bg-[var(--background)] text-[var(--foreground)] text-sm"
+              />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto border border-[var(--card-border)] rounded-xl">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-[var(--text-muted)] border-b border-[var(--card-border)]">
+                  <th className="px-3 py-2" />
+                  <th className="px-3 py-2">Fecha</th>
+                  <th className="px-3 py-2">Evento</th>
+                  <th className="px-3 py-2">Crear como</th>
+                  <th className="px-3 py-2">Materia</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const duplicate = isDuplicate(row);
+                  return (
+                    <tr
+                      key={row.key}
+                      className={`border-b border-[var(--card-border)] last:border-0 ${
+                        duplicate ? 'opacity-50' : ''
+                      }`}
+                    >
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={row.include && !duplicate}
+                          disabled={duplicate}
+                          onChange={(e) => updateRow(row.key, { include: e.target.checked })}
+                        />
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-[var(--text-muted)]">
+                        {row.event.date}
+                      </td>
+                      <td className="px-3 py-2 text-[var(--foreground)]">
+                        {row.event.summary}
+                        {duplicate && (
+                          <span className="ml-2 text-xs text-[var(--warn)]">Ya existe</span>
+                        )}
+                        {(row.event.repeats || row.event.recurrenceId) && (
+                          <span
+                            className="ml-2 text-xs text-[var(--warn)]"
+                            title="Evento repetido: solo se importa esta fecha"
+                          >
+                            Se repite
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={row.kind}
+                          onChange={(e) => updateRow(row.key, { kind: e.target.value as IcsImportKind })}
+                          className="border border-[var(--card-border)] rounded-lg px-2 py-1 bg-[var(--background)] text-[var(--foreground)] text-xs"
+                        >
+                          <option value="task">Tarea</option>
+                          <option value="exam">Examen</option>
+                        </select>
+                      </td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={row.courseId}
+                          onChange={(e) => updateRow(row.key, { courseId: e.target.value })}
+                          className="border border-[var(--card-border)] rounded-lg px-2 py-1 bg-[var(--background)] text-[var(--foreground)] text-xs"
+                        >
+                          <option value="">Sin materia</option>
+                          {courses.map((c) => (
+                            <option key={c.id} value={c.id}>
+                              {c.name}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {recurringCount > 0 && (
+            <p className="text-xs text-[var(--warn)]">
+              {recurringCount === 1 ? '1 evento se repite' : `${recurringCount} eventos se repiten`} en el
+              calendario: se importa solo la fecha que se muestra, no el resto de la serie.
+            </p>
+          )}
+
+          {overLimit && (
+            <p className="text-xs text-[var(--warn)]">{getLimitMessage('active_tasks')}</p>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={importing || selected.length === 0 || overLimit}
+              className="px-6 py-3 rounded-xl bg-[var(--accent)] text-[var(--foreground)] font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              {importing ? 'Importando...' : `Importar ${selected.length} eventos`}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setRows([]);
+                setFileName('');
+              }}
+              disabled={importing}
+              className="px-6 py-3 rounded-xl border border-[var(--card-border)] text-[var(--text-muted)] hover:text-[var(--foreground)] transition-all duration-200 disabled:opacity-50"
+            >
+              Cancelar
+            </button>
+          </div>
+        </section>
+      )}
+    </main>
+  );
+}
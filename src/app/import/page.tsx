@@ -0,0 +1,467 @@
+// src/app/import/page.tsx
+'use client';
+
+import { ChangeEvent, Suspense, useEffect, useMemo, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/context/AuthContext';
+import { usePlan } from '@/context/PlanContext';
+import { useTerm } from '@/context/TermContext';
+import { useGradingScale } from '@/context/GradingScaleContext';
+import { getLimitMessage, PLAN_LIMITS } from '@/lib/plans';
+import { listCourses, listTasks, type Course } from '@/lib/db';
+import {
+  guessMapping,
+  IMPORT_FIELDS,
+  IMPORT_TARGET_LABELS,
+  insertImportPayload,
+  lockedImportFields,
+  parseImportFile,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportTarget,
+  type ParsedFile,
+} from '@/lib/import';
+import { countActiveCourses } from '@/lib/terms';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { FaFileImport, FaCheckCircle, FaExclamationTriangle, FaArrowLeft } from 'react-icons/fa';
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+const TARGETS: ImportTarget[] = ['tasks', 'courses', 'grades'];
+
+const TARGET_DESCRIPTIONS: Record<ImportTarget, string> = {
+  tasks: 'Título, fecha límite, materia, prioridad y etiquetas',
+  courses: 'Nombre y color de cada materia',
+  grades: 'Materia, nota, tipo y fecha de examen',
+};
+
+const TARGET_RETURN: Record<ImportTarget, string> = {
+  tasks: '/tasks',
+  courses: '/courses',
+  grades: '/grades',
+};
+
+function isImportTarget(value: string | null): value is ImportTarget {
+  return value === 'tasks' || value === 'courses' || value === 'grades';
+}
+
+function ImportPageContent() {
+  const { user, loading } = useAuth();
+  const { plan } = usePlan();
+  const { terms, selection } = useTerm();
+  const { scale } = useGradingScale();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const initialTarget = searchParams.get('target');
+  const [target, setTarget] = useState<ImportTarget>(
+    isImportTarget(initialTarget) ? initialTarget : 'tasks',
+  );
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [error, setError] = useState<string | null>(null);
+  // null: las materias importadas van al cuatrimestre activo del switcher, como en Materias
+  const [termChoice, setTermChoice] = useState<string | null>(null);
+
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [activeTaskCount, setActiveTaskCount] = useState(0);
+
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<{ inserted: number; failed: number } | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!loading && !user) router.push('/login');
+  }, [loading, user, router]);
+
+  // Materias (para resolver nombres) y tareas activas (para el límite del plan)
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchContext = async () => {
+      const [coursesRes, tasksRes] = await Promise.all([listCourses(user.id), listTasks(user.id)]);
+      setCourses(coursesRes.data ?? []);
+      setActiveTaskCount((tasksRes.data ?? []).filter((t) => !t.completed).length);
+    };
+
+    fetchContext();
+  }, [user, reloadKey]);
+
+  const importTermId = termChoice ?? (selection === 'all' ? '' : selection);
+
+  const rows = useMemo(() => {
+    if (!parsed || step === 'upload') return [];
+
+    // Las materias de un cuatrimestre archivado no cuentan para el límite
+    const archivedTerm = target === 'courses' && terms.some((t) => t.id === importTermId && t.archived);
+    const resource =
+      target === 'tasks' ? 'active_tasks' : target === 'courses' && !archivedTerm ? 'courses' : null;
+    const current = target === 'tasks' ? activeTaskCount : countActiveCourses(courses, terms);
+    const remaining = resource ? PLAN_LIMITS[resource][plan] - current : Infinity;
+
+    return validateImportRows(target, parsed.records, mapping, {
+      plan,
+      courses,
+      remaining,
+      limitMessage: resource ? getLimitMessage(resource) : '',
+      scale,
+      termId: importTermId || null,
+    });
+  }, [parsed, step, target, mapping, courses, terms, importTermId, activeTaskCount, plan, scale]);
+
+  const validRows = rows.filter((r) => r.payload);
+  const invalidCount = rows.length - validRows.length;
+
+  const missingRequired = IMPORT_FIELDS[target].filter((f) => f.required && !mapping[f.key]);
+  const lockedFields = lockedImportFields(target, plan);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+
+    try {
+      const text = await file.text();
+      const data = parseImportFile(file.name, text);
+      if (data.records.length === 0) {
+        setError('El archivo no tiene filas para importar.');
+        return;
+      }
+      setFileName(file.name);
+      setParsed(data);
+      setMapping(guessMapping(target, data.columns));
+      setStep('mapping');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo leer el archivo.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || validRows.length === 0) return;
+
+    setImporting(true);
+    setProgress(0);
+    setError(null);
+
+    let inserted = 0;
+    let failed = 0;
+
+    // Secuencial para respetar el orden del archivo y reportar fallos por fila
+    for (const row of validRows) {
+      const { error: insertError } = await insertImportPayload(user.id, row.payload!);
+      if (insertError) failed += 1;
+      else inserted += 1;
+      setProgress(inserted + failed);
+    }
+
+    setReloadKey((k) => k + 1);
+    setResult({ inserted, failed });
+    setImporting(false);
+    setStep('done');
+  };
+
+  const resetWizard = () => {
+    setStep('upload');
+    setParsed(null);
+    setMapping({});
+    setFileName('');
+    setResult(null);
+    setError(null);
+  };
+
+  if (loading || (!user && !loading)) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <main className="max-w-5xl mx-auto px-4 py-8 flex flex-col gap-6">
+      {/* Header */}
+      <header className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2 text-[var(--foreground)]">
+            <FaFileImport className="text-[var(--accent)]" />
+            Importar datos
+          </h1>
+          <p className="text-sm text-[var(--text-muted)] mt-1">
+            Cargá tareas, materias o notas desde un archivo CSV o JSON
+          </p>
+        </div>
+        <Link
+          href={TARGET_RETURN[target]}
+          className="inline-flex items-center gap-2 text-sm text-[var(--text-muted)] hover:text-[var(--foreground)]"
+        >
+          <FaArrowLeft className="text-xs" />
+          Volver a {IMPORT_TARGET_LABELS[target]}
+        </Link>
+      </header>
+
+      {/* Pasos */}
+      <ol className="flex items-center gap-2 text-xs">
+        {(['upload', 'mapping', 'preview', 'done'] as Step[]).map((s, i) => (
+          <li
+            key={s}
+            className={`px-3 py-1 rounded-lg border ${
+              step === s
+                ? 'border-[var(--accent)] text-[var(--accent)] bg-[var(--accent)]/10'
+                : 'border-[var(--card-border)] text-[var(--text-muted)]'
+            }`}
+          >
+            {i + 1}. {s === 'upload' ? 'Archivo' : s === 'mapping' ? 'Columnas' : s === 'preview' ? 'Revisión' : 'Listo'}
+          </li>
+        ))}
+      </ol>
+
+      {error && (
+        <p className="text-sm text-[var(--danger)] bg-[var(--danger)]/10 px-4 py-2 rounded-lg">
+          {error}
+        </p>
+      )}
+
+      {/* Paso 1: destino + archivo */}
+      {step === 'upload' && (
+        <section className="border border-[var(--card-border)] rounded-2xl p-6 bg-[var(--card-bg)] flex flex-col gap-5">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {TARGETS.map((t) => (
+              <button
+                key={t}
+                type="button"
+                onClick={() => setTarget(t)}
+                className={`text-left p-4 rounded-xl border transition-all duration-200 ${
+                  target === t
+                    ? 'border-[var(--accent)] bg-[var(--accent)]/10'
+                    : 'border-[var(--card-border)] bg-[var(--background)] hover:border-[var(--primary-soft)]'
+                }`}
+              >
+                <span className="block text-sm font-semibold text-[var(--foreground)]">
+                  {IMPORT_TARGET_LABELS[t]}
+                </span>
+                <span className="block text-xs text-[var(--text-muted)] mt-1">
+                  {TARGET_DESCRIPTIONS[t]}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <label className="flex flex-col items-center justify-center gap-2 py-10 border border-dashed border-[var(--card-border)] rounded-xl cursor-pointer hover:border-[var(--primary-soft)] transition-colors">
+            <FaFileImport className="text-2xl text-[var(--accent)]" />
+            <span className="text-sm text-[var(--foreground)]">Elegí un archivo .csv o .json</span>
+            <span className="text-xs text-[var(--text-muted)]">
+              La primera fila del CSV debe tener los nombres de las columnas
+            </span>
+            <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} className="hidden" />
+          </label>
+
+          <p className="text-xs text-[var(--text-muted)]">
+            ¿Tenés un calendario de exámenes en formato .ics?{' '}
+            <Link href="/import/ics" className="text-[var(--accent)] hover:underline">
+              Importalo desde acá
+            </Link>
+          </p>
+        </section>
+      )}
+
+      {/* Paso 2: asignación de columnas */}
+      {step === 'mapping' && parsed && (
+        <section className="border border-[var(--card-border)] rounded-2xl p-6 bg-[var(--card-bg)] flex flex-col gap-5">
+          <p className="text-sm text-[var(--text-muted)]">
+            {fileName} · {parsed.records.length} filas · destino: {IMPORT_TARGET_LABELS[target]}
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {IMPORT_FIELDS[target].map((field) => (
+              <div key={field.key}>
+                <label className="block text-sm text-[var(--text-muted)] mb-2">
+                  {field.label}
+                  {field.required && <span className="text-[var(--danger)]"> *</span>}
+                  {lockedFields.includes(field.key) && (
+                    <span className="ml-2 text-xs text-[var(--warn)]">Premium · no se importa</span>
+                  )}
+                </label>
+                <select
+                  value={lockedFields.includes(field.key) ? '' : (mapping[field.key] ?? '')}
+                  onChange={(e) => setMapping((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                  disabled={lockedFields.includes(field.key)}
+                  className="w-full border border-[var(--card-border)] rounded-xl px-4 py-3 bg-[var(--background)] text-[var(--foreground)] disabled:opacity-50"
+                >
+                  <option value="">— Sin asignar —</option>
+                  {parsed.columns.map((col) => (
+                    <option key={col} value={col}>
+                      {col}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {target === 'courses' && terms.length > 0 && (
+            <div>
+              <label className="block text-sm text-[var(--text-muted)] mb-2">Cuatrimestre</label>
+              <select
+                value={importTermId}
+                onChange={(e) => setTermChoice(e.target.value)}
+                className="w-full sm:w-1/2 border border-[var(--card-border)] rounded-xl px-4 py-3 bg-[var(--background)] text-[var(--foreground)]"
+              >
+                <option value="">Sin cuatrimestre</option>
+                {terms.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                    {t.archived ? ' (archivado)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {missingRequired.length > 0 && (
+            <p className="text-xs text-[var(--warn)]">
+              Asigná una columna a: {missingRequired.map((f) => f.label).join(', ')}
+            </p>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => setStep('preview')}
+              disabled={missingRequired.length > 0}
+              className="px-6 py-3 rounded-xl bg-[var(--accent)] text-[var(--foreground)] font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              Revisar filas
+            </button>
+            <button
+              type="button"
+              onClick={resetWizard}
+              className="px-6 py-3 rounded-xl border border-[var(--card-border)] text-[var(--text-muted)] hover:text-[var(--foreground)] transition-all duration-200"
+            >
+              Cambiar archivo
+            </button>
+          </div>
+        </section>
+      )}
+
+      {/* Paso 3: previsualización con errores por fila */}
+      {step === 'preview' && (
+        <section className="border border-[var(--card-border)] rounded-2xl p-6 bg-[var(--card-bg)] flex flex-col gap-5">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="inline-flex items-center gap-1 text-[var(--success)]">
+              <FaCheckCircle /> {validRows.length} filas válidas
+            </span>
+            {invalidCount > 0 && (
+              <span className="inline-flex items-center gap-1 text-[var(--danger)]">
+                <FaExclamationTriangle /> {invalidCount} con errores (no se importarán)
+              </span>
+            )}
+          </div>
+
+          <div className="overflow-x-auto border border-[var(--card-border)] rounded-xl">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-[var(--text-muted)] border-b border-[var(--card-border)]">
+                  <th className="px-3 py-2">#</th>
+                  {IMPORT_FIELDS[target].map((f) => (
+                    <th key={f.key} className="px-3 py-2 whitespace-nowrap">
+                      {f.label}
+                    </th>
+                  ))}
+                  <th className="px-3 py-2">Estado</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.line}
+                    className={`border-b border-[var(--card-border)] last:border-0 ${
+                      row.errors.length > 0 ? 'bg-[var(--danger)]/5' : ''
+                    }`}
+                  >
+                    <td className="px-3 py-2 text-[var(--text-muted)]">{row.line}</td>
+                    {IMPORT_FIELDS[target].map((f) => (
+                      <td key={f.key} className="px-3 py-2 text-[var(--foreground)] max-w-[14rem] truncate">
+                        {row.values[f.key]}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2">
+                      {row.errors.length === 0 ? (
+                        <span className="text-xs text-[var(--success)]">OK</span>
+                      ) : (
+                        <ul className="text-xs text-[var(--danger)] list-disc pl-4">
+                          {row.errors.map((err) => (
+                            <li key={err}>{err}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={importing || validRows.length === 0}
+              className="px-6 py-3 rounded-xl bg-[var(--accent)] text-[var(--foreground)] font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              {importing
+                ? `Importando ${progress}/${validRows.length}...`
+                : `Importar ${validRows.length} filas`}
+            </button>
+            <button
+              type="button"
+              onClick={() => setStep('mapping')}
+              disabled={importing}
+              className="px-6 py-3 rounded-xl border border-[var(--card-border)] text-[var(--text-muted)] hover:text-[var(--foreground)] transition-all duration-200 disabled:opacity-50"
+            >
+              Volver a columnas
+            </button>
+          </div>
+        </section>
+      )}
+
+      {/* Paso 4: resultado */}
+      {step === 'done' && result && (
+        <section className="border border-[var(--card-border)] rounded-2xl p-6 bg-[var(--card-bg)] flex flex-col gap-4 items-start">
+          <p className="text-sm text-[var(--success)] bg-[var(--success)]/10 px-4 py-2 rounded-lg">
+            Se importaron {result.inserted} filas en {IMPORT_TARGET_LABELS[target]}.
+          </p>
+          {result.failed > 0 && (
+            <p className="text-sm text-[var(--danger)] bg-[var(--danger)]/10 px-4 py-2 rounded-lg">
+              {result.failed} filas no se pudieron guardar.
+            </p>
+          )}
+          <div className="flex gap-3">
+            <Link
+              href={TARGET_RETURN[target]}
+              className="px-6 py-3 rounded-xl bg-[var(--accent)] text-[var(--foreground)] font-semibold hover:opacity-90 transition-opacity"
+            >
+              Ver {IMPORT_TARGET_LABELS[target]}
+            </Link>
+            <button
+              type="button"
+              onClick={resetWizard}
+              className="px-6 py-3 rounded-xl border border-[var(--card-border)] text-[var(--text-muted)] hover:text-[var(--foreground)] transition-all duration-200"
+            >
+              Importar otro archivo
+            </button>
+          </div>
+        </section>
+      )}
+    </main>
+  );
+}
+
+export default function ImportPage() {
+  return (
+    <Suspense fallback={<LoadingSpinner />}>
+      <ImportPageContent />
+    </Suspense>
+  );
+}
@@ -3,6 +3,9 @@ import './globals.css';
 import { AuthProvider } from '@/context/AuthContext';
 import { ThemeProvider } from '@/context/ThemeContext';
 import { PlanProvider } from '@/context/PlanContext';
+import { TermProvider } from '@/context/TermContext';
+import { GradingScaleProvider } from '@/context/GradingScaleContext';
+import { ShortcutsProvider } from '@/context/ShortcutsContext';
 import { Sidebar } from '@/components/Sidebar';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 
@@ -21,18 +24,24 @@ export default function RootLayout({
       <body>
         <AuthProvider>
           <PlanProvider>
-            <ThemeProvider>
-              <div className="flex min-h-screen">
-                {/* Sidebar a la izquierda */}
-                <Sidebar />
-                {/* Contenido principal */}
-                <main className="flex-1 bg-[var(--background)] text-[var(--foreground)]">
-                  <ErrorBoundary>
-                    {children}
-                  </ErrorBoundary>
-                </main>
-              </div>
-            </ThemeProvider>
+            <TermProvider>
+              <GradingScaleProvider>
+                <ShortcutsProvider>
+                  <ThemeProvider>
+                    <div className="flex min-h-screen">
+                      {/* Sidebar a la izquierda */}
+                      <Sidebar />
+                      {/* Contenido principal */}
+                      <main className="flex-1 bg-[var(--background)] text-[var(--foreground)]">
+                        <ErrorBoundary>
+                          {children}
+                        </ErrorBoundary>
+                      </main>
+                    </div>
+                  </ThemeProvider>
+                </ShortcutsProvider>
+              </GradingScaleProvider>
+            </TermProvider>
           </PlanProvider>
         </AuthProvider>
       </body>
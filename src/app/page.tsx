@@ -5,8 +5,9 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { useEffect, useState, useMemo } from 'react';
 import { useAuth } from '@/context/AuthContext';
-import { supabaseClient } from '@/lib/supabaseClient';
+import { listPomodoroSessions, listTasks, type Priority, type Task } from '@/lib/db';
 import { useTheme } from '@/context/ThemeContext';
+import { ReviewsDue } from '@/components/ReviewsDue';
 import {
   ResponsiveContainer,
   BarChart,
@@ -31,24 +32,8 @@ import {
   FaEnvelope,
 } from 'react-icons/fa';
 
-type Priority = 'low' | 'medium' | 'high';
 type PriorityFilter = 'all' | Priority;
 
-type TaskSummary = {
-  id: string;
-  title: string;
-  due_date: string | null;
-  completed: boolean;
-  priority: Priority | null;
-};
-
-type PomodoroSession = {
-  id: string;
-  user_id: string;
-  started_at: string;
-  duration_minutes: number;
-};
-
 type DailyPoint = {
   date: string;
   label: string;
@@ -91,7 +76,7 @@ export default function HomePage() {
   const [focusLast7, setFocusLast7] = useState(0);
 
   // guardo una lista base (ordenada por fecha) y luego filtro por prioridad en UI
-  const [upcomingTasksBase, setUpcomingTasksBase] = useState<TaskSummary[]>([]);
+  const [upcomingTasksBase, setUpcomingTasksBase] = useState<Task[]>([]);
   const [upcomingPriorityFilter, setUpcomingPriorityFilter] =
     useState<PriorityFilter>('all');
 
@@ -120,16 +105,8 @@ export default function HomePage() {
         since.setDate(since.getDate() - 6);
         const sinceStr = since.toISOString();
 
-        const tasksPromise = supabaseClient
-          .from('tasks')
-          .select('id, title, due_date, completed, priority')
-          .eq('user_id', user.id);
-
-        const sessionsPromise = supabaseClient
-          .from('pomodoro_sessions')
-          .select('id, user_id, started_at, duration_minutes')
-          .eq('user_id', user.id)
-          .gte('started_at', sinceStr);
+        const tasksPromise = listTasks(user.id);
+        const sessionsPromise = listPomodoroSessions(user.id, { since: sinceStr });
 
         const [
           { data: tasksData, error: tasksError },
@@ -144,7 +121,7 @@ export default function HomePage() {
           throw new Error('No se pudieron cargar las sesiones de Pomodoro.');
         }
 
-        const tasksList = (tasksData ?? []) as TaskSummary[];
+        const tasksList = tasksData ?? [];
         const todayStr = new Date().toISOString().slice(0, 10);
 
         const pending = tasksList.filter((t) => !t.completed);
@@ -164,7 +141,7 @@ export default function HomePage() {
         setOverdueCount(overdue.length);
         setUpcomingTasksBase(upcomingSorted);
 
-        const sessionsList = (sessionsData ?? []) as PomodoroSession[];
+        const sessionsList = sessionsData ?? [];
 
         const totalMinutesLast7 = sessionsList.reduce(
           (acc, s) => acc + (s.duration_minutes || 0),
@@ -774,6 +751,9 @@ export default function HomePage() {
         </section>
       </div>
 
+      {/* Temas con repaso pendiente */}
+      <ReviewsDue />
+
       {/* Próximas tareas */}
       <section className="border border-[var(--card-border)] rounded-2xl p-5 bg-[var(--card-bg)]">
         <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
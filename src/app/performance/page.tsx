@@ -3,9 +3,47 @@
 
 import { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { useAuth } from '@/context/AuthContext';
+import { useTerm } from '@/context/TermContext';
+import { useGradingScale } from '@/context/GradingScaleContext';
 import { usePlan } from '@/context/PlanContext';
-import { supabaseClient } from '@/lib/supabaseClient';
+import {
+  listCardReviews,
+  listCards,
+  listCourseGrades,
+  listCourses,
+  listDecks,
+  listPomodoroSessions,
+  listTasks,
+  type Course,
+  type CourseGrade,
+  type Flashcard,
+  type FlashcardDeck,
+  type FlashcardReview,
+  type GradingScale,
+  type GradingScheme,
+  type PomodoroSession,
+  type Task,
+} from '@/lib/db';
+import {
+  courseAverages as computeCourseAverages,
+  gradeTone,
+  schemeForCourse,
+  summarizeCourseGrades,
+  type GradeTone,
+} from '@/lib/grades';
+import { courseIdsForTerm } from '@/lib/terms';
+import { formatGrade, gradeBand, toScale } from '@/lib/gradingScales';
+import { deckStats } from '@/lib/flashcards';
+import { addDays } from '@/lib/recurrence';
+import {
+  INTERRUPTION_REASONS,
+  INTERRUPTION_REASON_LABELS,
+  completionRate,
+  focusQualityByDay,
+  minutesByCourse,
+} from '@/lib/pomodoro';
 import {
   ResponsiveContainer,
   BarChart,
@@ -30,21 +68,6 @@ import {
 import { useTheme } from '@/context/ThemeContext';
 import { FaSortAmountDown, FaSortAmountUp, FaChartLine, FaChartBar, FaFilePdf } from 'react-icons/fa';
 
-type PomodoroSession = {
-  id: string;
-  user_id: string;
-  started_at: string;
-  ended_at: string;
-  duration_minutes: number;
-  task_id: string | null;
-};
-
-type TaskRow = {
-  id: string;
-  completed: boolean;
-  course_id: string | null;
-};
-
 type Stats = {
   totalPomodoros: number;
   totalMinutesFocus: number;
@@ -59,35 +82,34 @@ type DailyPoint = {
   minutes: number;
 };
 
-type CourseRow = {
-  id: string;
-  name: string;
-};
-
-type CourseGradeRow = {
-  id: string;
-  course_id: string;
-  grade: number;
-  exam_type: string | null;
-  exam_date: string | null;
-};
-
-type GradeWithCourse = CourseGradeRow & {
+type GradeWithCourse = CourseGrade & {
   courseName: string;
 };
 
 type CourseAverage = {
   courseId: string;
   courseName: string;
-  average: number;
+  average: number; // nota según el esquema de evaluación de la materia
   count: number;
+  scheme: GradingScheme;
+};
+
+const TONE_COLORS: Record<GradeTone, string> = {
+  success: 'var(--success)',
+  warn: 'var(--warn)',
+  danger: 'var(--danger)',
+};
+
+// Colores fijos para el reporte imprimible
+const TONE_HEX: Record<GradeTone, string> = {
+  success: '#059669',
+  warn: '#d97706',
+  danger: '#dc2626',
 };
 
-// Color "semáforo" para notas
-function gradeColor(value: number) {
-  if (value >= 7) return 'var(--success)';
-  if (value >= 4) return 'var(--warn)';
-  return 'var(--danger)';
+// Color "semáforo" para notas (franjas de la escala o umbrales del esquema de la materia)
+function gradeColor(value: number, scheme?: GradingScheme, scale?: GradingScale) {
+  return TONE_COLORS[gradeTone(value, scheme, scale)];
 }
 
 // Color de barra según tema
@@ -101,11 +123,19 @@ function chartFillColor(theme: string | undefined) {
 export default function PerformancePage() {
   const { user, loading } = useAuth();
   const { canAccess } = usePlan();
+  const { selection, activeTerm } = useTerm();
+  const { scale } = useGradingScale();
+
+  // Los gráficos trabajan de 0 a 10; los ejes se rotulan en la escala del usuario
+  const scaleTick = (v: number | string) => {
+    const n = Number(v);
+    return isNaN(n) ? String(v) : String(Number(toScale(n, scale).toFixed(1)));
+  };
   const router = useRouter();
   const { theme } = useTheme();
 
   const [sessions, setSessions] = useState<PomodoroSession[]>([]);
-  const [tasks, setTasks] = useState<TaskRow[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
   const [stats, setStats] = useState<Stats>({
     totalPomodoros: 0,
     totalMinutesFocus: 0,
@@ -117,7 +147,11 @@ export default function PerformancePage() {
   const [timeUnit, setTimeUnit] = useState<'minutes' | 'hours'>('minutes');
   const [period, setPeriod] = useState<'7d' | '30d' | '3m'>('7d');
 
-  const [courseGrades, setCourseGrades] = useState<GradeWithCourse[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [allCourseGrades, setCourseGrades] = useState<GradeWithCourse[]>([]);
+  const [decks, setDecks] = useState<FlashcardDeck[]>([]);
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [cardReviews, setCardReviews] = useState<FlashcardReview[]>([]);
   const [gradesSortOrder, setGradesSortOrder] = useState<'desc' | 'asc'>('desc');
   const [gradesView, setGradesView] = useState<'bar' | 'timeline' | 'distribution' | 'examType' | 'radar' | 'trend' | 'focus'>('bar');
 
@@ -140,24 +174,22 @@ export default function PerformancePage() {
       setError(null);
 
       // Ejecutar todas las consultas en paralelo
-      const [sessionsResult, tasksResult, coursesResult, gradesResult] = await Promise.all([
-        supabaseClient
-          .from('pomodoro_sessions')
-          .select('id, user_id, started_at, ended_at, duration_minutes, task_id')
-          .eq('user_id', user.id)
-          .order('started_at', { ascending: true }),
-        supabaseClient
-          .from('tasks')
-          .select('id, completed, course_id')
-          .eq('user_id', user.id),
-        supabaseClient
-          .from('courses')
-          .select('id, name')
-          .eq('user_id', user.id),
-        supabaseClient
-          .from('course_grades')
-          .select('id, course_id, grade, exam_type, exam_date')
-          .eq('user_id', user.id),
+      const [
+        sessionsResult,
+        tasksResult,
+        coursesResult,
+        gradesResult,
+        decksResult,
+        cardsResult,
+        cardReviewsResult,
+      ] = await Promise.all([
+        listPomodoroSessions(user.id),
+        listTasks(user.id),
+        listCourses(user.id),
+        listCourseGrades(user.id),
+        listDecks(user.id),
+        listCards(user.id),
+        listCardReviews(user.id),
       ]);
 
       // Procesar sesiones de Pomodoro
@@ -167,10 +199,11 @@ export default function PerformancePage() {
         return;
       }
 
-      const sessionsList = (sessionsResult.data ?? []) as PomodoroSession[];
+      const sessionsList = sessionsResult.data;
       setSessions(sessionsList);
 
-      const totalPomodoros = sessionsList.length;
+      // Los enfoques cortados suman minutos pero no cuentan como pomodoros
+      const totalPomodoros = sessionsList.filter((s) => s.status !== 'aborted').length;
       const totalMinutesFocus = sessionsList.reduce(
         (acc, s) => acc + (s.duration_minutes || 0),
         0,
@@ -186,7 +219,7 @@ export default function PerformancePage() {
         return;
       }
 
-      const tasksList = (tasksResult.data ?? []) as TaskRow[];
+      const tasksList = tasksResult.data;
       setTasks(tasksList);
       const tasksCompleted = tasksList.filter((t) => t.completed).length;
 
@@ -223,8 +256,9 @@ export default function PerformancePage() {
         console.warn('Error cargando materias en rendimiento:', coursesResult.error);
       }
 
-      const coursesList = (coursesResult.data ?? []) as CourseRow[];
+      const coursesList = coursesResult.data ?? [];
       const coursesMap = new Map(coursesList.map((c) => [c.id, c.name]));
+      setCourses(coursesList);
 
       if (gradesResult.error) {
         console.warn(
@@ -232,7 +266,7 @@ export default function PerformancePage() {
           gradesResult.error,
         );
       } else {
-        const rawGrades = (gradesResult.data ?? []) as CourseGradeRow[];
+        const rawGrades = gradesResult.data;
         const withNames: GradeWithCourse[] = rawGrades.map((g) => ({
           ...g,
           courseName: coursesMap.get(g.course_id) ?? 'Materia desconocida',
@@ -240,6 +274,18 @@ export default function PerformancePage() {
         setCourseGrades(withNames);
       }
 
+      // Mazos de tarjetas (opcionales: si las tablas no existen, la sección no se muestra)
+      if (decksResult.error || cardsResult.error || cardReviewsResult.error) {
+        console.warn(
+          'Error cargando tarjetas en rendimiento:',
+          decksResult.error ?? cardsResult.error ?? cardReviewsResult.error,
+        );
+      } else {
+        setDecks(decksResult.data);
+        setCards(cardsResult.data);
+        setCardReviews(cardReviewsResult.data);
+      }
+
       setLoadingStats(false);
     };
 
@@ -273,6 +319,31 @@ export default function PerformancePage() {
     return points;
   }, [sessions, periodDays]);
 
+  // Interrupciones por motivo y % de enfoques completos por día
+  const focusQualityData = useMemo(() => {
+    const byDay = focusQualityByDay(sessions);
+    return dailyData.map((p) => {
+      const quality = byDay.get(p.date);
+      const blocks = quality ? quality.completed + quality.aborted : 0;
+      return {
+        label: p.label,
+        phone: quality?.interruptions.phone ?? 0,
+        person: quality?.interruptions.person ?? 0,
+        internal: quality?.interruptions.internal ?? 0,
+        completion: quality && blocks > 0 ? Math.round((quality.completed / blocks) * 100) : null,
+      };
+    });
+  }, [sessions, dailyData]);
+
+  const periodCompletion = useMemo(() => {
+    const first = dailyData[0]?.date ?? '';
+    const inPeriod = sessions.filter((s) => s.started_at.slice(0, 10) >= first);
+    return {
+      rate: completionRate(inPeriod),
+      interruptions: inPeriod.reduce((acc, s) => acc + (s.interruptions ?? []).length, 0),
+    };
+  }, [sessions, dailyData]);
+
   // Transformar minutos a la unidad seleccionada
   const chartData = useMemo(() => {
     if (timeUnit === 'minutes') {
@@ -281,30 +352,35 @@ export default function PerformancePage() {
     return dailyData.map((p) => ({ ...p, value: p.minutes / 60 }));
   }, [dailyData, timeUnit]);
 
-  // Promedios de notas por materia
+  // Notas de las materias del cuatrimestre elegido en el sidebar
+  const courseGrades = useMemo(() => {
+    const ids = courseIdsForTerm(courses, selection);
+    return ids ? allCourseGrades.filter((g) => ids.has(g.course_id)) : allCourseGrades;
+  }, [allCourseGrades, courses, selection]);
+
+  // Nota de cada materia según su esquema de evaluación
   const courseAverages: CourseAverage[] = useMemo(() => {
     if (!courseGrades.length) return [];
 
-    const map = new Map<string, { name: string; total: number; count: number }>();
-
+    const map = new Map<string, GradeWithCourse[]>();
     for (const g of courseGrades) {
-      const entry = map.get(g.course_id) ?? {
-        name: g.courseName,
-        total: 0,
-        count: 0,
-      };
-      entry.total += g.grade;
-      entry.count += 1;
-      map.set(g.course_id, entry);
+      const list = map.get(g.course_id) ?? [];
+      list.push(g);
+      map.set(g.course_id, list);
     }
 
+    const coursesById = new Map(courses.map((c) => [c.id, c]));
     const result: CourseAverage[] = [];
-    for (const [courseId, entry] of map.entries()) {
+    for (const [courseId, list] of map.entries()) {
+      const scheme = schemeForCourse(coursesById.get(courseId), scale);
+      const { average } = summarizeCourseGrades(list, scheme);
+      if (average === null) continue;
       result.push({
         courseId,
-        courseName: entry.name,
-        average: entry.total / entry.count,
-        count: entry.count,
+        courseName: list[0].courseName,
+        average,
+        count: list.length,
+        scheme,
       });
     }
 
@@ -315,7 +391,7 @@ export default function PerformancePage() {
       result.sort((a, b) => a.average - b.average);
     }
     return result;
-  }, [courseGrades, gradesSortOrder]);
+  }, [courseGrades, courses, gradesSortOrder, scale]);
 
   // Datos para línea temporal (evolución de notas por mes)
   const timelineData = useMemo(() => {
@@ -367,17 +443,38 @@ export default function PerformancePage() {
     );
   }, [courseAverages]);
 
-  // Promedio general
+  // Promedio general: media de las notas de cada materia
   const generalAverage = useMemo(() => {
-    if (!courseGrades.length) return null;
-    const sum = courseGrades.reduce((acc, g) => acc + g.grade, 0);
-    return sum / courseGrades.length;
-  }, [courseGrades]);
+    if (!courseAverages.length) return null;
+    const sum = courseAverages.reduce((acc, c) => acc + c.average, 0);
+    return sum / courseAverages.length;
+  }, [courseAverages]);
+
+  // Promedio acumulado de todos los cuatrimestres
+  const cumulativeAverage = useMemo(() => {
+    const averages = Array.from(computeCourseAverages(allCourseGrades, courses, scale).values());
+    if (!averages.length) return null;
+    return averages.reduce((acc, a) => acc + a, 0) / averages.length;
+  }, [allCourseGrades, courses, scale]);
 
   // Distribución de notas por categoría
   const distributionData = useMemo(() => {
     if (!courseGrades.length) return [];
 
+    // Con franjas definidas en la escala, la distribución usa esas franjas
+    if (scale.bands.length > 0) {
+      const byBand = new Map<string, { name: string; value: number; color: string }>();
+      for (const band of [...scale.bands].sort((a, b) => b.min - a.min)) {
+        byBand.set(band.label, { name: `${band.label} (≥${band.min})`, value: 0, color: TONE_COLORS[band.tone] });
+      }
+      for (const g of courseGrades) {
+        const band = gradeBand(g.grade, scale);
+        const entry = band ? byBand.get(band.label) : undefined;
+        if (entry) entry.value++;
+      }
+      return Array.from(byBand.values()).filter((c) => c.value > 0);
+    }
+
     const categories = {
       excelente: { name: 'Excelente (9-10)', value: 0, color: 'var(--success)' },
       muyBien: { name: 'Muy bien (7-8)', value: 0, color: '#22c55e' },
@@ -395,7 +492,7 @@ export default function PerformancePage() {
     }
 
     return Object.values(categories).filter(c => c.value > 0);
-  }, [courseGrades]);
+  }, [courseGrades, scale]);
 
   // Rendimiento por tipo de examen
   const examTypeData = useMemo(() => {
@@ -444,10 +541,12 @@ export default function PerformancePage() {
 
     if (sortedGrades.length === 0) return [];
 
-    let runningSum = 0;
+    // Promedio general (según los esquemas) con las notas rendidas hasta cada fecha
     const result = sortedGrades.map((g, index) => {
-      runningSum += g.grade;
-      const avgAccum = runningSum / (index + 1);
+      const averages = Array.from(
+        computeCourseAverages(sortedGrades.slice(0, index + 1), courses, scale).values(),
+      );
+      const avgAccum = averages.reduce((acc, a) => acc + a, 0) / (averages.length || 1);
       return {
         fecha: new Date(g.exam_date! + 'T00:00:00').toLocaleDateString('es-AR', {
           day: 'numeric',
@@ -460,33 +559,29 @@ export default function PerformancePage() {
     });
 
     return result;
-  }, [courseGrades]);
+  }, [courseGrades, courses, scale]);
+
+  // task_id → course_id (para las sesiones guardadas sin materia)
+  const taskCourseMap = useMemo(() => {
+    const m = new Map<string, string>();
+    for (const t of tasks) {
+      if (t.course_id) m.set(t.id, t.course_id);
+    }
+    return m;
+  }, [tasks]);
 
   // Correlación entre tiempo de enfoque y nota por materia
   const focusCorrelationData = useMemo(() => {
     if (!courseAverages.length) return [];
 
-    // task_id → course_id
-    const taskCourseMap = new Map<string, string>();
-    for (const t of tasks) {
-      if (t.course_id) taskCourseMap.set(t.id, t.course_id);
-    }
-
-    // Acumular minutos por course_id
-    const minutesByCourse = new Map<string, number>();
-    for (const s of sessions) {
-      if (!s.task_id) continue;
-      const courseId = taskCourseMap.get(s.task_id);
-      if (!courseId) continue;
-      minutesByCourse.set(courseId, (minutesByCourse.get(courseId) ?? 0) + (s.duration_minutes || 0));
-    }
+    const courseMinutes = minutesByCourse(sessions, taskCourseMap);
 
     const entries = courseAverages.map((c) => ({
       name: c.courseName.length > 14 ? c.courseName.slice(0, 14) + '…' : c.courseName,
       fullName: c.courseName,
       promedio: c.average,
-      minutos: minutesByCourse.get(c.courseId) ?? 0,
-      horas: Number(((minutesByCourse.get(c.courseId) ?? 0) / 60).toFixed(1)),
+      minutos: courseMinutes.get(c.courseId) ?? 0,
+      horas: Number(((courseMinutes.get(c.courseId) ?? 0) / 60).toFixed(1)),
     }));
 
     // Normalize hours to 0-10 scale so dots share the same Y axis as bars
@@ -494,7 +589,7 @@ export default function PerformancePage() {
     return entries
       .map((e) => ({ ...e, horasNorm: Number(((e.horas / maxHoras) * 10).toFixed(2)) }))
       .sort((a, b) => b.promedio - a.promedio);
-  }, [courseAverages, tasks, sessions]);
+  }, [courseAverages, taskCourseMap, sessions]);
 
   const todayMinutes = useMemo(() => {
     const today = new Date().toISOString().slice(0, 10);
@@ -518,7 +613,34 @@ export default function PerformancePage() {
     return prev > 0 ? Math.round(((curr - prev) / prev) * 100) : null;
   }, [sessions, periodDays]);
 
+  // Estadísticas por mazo junto a los minutos de Pomodoro de su materia en el período
+  const flashcardData = useMemo(() => {
+    if (!decks.length) return [];
+
+    const today = new Date().toISOString().slice(0, 10);
+    const since = addDays(today, -periodDays);
+    const ids = courseIdsForTerm(courses, selection);
+    const coursesById = new Map(courses.map((c) => [c.id, c]));
+
+    const courseMinutes = minutesByCourse(sessions, taskCourseMap, since);
+
+    return decks
+      .filter((d) => !ids || ids.has(d.course_id))
+      .map((deck) => ({
+        deck,
+        course: coursesById.get(deck.course_id),
+        stats: deckStats(
+          cards.filter((c) => c.deck_id === deck.id),
+          cardReviews.filter((r) => r.deck_id === deck.id),
+          today,
+          since,
+        ),
+        focusMinutes: courseMinutes.get(deck.course_id) ?? 0,
+      }));
+  }, [decks, cards, cardReviews, courses, selection, taskCourseMap, sessions, periodDays]);
+
   function handleExportPDF() {
+    const coursesById = new Map(courses.map((c) => [c.id, c]));
     const date = new Date().toLocaleDateString('es-AR', {
       year: 'numeric',
       month: 'long',
@@ -531,7 +653,7 @@ export default function PerformancePage() {
         <tr>
           <td style="padding:10px 14px;border-bottom:1px solid #f0f0f0;font-size:13px">${c.courseName}</td>
           <td style="padding:10px 14px;border-bottom:1px solid #f0f0f0;font-size:13px;text-align:center">${c.count}</td>
-          <td style="padding:10px 14px;border-bottom:1px solid #f0f0f0;font-size:14px;font-weight:700;text-align:center;color:${c.average >= 7 ? '#059669' : c.average >= 4 ? '#d97706' : '#dc2626'}">${c.average.toFixed(2)}</td>
+          <td style="padding:10px 14px;border-bottom:1px solid #f0f0f0;font-size:14px;font-weight:700;text-align:center;color:${TONE_HEX[gradeTone(c.average, c.scheme, scale)]}">${formatGrade(c.average, scale)}</td>
         </tr>`
       )
       .join('');
@@ -544,7 +666,7 @@ export default function PerformancePage() {
           <td style="padding:8px 14px;border-bottom:1px solid #f0f0f0;font-size:12px">${g.exam_date ? new Date(g.exam_date + 'T00:00:00').toLocaleDateString('es-AR') : '—'}</td>
           <td style="padding:8px 14px;border-bottom:1px solid #f0f0f0;font-size:12px">${g.courseName}</td>
           <td style="padding:8px 14px;border-bottom:1px solid #f0f0f0;font-size:12px">${g.exam_type ?? '—'}</td>
-          <td style="padding:8px 14px;border-bottom:1px solid #f0f0f0;font-size:13px;font-weight:700;color:${g.grade >= 7 ? '#059669' : g.grade >= 4 ? '#d97706' : '#dc2626'}">${g.grade}</td>
+          <td style="padding:8px 14px;border-bottom:1px solid #f0f0f0;font-size:13px;font-weight:700;color:${TONE_HEX[gradeTone(g.grade, schemeForCourse(coursesById.get(g.course_id), scale), scale)]}">${formatGrade(g.grade, scale, 1)}</td>
         </tr>`
       )
       .join('');
@@ -613,11 +735,11 @@ export default function PerformancePage() {
       generalAverage !== null
         ? `<div class="summary">
         <div class="sum-item">
-          <div class="sum-v" style="color:${generalAverage >= 7 ? '#059669' : generalAverage >= 4 ? '#d97706' : '#dc2626'}">${generalAverage.toFixed(2)}</div>
+          <div class="sum-v" style="color:${TONE_HEX[gradeTone(generalAverage, undefined, scale)]}">${formatGrade(generalAverage, scale)}</div>
           <div class="sum-l">Promedio general</div>
         </div>
-        ${bestCourse ? `<div class="sum-item"><div class="sum-v" style="color:#059669">${bestCourse.average.toFixed(2)}</div><div class="sum-l">Mejor · ${bestCourse.courseName}</div></div>` : ''}
-        ${weakestCourse ? `<div class="sum-item"><div class="sum-v" style="color:#dc2626">${weakestCourse.average.toFixed(2)}</div><div class="sum-l">A reforzar · ${weakestCourse.courseName}</div></div>` : ''}
+        ${bestCourse ? `<div class="sum-item"><div class="sum-v" style="color:#059669">${formatGrade(bestCourse.average, scale)}</div><div class="sum-l">Mejor · ${bestCourse.courseName}</div></div>` : ''}
+        ${weakestCourse ? `<div class="sum-item"><div class="sum-v" style="color:#dc2626">${formatGrade(weakestCourse.average, scale)}</div><div class="sum-l">A reforzar · ${weakestCourse.courseName}</div></div>` : ''}
       </div>`
         : ''
     }
@@ -908,10 +1030,116 @@ export default function PerformancePage() {
               </div>
             </section>
 
+            {/* ── Interrupciones ───────────────────────────────── */}
+            {periodCompletion.rate !== null && (
+              <section className="rounded-3xl border border-[var(--card-border)] bg-[var(--card-bg)] overflow-hidden">
+                <div className="p-6 pb-4">
+                  <h2 className="text-lg font-semibold text-[var(--foreground)]">Interrupciones</h2>
+                  <p className="text-sm text-[var(--text-muted)] mt-0.5">
+                    {periodCompletion.rate}% de enfoques completos · {periodCompletion.interruptions}{' '}
+                    {periodCompletion.interruptions === 1 ? 'interrupción' : 'interrupciones'} en los últimos {periodDays} días
+                  </p>
+                </div>
+                <div className="px-6 pb-6">
+                  <div className="w-full h-64 [&_*]:outline-none">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={focusQualityData} barCategoryGap={periodDays <= 7 ? '38%' : periodDays <= 30 ? '20%' : '10%'}>
+                        <CartesianGrid strokeDasharray="3 3" opacity={0.07} vertical={false} />
+                        <XAxis dataKey="label" tick={{ fontSize: 11, fill: 'var(--text-muted)' }} axisLine={false} tickLine={false} interval={periodDays <= 7 ? 0 : periodDays <= 30 ? 4 : 13} />
+                        <YAxis yAxisId="count" allowDecimals={false} fontSize={11} tick={{ fill: 'var(--text-muted)' }} axisLine={false} tickLine={false} />
+                        <YAxis yAxisId="rate" orientation="right" domain={[0, 100]} fontSize={11} tick={{ fill: 'var(--text-muted)' }} axisLine={false} tickLine={false} tickFormatter={(v) => `${v}%`} />
+                        <Tooltip contentStyle={tooltipStyle}
+                          formatter={(value, name) => (name === 'Completos' ? `${value}%` : value)}
+                          cursor={{ fill: 'var(--accent)', opacity: 0.06, radius: 8 }}
+                        />
+                        <Legend wrapperStyle={{ fontSize: 11 }} />
+                        {INTERRUPTION_REASONS.map((reason, i) => (
+                          <Bar
+                            key={reason}
+                            yAxisId="count"
+                            dataKey={reason}
+                            name={INTERRUPTION_REASON_LABELS[reason]}
+                            stackId="interruptions"
+                            fill={['var(--warn)', 'var(--danger)', 'var(--primary-soft)'][i]}
+                          />
+                        ))}
+                        <Line yAxisId="rate" dataKey="completion" name="Completos" stroke="var(--success)" strokeWidth={2} dot={false} connectNulls />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              </section>
+            )}
+
+            {/* ── Flashcards ───────────────────────────────────── */}
+            {flashcardData.length > 0 && (
+              <section className="rounded-3xl border border-[var(--card-border)] bg-[var(--card-bg)] overflow-hidden">
+                <div className="p-6 pb-4 flex items-center justify-between gap-3">
+                  <div>
+                    <h2 className="text-lg font-semibold text-[var(--foreground)]">Tarjetas</h2>
+                    <p className="text-sm text-[var(--text-muted)] mt-0.5">
+                      Repasos y retención por mazo en los últimos {periodDays} días
+                    </p>
+                  </div>
+                  <Link href="/flashcards" className="text-xs text-[var(--accent)] hover:underline">
+                    Ver mazos
+                  </Link>
+                </div>
+                <div className="px-6 pb-6 overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-[var(--text-muted)]">
+                        <th className="py-2 pr-3 font-medium">Mazo</th>
+                        <th className="py-2 px-3 font-medium text-right">Tarjetas</th>
+                        <th className="py-2 px-3 font-medium text-right">Para hoy</th>
+                        <th className="py-2 px-3 font-medium text-right">Aprendidas</th>
+                        <th className="py-2 px-3 font-medium text-right">Repasos</th>
+                        <th className="py-2 px-3 font-medium text-right">Retención</th>
+                        <th className="py-2 pl-3 font-medium text-right">Pomodoro</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[var(--card-border)]">
+                      {flashcardData.map(({ deck, course, stats: s, focusMinutes }) => (
+                        <tr key={deck.id}>
+                          <td className="py-2 pr-3">
+                            <div className="flex items-center gap-2 min-w-0">
+                              <span
+                                className="w-2.5 h-2.5 rounded-full shrink-0"
+                                style={{ backgroundColor: course?.color || 'var(--accent)' }}
+                              />
+                              <span className="truncate">{deck.name}</span>
+                              <span className="text-xs text-[var(--text-muted)] truncate hidden sm:inline">
+                                {course?.name}
+                              </span>
+                            </div>
+                          </td>
+                          <td className="py-2 px-3 text-right tabular-nums">{s.total}</td>
+                          <td className={`py-2 px-3 text-right tabular-nums ${s.due > 0 ? 'text-[var(--warn)] font-medium' : ''}`}>
+                            {s.due}
+                          </td>
+                          <td className="py-2 px-3 text-right tabular-nums">{s.mature}</td>
+                          <td className="py-2 px-3 text-right tabular-nums">{s.reviews}</td>
+                          <td className="py-2 px-3 text-right tabular-nums">
+                            {s.retention === null ? '—' : `${s.retention}%`}
+                          </td>
+                          <td className="py-2 pl-3 text-right tabular-nums text-[var(--text-muted)]">
+                            {timeUnit === 'minutes' ? `${focusMinutes} min` : `${(focusMinutes / 60).toFixed(1)} h`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+            )}
+
             {/* ── Academic ─────────────────────────────────────── */}
             <section className="rounded-3xl border border-[var(--card-border)] bg-[var(--card-bg)] overflow-hidden">
-              <div className="p-6 pb-4">
+              <div className="p-6 pb-4 flex items-center justify-between gap-3">
                 <h2 className="text-lg font-semibold text-[var(--foreground)]">Notas y promedios</h2>
+                <Link href="/transcript" className="text-xs text-[var(--accent)] hover:underline">
+                  Ver analítico
+                </Link>
               </div>
 
               {courseAverages.length === 0 ? (
@@ -925,18 +1153,25 @@ export default function PerformancePage() {
                   {generalAverage !== null && (
                     <div className="mx-6 mb-5 grid grid-cols-3 gap-3">
                       <div className="rounded-2xl bg-[var(--background)] border border-[var(--card-border)] p-4 text-center">
-                        <p className="text-2xl font-bold" style={{ color: gradeColor(generalAverage) }}>{generalAverage.toFixed(2)}</p>
-                        <p className="text-xs text-[var(--text-muted)] mt-0.5 font-medium">Promedio</p>
+                        <p className="text-2xl font-bold" style={{ color: gradeColor(generalAverage, undefined, scale) }}>{formatGrade(generalAverage, scale)}</p>
+                        <p className="text-xs text-[var(--text-muted)] mt-0.5 font-medium">
+                          {activeTerm ? activeTerm.name : 'Promedio'}
+                        </p>
+                        {activeTerm && cumulativeAverage !== null && (
+                          <p className="text-[10px] text-[var(--text-muted)] opacity-80">
+                            Acumulado {formatGrade(cumulativeAverage, scale)}
+                          </p>
+                        )}
                       </div>
                       {bestCourse && (
                         <div className="rounded-2xl bg-[var(--background)] border border-[var(--card-border)] p-4 text-center">
-                          <p className="text-2xl font-bold" style={{ color: gradeColor(bestCourse.average) }}>{bestCourse.average.toFixed(2)}</p>
+                          <p className="text-2xl font-bold" style={{ color: gradeColor(bestCourse.average, bestCourse.scheme, scale) }}>{formatGrade(bestCourse.average, scale)}</p>
                           <p className="text-xs text-[var(--text-muted)] mt-0.5 font-medium truncate px-1" title={bestCourse.courseName}>Mejor</p>
                         </div>
                       )}
                       {weakestCourse && (
                         <div className="rounded-2xl bg-[var(--background)] border border-[var(--card-border)] p-4 text-center">
-                          <p className="text-2xl font-bold" style={{ color: gradeColor(weakestCourse.average) }}>{weakestCourse.average.toFixed(2)}</p>
+                          <p className="text-2xl font-bold" style={{ color: gradeColor(weakestCourse.average, weakestCourse.scheme, scale) }}>{formatGrade(weakestCourse.average, scale)}</p>
                           <p className="text-xs text-[var(--text-muted)] mt-0.5 font-medium truncate px-1">A reforzar</p>
                         </div>
                       )}
@@ -978,10 +1213,10 @@ export default function PerformancePage() {
                           <BarChart data={courseAverages} margin={{ top: 10, right: 20, bottom: 60, left: 20 }} barCategoryGap="38%">
                             <CartesianGrid strokeDasharray="3 3" opacity={0.07} vertical={false} />
                             <XAxis dataKey="courseName" tick={{ fontSize: 11, fill: 'var(--text-muted)' }} interval={0} angle={-25} textAnchor="end" dy={10} axisLine={false} tickLine={false} />
-                            <YAxis domain={[0, 10]} tick={{ fontSize: 11, fill: 'var(--text-muted)' }} axisLine={false} tickLine={false} tickFormatter={(v) => { const n = Number(v); return isNaN(n) ? v : n.toFixed(0); }} />
-                            <Tooltip contentStyle={tooltipStyle} formatter={(value, _name, props) => { const n = Number(value); return isNaN(n) ? value as string : [`${n.toFixed(2)}`, props?.payload?.courseName ?? 'Materia']; }} cursor={{ fill: 'var(--accent)', opacity: 0.05, radius: 8 }} />
+                            <YAxis domain={[0, 10]} tick={{ fontSize: 11, fill: 'var(--text-muted)' }} axisLine={false} tickLine={false} tickFormatter={scaleTick} />
+                            <Tooltip contentStyle={tooltipStyle} formatter={(value, _name, props) => { const n = Number(value); return isNaN(n) ? value as string : [formatGrade(n, scale), props?.payload?.courseName ?? 'Materia']; }} cursor={{ fill: 'var(--accent)', opacity: 0.05, radius: 8 }} />
                             <Bar dataKey="average" radius={[8, 8, 3, 3]}>
-                              {courseAverages.map((c) => <Cell key={c.courseId} fill={gradeColor(c.average)} />)}
+                              {courseAverages.map((c) => <Cell key={c.courseId} fill={gradeColor(c.average, c.scheme, scale)} />)}
                             </Bar>
                           </BarChart>
                         </ResponsiveContainer>
@@ -995,8 +1230,8 @@ export default function PerformancePage() {
                             <LineChart data={timelineData} margin={{ top: 10, right: 20, bottom: 20, left: 20 }}>
                               <CartesianGrid strokeDasharray="3 3" opacity={0.07} vertical={false} />
                               <XAxis dataKey="label" tick={{ fontSize: 11, fill: 'var(--text-muted)' }} axisLine={false} tickLine={false} />
-                              <YAxis domain={[0, 10]} tick={{ fontSize: 11, fill: 'var(--text-muted)' }} axisLine={false} tickLine={false} />
-                              <Tooltip contentStyle={tooltipStyle} formatter={(value: number, name: string) => { const labels: Record<string, string> = { promedio: 'Promedio', mejor: 'Mejor nota', peor: 'Peor nota' }; return [value.toFixed(2), labels[name] || name]; }} labelFormatter={(l) => `Período: ${l}`} />
+                              <YAxis domain={[0, 10]} tick={{ fontSize: 11, fill: 'var(--text-muted)' }} axisLine={false} tickLine={false} tickFormatter={scaleTick} />
+                              <Tooltip contentStyle={tooltipStyle} formatter={(value: number, name: string) => { const labels: Record<string, string> = { promedio: 'Promedio', mejor: 'Mejor nota', peor: 'Peor nota' }; return [formatGrade(value, scale), labels[name] || name]; }} labelFormatter={(l) => `Período: ${l}`} />
                               <Legend formatter={(v) => ({ promedio: 'Promedio', mejor: 'Mejor', peor: 'Peor' } as Record<string, string>)[v] || v} />
                               <Line type="monotone" dataKey="promedio" stroke="var(--accent)" strokeWidth={2.5} dot={{ fill: 'var(--accent)', r: 4, strokeWidth: 0 }} activeDot={{ r: 6 }} />
                               <Line type="monotone" dataKey="mejor" stroke="var(--success)" strokeWidth={1.5} strokeDasharray="5 5" dot={{ fill: 'var(--success)', r: 3, strokeWidth: 0 }} />
@@ -1036,10 +1271,10 @@ export default function PerformancePage() {
                             <BarChart data={examTypeData} margin={{ top: 10, right: 20, bottom: 60, left: 20 }} barCategoryGap="40%">
                               <CartesianGrid strokeDasharray="3 3" opacity={0.07} vertical={false} />
                               <XAxis dataKey="name" tick={{ fontSize: 10, fill: 'var(--text-muted)' }} interval={0} angle={-25} textAnchor="end" dy={10} axisLine={false} tickLine={false} />
-                              <YAxis domain={[0, 10]} tick={{ fontSize: 11, fill: 'var(--text-muted)' }} axisLine={false} tickLine={false} />
-                              <Tooltip contentStyle={tooltipStyle} formatter={(value: number, _n: string, props) => [`${value.toFixed(2)} (${props.payload.cantidad} exámenes)`, 'Promedio']} cursor={{ fill: 'var(--accent)', opacity: 0.05, radius: 8 }} />
+                              <YAxis domain={[0, 10]} tick={{ fontSize: 11, fill: 'var(--text-muted)' }} axisLine={false} tickLine={false} tickFormatter={scaleTick} />
+                              <Tooltip contentStyle={tooltipStyle} formatter={(value: number, _n: string, props) => [`${formatGrade(value, scale)} (${props.payload.cantidad} exámenes)`, 'Promedio']} cursor={{ fill: 'var(--accent)', opacity: 0.05, radius: 8 }} />
                               <Bar dataKey="promedio" radius={[8, 8, 3, 3]}>
-                                {examTypeData.map((entry) => <Cell key={entry.name} fill={gradeColor(entry.promedio)} />)}
+                                {examTypeData.map((entry) => <Cell key={entry.name} fill={gradeColor(entry.promedio, undefined, scale)} />)}
                               </Bar>
                             </BarChart>
                           </ResponsiveContainer>
@@ -1056,8 +1291,8 @@ export default function PerformancePage() {
                             <RadarChart data={radarData} cx="50%" cy="50%" outerRadius="70%">
                               <PolarGrid stroke="var(--card-border)" />
                               <PolarAngleAxis dataKey="subject" tick={{ fontSize: 10, fill: 'var(--text-muted)' }} />
-                              <PolarRadiusAxis domain={[0, 10]} tick={{ fontSize: 9, fill: 'var(--text-muted)' }} axisLine={false} />
-                              <Tooltip contentStyle={tooltipStyle} formatter={(value: number, _n: string, props) => [value.toFixed(2), props.payload.fullName]} />
+                              <PolarRadiusAxis domain={[0, 10]} tick={{ fontSize: 9, fill: 'var(--text-muted)' }} axisLine={false} tickFormatter={scaleTick} />
+                              <Tooltip contentStyle={tooltipStyle} formatter={(value: number, _n: string, props) => [formatGrade(value, scale), props.payload.fullName]} />
                               <Radar name="Promedio" dataKey="promedio" stroke="var(--accent)" fill="var(--accent)" fillOpacity={0.25} strokeWidth={2} />
                             </RadarChart>
                           </ResponsiveContainer>
@@ -1088,6 +1323,7 @@ export default function PerformancePage() {
                             tick={{ fontSize: 11, fill: 'var(--text-muted)' }}
                             axisLine={false}
                             tickLine={false}
+                            tickFormatter={scaleTick}
                           />
                           <Tooltip
                             contentStyle={{
@@ -1098,9 +1334,9 @@ export default function PerformancePage() {
                             }}
                             formatter={(value: number, name: string, props) => {
                               if (name === 'promedio') {
-                                return [value.toFixed(2), 'Promedio acumulado'];
+                                return [formatGrade(value, scale), 'Promedio acumulado'];
                               }
-                              return [`${value} (${props.payload.materia})`, 'Nota'];
+                              return [`${formatGrade(value, scale, 1)} (${props.payload.materia})`, 'Nota'];
                             }}
                           />
                           <Legend
@@ -1161,11 +1397,11 @@ export default function PerformancePage() {
                                 <LineChart data={focusCorrelationData} margin={{ top: 20, right: 20, bottom: 60, left: 20 }}>
                                   <CartesianGrid strokeDasharray="3 3" opacity={0.2} />
                                   <XAxis dataKey="name" tick={{ fontSize: 10, fill: 'var(--text-muted)' }} interval={0} angle={-25} textAnchor="end" dy={10} axisLine={false} tickLine={false} />
-                                  <YAxis domain={[0, 10]} tick={{ fontSize: 11, fill: 'var(--text-muted)' }} axisLine={false} tickLine={false} />
+                                  <YAxis domain={[0, 10]} tick={{ fontSize: 11, fill: 'var(--text-muted)' }} axisLine={false} tickLine={false} tickFormatter={scaleTick} />
                                   <Tooltip
                                     contentStyle={tooltipStyle}
                                     formatter={(value: number, name: string, props) => {
-                                      if (name === 'promedio') return [`${value.toFixed(2)} / 10`, 'Promedio nota'];
+                                      if (name === 'promedio') return [`${formatGrade(value, scale)} / ${scale.max}`, 'Promedio nota'];
                                       if (name === 'horasNorm') return [`${props.payload.horas} h (${props.payload.minutos} min)`, 'Enfoque'];
                                       return [value, name];
                                     }}
@@ -1179,7 +1415,7 @@ export default function PerformancePage() {
                                     strokeWidth={2.5}
                                     dot={(props) => {
                                       const { cx = 0, cy = 0, payload } = props as { cx?: number; cy?: number; payload: { promedio: number; fullName: string } };
-                                      return <circle key={payload.fullName} cx={cx} cy={cy} r={5} fill={gradeColor(payload.promedio)} stroke="var(--card-bg)" strokeWidth={2} />;
+                                      return <circle key={payload.fullName} cx={cx} cy={cy} r={5} fill={gradeColor(payload.promedio, undefined, scale)} stroke="var(--card-bg)" strokeWidth={2} />;
                                     }}
                                     activeDot={{ r: 7 }}
                                   />
@@ -1218,11 +1454,11 @@ export default function PerformancePage() {
                                 <div className="mt-4 flex flex-col gap-2">
                                   <div className="flex items-start gap-2 px-4 py-3 rounded-xl bg-[var(--background)] border border-[var(--card-border)] text-xs text-[var(--text-muted)]">
                                     <span className="text-base leading-none">📚</span>
-                                    <span>Más tiempo de enfoque: <strong className="text-[var(--foreground)]">{mostStudied.fullName}</strong> — {mostStudied.horas} h · promedio {mostStudied.promedio.toFixed(2)}</span>
+                                    <span>Más tiempo de enfoque: <strong className="text-[var(--foreground)]">{mostStudied.fullName}</strong> — {mostStudied.horas} h · promedio {formatGrade(mostStudied.promedio, scale)}</span>
                                   </div>
                                   <div className="flex items-start gap-2 px-4 py-3 rounded-xl bg-[var(--background)] border border-[var(--card-border)] text-xs text-[var(--text-muted)]">
                                     <span className="text-base leading-none">⏱️</span>
-                                    <span>Menos tiempo de enfoque: <strong className="text-[var(--foreground)]">{leastStudied.fullName}</strong> — {leastStudied.horas} h · promedio {leastStudied.promedio.toFixed(2)}</span>
+                                    <span>Menos tiempo de enfoque: <strong className="text-[var(--foreground)]">{leastStudied.fullName}</strong> — {leastStudied.horas} h · promedio {formatGrade(leastStudied.promedio, scale)}</span>
                                   </div>
                                   {underperforming.length > 0 && (
                                     <div className="flex items-start gap-2 px-4 py-3 rounded-xl bg-[var(--danger)]/8 border border-[var(--danger)]/20 text-xs text-[var(--text-muted)]">
@@ -1269,16 +1505,16 @@ export default function PerformancePage() {
                             <div className="mt-1.5 h-1.5 rounded-full bg-[var(--card-border)] overflow-hidden">
                               <div
                                 className="h-1.5 rounded-full transition-all duration-700"
-                                style={{ width: `${(c.average / 10) * 100}%`, backgroundColor: gradeColor(c.average) }}
+                                style={{ width: `${(c.average / 10) * 100}%`, backgroundColor: gradeColor(c.average, c.scheme, scale) }}
                               />
                             </div>
                             <p className="text-[10px] text-[var(--text-muted)] mt-1">{c.count} {c.count === 1 ? 'examen' : 'exámenes'}</p>
                           </div>
                           <div
                             className="w-11 h-11 rounded-2xl flex items-center justify-center text-white font-bold text-sm shrink-0"
-                            style={{ backgroundColor: gradeColor(c.average) }}
+                            style={{ backgroundColor: gradeColor(c.average, c.scheme, scale) }}
                           >
-                            {c.average.toFixed(1)}
+                            {formatGrade(c.average, scale, 1)}
                           </div>
                         </div>
                       ))}
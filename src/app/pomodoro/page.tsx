@@ -5,28 +5,89 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
 import { PremiumGate } from '@/components/PremiumGate';
-import { supabaseClient } from '@/lib/supabaseClient';
+import {
+  createPomodoroSession,
+  getPomodoroTimer,
+  getProfile,
+  getTopic,
+  listCourses,
+  listExamPlans,
+  listPendingTasks,
+  savePomodoroTimer,
+  subscribePomodoroTimer,
+  updateTopic,
+  upsertProfile,
+  type Course,
+  type CourseTopic,
+  type ExamPlan,
+  type InterruptionReason,
+  type PomodoroInterruption,
+  type PomodoroPreset,
+  type PomodoroSessionInsert,
+  type PomodoroSettings,
+  type PomodoroSound,
+  type PomodoroTimerUpdate,
+  type PomodoroTimes,
+  type Task,
+} from '@/lib/db';
+import { POMODORO_EXAM_CTX_KEY, type PomodoroExamContext } from '@/lib/studySchedule';
+import {
+  BUILTIN_POMODORO_PRESETS,
+  DEFAULT_POMODORO_SETTINGS,
+  INTERRUPTION_REASONS,
+  INTERRUPTION_REASON_LABELS,
+  MAX_CUSTOM_PRESETS,
+  POMODORO_LIMITS,
+  POMODORO_MODE_LABELS,
+  POMODORO_SOUND_LABELS,
+  breakAfterFocus,
+  formatPomodoroTimes,
+  isPomodoroSound,
+  openTimerChannel,
+  parsePomodoroTarget,
+  phaseMinutes,
+  pomodoroTargetValue,
+  remainingAt,
+  resolvePomodoroSettings,
+  sameTimes,
+  sessionLinks,
+  timerKey,
+  validatePomodoroTimes,
+  type PomodoroMode,
+  type PomodoroTargetValue,
+  type TimerChannel,
+} from '@/lib/pomodoro';
+import {
+  PHASE_ALERT_REFRESH_MS,
+  cancelPhaseAlert,
+  isPhaseAlertAction,
+  listenPhaseAlertActions,
+  phaseAlertAuth,
+  phaseAlertText,
+  playPomodoroSound,
+  registerPomodoroWorker,
+  requestNotificationPermission,
+  schedulePhaseAlert,
+  type PhaseAlertAction,
+} from '@/lib/pomodoroAlerts';
+import { reviewPatch, type ReviewRating } from '@/lib/spacedRepetition';
+import { ReviewButtons } from '@/components/ReviewButtons';
 import { FaClock, FaGraduationCap, FaTimes } from 'react-icons/fa';
 
-type Mode = 'focus' | 'break';
+type Mode = PomodoroMode;
 
-type Task = {
-  id: string;
-  title: string;
-  completed: boolean;
-  due_date: string | null;
-  course_id: string | null;
-};
+const FOCUS_MINUTES_DEFAULT = DEFAULT_POMODORO_SETTINGS.focus;
+const BREAK_MINUTES_DEFAULT = DEFAULT_POMODORO_SETTINGS.shortBreak;
+const LONG_BREAK_MINUTES_DEFAULT = DEFAULT_POMODORO_SETTINGS.longBreak;
+const ROUNDS_DEFAULT = DEFAULT_POMODORO_SETTINGS.rounds;
 
-type ExamContext = {
-  courseId: string | null;
-  examName: string;
-  suggested: number;
-  courseName: string | null;
-};
+const MODES: Mode[] = ['focus', 'break', 'long_break'];
 
-const FOCUS_MINUTES_DEFAULT = 25;
-const BREAK_MINUTES_DEFAULT = 5;
+const MODE_STYLES: Record<Mode, { active: string; color: string }> = {
+  focus: { active: 'bg-[var(--accent)] text-[var(--foreground)]', color: 'var(--accent)' },
+  break: { active: 'bg-[var(--success)] text-white', color: 'var(--success)' },
+  long_break: { active: 'bg-[var(--primary-soft)] text-white', color: 'var(--primary-soft)' },
+};
 
 const STORAGE_KEY = 'taskademic:pomodoro:v1';
 
@@ -36,11 +97,22 @@ type StoredState = {
   isRunning: boolean;
   focusMinutes: number;
   breakMinutes: number;
+  longBreakMinutes: number;
+  roundsPerCycle: number;
   focusInput: string;
   breakInput: string;
+  longBreakInput: string;
+  roundsInput: string;
+  autoStart: boolean;
+  sound: PomodoroSound;
+  notify: boolean;
+  completedRounds: number; // enfoques terminados en el ciclo actual
   cycleStart: number | null;
+  interruptions: PomodoroInterruption[]; // del enfoque en curso
   selectedTaskId: string | 'none';
+  target: PomodoroTargetValue;
   lastTickAt: number | null;
+  syncedAt?: number; // último cambio compartido con las otras pestañas y dispositivos
 };
 
 export default function PomodoroPage() {
@@ -63,7 +135,20 @@ export default function PomodoroPage() {
     BREAK_MINUTES_DEFAULT.toString(),
   );
 
+  const [longBreakMinutes, setLongBreakMinutes] = useState(LONG_BREAK_MINUTES_DEFAULT);
+  const [roundsPerCycle, setRoundsPerCycle] = useState(ROUNDS_DEFAULT);
+  const [longBreakInput, setLongBreakInput] = useState(LONG_BREAK_MINUTES_DEFAULT.toString());
+  const [roundsInput, setRoundsInput] = useState(ROUNDS_DEFAULT.toString());
+  const [autoStart, setAutoStart] = useState(DEFAULT_POMODORO_SETTINGS.autoStart);
+  const [completedRounds, setCompletedRounds] = useState(0);
+  const [sound, setSound] = useState<PomodoroSound>(DEFAULT_POMODORO_SETTINGS.sound);
+  const [notify, setNotify] = useState(DEFAULT_POMODORO_SETTINGS.notify);
+  // Presets propios, guardados en el perfil junto con los tiempos
+  const [presets, setPresets] = useState<PomodoroPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+
   const [cycleStart, setCycleStart] = useState<number | null>(null);
+  const [interruptions, setInterruptions] = useState<PomodoroInterruption[]>([]);
   const [lastTickAt, setLastTickAt] = useState<number | null>(null);
 
   const [error, setError] = useState<string | null>(null);
@@ -71,7 +156,13 @@ export default function PomodoroPage() {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [tasksLoading, setTasksLoading] = useState(true);
   const [selectedTaskId, setSelectedTaskId] = useState<string | 'none'>('none');
-  const [examContext, setExamContext] = useState<ExamContext | null>(null);
+  // Materia o examen al que cuentan las sesiones, con o sin tarea
+  const [target, setTarget] = useState<PomodoroTargetValue>('none');
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [examPlans, setExamPlans] = useState<ExamPlan[]>([]);
+  const [examContext, setExamContext] = useState<PomodoroExamContext | null>(null);
+  const [reviewTopic, setReviewTopic] = useState<CourseTopic | null>(null);
+  const [savingReview, setSavingReview] = useState(false);
 
   const [hydrated, setHydrated] = useState(false);
   const [showConfig, setShowConfig] = useState(false);
@@ -79,6 +170,18 @@ export default function PomodoroPage() {
   const remainingSecondsRef = useRef(remainingSeconds);
   const lastTickAtRef = useRef<number | null>(null);
   const stateRef = useRef<StoredState | null>(null);
+  // Materia del bloque agendado: se vincula su primera tarea pendiente al cargar
+  const blockCourseRef = useRef<string | null>(null);
+
+  // Sincronización: el último cambio (local o remoto) gana en todas las pestañas
+  const [tabId] = useState(() => crypto.randomUUID());
+  const channelRef = useRef<TimerChannel | null>(null);
+  const lastSyncedKeyRef = useRef<string | null>(null);
+  const lastSyncAtRef = useRef(0);
+  // Fin de la fase en curso según el último estado compartido (null si está pausado)
+  const phaseEndsAtRef = useRef<number | null>(null);
+  // Acción tocada en la notificación, que se aplica al cerrar la fase que terminó
+  const pendingAlertActionRef = useRef<PhaseAlertAction | null>(null);
 
   useEffect(() => {
     remainingSecondsRef.current = remainingSeconds;
@@ -95,10 +198,20 @@ export default function PomodoroPage() {
       isRunning,
       focusMinutes,
       breakMinutes,
+      longBreakMinutes,
+      roundsPerCycle,
       focusInput,
       breakInput,
+      longBreakInput,
+      roundsInput,
+      autoStart,
+      sound,
+      notify,
+      completedRounds,
       cycleStart,
+      interruptions,
       selectedTaskId,
+      target,
       lastTickAt,
     };
   }, [
@@ -107,10 +220,20 @@ export default function PomodoroPage() {
     isRunning,
     focusMinutes,
     breakMinutes,
+    longBreakMinutes,
+    roundsPerCycle,
     focusInput,
     breakInput,
+    longBreakInput,
+    roundsInput,
+    autoStart,
+    sound,
+    notify,
+    completedRounds,
     cycleStart,
+    interruptions,
     selectedTaskId,
+    target,
     lastTickAt,
   ]);
 
@@ -119,7 +242,10 @@ export default function PomodoroPage() {
     if (!hydrated) return;
     if (!stateRef.current) return;
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(stateRef.current));
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ ...stateRef.current, syncedAt: lastSyncAtRef.current }),
+    );
   }, [user, hydrated]);
 
   // Proteger ruta
@@ -133,90 +259,179 @@ export default function PomodoroPage() {
   useEffect(() => {
     if (!user) return;
 
+    let hydratedFocusMin = FOCUS_MINUTES_DEFAULT;
+    let hydratedRunning = false;
+
     try {
       const raw = localStorage.getItem(STORAGE_KEY);
-      if (!raw) {
-        setHydrated(true);
-        return;
-      }
-      const saved = JSON.parse(raw) as Partial<StoredState>;
-
-      const savedMode = (saved.mode ?? 'focus') as Mode;
-      // Validar remainingSeconds con límites de seguridad (0 a 2 horas máx)
-      const savedRemaining =
-        typeof saved.remainingSeconds === 'number' &&
-        saved.remainingSeconds >= 0 &&
-        saved.remainingSeconds <= 7200
-          ? saved.remainingSeconds
-          : FOCUS_MINUTES_DEFAULT * 60;
-
-      const savedRunning = !!saved.isRunning;
-
-      // Validar focusMinutes con límites de seguridad (1-120 minutos)
-      const savedFocusMin =
-        typeof saved.focusMinutes === 'number' &&
-        saved.focusMinutes >= 1 &&
-        saved.focusMinutes <= 120
-          ? saved.focusMinutes
-          : FOCUS_MINUTES_DEFAULT;
-
-      // Validar breakMinutes con límites de seguridad (1-60 minutos)
-      const savedBreakMin =
-        typeof saved.breakMinutes === 'number' &&
-        saved.breakMinutes >= 1 &&
-        saved.breakMinutes <= 60
-          ? saved.breakMinutes
-          : BREAK_MINUTES_DEFAULT;
-
-      const savedFocusInput =
-        typeof saved.focusInput === 'string'
-          ? saved.focusInput
-          : String(savedFocusMin);
-
-      const savedBreakInput =
-        typeof saved.breakInput === 'string'
-          ? saved.breakInput
-          : String(savedBreakMin);
-
-      const savedCycleStart =
-        typeof saved.cycleStart === 'number' ? saved.cycleStart : null;
-
-      const savedSelected =
-        typeof saved.selectedTaskId === 'string' ? saved.selectedTaskId : 'none';
-
-      const savedLastTickAt =
-        typeof saved.lastTickAt === 'number' ? saved.lastTickAt : null;
-
-      let nextRemaining = Math.max(0, savedRemaining);
-      if (savedRunning && savedLastTickAt) {
-        const elapsedSec = Math.floor((Date.now() - savedLastTickAt) / 1000);
-        if (elapsedSec > 0) nextRemaining = Math.max(0, nextRemaining - elapsedSec);
-      }
+      if (raw) {
+        const saved = JSON.parse(raw) as Partial<StoredState>;
+
+        const savedMode: Mode = MODES.includes(saved.mode as Mode) ? (saved.mode as Mode) : 'focus';
+        // Validar remainingSeconds con límites de seguridad (0 a 2 horas máx)
+        const savedRemaining =
+          typeof saved.remainingSeconds === 'number' &&
+          saved.remainingSeconds >= 0 &&
+          saved.remainingSeconds <= 7200
+            ? saved.remainingSeconds
+            : FOCUS_MINUTES_DEFAULT * 60;
+
+        const savedRunning = !!saved.isRunning;
+
+        // Validar focusMinutes con límites de seguridad (1-120 minutos)
+        const savedFocusMin =
+          typeof saved.focusMinutes === 'number' &&
+          saved.focusMinutes >= 1 &&
+          saved.focusMinutes <= 120
+            ? saved.focusMinutes
+            : FOCUS_MINUTES_DEFAULT;
+
+        // Validar breakMinutes con límites de seguridad (1-60 minutos)
+        const savedBreakMin =
+          typeof saved.breakMinutes === 'number' &&
+          saved.breakMinutes >= 1 &&
+          saved.breakMinutes <= 60
+            ? saved.breakMinutes
+            : BREAK_MINUTES_DEFAULT;
+
+        // Ciclo: descanso largo, rondas y auto-inicio (los límites son los de la configuración)
+        const savedLongBreakMin =
+          typeof saved.longBreakMinutes === 'number' &&
+          saved.longBreakMinutes >= POMODORO_LIMITS.longBreak.min &&
+          saved.longBreakMinutes <= POMODORO_LIMITS.longBreak.max
+            ? saved.longBreakMinutes
+            : LONG_BREAK_MINUTES_DEFAULT;
+
+        const savedRounds =
+          typeof saved.roundsPerCycle === 'number' &&
+          saved.roundsPerCycle >= POMODORO_LIMITS.rounds.min &&
+          saved.roundsPerCycle <= POMODORO_LIMITS.rounds.max
+            ? saved.roundsPerCycle
+            : ROUNDS_DEFAULT;
+
+        const savedCompleted =
+          typeof saved.completedRounds === 'number' && saved.completedRounds >= 0
+            ? Math.floor(saved.completedRounds)
+            : 0;
+
+        const savedFocusInput =
+          typeof saved.focusInput === 'string'
+            ? saved.focusInput
+            : String(savedFocusMin);
+
+        const savedBreakInput =
+          typeof saved.breakInput === 'string'
+            ? saved.breakInput
+            : String(savedBreakMin);
+
+        const savedCycleStart =
+          typeof saved.cycleStart === 'number' ? saved.cycleStart : null;
+
+        const savedInterruptions = Array.isArray(saved.interruptions)
+          ? saved.interruptions.filter(
+              (i) => i && INTERRUPTION_REASONS.includes(i.reason) && typeof i.at === 'string',
+            )
+          : [];
+
+        const savedSelected =
+          typeof saved.selectedTaskId === 'string' ? saved.selectedTaskId : 'none';
+
+        const savedTarget = pomodoroTargetValue(
+          typeof saved.target === 'string' ? parsePomodoroTarget(saved.target) : null,
+        );
 
-      setMode(savedMode);
-      setRemainingSeconds(nextRemaining);
-      setIsRunning(savedRunning);
-      setFocusMinutes(savedFocusMin);
-      setBreakMinutes(savedBreakMin);
-      setFocusInput(savedFocusInput);
-      setBreakInput(savedBreakInput);
-      setCycleStart(savedCycleStart);
-      setSelectedTaskId(savedSelected);
-      const nextTickAt = savedRunning ? Date.now() : null;
-      setLastTickAt(nextTickAt);
-      lastTickAtRef.current = nextTickAt;
+        const savedLastTickAt =
+          typeof saved.lastTickAt === 'number' ? saved.lastTickAt : null;
+
+        let nextRemaining = Math.max(0, savedRemaining);
+        if (savedRunning && savedLastTickAt) {
+          const elapsedSec = Math.floor((Date.now() - savedLastTickAt) / 1000);
+          if (elapsedSec > 0) nextRemaining = Math.max(0, nextRemaining - elapsedSec);
+        }
+
+        setMode(savedMode);
+        setRemainingSeconds(nextRemaining);
+        setIsRunning(savedRunning);
+        setFocusMinutes(savedFocusMin);
+        setBreakMinutes(savedBreakMin);
+        setFocusInput(savedFocusInput);
+        setBreakInput(savedBreakInput);
+        setLongBreakMinutes(savedLongBreakMin);
+        setRoundsPerCycle(savedRounds);
+        setLongBreakInput(
+          typeof saved.longBreakInput === 'string' ? saved.longBreakInput : String(savedLongBreakMin),
+        );
+        setRoundsInput(typeof saved.roundsInput === 'string' ? saved.roundsInput : String(savedRounds));
+        setAutoStart(typeof saved.autoStart === 'boolean' ? saved.autoStart : DEFAULT_POMODORO_SETTINGS.autoStart);
+        setSound(isPomodoroSound(saved.sound) ? saved.sound : DEFAULT_POMODORO_SETTINGS.sound);
+        setNotify(saved.notify === true);
+        setCompletedRounds(savedCompleted);
+        setCycleStart(savedCycleStart);
+        setInterruptions(savedInterruptions);
+        setSelectedTaskId(savedSelected);
+        setTarget(savedTarget);
+        const nextTickAt = savedRunning ? Date.now() : null;
+        setLastTickAt(nextTickAt);
+        lastTickAtRef.current = nextTickAt;
+
+        // Lo restaurado ya se compartió: solo se vuelve a publicar si cambia
+        lastSyncedKeyRef.current = timerKey(
+          savedMode,
+          savedRunning,
+          savedCycleStart,
+          savedCompleted,
+          nextRemaining,
+        );
+        lastSyncAtRef.current = typeof saved.syncedAt === 'number' ? saved.syncedAt : 0;
+        phaseEndsAtRef.current =
+          savedRunning && savedLastTickAt
+            ? savedLastTickAt + savedRemaining * 1000
+            : savedRunning
+              ? Date.now() + nextRemaining * 1000
+              : null;
+
+        // Abierta desde una acción de la notificación con la pestaña cerrada
+        const params = new URLSearchParams(window.location.search);
+        const action = params.get('accion');
+        if (isPhaseAlertAction(action)) {
+          if (savedRunning && params.get('fase') === savedMode) pendingAlertActionRef.current = action;
+          window.history.replaceState(null, '', '/pomodoro');
+        }
+        hydratedFocusMin = savedFocusMin;
+        hydratedRunning = savedRunning;
+      }
     } catch {
       // storage corrupto, usar defaults
     } finally {
+      if (lastSyncedKeyRef.current === null) {
+        lastSyncedKeyRef.current = timerKey('focus', false, null, 0, FOCUS_MINUTES_DEFAULT * 60);
+      }
       setHydrated(true);
     }
 
-    // Leer contexto de examen pasado desde Study Planner (se consume una sola vez)
+    // Leer contexto de examen pasado desde Study Planner o el calendario (se consume una sola vez)
     try {
-      const rawCtx = sessionStorage.getItem('pomodoro_exam_ctx');
+      const rawCtx = sessionStorage.getItem(POMODORO_EXAM_CTX_KEY);
       if (rawCtx) {
-        setExamContext(JSON.parse(rawCtx) as ExamContext);
-        sessionStorage.removeItem('pomodoro_exam_ctx');
+        const ctx = JSON.parse(rawCtx) as PomodoroExamContext;
+        setExamContext(ctx);
+        sessionStorage.removeItem(POMODORO_EXAM_CTX_KEY);
+
+        // El examen (o la materia) del contexto pasa a ser el objetivo de las sesiones
+        if (ctx.planId) setTarget(`plan:${ctx.planId}`);
+        else if (ctx.courseId) setTarget(`course:${ctx.courseId}`);
+
+        // Bloques agendados y repasos arrancan el foco enseguida, salvo que ya haya un timer corriendo
+        if (ctx.autoStart && !hydratedRunning) {
+          const now = Date.now();
+          blockCourseRef.current = ctx.courseId;
+          setMode('focus');
+          setRemainingSeconds(hydratedFocusMin * 60);
+          setCycleStart(now);
+          setLastTickAt(now);
+          lastTickAtRef.current = now;
+          setIsRunning(true);
+        }
       }
     } catch {
       // ignorar si sessionStorage no está disponible
@@ -238,10 +453,20 @@ export default function PomodoroPage() {
     remainingSeconds,
     focusMinutes,
     breakMinutes,
+    longBreakMinutes,
+    roundsPerCycle,
     focusInput,
     breakInput,
+    longBreakInput,
+    roundsInput,
+    autoStart,
+    sound,
+    notify,
+    completedRounds,
     cycleStart,
+    interruptions,
     selectedTaskId,
+    target,
     lastTickAt,
     persistState,
   ]);
@@ -299,25 +524,31 @@ export default function PomodoroPage() {
     };
   }, [user, hydrated, isRunning, persistState]);
 
-  // Cargar tareas pendientes
+  // Cargar tareas pendientes y los objetivos posibles (materias y exámenes)
   useEffect(() => {
     if (!user) return;
 
     const fetchTasks = async () => {
       setTasksLoading(true);
 
-      const { data, error } = await supabaseClient
-        .from('tasks')
-        .select('id, title, completed, due_date, course_id')
-        .eq('user_id', user.id)
-        .eq('completed', false)
-        .order('due_date', { ascending: true });
+      const [{ data, error }, coursesRes, plansRes] = await Promise.all([
+        listPendingTasks(user.id),
+        listCourses(user.id),
+        listExamPlans(user.id),
+      ]);
+      setCourses(coursesRes.data ?? []);
+      setExamPlans(plansRes.data ?? []);
 
       if (error) {
         setError('No se pudieron cargar las tareas para el Pomodoro.');
       } else {
-        const list = (data ?? []) as Task[];
-        setTasks(list);
+        setTasks(data);
+        const blockCourse = blockCourseRef.current;
+        if (blockCourse) {
+          blockCourseRef.current = null;
+          const linked = data.find((t) => t.course_id === blockCourse);
+          if (linked) setSelectedTaskId(linked.id);
+        }
       }
 
       setTasksLoading(false);
@@ -327,6 +558,159 @@ export default function PomodoroPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user]);
 
+  // Configuración guardada en el perfil: pisa la local para que siga al usuario entre dispositivos
+  useEffect(() => {
+    if (!user || !hydrated) return;
+
+    const fetchSettings = async () => {
+      const { data, error } = await getProfile(user.id);
+      if (error || !data?.pomodoro_settings) return;
+
+      const settings = resolvePomodoroSettings(data.pomodoro_settings);
+      setFocusMinutes(settings.focus);
+      setBreakMinutes(settings.shortBreak);
+      setLongBreakMinutes(settings.longBreak);
+      setRoundsPerCycle(settings.rounds);
+      setFocusInput(String(settings.focus));
+      setBreakInput(String(settings.shortBreak));
+      setLongBreakInput(String(settings.longBreak));
+      setRoundsInput(String(settings.rounds));
+      setAutoStart(settings.autoStart);
+      setSound(settings.sound);
+      setNotify(settings.notify);
+      setPresets(settings.presets);
+
+      // Una fase sin empezar toma la duración nueva; una en curso la conserva
+      const current = stateRef.current;
+      if (current && !current.isRunning && current.cycleStart === null) {
+        setRemainingSeconds(phaseMinutes(current.mode, settings) * 60);
+      }
+    };
+
+    fetchSettings();
+  }, [user, hydrated]);
+
+  // Aplica un estado del timer hecho en otra pestaña o dispositivo (si es más nuevo)
+  const applyRemoteTimer = useCallback(
+    (timer: PomodoroTimerUpdate) => {
+      if (timer.updated_by === tabId) return;
+      const at = Date.parse(timer.updated_at);
+      if (isNaN(at) || at <= lastSyncAtRef.current) return;
+
+      const now = Date.now();
+      const remaining = remainingAt(timer, now);
+      const remoteCycleStart = timer.cycle_start ? Date.parse(timer.cycle_start) : null;
+      const nextTickAt = timer.is_running ? now : null;
+
+      lastSyncAtRef.current = at;
+      lastSyncedKeyRef.current = timerKey(
+        timer.mode,
+        timer.is_running,
+        remoteCycleStart,
+        timer.completed_rounds,
+        remaining,
+      );
+      phaseEndsAtRef.current = timer.is_running ? at + timer.remaining_seconds * 1000 : null;
+      remainingSecondsRef.current = remaining;
+      lastTickAtRef.current = nextTickAt;
+
+      setMode(timer.mode);
+      setRemainingSeconds(remaining);
+      setIsRunning(timer.is_running);
+      setCycleStart(remoteCycleStart);
+      setCompletedRounds(timer.completed_rounds);
+      setLastTickAt(nextTickAt);
+    },
+    [tabId],
+  );
+
+  // Escuchar el timer: otras pestañas por BroadcastChannel, otros dispositivos por Realtime
+  useEffect(() => {
+    if (!user || !hydrated) return;
+
+    const channel = openTimerChannel(applyRemoteTimer);
+    channelRef.current = channel;
+    const unsubscribe = subscribePomodoroTimer(user.id, applyRemoteTimer);
+
+    const fetchTimer = async () => {
+      const { data, error } = await getPomodoroTimer(user.id);
+      if (error) {
+        console.warn('No se pudo leer el timer compartido:', error.message);
+        return;
+      }
+      if (data) applyRemoteTimer(data);
+    };
+
+    fetchTimer();
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+      unsubscribe();
+    };
+  }, [user, hydrated, applyRemoteTimer]);
+
+  // Publicar cada cambio del timer hecho en esta pestaña (no los ticks)
+  const pausedRemaining = isRunning ? null : remainingSeconds;
+  useEffect(() => {
+    if (!user || !hydrated) return;
+
+    const remaining = remainingSecondsRef.current;
+    const key = timerKey(mode, isRunning, cycleStart, completedRounds, remaining);
+    if (key === lastSyncedKeyRef.current) return;
+
+    const now = Date.now();
+    lastSyncedKeyRef.current = key;
+    lastSyncAtRef.current = now;
+    phaseEndsAtRef.current = isRunning ? now + remaining * 1000 : null;
+
+    const timer: PomodoroTimerUpdate = {
+      mode,
+      is_running: isRunning,
+      remaining_seconds: remaining,
+      cycle_start: cycleStart !== null ? new Date(cycleStart).toISOString() : null,
+      completed_rounds: completedRounds,
+      updated_at: new Date(now).toISOString(),
+      updated_by: tabId,
+    };
+    channelRef.current?.post(timer);
+
+    const saveTimer = async () => {
+      const { error } = await savePomodoroTimer(user.id, timer);
+      if (error) console.warn('No se pudo compartir el timer:', error.message);
+    };
+
+    saveTimer();
+  }, [user, hydrated, mode, isRunning, cycleStart, completedRounds, pausedRemaining, tabId]);
+
+  // Tema en repaso (viene de Repasos o del inicio) para calificarlo al terminar
+  const reviewTopicId = examContext?.topicId ?? null;
+  useEffect(() => {
+    if (!user || !reviewTopicId) return;
+
+    const fetchTopic = async () => {
+      const { data, error } = await getTopic(user.id, reviewTopicId);
+      if (!error) setReviewTopic(data);
+    };
+
+    fetchTopic();
+  }, [user, reviewTopicId]);
+
+  const handleRateReview = async (rating: ReviewRating) => {
+    if (!user || !reviewTopic) return;
+    setSavingReview(true);
+    const today = new Date().toISOString().slice(0, 10);
+    const { error } = await updateTopic(user.id, reviewTopic.id, reviewPatch(reviewTopic, rating, today));
+    setSavingReview(false);
+
+    if (error) {
+      setError('No se pudo guardar la calificación del repaso.');
+      return;
+    }
+    setReviewTopic(null);
+    setExamContext(null);
+  };
+
   // Tick del timer
   useEffect(() => {
     if (!isRunning) return;
@@ -348,10 +732,16 @@ export default function PomodoroPage() {
       const now = Date.now();
       const prevTick = lastTickAtRef.current ?? now;
       const deltaSec = Math.max(1, Math.floor((now - prevTick) / 1000));
+      const endsAt = phaseEndsAtRef.current;
 
       lastTickAtRef.current = now;
       setLastTickAt(now);
-      setRemainingSeconds((prev) => Math.max(0, prev - deltaSec));
+      // Con un fin de fase compartido, todas las pestañas muestran el mismo tiempo
+      setRemainingSeconds((prev) =>
+        endsAt !== null
+          ? Math.max(0, Math.ceil((endsAt - now) / 1000))
+          : Math.max(0, prev - deltaSec),
+      );
     }, 1000);
 
     return () => clearInterval(interval);
@@ -373,19 +763,70 @@ export default function PomodoroPage() {
     return `${mm}:${ss}`;
   }, [remainingSeconds]);
 
-  // Tareas filtradas por materia del examen (si hay contexto activo)
+  const parsedTarget = useMemo(() => parsePomodoroTarget(target), [target]);
+
+  // Materia del objetivo elegido (la del examen si el objetivo es un examen)
+  const targetCourseId = useMemo(() => {
+    if (!parsedTarget) return null;
+    if (parsedTarget.kind === 'course') return parsedTarget.id;
+    return examPlans.find((p) => p.id === parsedTarget.id)?.course_id ?? null;
+  }, [parsedTarget, examPlans]);
+
+  // Exámenes que se pueden elegir: los que no pasaron (y el elegido, aunque ya haya pasado)
+  const targetPlans = useMemo(() => {
+    const today = new Date().toISOString().slice(0, 10);
+    return examPlans.filter((p) => p.exam_date >= today || target === `plan:${p.id}`);
+  }, [examPlans, target]);
+
+  // Tareas filtradas por la materia del objetivo
   const examFilteredTasks = useMemo(() => {
-    if (!examContext?.courseId) return tasks;
-    const filtered = tasks.filter((t) => t.course_id === examContext.courseId);
+    if (!targetCourseId) return tasks;
+    const filtered = tasks.filter((t) => t.course_id === targetCourseId);
     return filtered.length > 0 ? filtered : tasks; // fallback si no hay tareas en esa materia
-  }, [tasks, examContext]);
+  }, [tasks, targetCourseId]);
+
+  // La unidad del contexto solo se atribuye mientras el objetivo siga siendo su examen
+  const linkedExamTopicId =
+    examContext?.examTopicId && examContext.planId && target === `plan:${examContext.planId}`
+      ? examContext.examTopicId
+      : null;
+
+  const times: PomodoroTimes = useMemo(
+    () => ({
+      focus: focusMinutes,
+      shortBreak: breakMinutes,
+      longBreak: longBreakMinutes,
+      rounds: roundsPerCycle,
+    }),
+    [focusMinutes, breakMinutes, longBreakMinutes, roundsPerCycle],
+  );
 
   // Progreso circular (0 a 1)
   const progress = useMemo(() => {
-    const totalSeconds = mode === 'focus' ? focusMinutes * 60 : breakMinutes * 60;
+    const totalSeconds = phaseMinutes(mode, times) * 60;
     if (totalSeconds === 0) return 0;
     return 1 - remainingSeconds / totalSeconds;
-  }, [remainingSeconds, mode, focusMinutes, breakMinutes]);
+  }, [remainingSeconds, mode, times]);
+
+  // Rondas de enfoque completas dentro del ciclo actual
+  const doneInCycle =
+    roundsPerCycle > 0
+      ? mode === 'long_break'
+        ? roundsPerCycle
+        : completedRounds % roundsPerCycle
+      : completedRounds;
+  const currentRound = mode === 'focus' ? doneInCycle + 1 : Math.max(1, doneInCycle);
+
+  const saveSettings = async (patch: Partial<PomodoroSettings>) => {
+    if (!user) return false;
+    const next: PomodoroSettings = { ...times, autoStart, presets, sound, notify, ...patch };
+    const { error } = await upsertProfile(user.id, { pomodoro_settings: next });
+    if (error) {
+      setError('No se pudo guardar la configuración del Pomodoro en tu cuenta.');
+      return false;
+    }
+    return true;
+  };
 
   const handleStartPause = () => {
     if (!user) {
@@ -414,6 +855,7 @@ export default function PomodoroPage() {
     });
   };
 
+  // Un enfoque cortado con Reiniciar se guarda como abortado, con lo trabajado y sus interrupciones
   const flushFocusProgress = async () => {
     if (!user) return;
     if (mode !== 'focus') return;
@@ -422,7 +864,7 @@ export default function PomodoroPage() {
     const workedSeconds = Math.max(0, Math.min(totalFocusSeconds, totalFocusSeconds - remainingSeconds));
     const workedMinutes = Math.floor(workedSeconds / 60);
 
-    if (workedMinutes <= 0) return;
+    if (workedMinutes <= 0 && interruptions.length === 0) return;
 
     const end = Date.now();
     const startedAtMs =
@@ -431,12 +873,14 @@ export default function PomodoroPage() {
     const taskIdToSave =
       selectedTaskId && selectedTaskId !== 'none' ? selectedTaskId : null;
 
-    const { error } = await supabaseClient.from('pomodoro_sessions').insert({
-      user_id: user.id,
+    const { error } = await createPomodoroSession(user.id, {
       started_at: new Date(startedAtMs).toISOString(),
       ended_at: new Date(end).toISOString(),
       duration_minutes: workedMinutes,
-      task_id: taskIdToSave,
+      ...sessionLinks(taskIdToSave, tasks, parsedTarget, examPlans),
+      exam_topic_id: linkedExamTopicId,
+      status: 'aborted',
+      interruptions,
     });
 
     if (error) {
@@ -444,6 +888,10 @@ export default function PomodoroPage() {
     }
   };
 
+  const handleInterruption = (reason: InterruptionReason) => {
+    setInterruptions((prev) => [...prev, { reason, at: new Date().toISOString() }]);
+  };
+
   const handleReset = async () => {
     setError(null);
 
@@ -453,69 +901,152 @@ export default function PomodoroPage() {
       setError('Ocurrió un error al guardar el progreso antes de reiniciar.');
     }
 
-    const initialSeconds =
-      mode === 'focus' ? focusMinutes * 60 : breakMinutes * 60;
+    const initialSeconds = phaseMinutes(mode, times) * 60;
 
     setRemainingSeconds(initialSeconds);
     setIsRunning(false);
     setCycleStart(null);
+    setInterruptions([]);
     lastTickAtRef.current = null;
     setLastTickAt(null);
   };
 
-  const handleApplyPreset = (focusMin: number) => {
-    setFocusMinutes(focusMin);
-    setFocusInput(String(focusMin));
-    const initialSeconds = mode === 'focus' ? focusMin * 60 : breakMinutes * 60;
-    setRemainingSeconds(initialSeconds);
+  // Aplica tiempos al timer detenido (presets y configuración)
+  const applyTimes = (next: PomodoroTimes) => {
+    setFocusMinutes(next.focus);
+    setBreakMinutes(next.shortBreak);
+    setLongBreakMinutes(next.longBreak);
+    setRoundsPerCycle(next.rounds);
+    setFocusInput(String(next.focus));
+    setBreakInput(String(next.shortBreak));
+    setLongBreakInput(String(next.longBreak));
+    setRoundsInput(String(next.rounds));
+
+    // Sin descanso largo en el ciclo, no se puede quedar parado en uno
+    const nextMode = next.rounds === 0 && mode === 'long_break' ? 'break' : mode;
+    setMode(nextMode);
+    setRemainingSeconds(phaseMinutes(nextMode, next) * 60);
     setIsRunning(false);
     setCycleStart(null);
+    setInterruptions([]);
     lastTickAtRef.current = null;
     setLastTickAt(null);
     setError(null);
   };
 
-  const handleApplyDurations = () => {
-    const focus = Math.max(1, Math.min(120, parseInt(focusInput) || FOCUS_MINUTES_DEFAULT));
-    const brk = Math.max(1, Math.min(60, parseInt(breakInput) || BREAK_MINUTES_DEFAULT));
+  const handleApplyPreset = (preset: PomodoroTimes) => {
+    applyTimes(preset);
+    saveSettings({
+      focus: preset.focus,
+      shortBreak: preset.shortBreak,
+      longBreak: preset.longBreak,
+      rounds: preset.rounds,
+    });
+  };
 
-    setFocusMinutes(focus);
-    setBreakMinutes(brk);
+  // Tiempos escritos en la configuración (null si alguno no es válido)
+  const readTimesInput = (): PomodoroTimes | null => {
+    const next: PomodoroTimes = {
+      focus: Number(focusInput),
+      shortBreak: Number(breakInput),
+      longBreak: Number(longBreakInput),
+      rounds: Number(roundsInput),
+    };
+    const validationError = validatePomodoroTimes(next);
+    if (validationError) {
+      setError(validationError);
+      return null;
+    }
+    return next;
+  };
 
-    const initialSeconds = mode === 'focus' ? focus * 60 : brk * 60;
-    setRemainingSeconds(initialSeconds);
+  const handleApplyDurations = () => {
+    const next = readTimesInput();
+    if (!next) return;
 
-    setIsRunning(false);
-    setCycleStart(null);
-    lastTickAtRef.current = null;
-    setLastTickAt(null);
-    setError(null);
+    applyTimes(next);
+    saveSettings(next);
     setShowConfig(false);
   };
 
+  const handleToggleAutoStart = () => {
+    const next = !autoStart;
+    setAutoStart(next);
+    saveSettings({ autoStart: next });
+  };
+
+  const handleToggleNotify = async () => {
+    const next = !notify;
+    if (next && !(await requestNotificationPermission())) {
+      setError('El navegador bloqueó las notificaciones. Habilitalas en la configuración del sitio.');
+      return;
+    }
+    setNotify(next);
+    saveSettings({ notify: next });
+  };
+
+  const handleChangeSound = (next: PomodoroSound) => {
+    setSound(next);
+    playPomodoroSound(next);
+    saveSettings({ sound: next });
+  };
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim();
+    if (!name) {
+      setError('Escribí un nombre para el preset.');
+      return;
+    }
+    if (presets.length >= MAX_CUSTOM_PRESETS) {
+      setError(`Podés guardar hasta ${MAX_CUSTOM_PRESETS} presets propios.`);
+      return;
+    }
+    const next = readTimesInput();
+    if (!next) return;
+
+    const nextPresets = [...presets, { ...next, id: crypto.randomUUID(), name }];
+    if (await saveSettings({ presets: nextPresets })) {
+      setPresets(nextPresets);
+      setPresetName('');
+    }
+  };
+
+  const handleDeletePreset = async (presetId: string) => {
+    const nextPresets = presets.filter((p) => p.id !== presetId);
+    if (await saveSettings({ presets: nextPresets })) {
+      setPresets(nextPresets);
+    }
+  };
+
+  // Enfoque completo que empezó en `start` y termina en `end` (lo registran la página y el worker)
+  const focusSession = (start: number, end: number): PomodoroSessionInsert => {
+    const taskIdToSave =
+      selectedTaskId && selectedTaskId !== 'none'
+        ? selectedTaskId
+        : null;
+
+    return {
+      started_at: new Date(start).toISOString(),
+      ended_at: new Date(end).toISOString(),
+      duration_minutes: Math.max(1, Math.round((end - start) / 60000)),
+      ...sessionLinks(taskIdToSave, tasks, parsedTarget, examPlans),
+      exam_topic_id: linkedExamTopicId,
+      status: 'completed',
+      interruptions,
+    };
+  };
+
   const handlePhaseEnd = async (finishedMode: Mode) => {
     if (!user) return;
 
+    // Todas las pestañas comparten el fin de fase: el enfoque se registra con el mismo inicio y fin
+    const end = phaseEndsAtRef.current ?? Date.now();
+    phaseEndsAtRef.current = null;
+    playPomodoroSound(sound);
+
     if (finishedMode === 'focus' && cycleStart !== null) {
       try {
-        const end = Date.now();
-        const durationMinutes = Math.max(
-          1,
-          Math.round((end - cycleStart) / 60000),
-        );
-
-        const taskIdToSave =
-          selectedTaskId && selectedTaskId !== 'none'
-            ? selectedTaskId
-            : null;
-
-        const { error } = await supabaseClient.from('pomodoro_sessions').insert({
-          user_id: user.id,
-          started_at: new Date(cycleStart).toISOString(),
-          ended_at: new Date(end).toISOString(),
-          duration_minutes: durationMinutes,
-          task_id: taskIdToSave,
-        });
+        const { error } = await createPomodoroSession(user.id, focusSession(cycleStart, end));
 
         if (error) {
           setError('No se pudo registrar la sesión de Pomodoro.');
@@ -523,28 +1054,136 @@ export default function PomodoroPage() {
       } catch {
         setError('Ocurrió un error al registrar la sesión.');
       }
+      setInterruptions([]);
     }
 
-    const nextMode: Mode = finishedMode === 'focus' ? 'break' : 'focus';
-    const nextSeconds =
-      nextMode === 'focus' ? focusMinutes * 60 : breakMinutes * 60;
+    // Después de cada enfoque suma una ronda; el descanso largo cierra el ciclo
+    let nextMode: Mode = 'focus';
+    if (finishedMode === 'focus') {
+      const rounds = completedRounds + 1;
+      setCompletedRounds(rounds);
+      nextMode = breakAfterFocus(rounds, roundsPerCycle);
+    } else if (finishedMode === 'long_break') {
+      setCompletedRounds(0);
+    }
+
+    // "Empezar" y "Saltar" desde la notificación mandan sobre el auto-inicio
+    const pendingAction = pendingAlertActionRef.current;
+    pendingAlertActionRef.current = null;
+    if (pendingAction === 'skip' && nextMode !== 'focus') {
+      if (nextMode === 'long_break') setCompletedRounds(0);
+      nextMode = 'focus';
+    }
+    const keepRunning = pendingAction ? pendingAction === 'start' : isRunning && autoStart;
+    const nextSeconds = phaseMinutes(nextMode, times) * 60;
 
     setMode(nextMode);
     setRemainingSeconds(nextSeconds);
 
-    if (isRunning) {
+    if (keepRunning) {
       const now = Date.now();
       lastTickAtRef.current = now;
       setLastTickAt(now);
-      if (nextMode === 'focus') setCycleStart(now);
+      setIsRunning(true);
+      // Encadenada, la fase arranca justo al terminar la anterior; desde la notificación, ahora
+      if (nextMode === 'focus') setCycleStart(pendingAction ? now : end);
       else setCycleStart(null);
     } else {
+      setIsRunning(false);
       setCycleStart(null);
       lastTickAtRef.current = null;
       setLastTickAt(null);
     }
   };
 
+  // Acción tocada en una notificación con la página abierta
+  const handleAlertAction = (action: PhaseAlertAction, finishedMode: Mode) => {
+    // La pestaña dormida todavía no cerró la fase: se cierra ahora y la acción se aplica al final
+    if (mode === finishedMode && isRunning) {
+      pendingAlertActionRef.current = action;
+      setRemainingSeconds(0);
+      return;
+    }
+    if (mode === finishedMode) return;
+
+    if (action === 'start' && !isRunning) {
+      const now = Date.now();
+      lastTickAtRef.current = now;
+      setLastTickAt(now);
+      if (mode === 'focus' && cycleStart === null) setCycleStart(now);
+      setIsRunning(true);
+    } else if (action === 'skip' && mode !== 'focus') {
+      if (mode === 'long_break') setCompletedRounds(0);
+      setMode('focus');
+      setRemainingSeconds(focusMinutes * 60);
+      setIsRunning(false);
+      setCycleStart(null);
+      lastTickAtRef.current = null;
+      setLastTickAt(null);
+    }
+  };
+  const alertActionRef = useRef(handleAlertAction);
+  const focusSessionRef = useRef(focusSession);
+  useEffect(() => {
+    alertActionRef.current = handleAlertAction;
+    focusSessionRef.current = focusSession;
+  });
+
+  // Worker del Pomodoro: avisa y registra el enfoque aunque la pestaña duerma o se cierre
+  useEffect(() => {
+    if (!user || !hydrated) return;
+
+    registerPomodoroWorker();
+    return listenPhaseAlertActions((message) => alertActionRef.current(message.action, message.mode));
+  }, [user, hydrated]);
+
+  // Programar el aviso de la fase en curso y renovarlo mientras corre.
+  // La sesión sale de focusSessionRef; cambiar el destino o las interrupciones la reprograma.
+  useEffect(() => {
+    if (!user || !hydrated) return;
+    if (!isRunning) {
+      cancelPhaseAlert();
+      return;
+    }
+
+    const sendAlert = async () => {
+      const endsAt = phaseEndsAtRef.current ?? Date.now() + remainingSecondsRef.current * 1000;
+      const nextMode =
+        mode === 'focus' ? breakAfterFocus(completedRounds + 1, roundsPerCycle) : 'focus';
+      const session =
+        mode === 'focus' && cycleStart !== null
+          ? { ...focusSessionRef.current(cycleStart, endsAt), user_id: user.id }
+          : null;
+
+      await schedulePhaseAlert({
+        mode,
+        endsAt,
+        ...phaseAlertText(mode, nextMode),
+        notify,
+        session,
+        auth: session ? await phaseAlertAuth() : null,
+      });
+    };
+
+    sendAlert();
+    const interval = setInterval(sendAlert, PHASE_ALERT_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [
+    user,
+    hydrated,
+    isRunning,
+    mode,
+    cycleStart,
+    completedRounds,
+    roundsPerCycle,
+    notify,
+    interruptions,
+    selectedTaskId,
+    target,
+    linkedExamTopicId,
+    tasks,
+  ]);
+
   const activeTask =
     selectedTaskId === 'none'
       ? null
@@ -594,23 +1233,40 @@ export default function PomodoroPage() {
         </div>
       </header>
 
-      {/* Banner de examen — viene de Study Planner */}
+      {/* Banner de examen — viene de Study Planner, del calendario o de Repasos */}
       {examContext && (
-        <div className="flex items-center justify-between gap-3 px-4 py-3 rounded-2xl border border-[var(--accent)]/30 bg-[var(--accent)]/8">
+        <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 rounded-2xl border border-[var(--accent)]/30 bg-[var(--accent)]/8">
           <div className="flex items-center gap-2.5 min-w-0">
             <FaGraduationCap className="text-[var(--accent)] shrink-0" size={14} />
             <div className="min-w-0">
               <p className="text-sm font-semibold text-[var(--foreground)] truncate">
                 {examContext.examName}
+                {examContext.examTopicName && (
+                  <span className="font-normal text-[var(--text-muted)]"> · {examContext.examTopicName}</span>
+                )}
               </p>
               <p className="text-xs text-[var(--text-muted)] truncate">
                 {examContext.courseName
                   ? `${examContext.courseName} · `
                   : ''}
-                Meta: {examContext.suggested} min/día — las sesiones cuentan para el planificador
+                {examContext.topicId
+                  ? 'Al terminar, calificá cómo te fue para agendar el próximo repaso'
+                  : `${
+                      examContext.blockMinutes
+                        ? `Bloque agendado: ${examContext.blockMinutes} min`
+                        : `Meta: ${examContext.suggested ?? 0} min/día`
+                    } — las sesiones cuentan para el planificador`}
               </p>
             </div>
           </div>
+          {reviewTopic && (
+            <ReviewButtons
+              schedule={reviewTopic}
+              today={new Date().toISOString().slice(0, 10)}
+              onRate={handleRateReview}
+              disabled={savingReview}
+            />
+          )}
           <button
             onClick={() => setExamContext(null)}
             className="shrink-0 w-6 h-6 flex items-center justify-center rounded-lg text-[var(--text-muted)] hover:text-[var(--foreground)] hover:bg-[var(--card-border)]/40 transition-colors"
@@ -624,51 +1280,33 @@ export default function PomodoroPage() {
       {/* Timer principal */}
       <section className="rounded-3xl border border-[var(--card-border)] bg-[var(--card-bg)] shadow-xl p-8 flex flex-col items-center gap-6">
         {/* Indicador de modo */}
-        <div className="flex gap-2">
-          <button
-            onClick={() => {
-              if (!isRunning) {
-                setMode('focus');
-                setRemainingSeconds(focusMinutes * 60);
-                setCycleStart(null);
-              }
-            }}
-            disabled={isRunning}
-            aria-label="Cambiar a modo enfoque"
-            aria-pressed={mode === 'focus'}
-            className={`
-              px-4 py-2 rounded-xl text-sm font-medium transition-all duration-200
-              ${mode === 'focus'
-                ? 'bg-[var(--accent)] text-[var(--foreground)]'
-                : 'bg-[var(--card-bg)] border border-[var(--card-border)] text-[var(--text-muted)] hover:border-[var(--primary-soft)]'
-              }
-              ${isRunning ? 'opacity-50 cursor-not-allowed' : ''}
-            `}
-          >
-            Enfoque
-          </button>
-          <button
-            onClick={() => {
-              if (!isRunning) {
-                setMode('break');
-                setRemainingSeconds(breakMinutes * 60);
-                setCycleStart(null);
-              }
-            }}
-            disabled={isRunning}
-            aria-label="Cambiar a modo descanso"
-            aria-pressed={mode === 'break'}
-            className={`
-              px-4 py-2 rounded-xl text-sm font-medium transition-all duration-200
-              ${mode === 'break'
-                ? 'bg-[var(--success)] text-white'
-                : 'bg-[var(--card-bg)] border border-[var(--card-border)] text-[var(--text-muted)] hover:border-[var(--primary-soft)]'
-              }
-              ${isRunning ? 'opacity-50 cursor-not-allowed' : ''}
-            `}
-          >
-            Descanso
-          </button>
+        <div className="flex flex-wrap justify-center gap-2">
+          {MODES.filter((m) => m !== 'long_break' || roundsPerCycle > 0).map((m) => (
+            <button
+              key={m}
+              onClick={() => {
+                if (!isRunning) {
+                  setMode(m);
+                  setRemainingSeconds(phaseMinutes(m, times) * 60);
+                  setCycleStart(null);
+                  setInterruptions([]);
+                }
+              }}
+              disabled={isRunning}
+              aria-label={`Cambiar a modo ${POMODORO_MODE_LABELS[m].toLowerCase()}`}
+              aria-pressed={mode === m}
+              className={`
+                px-4 py-2 rounded-xl text-sm font-medium transition-all duration-200
+                ${mode === m
+                  ? MODE_STYLES[m].active
+                  : 'bg-[var(--card-bg)] border border-[var(--card-border)] text-[var(--text-muted)] hover:border-[var(--primary-soft)]'
+                }
+                ${isRunning ? 'opacity-50 cursor-not-allowed' : ''}
+              `}
+            >
+              {POMODORO_MODE_LABELS[m]}
+            </button>
+          ))}
         </div>
 
         {/* Círculo del timer */}
@@ -702,7 +1340,7 @@ export default function PomodoroPage() {
               cy="140"
               r={circleRadius}
               fill="none"
-              stroke={mode === 'focus' ? 'var(--accent)' : 'var(--success)'}
+              stroke={MODE_STYLES[mode].color}
               strokeWidth="8"
               strokeLinecap="round"
               strokeDasharray={circleCircumference}
@@ -717,12 +1355,40 @@ export default function PomodoroPage() {
             <span className="text-5xl font-bold font-mono text-[var(--foreground)]">
               {formattedTime}
             </span>
-            <span className={`text-sm font-medium mt-1 ${mode === 'focus' ? 'text-[var(--accent)]' : 'text-[var(--success)]'}`}>
-              {mode === 'focus' ? 'Enfoque' : 'Descanso'}
+            <span className="text-sm font-medium mt-1" style={{ color: MODE_STYLES[mode].color }}>
+              {POMODORO_MODE_LABELS[mode]}
             </span>
           </div>
         </div>
 
+        {/* Contador de rondas */}
+        <div className="flex items-center gap-3 text-xs text-[var(--text-muted)]">
+          {roundsPerCycle > 0 && (
+            <div className="flex gap-1.5" aria-hidden>
+              {Array.from({ length: roundsPerCycle }, (_, i) => (
+                <span
+                  key={i}
+                  className={`w-2.5 h-2.5 rounded-full ${
+                    i < doneInCycle ? 'bg-[var(--accent)]' : 'bg-[var(--card-border)]'
+                  }`}
+                />
+              ))}
+            </div>
+          )}
+          <span>
+            Ronda {currentRound}
+            {roundsPerCycle > 0 && ` de ${roundsPerCycle}`}
+          </span>
+          {completedRounds > 0 && !isRunning && (
+            <button
+              onClick={() => setCompletedRounds(0)}
+              className="underline underline-offset-2 hover:text-[var(--foreground)]"
+            >
+              Reiniciar ciclo
+            </button>
+          )}
+        </div>
+
         {/* Botones de control */}
         <div className="flex gap-3">
           <button
@@ -785,22 +1451,44 @@ export default function PomodoroPage() {
           </button>
         </div>
 
-        {/* Presets de duración de enfoque */}
-        <div className="flex items-center gap-2">
-          <span className="text-xs text-[var(--text-muted)]">Enfoque:</span>
-          {([15, 25, 45, 60] as const).map((min) => (
+        {/* Interrupciones del enfoque en curso */}
+        {mode === 'focus' && cycleStart !== null && (
+          <div className="flex flex-col items-center gap-2">
+            <div className="flex flex-wrap items-center justify-center gap-2 text-xs">
+              <span className="text-[var(--text-muted)]">¿Te interrumpieron?</span>
+              {INTERRUPTION_REASONS.map((reason) => (
+                <button
+                  key={reason}
+                  onClick={() => handleInterruption(reason)}
+                  className="px-3 py-1.5 rounded-xl border border-[var(--card-border)] text-[var(--text-muted)] hover:text-[var(--warn)] hover:border-[var(--warn)] transition-colors"
+                >
+                  {INTERRUPTION_REASON_LABELS[reason]}
+                </button>
+              ))}
+            </div>
+            {interruptions.length > 0 && (
+              <p className="text-xs text-[var(--warn)]">
+                {interruptions.length} {interruptions.length === 1 ? 'interrupción' : 'interrupciones'} en este enfoque
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Presets: los predefinidos y los propios */}
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          {[...BUILTIN_POMODORO_PRESETS, ...presets].map((preset) => (
             <button
-              key={min}
-              onClick={() => handleApplyPreset(min)}
+              key={preset.id}
+              onClick={() => handleApplyPreset(preset)}
               disabled={isRunning}
-              aria-label={`Preset de ${min} minutos`}
+              aria-label={`Preset ${preset.name}`}
               className={`px-3 py-1.5 rounded-xl text-xs font-semibold transition-all duration-200 ${
-                focusMinutes === min
+                sameTimes(preset, times)
                   ? 'bg-[var(--accent)] text-[var(--foreground)]'
                   : 'border border-[var(--card-border)] bg-[var(--card-bg)] text-[var(--text-muted)] hover:text-[var(--foreground)] hover:border-[var(--primary-soft)]'
               } ${isRunning ? 'opacity-40 cursor-not-allowed' : ''}`}
             >
-              {min} min
+              {preset.name} · {formatPomodoroTimes(preset)}
             </button>
           ))}
         </div>
@@ -829,34 +1517,73 @@ export default function PomodoroPage() {
           </div>
 
           <div className="grid grid-cols-2 gap-4 mb-4">
-            <div>
-              <label className="block text-sm text-[var(--text-muted)] mb-2">
-                Minutos de enfoque
-              </label>
-              <input
-                type="number"
-                min={1}
-                max={120}
-                className="w-full border border-[var(--card-border)] rounded-xl px-4 py-3 bg-[var(--background)] text-[var(--foreground)] transition-all duration-200"
-                value={focusInput}
-                onChange={(e) => setFocusInput(e.target.value)}
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm text-[var(--text-muted)] mb-2">
-                Minutos de descanso
-              </label>
-              <input
-                type="number"
-                min={1}
-                max={60}
-                className="w-full border border-[var(--card-border)] rounded-xl px-4 py-3 bg-[var(--background)] text-[var(--foreground)] transition-all duration-200"
-                value={breakInput}
-                onChange={(e) => setBreakInput(e.target.value)}
-              />
-            </div>
+            {([
+              { label: 'Minutos de enfoque', value: focusInput, set: setFocusInput, limits: POMODORO_LIMITS.focus },
+              { label: 'Minutos de descanso', value: breakInput, set: setBreakInput, limits: POMODORO_LIMITS.shortBreak },
+              { label: 'Minutos de descanso largo', value: longBreakInput, set: setLongBreakInput, limits: POMODORO_LIMITS.longBreak },
+              { label: 'Rondas antes del descanso largo', value: roundsInput, set: setRoundsInput, limits: POMODORO_LIMITS.rounds },
+            ] as const).map((field) => (
+              <div key={field.label}>
+                <label className="block text-sm text-[var(--text-muted)] mb-2">
+                  {field.label}
+                </label>
+                <input
+                  type="number"
+                  min={field.limits.min}
+                  max={field.limits.max}
+                  className="w-full border border-[var(--card-border)] rounded-xl px-4 py-3 bg-[var(--background)] text-[var(--foreground)] transition-all duration-200"
+                  value={field.value}
+                  onChange={(e) => field.set(e.target.value)}
+                />
+              </div>
+            ))}
           </div>
+          <p className="text-xs text-[var(--text-muted)] mb-4">Con 0 rondas no hay descanso largo.</p>
+
+          <label className="flex items-center justify-between gap-3 mb-4 text-sm text-[var(--foreground)] cursor-pointer">
+            <span>
+              Iniciar la siguiente fase automáticamente
+              <span className="block text-xs text-[var(--text-muted)]">
+                Si está apagado, el timer espera a que toques Iniciar después de cada fase
+              </span>
+            </span>
+            <input
+              type="checkbox"
+              checked={autoStart}
+              onChange={handleToggleAutoStart}
+              className="w-4 h-4 accent-[var(--accent)] shrink-0"
+            />
+          </label>
+
+          <label className="flex items-center justify-between gap-3 mb-4 text-sm text-[var(--foreground)] cursor-pointer">
+            <span>
+              Notificar al terminar cada fase
+              <span className="block text-xs text-[var(--text-muted)]">
+                Aviso del sistema aunque la pestaña esté en segundo plano, con acciones para seguir o saltar el descanso
+              </span>
+            </span>
+            <input
+              type="checkbox"
+              checked={notify}
+              onChange={handleToggleNotify}
+              className="w-4 h-4 accent-[var(--accent)] shrink-0"
+            />
+          </label>
+
+          <label className="flex items-center justify-between gap-3 mb-4 text-sm text-[var(--foreground)]">
+            <span>Sonido al terminar</span>
+            <select
+              value={sound}
+              onChange={(e) => handleChangeSound(e.target.value as PomodoroSound)}
+              className="border border-[var(--card-border)] rounded-xl px-3 py-2 bg-[var(--background)] text-sm text-[var(--foreground)]"
+            >
+              {(Object.keys(POMODORO_SOUND_LABELS) as PomodoroSound[]).map((s) => (
+                <option key={s} value={s}>
+                  {POMODORO_SOUND_LABELS[s]}
+                </option>
+              ))}
+            </select>
+          </label>
 
           <button
             onClick={handleApplyDurations}
@@ -864,10 +1591,51 @@ export default function PomodoroPage() {
           >
             Aplicar tiempos
           </button>
+
+          {/* Presets propios */}
+          <div className="mt-5 pt-5 border-t border-[var(--card-border)] flex flex-col gap-3">
+            <p className="text-sm font-medium text-[var(--foreground)]">Mis presets</p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder="Nombre (ej: Parcial 50/10)"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                maxLength={30}
+                className="flex-1 min-w-0 border border-[var(--card-border)] rounded-xl px-4 py-2.5 bg-[var(--background)] text-sm text-[var(--foreground)]"
+              />
+              <button
+                onClick={handleSavePreset}
+                className="px-4 py-2.5 rounded-xl border border-[var(--card-border)] text-sm font-medium hover:border-[var(--primary-soft)] transition-colors shrink-0"
+              >
+                Guardar tiempos como preset
+              </button>
+            </div>
+            {presets.length > 0 && (
+              <ul className="flex flex-col gap-1.5">
+                {presets.map((preset) => (
+                  <li key={preset.id} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 min-w-0 truncate text-[var(--foreground)]">{preset.name}</span>
+                    <span className="text-xs text-[var(--text-muted)]">{formatPomodoroTimes(preset)}</span>
+                    <button
+                      onClick={() => handleDeletePreset(preset.id)}
+                      className="w-6 h-6 flex items-center justify-center rounded-lg text-[var(--text-muted)] hover:text-[var(--danger)] hover:bg-[var(--danger)]/10 transition-colors"
+                      aria-label={`Eliminar preset ${preset.name}`}
+                    >
+                      <FaTimes size={10} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-[var(--text-muted)]">
+              Los tiempos y presets se guardan en tu cuenta y se usan en todos tus dispositivos.
+            </p>
+          </div>
         </section>
       )}
 
-      {/* Tarea vinculada */}
+      {/* Objetivo y tarea vinculados */}
       <PremiumGate feature="pomodoro_link">
         <section className="border border-[var(--card-border)] rounded-2xl p-6 bg-[var(--card-bg)] backdrop-blur-sm">
           <div className="flex items-center gap-3 mb-5">
@@ -877,11 +1645,42 @@ export default function PomodoroPage() {
               </svg>
             </div>
             <div>
-              <h2 className="font-semibold text-[var(--foreground)]">Vincular con tarea</h2>
-              <p className="text-xs text-[var(--text-muted)]">Las sesiones se registrarán asociadas a esta tarea</p>
+              <h2 className="font-semibold text-[var(--foreground)]">Vincular sesión</h2>
+              <p className="text-xs text-[var(--text-muted)]">
+                Las sesiones cuentan para la materia o el examen elegidos, con o sin tarea
+              </p>
             </div>
           </div>
 
+          <label className="flex flex-col gap-1.5 mb-4">
+            <span className="text-xs font-medium text-[var(--text-muted)]">Objetivo</span>
+            <select
+              className="w-full border border-[var(--card-border)] rounded-xl px-4 py-3 bg-[var(--background)] text-[var(--foreground)] transition-all duration-200"
+              value={target}
+              onChange={(e) => setTarget(e.target.value as PomodoroTargetValue)}
+            >
+              <option value="none">Sin objetivo (según la tarea)</option>
+              {targetPlans.length > 0 && (
+                <optgroup label="Exámenes">
+                  {targetPlans.map((p) => (
+                    <option key={p.id} value={`plan:${p.id}`}>
+                      {p.name} ({p.exam_date})
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+              {courses.length > 0 && (
+                <optgroup label="Materias">
+                  {courses.map((c) => (
+                    <option key={c.id} value={`course:${c.id}`}>
+                      {c.name}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </label>
+
           {tasksLoading ? (
             <div className="flex items-center justify-center py-6">
               <div className="w-6 h-6 border-2 border-[var(--accent)] border-t-transparent rounded-full animate-spin" />
@@ -898,9 +1697,10 @@ export default function PomodoroPage() {
             </div>
           ) : (
             <>
-              {examContext?.courseId && examFilteredTasks.length < tasks.length && (
+              {targetCourseId && examFilteredTasks.length < tasks.length && (
                 <p className="text-xs text-[var(--accent)] mb-2">
-                  Mostrando tareas de <strong>{examContext.courseName ?? 'la materia'}</strong>
+                  Mostrando tareas de{' '}
+                  <strong>{courses.find((c) => c.id === targetCourseId)?.name ?? 'la materia'}</strong>
                 </p>
               )}
               <select
@@ -5,17 +5,12 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
 import { supabaseClient } from '@/lib/supabaseClient';
+import { deleteProfile, getProfile, upsertProfile } from '@/lib/db';
 import { validateAvatarUrl, validateFullName, validatePassword } from '@/lib/validation';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
-
-type Profile = {
-  id: string;
-  full_name: string | null;
-  avatar_url: string | null;
-  career: string | null;
-  university: string | null;
-  academic_year: string | null;
-};
+import { DataExport } from '@/components/DataExport';
+import { GradingScaleSettings } from '@/components/GradingScaleSettings';
+import { ShortcutSettings } from '@/components/ShortcutSettings';
 
 function censorEmail(email: string) {
   const [u, d] = email.split('@');
@@ -74,14 +69,9 @@ export default function ProfilePage() {
     if (!user) return;
 
     const loadProfile = async () => {
-      const { data, error } = await supabaseClient
-        .from('profiles')
-        .select('id, full_name, avatar_url, career, university, academic_year')
-        .eq('id', user.id)
-        .maybeSingle();
-
-      if (!error && data) {
-        const p = data as Profile;
+      const { data: p, error } = await getProfile(user.id);
+
+      if (!error && p) {
         setFullName(p.full_name ?? '');
         setAvatarUrl(p.avatar_url ?? '');
         setCareer(p.career ?? '');
@@ -117,8 +107,7 @@ export default function ProfilePage() {
 
     setSavingProfile(true);
 
-    const { error } = await supabaseClient.from('profiles').upsert({
-      id: user.id,
+    const { error } = await upsertProfile(user.id, {
       full_name: fullName || null,
       avatar_url: avatarUrl || null,
       career: career || null,
@@ -216,10 +205,7 @@ export default function ProfilePage() {
     setErrorSecurity(null);
 
     try {
-      const { error: profileError } = await supabaseClient
-        .from('profiles')
-        .delete()
-        .eq('id', user.id);
+      const { error: profileError } = await deleteProfile(user.id);
 
       if (profileError) {
         setErrorSecurity('No se pudo eliminar el perfil. Intente nuevamente.');
@@ -529,6 +515,15 @@ export default function ProfilePage() {
             </div>
           </section>
 
+          {/* Escala de calificación */}
+          <GradingScaleSettings />
+
+          {/* Atajos de teclado */}
+          <ShortcutSettings />
+
+          {/* Exportar datos (premium) */}
+          <DataExport />
+
           {/* Configuración de cuenta */}
           <section className="border border-[var(--card-border)] rounded-2xl p-6 bg-[var(--card-bg)] backdrop-blur-sm">
             <div className="flex items-center gap-3 mb-5">
@@ -3,8 +3,27 @@
 import { FormEvent, useEffect, useState, use } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
-import { supabaseClient } from '@/lib/supabaseClient';
+import { useShortcutHandler } from '@/context/ShortcutsContext';
+import {
+  addProjectMember,
+  createProjectTask,
+  deleteProjectTask,
+  findProfileByEmail,
+  getProject,
+  listProfileEmails,
+  listProjectMembers,
+  listProjectTasks,
+  removeProjectMember,
+  updateProjectTask,
+  type Project,
+  type ProjectMember as ProjectMemberRow,
+  type ProjectTask as ProjectTaskRow,
+  type ProjectTaskStatus,
+} from '@/lib/db';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { ShortcutHelp } from '@/components/ShortcutHelp';
+import { openSearchPalette } from '@/lib/search';
+import type { ShortcutAction } from '@/lib/db';
 import Link from 'next/link';
 import {
   FaArrowLeft,
@@ -17,36 +36,15 @@ import {
   FaEdit,
 } from 'react-icons/fa';
 
-type Project = {
-  id: string;
-  name: string;
-  description: string | null;
-  color: string;
-  owner_id: string;
-};
-
-type ProjectMember = {
-  id: string;
-  user_id: string;
-  role: 'owner' | 'member';
-  joined_at: string;
+type ProjectMember = ProjectMemberRow & {
   email: string;
 };
 
-type ProjectTask = {
-  id: string;
-  project_id: string;
-  title: string;
-  description: string | null;
-  status: 'todo' | 'in_progress' | 'done';
-  assigned_to: string | null;
+type ProjectTask = ProjectTaskRow & {
   assigned_email: string | null;
-  due_date: string | null;
-  created_by: string;
-  created_at: string;
 };
 
-type TaskStatus = 'todo' | 'in_progress' | 'done';
+type TaskStatus = ProjectTaskStatus;
 
 const STATUS_LABELS: Record<TaskStatus, string> = {
   todo: 'Por hacer',
@@ -62,6 +60,9 @@ const STATUS_DOT_COLORS: Record<TaskStatus, string> = {
 
 const ALL_STATUSES: TaskStatus[] = ['todo', 'in_progress', 'done'];
 
+// Las tareas de proyecto no tienen prioridad
+const BOARD_SHORTCUTS: ShortcutAction[] = ['new', 'search', 'next', 'previous', 'toggle', 'edit', 'due_date', 'help'];
+
 export default function ProjectDetailPage({
   params,
 }: {
@@ -102,6 +103,11 @@ export default function ProjectDetailPage({
   const [editStatus, setEditStatus] = useState<TaskStatus>('todo');
   const [savingEdit, setSavingEdit] = useState(false);
   const [editFormError, setEditFormError] = useState<string | null>(null);
+  const [editFocusDue, setEditFocusDue] = useState(false); // abierto con el atajo de fecha
+
+  // Navegación con teclado
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const [shortcutHelpOpen, setShortcutHelpOpen] = useState(false);
 
   // Confirm dialogs
   const [taskToDelete, setTaskToDelete] = useState<ProjectTask | null>(null);
@@ -125,13 +131,9 @@ export default function ProjectDetailPage({
   }
 
   async function fetchProject() {
-    const { data, error } = await supabaseClient
-      .from('projects')
-      .select('id, name, description, color, owner_id')
-      .eq('id', id)
-      .single();
+    const { data, error } = await getProject(id);
 
-    if (error || !data) {
+    if (error) {
       setPageError('Proyecto no encontrado o sin acceso.');
     } else {
       setProject({ ...data, color: data.color || '#80499d' });
@@ -139,22 +141,15 @@ export default function ProjectDetailPage({
   }
 
   async function fetchMembers() {
-    const { data: memberData } = await supabaseClient
-      .from('project_members')
-      .select('id, user_id, role, joined_at')
-      .eq('project_id', id)
-      .order('joined_at', { ascending: true });
+    const { data: memberData } = await listProjectMembers([id]);
 
     if (!memberData) return;
 
     const userIds = memberData.map((m) => m.user_id);
 
-    const { data: profileData } = await supabaseClient
-      .from('profiles')
-      .select('id, email')
-      .in('id', userIds);
+    const { data: profileData } = await listProfileEmails(userIds);
 
-    const emailMap = new Map((profileData ?? []).map((p: { id: string; email: string }) => [p.id, p.email]));
+    const emailMap = new Map((profileData ?? []).map((p) => [p.id, p.email]));
 
     setMembers(
       memberData.map((m) => ({
@@ -165,11 +160,7 @@ export default function ProjectDetailPage({
   }
 
   async function fetchTasks() {
-    const { data: taskData } = await supabaseClient
-      .from('project_tasks')
-      .select('id, project_id, title, description, status, assigned_to, due_date, created_by, created_at')
-      .eq('project_id', id)
-      .order('created_at', { ascending: true });
+    const { data: taskData } = await listProjectTasks([id]);
 
     if (!taskData) return;
 
@@ -177,16 +168,11 @@ export default function ProjectDetailPage({
       new Set(taskData.filter((t) => t.assigned_to).map((t) => t.assigned_to as string))
     );
 
-    let emailMap = new Map<string, string>();
+    let emailMap = new Map<string, string | null>();
     if (assigneeIds.length > 0) {
-      const { data: profileData } = await supabaseClient
-        .from('profiles')
-        .select('id, email')
-        .in('id', assigneeIds);
-
-      emailMap = new Map(
-        (profileData ?? []).map((p: { id: string; email: string }) => [p.id, p.email])
-      );
+      const { data: profileData } = await listProfileEmails(assigneeIds);
+
+      emailMap = new Map((profileData ?? []).map((p) => [p.id, p.email]));
     }
 
     setTasks(
@@ -210,13 +196,9 @@ export default function ProjectDetailPage({
 
     setInviting(true);
 
-    const { data: profileData, error: profileError } = await supabaseClient
-      .from('profiles')
-      .select('id, email')
-      .eq('email', email)
-      .single();
+    const { data: profileData, error: profileError } = await findProfileByEmail(email);
 
-    if (profileError || !profileData) {
+    if (profileError) {
       setInviteError('No se encontró ningún usuario con ese email.');
       setInviting(false);
       return;
@@ -229,9 +211,7 @@ export default function ProjectDetailPage({
       return;
     }
 
-    const { error: insertError } = await supabaseClient
-      .from('project_members')
-      .insert({ project_id: id, user_id: profileData.id, role: 'member' });
+    const { error: insertError } = await addProjectMember(id, profileData.id, 'member');
 
     if (insertError) {
       setInviteError('Error al agregar el miembro.');
@@ -256,14 +236,12 @@ export default function ProjectDetailPage({
 
     setCreatingTask(true);
 
-    const { error } = await supabaseClient.from('project_tasks').insert({
-      project_id: id,
+    const { error } = await createProjectTask(id, user!.id, {
       title: trimmedTitle,
       description: taskDesc.trim() || null,
       status: taskStatus,
       assigned_to: taskAssignee || null,
       due_date: taskDue || null,
-      created_by: user!.id,
     });
 
     if (error) {
@@ -285,6 +263,7 @@ export default function ProjectDetailPage({
     setEditAssignee(task.assigned_to ?? '');
     setEditStatus(task.status);
     setEditFormError(null);
+    setEditFocusDue(false);
   }
 
   async function handleSaveEdit(e: FormEvent) {
@@ -300,16 +279,13 @@ export default function ProjectDetailPage({
 
     setSavingEdit(true);
 
-    const { error } = await supabaseClient
-      .from('project_tasks')
-      .update({
-        title: trimmedTitle,
-        description: editDesc.trim() || null,
-        status: editStatus,
-        assigned_to: editAssignee || null,
-        due_date: editDue || null,
-      })
-      .eq('id', editingTask.id);
+    const { error } = await updateProjectTask(editingTask.id, {
+      title: trimmedTitle,
+      description: editDesc.trim() || null,
+      status: editStatus,
+      assigned_to: editAssignee || null,
+      due_date: editDue || null,
+    });
 
     if (error) {
       setEditFormError('Error al guardar los cambios.');
@@ -325,16 +301,13 @@ export default function ProjectDetailPage({
     setTasks((prev) =>
       prev.map((t) => (t.id === taskId ? { ...t, status: newStatus } : t))
     );
-    await supabaseClient
-      .from('project_tasks')
-      .update({ status: newStatus })
-      .eq('id', taskId);
+    await updateProjectTask(taskId, { status: newStatus });
   }
 
   async function handleDeleteTask() {
     if (!taskToDelete) return;
     setDeleting(true);
-    await supabaseClient.from('project_tasks').delete().eq('id', taskToDelete.id);
+    await deleteProjectTask(taskToDelete.id);
     setDeleting(false);
     setTaskToDelete(null);
     fetchTasks();
@@ -343,7 +316,7 @@ export default function ProjectDetailPage({
   async function handleRemoveMember() {
     if (!memberToRemove) return;
     setDeleting(true);
-    await supabaseClient.from('project_members').delete().eq('id', memberToRemove.id);
+    await removeProjectMember(memberToRemove.id);
     setDeleting(false);
     setMemberToRemove(null);
     fetchMembers();
@@ -365,6 +338,42 @@ export default function ProjectDetailPage({
     done: tasks.filter((t) => t.status === 'done'),
   };
 
+  // j/k recorren el tablero columna por columna
+  const boardTasks = ALL_STATUSES.flatMap((status) => tasksByStatus[status]);
+  const selectedTask = boardTasks.find((t) => t.id === selectedTaskId) ?? null;
+  const selectedIndex = selectedTask ? boardTasks.indexOf(selectedTask) : -1;
+
+  function selectTaskAt(index: number) {
+    const task = boardTasks[Math.max(0, Math.min(index, boardTasks.length - 1))];
+    if (!task) return;
+    setSelectedTaskId(task.id);
+    document
+      .getElementById(`tarea-proyecto-${task.id}`)
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }
+
+  useShortcutHandler(
+    {
+      new: () => setTaskModalOpen(true),
+      search: openSearchPalette,
+      next: () => selectTaskAt(selectedIndex + 1),
+      previous: () => selectTaskAt(selectedIndex === -1 ? 0 : selectedIndex - 1),
+      toggle: () => {
+        if (selectedTask) handleQuickStatus(selectedTask.id, selectedTask.status === 'done' ? 'todo' : 'done');
+      },
+      edit: () => {
+        if (selectedTask) openEditTask(selectedTask);
+      },
+      due_date: () => {
+        if (!selectedTask) return;
+        openEditTask(selectedTask);
+        setEditFocusDue(true);
+      },
+      help: () => setShortcutHelpOpen(true),
+    },
+    !!project && !taskModalOpen && !editingTask && !taskToDelete && !memberToRemove && !shortcutHelpOpen,
+  );
+
   if (authLoading || loadingData) {
     return (
       <div className="flex-1 flex items-center justify-center">
@@ -471,7 +480,10 @@ export default function ProjectDetailPage({
                   {tasksByStatus[status].map((task) => (
                     <div
                       key={task.id}
-                      className="group rounded-lg border border-[var(--card-border)] bg-[var(--background)] p-3"
+                      id={`tarea-proyecto-${task.id}`}
+                      className={`group rounded-lg border border-[var(--card-border)] bg-[var(--background)] p-3 ${
+                        selectedTaskId === task.id ? 'ring-2 ring-[var(--accent)]' : ''
+                      }`}
                     >
                       <div className="flex items-start justify-between gap-1 mb-1.5">
                         <p className="text-xs font-medium leading-snug flex-1">{task.title}</p>
@@ -793,6 +805,7 @@ export default function ProjectDetailPage({
                     type="date"
                     value={editDue}
                     onChange={(e) => setEditDue(e.target.value)}
+                    autoFocus={editFocusDue}
                     className="w-full px-3 py-2 rounded-lg border border-[var(--card-border)] bg-[var(--background)] text-sm focus:outline-none focus:border-[var(--accent)]"
                   />
                 </div>
@@ -839,6 +852,10 @@ export default function ProjectDetailPage({
         </div>
       )}
 
+      {shortcutHelpOpen && (
+        <ShortcutHelp actions={BOARD_SHORTCUTS} onClose={() => setShortcutHelpOpen(false)} />
+      )}
+
       <ConfirmDialog
         open={!!taskToDelete}
         title="Eliminar tarea"
@@ -3,7 +3,14 @@
 import { FormEvent, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
-import { supabaseClient } from '@/lib/supabaseClient';
+import {
+  createProject,
+  deleteProject,
+  listProjectMembers,
+  listProjectTasks,
+  listProjects,
+  type Project,
+} from '@/lib/db';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
 import {
   FaProjectDiagram,
@@ -15,13 +22,7 @@ import {
 } from 'react-icons/fa';
 import Link from 'next/link';
 
-type Project = {
-  id: string;
-  name: string;
-  description: string | null;
-  color: string;
-  owner_id: string;
-  created_at: string;
+type ProjectSummary = Project & {
   member_count: number;
   task_count: number;
   done_count: number;
@@ -42,7 +43,7 @@ export default function ProjectsPage() {
   const { user, loading } = useAuth();
   const router = useRouter();
 
-  const [projects, setProjects] = useState<Project[]>([]);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
   const [loadingProjects, setLoadingProjects] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -53,7 +54,7 @@ export default function ProjectsPage() {
   const [creating, setCreating] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
 
-  const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
+  const [projectToDelete, setProjectToDelete] = useState<ProjectSummary | null>(null);
   const [deleting, setDeleting] = useState(false);
 
   useEffect(() => {
@@ -69,10 +70,7 @@ export default function ProjectsPage() {
     setLoadingProjects(true);
     setError(null);
 
-    const { data, error: fetchError } = await supabaseClient
-      .from('projects')
-      .select('id, name, description, color, owner_id, created_at')
-      .order('created_at', { ascending: false });
+    const { data, error: fetchError } = await listProjects();
 
     if (fetchError) {
       setError('No se pudieron cargar los proyectos.');
@@ -80,7 +78,7 @@ export default function ProjectsPage() {
       return;
     }
 
-    const projectList = data ?? [];
+    const projectList = data;
 
     if (projectList.length === 0) {
       setProjects([]);
@@ -88,17 +86,11 @@ export default function ProjectsPage() {
       return;
     }
 
-    const ids = projectList.map((p: { id: string }) => p.id);
+    const ids = projectList.map((p) => p.id);
 
     const [{ data: membersData }, { data: tasksData }] = await Promise.all([
-      supabaseClient
-        .from('project_members')
-        .select('project_id')
-        .in('project_id', ids),
-      supabaseClient
-        .from('project_tasks')
-        .select('project_id, status')
-        .in('project_id', ids),
+      listProjectMembers(ids),
+      listProjectTasks(ids),
     ]);
 
     const memberCounts: Record<string, number> = {};
@@ -116,7 +108,7 @@ export default function ProjectsPage() {
     }
 
     setProjects(
-      projectList.map((p: { id: string; name: string; description: string | null; color: string; owner_id: string; created_at: string }) => ({
+      projectList.map((p) => ({
         ...p,
         color: p.color || '#80499d',
         member_count: memberCounts[p.id] ?? 0,
@@ -144,27 +136,18 @@ export default function ProjectsPage() {
 
     setCreating(true);
 
-    const { data: projectData, error: insertError } = await supabaseClient
-      .from('projects')
-      .insert({
-        name: trimmedName,
-        description: description.trim() || null,
-        color,
-        owner_id: user!.id,
-      })
-      .select()
-      .single();
-
-    if (insertError || !projectData) {
+    const { error: insertError } = await createProject(user!.id, {
+      name: trimmedName,
+      description: description.trim() || null,
+      color,
+    });
+
+    if (insertError) {
       setFormError('Error al crear el proyecto. Verificá que las tablas estén creadas en Supabase.');
       setCreating(false);
       return;
     }
 
-    await supabaseClient
-      .from('project_members')
-      .insert({ project_id: projectData.id, user_id: user!.id, role: 'owner' });
-
     setCreating(false);
     setModalOpen(false);
     resetForm();
@@ -174,7 +157,7 @@ export default function ProjectsPage() {
   async function handleDelete() {
     if (!projectToDelete) return;
     setDeleting(true);
-    await supabaseClient.from('projects').delete().eq('id', projectToDelete.id);
+    await deleteProject(projectToDelete.id);
     setDeleting(false);
     setProjectToDelete(null);
     fetchProjects();
@@ -0,0 +1,359 @@
+// src/app/reviews/page.tsx
+'use client';
+
+import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/context/AuthContext';
+import { useTerm } from '@/context/TermContext';
+import {
+  createTopic,
+  deleteTopic,
+  listCourses,
+  listTopics,
+  updateTopic,
+  type Course,
+  type CourseTopic,
+} from '@/lib/db';
+import { filterCoursesByTerm } from '@/lib/terms';
+import {
+  describeDue,
+  isDue,
+  reviewPatch,
+  topicPomodoroContext,
+  type ReviewRating,
+} from '@/lib/spacedRepetition';
+import { savePomodoroExamContext } from '@/lib/studySchedule';
+import { ReviewButtons } from '@/components/ReviewButtons';
+import { FaBrain, FaPlay, FaPlus, FaTimes } from 'react-icons/fa';
+
+export default function ReviewsPage() {
+  const { user, loading } = useAuth();
+  const { selection, activeTerm } = useTerm();
+  const router = useRouter();
+
+  const [topics, setTopics] = useState<CourseTopic[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [loadingData, setLoadingData] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const [formCourseId, setFormCourseId] = useState('');
+  const [formName, setFormName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/login');
+    }
+  }, [loading, user, router]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchData = async () => {
+      setLoadingData(true);
+      setError(null);
+
+      const [topicsRes, coursesRes] = await Promise.all([
+        listTopics(user.id),
+        listCourses(user.id),
+      ]);
+
+      if (topicsRes.error) {
+        setError('No se pudieron cargar los temas. Verificá que la tabla course_topics exista en Supabase.');
+      } else {
+        setTopics(topicsRes.data);
+      }
+      setCourses(coursesRes.data ?? []);
+      setLoadingData(false);
+    };
+
+    fetchData();
+  }, [user]);
+
+  const termCourses = useMemo(() => filterCoursesByTerm(courses, selection), [courses, selection]);
+
+  const coursesMap = useMemo(() => new Map(courses.map((c) => [c.id, c])), [courses]);
+
+  const termTopics = useMemo(() => {
+    const ids = new Set(termCourses.map((c) => c.id));
+    return topics.filter((t) => ids.has(t.course_id));
+  }, [topics, termCourses]);
+
+  const dueTopics = useMemo(
+    () => termTopics.filter((t) => isDue(t, today)),
+    [termTopics, today],
+  );
+
+  // Temas agrupados por materia, en el orden de las materias
+  const groups = useMemo(
+    () =>
+      termCourses
+        .map((course) => ({
+          course,
+          topics: termTopics.filter((t) => t.course_id === course.id),
+        }))
+        .filter((g) => g.topics.length > 0),
+    [termCourses, termTopics],
+  );
+
+  // Sin elección explícita, la primera materia del cuatrimestre
+  const courseId = formCourseId || termCourses[0]?.id || '';
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const name = formName.trim();
+    if (!name) {
+      setError('Escribí el nombre del tema.');
+      return;
+    }
+    if (!courseId) {
+      setError('Elegí una materia para el tema.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const { data, error: insertError } = await createTopic(user.id, {
+      course_id: courseId,
+      name,
+      due_date: today,
+    });
+    setSaving(false);
+
+    if (insertError) {
+      setError('No se pudo crear el tema.');
+      return;
+    }
+    setTopics((prev) => [...prev, data]);
+    setFormName('');
+  };
+
+  const handleRate = async (topic: CourseTopic, rating: ReviewRating) => {
+    if (!user) return;
+    setBusy(topic.id);
+    setError(null);
+
+    const { data, error: updateError } = await updateTopic(
+      user.id,
+      topic.id,
+      reviewPatch(topic, rating, today),
+    );
+    setBusy(null);
+
+    if (updateError) {
+      setError('No se pudo guardar el repaso.');
+      return;
+    }
+    setTopics((prev) => prev.map((t) => (t.id === topic.id ? data : t)));
+  };
+
+  const handleDelete = async (topic: CourseTopic) => {
+    if (!user) return;
+    setBusy(topic.id);
+    const { error: deleteError } = await deleteTopic(user.id, topic.id);
+    setBusy(null);
+
+    if (deleteError) {
+      setError('No se pudo eliminar el tema.');
+      return;
+    }
+    setTopics((prev) => prev.filter((t) => t.id !== topic.id));
+  };
+
+  const startReview = (topic: CourseTopic) => {
+    savePomodoroExamContext(topicPomodoroContext(topic, coursesMap.get(topic.course_id)?.name ?? null));
+    router.push('/pomodoro');
+  };
+
+  if (loading || (!user && !loading)) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-[var(--accent)] border-t-transparent rounded-full animate-spin" />
+      </main>
+    );
+  }
+
+  return (
+    <main className="max-w-3xl mx-auto px-6 py-10 flex flex-col gap-8">
+      <header>
+        <h1 className="text-2xl font-bold flex items-center gap-2 text-[var(--foreground)]">
+          <FaBrain className="text-[var(--accent)]" />
+          Repasos
+        </h1>
+        <p className="text-sm text-[var(--text-muted)] mt-1">
+          Cargá los temas de cada materia y calificá cada repaso: los fáciles vuelven más tarde,
+          los difíciles antes
+        </p>
+      </header>
+
+      {/* Nuevo tema */}
+      <section className="border border-[var(--card-border)] rounded-2xl p-6 bg-[var(--card-bg)]">
+        {courses.length === 0 && !loadingData ? (
+          <p className="text-sm text-[var(--text-muted)]">
+            Primero{' '}
+            <Link href="/courses" className="text-[var(--accent)] hover:underline">
+              creá una materia
+            </Link>{' '}
+            para agregarle temas.
+          </p>
+        ) : (
+          <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-3">
+            <select
+              value={courseId}
+              onChange={(e) => setFormCourseId(e.target.value)}
+              className="px-3 py-2.5 rounded-xl border border-[var(--card-border)] bg-[var(--background)] text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/40"
+              aria-label="Materia"
+            >
+              {termCourses.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Ej: Unidad 3 - Integrales"
+              value={formName}
+              onChange={(e) => setFormName(e.target.value)}
+              className="flex-1 px-3 py-2.5 rounded-xl border border-[var(--card-border)] bg-[var(--background)] text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/40"
+            />
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-[var(--accent)] text-[var(--foreground)] text-sm font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              <FaPlus size={11} />
+              Agregar tema
+            </button>
+          </form>
+        )}
+
+        {error && (
+          <p className="mt-3 text-sm text-[var(--danger)] bg-[var(--danger)]/10 px-4 py-2 rounded-lg">
+            {error}
+          </p>
+        )}
+      </section>
+
+      {loadingData ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-2 border-[var(--accent)] border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <>
+          {/* Para hoy */}
+          <section className="flex flex-col gap-3">
+            <h2 className="font-semibold text-[var(--foreground)]">
+              Para repasar hoy
+              <span className="ml-2 text-xs font-normal text-[var(--text-muted)]">
+                {dueTopics.length} {dueTopics.length === 1 ? 'tema' : 'temas'}
+                {activeTerm && ` · ${activeTerm.name}`}
+              </span>
+            </h2>
+
+            {dueTopics.length === 0 ? (
+              <p className="text-sm text-[var(--text-muted)] py-6 text-center rounded-2xl border border-dashed border-[var(--card-border)]">
+                Nada para repasar hoy.
+              </p>
+            ) : (
+              dueTopics.map((topic) => {
+                const course = coursesMap.get(topic.course_id);
+                return (
+                  <div
+                    key={topic.id}
+                    className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 rounded-2xl border border-[var(--card-border)] bg-[var(--card-bg)]"
+                  >
+                    <div className="flex items-center gap-2.5 flex-1 min-w-0">
+                      <span
+                        className="w-3 h-3 rounded-full shrink-0"
+                        style={{ backgroundColor: course?.color || 'var(--accent)' }}
+                      />
+                      <div className="min-w-0">
+                        <p className="font-medium text-[var(--foreground)] truncate">{topic.name}</p>
+                        <p className="text-xs text-[var(--text-muted)] truncate">
+                          {course?.name}
+                          {topic.last_reviewed_at
+                            ? topic.due_date < today && ` · vencido ${describeDue(topic.due_date, today)}`
+                            : ' · primer repaso'}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <button
+                        onClick={() => startReview(topic)}
+                        className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-[var(--accent)] text-[var(--foreground)] text-xs font-semibold hover:opacity-90"
+                        title="Repasar con un Pomodoro vinculado a la materia"
+                      >
+                        <FaPlay size={9} />
+                        Pomodoro
+                      </button>
+                      <ReviewButtons
+                        schedule={topic}
+                        today={today}
+                        onRate={(rating) => handleRate(topic, rating)}
+                        disabled={busy === topic.id}
+                        size="md"
+                      />
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </section>
+
+          {/* Todos los temas */}
+          {groups.length > 0 && (
+            <section className="flex flex-col gap-4">
+              <h2 className="font-semibold text-[var(--foreground)]">Todos los temas</h2>
+              {groups.map(({ course, topics: courseTopics }) => (
+                <div
+                  key={course.id}
+                  className="border border-[var(--card-border)] rounded-2xl p-5 bg-[var(--card-bg)]"
+                >
+                  <div className="flex items-center gap-2 mb-3">
+                    <span
+                      className="w-3 h-3 rounded-full"
+                      style={{ backgroundColor: course.color || 'var(--accent)' }}
+                    />
+                    <h3 className="font-medium">{course.name}</h3>
+                  </div>
+                  <ul className="flex flex-col divide-y divide-[var(--card-border)]">
+                    {courseTopics.map((topic) => (
+                      <li key={topic.id} className="flex items-center gap-3 py-2 text-sm">
+                        <span className="flex-1 min-w-0 truncate">{topic.name}</span>
+                        <span
+                          className={`text-xs shrink-0 ${
+                            isDue(topic, today) ? 'text-[var(--warn)] font-medium' : 'text-[var(--text-muted)]'
+                          }`}
+                        >
+                          Repaso {describeDue(topic.due_date, today)}
+                        </span>
+                        <span className="text-xs text-[var(--text-muted)] shrink-0 hidden sm:inline">
+                          {topic.repetitions} {topic.repetitions === 1 ? 'repaso' : 'repasos'} seguidos
+                        </span>
+                        <button
+                          onClick={() => handleDelete(topic)}
+                          disabled={busy === topic.id}
+                          className="w-7 h-7 flex items-center justify-center rounded-xl hover:bg-[var(--danger)]/10 text-[var(--text-muted)] hover:text-[var(--danger)] transition-colors disabled:opacity-40"
+                          aria-label={`Eliminar ${topic.name}`}
+                        >
+                          <FaTimes size={11} />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </section>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
@@ -2,23 +2,39 @@
 'use client';
 
 import { FormEvent, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
-import { supabaseClient } from '@/lib/supabaseClient';
-import { FaGraduationCap, FaPlus, FaTimes, FaCalendarAlt, FaClock, FaPlay } from 'react-icons/fa';
-
-type ExamPlan = {
-  id: string;
-  course_id: string | null;
-  name: string;
-  exam_date: string; // YYYY-MM-DD
-  study_hours: number;
-  created_at: string;
-};
-
-type Course = { id: string; name: string; color: string | null };
-type TaskRow = { id: string; course_id: string | null };
-type Session = { id: string; task_id: string | null; duration_minutes: number };
+import {
+  createExamPlan,
+  createExamTopic,
+  deleteExamPlan,
+  getProfile,
+  listCourses,
+  listExamPlans,
+  listExamTopics,
+  listPomodoroSessions,
+  listTasks,
+  upsertProfile,
+  type Course,
+  type ExamPlan,
+  type ExamTopic,
+  type PomodoroSession,
+  type StudyAvailability,
+  type Task,
+} from '@/lib/db';
+import { StudyAvailabilityEditor } from '@/components/StudyAvailabilityEditor';
+import { ExamTopicList } from '@/components/ExamTopicList';
+import {
+  buildStudySchedule,
+  nextExamTopic,
+  planProgress,
+  resolveAvailability,
+  savePomodoroExamContext,
+  topicsByPlan,
+  type StudyBlock,
+} from '@/lib/studySchedule';
+import { FaGraduationCap, FaPlus, FaTimes, FaCalendarAlt, FaClock, FaPlay, FaExclamationTriangle } from 'react-icons/fa';
 
 const URGENCY_STYLES = {
   green:  { badge: 'text-[var(--success)] bg-[var(--success)]/10',  border: 'border-[var(--card-border)]' },
@@ -32,9 +48,11 @@ export default function StudyPlannerPage() {
   const router = useRouter();
 
   const [plans, setPlans]       = useState<ExamPlan[]>([]);
+  const [topics, setTopics]     = useState<ExamTopic[]>([]);
   const [courses, setCourses]   = useState<Course[]>([]);
-  const [tasks, setTasks]       = useState<TaskRow[]>([]);
-  const [sessions, setSessions] = useState<Session[]>([]);
+  const [tasks, setTasks]       = useState<Task[]>([]);
+  const [sessions, setSessions] = useState<PomodoroSession[]>([]);
+  const [savedAvailability, setSavedAvailability] = useState<StudyAvailability | null>(null);
 
   const [pageLoading, setPageLoading] = useState(true);
   const [error, setError]            = useState<string | null>(null);
@@ -47,6 +65,7 @@ export default function StudyPlannerPage() {
   const [formName, setFormName]         = useState('');
   const [formDate, setFormDate]         = useState('');
   const [formHours, setFormHours]       = useState('10');
+  const [formTopics, setFormTopics]     = useState('');
 
   // Redirect if not logged in
   useEffect(() => {
@@ -61,21 +80,29 @@ export default function StudyPlannerPage() {
       setPageLoading(true);
       setError(null);
 
-      const [plansRes, coursesRes, tasksRes, sessionsRes] = await Promise.all([
-        supabaseClient.from('exam_plans').select('*').eq('user_id', user.id).order('exam_date'),
-        supabaseClient.from('courses').select('id, name, color').eq('user_id', user.id),
-        supabaseClient.from('tasks').select('id, course_id').eq('user_id', user.id),
-        supabaseClient.from('pomodoro_sessions').select('id, task_id, duration_minutes').eq('user_id', user.id),
+      const [plansRes, topicsRes, coursesRes, tasksRes, sessionsRes, profileRes] = await Promise.all([
+        listExamPlans(user.id),
+        listExamTopics(user.id),
+        listCourses(user.id),
+        listTasks(user.id),
+        listPomodoroSessions(user.id),
+        getProfile(user.id),
       ]);
 
       if (plansRes.error) {
         setError('No se pudieron cargar los planes. Verificá que la tabla exam_plans exista en Supabase.');
       } else {
-        setPlans((plansRes.data ?? []) as ExamPlan[]);
+        setPlans(plansRes.data);
       }
-      setCourses((coursesRes.data ?? []) as Course[]);
-      setTasks((tasksRes.data ?? []) as TaskRow[]);
-      setSessions((sessionsRes.data ?? []) as Session[]);
+      if (topicsRes.error) {
+        setError('No se pudieron cargar las unidades. Verificá que la tabla exam_topics exista en Supabase.');
+      } else {
+        setTopics(topicsRes.data);
+      }
+      setCourses(coursesRes.data ?? []);
+      setTasks(tasksRes.data ?? []);
+      setSessions(sessionsRes.data ?? []);
+      setSavedAvailability(profileRes.data?.study_availability ?? null);
       setPageLoading(false);
     };
 
@@ -89,6 +116,9 @@ export default function StudyPlannerPage() {
     return m;
   }, [tasks]);
 
+  // plan_id → unidades
+  const planTopics = useMemo(() => topicsByPlan(topics), [topics]);
+
   // course_id → Course
   const coursesMap = useMemo(
     () => new Map(courses.map((c) => [c.id, c])),
@@ -109,9 +139,9 @@ export default function StudyPlannerPage() {
         return a.exam_date.localeCompare(b.exam_date);
       })
       .map((plan) => {
-        const actualMinutes = sessions
-          .filter((s) => s.task_id && taskCourseMap.get(s.task_id) === plan.course_id)
-          .reduce((acc, s) => acc + (s.duration_minutes || 0), 0);
+        const planTopicList = planTopics.get(plan.id) ?? [];
+        const progress = planProgress(plan, planTopicList, sessions, taskCourseMap);
+        const actualMinutes = progress.studiedMinutes;
 
         const totalMinutes = plan.study_hours * 60;
         const isPast = plan.exam_date < today;
@@ -121,9 +151,11 @@ export default function StudyPlannerPage() {
           Math.ceil((new Date(plan.exam_date).getTime() - new Date(today).getTime()) / msPerDay),
         );
 
-        const remainingMinutes = Math.max(0, totalMinutes - actualMinutes);
-        const suggestedMinPerDay = isPast ? 0 : Math.ceil(remainingMinutes / daysRemaining);
-        const progressPct = totalMinutes > 0
+        // Con unidades, lo que falta sale de las no vistas y el avance de cuántas se cubrieron
+        const suggestedMinPerDay = isPast ? 0 : Math.ceil(progress.remainingMinutes / daysRemaining);
+        const progressPct = progress.topicsTotal > 0
+          ? Math.round((progress.topicsDone / progress.topicsTotal) * 100)
+          : totalMinutes > 0
           ? Math.min(100, Math.round((actualMinutes / totalMinutes) * 100))
           : 0;
 
@@ -137,6 +169,8 @@ export default function StudyPlannerPage() {
 
         return {
           ...plan,
+          topics: planTopicList,
+          progress,
           actualMinutes,
           totalMinutes,
           daysRemaining,
@@ -146,13 +180,44 @@ export default function StudyPlannerPage() {
           isPast,
         };
       });
-  }, [plans, sessions, taskCourseMap]);
+  }, [plans, planTopics, sessions, taskCourseMap]);
+
+  const availability = useMemo(() => resolveAvailability(savedAvailability), [savedAvailability]);
+
+  // Bloques diarios de todos los exámenes, con la disponibilidad y las entregas del usuario
+  const schedule = useMemo(
+    () =>
+      buildStudySchedule({
+        plans,
+        remaining: new Map(enrichedPlans.map((p) => [p.id, p.progress.remainingMinutes])),
+        tasks,
+        availability,
+        today: new Date().toISOString().slice(0, 10),
+      }),
+    [plans, enrichedPlans, tasks, availability],
+  );
+
+  // plan_id → próximo bloque agendado
+  const nextBlocks = useMemo(() => {
+    const m = new Map<string, StudyBlock>();
+    schedule.blocks.forEach((b) => { if (!m.has(b.planId)) m.set(b.planId, b); });
+    return m;
+  }, [schedule]);
+
+  async function handleSaveAvailability(next: StudyAvailability) {
+    if (!user) return false;
+    const { error: saveError } = await upsertProfile(user.id, { study_availability: next });
+    if (saveError) return false;
+    setSavedAvailability(next);
+    return true;
+  }
 
   function openForm() {
     setFormCourseId('');
     setFormName('');
     setFormDate('');
     setFormHours('10');
+    setFormTopics('');
     setShowForm(true);
   }
 
@@ -168,34 +233,65 @@ export default function StudyPlannerPage() {
     if (isNaN(hours) || hours <= 0) return;
 
     setSaving(true);
-    const { data, error: insertError } = await supabaseClient
-      .from('exam_plans')
-      .insert({
-        user_id: user.id,
-        course_id: formCourseId || null,
-        name: trimmedName,
-        exam_date: formDate,
-        study_hours: hours,
-      })
-      .select()
-      .single();
-
-    if (!insertError && data) {
-      setPlans((prev) => [...prev, data as ExamPlan]);
+    const { data, error: insertError } = await createExamPlan(user.id, {
+      course_id: formCourseId || null,
+      name: trimmedName,
+      exam_date: formDate,
+      study_hours: hours,
+    });
+
+    if (insertError) {
+      setError('No se pudo crear el plan.');
+      setSaving(false);
+      return;
     }
+    setPlans((prev) => [...prev, data]);
+
+    // Unidades cargadas de una (una por línea): las horas objetivo se reparten entre ellas
+    const topicNames = formTopics.split('\n').map((t) => t.trim()).filter(Boolean);
+    if (topicNames.length > 0) {
+      const estimated = Math.round((hours / topicNames.length) * 10) / 10 || 0.5;
+      const created = await Promise.all(
+        topicNames.map((name, position) =>
+          createExamTopic(user.id, { plan_id: data.id, name, estimated_hours: estimated, position }),
+        ),
+      );
+      if (created.some((r) => r.error)) {
+        setError('El plan se creó, pero no se pudieron guardar todas las unidades.');
+      }
+      setTopics((prev) => [...prev, ...created.flatMap((r) => (r.error ? [] : [r.data]))]);
+    }
+
     setSaving(false);
     setShowForm(false);
   }
 
   async function handleDelete(id: string) {
+    if (!user) return;
     setDeleting(id);
-    await supabaseClient.from('exam_plans').delete().eq('id', id);
+    await deleteExamPlan(user.id, id);
     setPlans((prev) => prev.filter((p) => p.id !== id));
+    setTopics((prev) => prev.filter((t) => t.plan_id !== id));
     setDeleting(null);
   }
 
   const todayStr = new Date().toISOString().slice(0, 10);
 
+  // Abre el Pomodoro con las sesiones atribuidas a la unidad (o a la próxima del plan)
+  function startPomodoro(plan: (typeof enrichedPlans)[number], topic: ExamTopic | null) {
+    const course = plan.course_id ? coursesMap.get(plan.course_id) : null;
+    savePomodoroExamContext({
+      courseId: plan.course_id,
+      examName: plan.name,
+      suggested: plan.suggestedMinPerDay,
+      courseName: course?.name ?? null,
+      planId: plan.id,
+      examTopicId: topic?.id,
+      examTopicName: topic?.name,
+    });
+    router.push('/pomodoro');
+  }
+
   if (loading || (!user && !loading)) {
     return (
       <main className="min-h-screen flex items-center justify-center">
@@ -214,7 +310,7 @@ export default function StudyPlannerPage() {
             Planificador de examen
           </h1>
           <p className="text-sm text-[var(--text-muted)] mt-1">
-            Seguí cuánto tenés que estudiar por día para llegar a tu meta
+            Repartí tus horas de estudio en bloques diarios según tu disponibilidad
           </p>
         </div>
         <button
@@ -233,6 +329,14 @@ export default function StudyPlannerPage() {
         </p>
       )}
 
+      {!pageLoading && (
+        <StudyAvailabilityEditor
+          value={availability}
+          isSaved={savedAvailability !== null}
+          onSave={handleSaveAvailability}
+        />
+      )}
+
       {/* Loading */}
       {pageLoading ? (
         <div className="flex items-center justify-center py-20">
@@ -264,10 +368,13 @@ export default function StudyPlannerPage() {
           {enrichedPlans.map((plan) => {
             const course = plan.course_id ? coursesMap.get(plan.course_id) : null;
             const styles = URGENCY_STYLES[plan.urgency];
+            const nextBlock = nextBlocks.get(plan.id);
+            const missingMinutes = schedule.shortfall.get(plan.id) ?? 0;
 
             return (
               <article
                 key={plan.id}
+                id={`plan-${plan.id}`}
                 className={`rounded-3xl border ${styles.border} bg-[var(--card-bg)] p-6 flex flex-col gap-4 ${plan.isPast ? 'opacity-60' : ''}`}
               >
                 {/* Top row */}
@@ -331,7 +438,9 @@ export default function StudyPlannerPage() {
                       {Math.round(plan.actualMinutes / 60 * 10) / 10} h enfocadas
                     </span>
                     <span className="font-medium text-[var(--foreground)]">
-                      {plan.progressPct}% de {plan.study_hours} h objetivo
+                      {plan.progress.topicsTotal > 0
+                        ? `${plan.progress.topicsDone} de ${plan.progress.topicsTotal} unidades vistas`
+                        : `${plan.progressPct}% de ${plan.study_hours} h objetivo`}
                     </span>
                   </div>
                   <div className="h-2.5 rounded-full bg-[var(--card-border)]/50 overflow-hidden">
@@ -362,24 +471,13 @@ export default function StudyPlannerPage() {
                         <strong className="text-[var(--foreground)]">
                           {plan.suggestedMinPerDay} min/día
                         </strong>{' '}
-                        para llegar a tu meta
+                        {plan.progress.topicsTotal > 0
+                          ? `para cubrir las ${plan.progress.topicsTotal - plan.progress.topicsDone} unidades que faltan`
+                          : 'para llegar a tu meta'}
                       </span>
                     </div>
                     <button
-                      onClick={() => {
-                        if (typeof window !== 'undefined') {
-                          sessionStorage.setItem(
-                            'pomodoro_exam_ctx',
-                            JSON.stringify({
-                              courseId: plan.course_id,
-                              examName: plan.name,
-                              suggested: plan.suggestedMinPerDay,
-                              courseName: course?.name ?? null,
-                            }),
-                          );
-                        }
-                        router.push('/pomodoro');
-                      }}
+                      onClick={() => startPomodoro(plan, nextExamTopic(plan.topics))}
                       className="flex items-center gap-1.5 px-3.5 py-3 rounded-2xl bg-[var(--accent)] text-[var(--foreground)] text-xs font-semibold hover:opacity-90 active:scale-[.97] transition-all shrink-0 shadow-sm"
                       title="Iniciar sesión Pomodoro para este examen"
                     >
@@ -389,9 +487,54 @@ export default function StudyPlannerPage() {
                   </div>
                 )}
 
+                {/* Unidades del programa */}
+                <ExamTopicList
+                  planId={plan.id}
+                  topics={plan.topics}
+                  minutesByTopic={plan.progress.minutesByTopic}
+                  editable={!plan.isPast}
+                  onAdded={(topic) => setTopics((prev) => [...prev, topic])}
+                  onUpdated={(topic) => setTopics((prev) => prev.map((t) => (t.id === topic.id ? topic : t)))}
+                  onDeleted={(topicId) => setTopics((prev) => prev.filter((t) => t.id !== topicId))}
+                  onStart={(topic) => startPomodoro(plan, topic)}
+                />
+
+                {/* Agenda automática */}
+                {!plan.isPast && (nextBlock || missingMinutes > 0) && (
+                  <div className="flex flex-col gap-1.5 text-xs">
+                    {nextBlock && (
+                      <Link
+                        href="/calendar"
+                        className="flex items-center gap-1.5 text-[var(--text-muted)] hover:text-[var(--accent)] transition-colors"
+                      >
+                        <FaCalendarAlt size={10} />
+                        Próximo bloque:{' '}
+                        <strong className="text-[var(--foreground)]">
+                          {nextBlock.date === todayStr
+                            ? 'hoy'
+                            : new Date(nextBlock.date + 'T00:00:00').toLocaleDateString('es-AR', {
+                                weekday: 'short',
+                                day: 'numeric',
+                                month: 'short',
+                              })}{' '}
+                          · {nextBlock.minutes} min
+                        </strong>
+                      </Link>
+                    )}
+                    {missingMinutes > 0 && (
+                      <p className="flex items-center gap-1.5 text-[var(--warn)]">
+                        <FaExclamationTriangle size={10} />
+                        Con tu disponibilidad quedan {Math.round(missingMinutes / 60 * 10) / 10} h sin agendar antes del examen
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {plan.progressPct >= 100 && !plan.isPast && (
                   <div className="flex items-center gap-2 text-sm text-[var(--success)] bg-[var(--success)]/8 rounded-2xl px-4 py-3 border border-[var(--success)]/20">
-                    ✓ Meta alcanzada — ya superaste las {plan.study_hours} h planeadas
+                    {plan.progress.topicsTotal > 0
+                      ? `✓ Programa cubierto — viste las ${plan.progress.topicsTotal} unidades`
+                      : `✓ Meta alcanzada — ya superaste las ${plan.study_hours} h planeadas`}
                   </div>
                 )}
               </article>
@@ -477,6 +620,21 @@ export default function StudyPlannerPage() {
                 </span>
               </label>
 
+              {/* Unidades */}
+              <label className="flex flex-col gap-1.5">
+                <span className="text-xs font-medium text-[var(--text-muted)]">Unidades del programa (opcional)</span>
+                <textarea
+                  rows={4}
+                  placeholder={'Unidad 1 - Límites\nUnidad 2 - Derivadas'}
+                  value={formTopics}
+                  onChange={(e) => setFormTopics(e.target.value)}
+                  className="px-3 py-2.5 rounded-xl border border-[var(--card-border)] bg-[var(--background)] text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/40"
+                />
+                <span className="text-[11px] text-[var(--text-muted)]">
+                  Una por línea; las horas objetivo se reparten entre ellas
+                </span>
+              </label>
+
               <div className="flex gap-3 mt-1">
                 <button
                   type="button"
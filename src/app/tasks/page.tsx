@@ -1,58 +1,100 @@
 // src/app/tasks/page.tsx
 'use client';
 
-import { useEffect, useMemo, useState, useCallback, FormEvent, Suspense } from 'react';
+import { useEffect, useMemo, useRef, useState, useCallback, FormEvent, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { supabaseClient } from '@/lib/supabaseClient';
-import { validateTaskTitle, validateTaskDescription, validateDateFormat, sanitizeInput } from '@/lib/validation';
+import Link from 'next/link';
+import {
+  completeTask,
+  countSubtasksByTask,
+  createSubtask,
+  createTask,
+  createTaskView,
+  deleteCompletedTasks,
+  deleteSubtask as deleteSubtaskRow,
+  deleteTask,
+  deleteTaskView,
+  detachOccurrence,
+  ensureTags,
+  listCourses,
+  listPomodoroSessions,
+  listSubtasks,
+  listTags,
+  listTaskTags,
+  listTaskViews,
+  listTasks,
+  setSubtaskCompleted,
+  setTaskTags,
+  updateFutureOccurrences,
+  updateTask,
+  type Course,
+  type Priority,
+  type Subtask,
+  type SubtaskCount,
+  type Tag,
+  type Task,
+  type TaskTag,
+  type TaskView,
+  type TaskViewFilters,
+} from '@/lib/db';
+import { validateTaskTitle, validateTaskDescription, validateDateFormat } from '@/lib/validation';
 import { useAuth } from '@/context/AuthContext';
 import { usePlan } from '@/context/PlanContext';
+import { useTerm } from '@/context/TermContext';
+import { useShortcutHandler } from '@/context/ShortcutsContext';
 import { getLimitMessage } from '@/lib/plans';
+import { courseIdsForTerm, filterCoursesByTerm } from '@/lib/terms';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
 import { PremiumGate } from '@/components/PremiumGate';
+import { RecurrenceEditor } from '@/components/RecurrenceEditor';
+import { ShortcutHelp } from '@/components/ShortcutHelp';
+import { TagInput } from '@/components/TagInput';
+import { TagManager } from '@/components/TagManager';
 import LoadingSpinner from '@/components/LoadingSpinner';
-
-type Priority = 'low' | 'medium' | 'high';
-
-type Task = {
-  id: string;
-  user_id: string;
-  title: string;
-  description: string | null;
-  due_date: string | null; // YYYY-MM-DD
-  completed: boolean;
-  created_at: string;
-  course_id: string | null;
-  priority: Priority | null;
-  tags: string | null;
-};
+import {
+  describeRecurrence,
+  draftFromRule,
+  EMPTY_RECURRENCE_DRAFT,
+  ruleFromDraft,
+  type RecurrenceDraft,
+} from '@/lib/recurrence';
+import { tagsByTask } from '@/lib/tags';
+import { openSearchPalette } from '@/lib/search';
+import { SHORTCUT_ACTIONS } from '@/lib/shortcuts';
+import {
+  filtersFromParams,
+  filtersToParams,
+  matchesTaskQuery,
+  parseTaskQuery,
+  sameFilters,
+  validateViewName,
+} from '@/lib/taskQuery';
+import { parseQuickAdd } from '@/lib/quickAdd';
 
 type TaskWithStats = Task & {
   focusMinutes: number; // minutos acumulados de Pomodoro para esta tarea
 };
 
-type Course = {
-  id: string;
-  user_id: string;
-  name: string;
-  color: string | null;
-};
-
-type Filter = 'all' | 'pending' | 'completed';
+type Filter = TaskViewFilters['status'];
 type PriorityFilter = 'all' | Priority;
 type DateOrder = 'nearest' | 'farthest';
+type EditScope = 'this' | 'future';
 
-type Subtask = {
-  id: string;
-  task_id: string;
+// Campos de una tarea nueva, vengan del modal o del alta rápida
+type NewTaskInput = {
   title: string;
-  completed: boolean;
-  created_at: string;
+  description: string;
+  dueDate: string;
+  courseId: string | null;
+  priority: Priority;
+  tags: string[];
+  recurrence: RecurrenceDraft;
 };
 
 function TasksPageContent() {
   const { user, loading } = useAuth();
   const { isWithinLimit, canAccess } = usePlan();
+  const { selection } = useTerm();
   const router = useRouter();
   const searchParams = useSearchParams();
 
@@ -62,23 +104,40 @@ function TasksPageContent() {
   const [courses, setCourses] = useState<Course[]>([]);
   const [loadingCourses, setLoadingCourses] = useState(true);
 
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [taskTags, setTaskTagRows] = useState<TaskTag[]>([]);
+  const [showTagManager, setShowTagManager] = useState(false);
+
   // Campos nueva tarea
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [dueDate, setDueDate] = useState('');
   const [newTaskCourseId, setNewTaskCourseId] = useState<string>('none');
   const [newTaskPriority, setNewTaskPriority] = useState<Priority>('medium');
-  const [newTaskTags, setNewTaskTags] = useState('');
+  const [newTaskTags, setNewTaskTags] = useState<string[]>([]);
+  const [newTaskRecurrence, setNewTaskRecurrence] = useState<RecurrenceDraft>(EMPTY_RECURRENCE_DRAFT);
+  const [quickAddText, setQuickAddText] = useState('');
+  const [quickAdding, setQuickAdding] = useState(false);
 
   const [error, setError] = useState<string | null>(null);
 
-  // Filtros
-  const [filter, setFilter] = useState<Filter>('all');
-  const [filterCourseId, setFilterCourseId] = useState<string>('all');
-  const [filterPriority, setFilterPriority] = useState<PriorityFilter>('all');
-  const [filterTag, setFilterTag] = useState<string>('all');
-  const [dateOrder, setDateOrder] = useState<DateOrder>('nearest');
-  const [showFilters, setShowFilters] = useState(false);
+  // Filtros (arrancan con los de la URL, así las vistas se pueden guardar como marcador)
+  const [initialFilters] = useState(() => filtersFromParams(searchParams));
+  const [filter, setFilter] = useState<Filter>(initialFilters.status);
+  const [filterCourseId, setFilterCourseId] = useState<string>(initialFilters.course_id ?? 'all');
+  const [filterPriority, setFilterPriority] = useState<PriorityFilter>(initialFilters.priority ?? 'all');
+  const [filterTag, setFilterTag] = useState<string>(initialFilters.tag_id ?? 'all'); // id de la etiqueta
+  const [dateOrder, setDateOrder] = useState<DateOrder>(initialFilters.order);
+  const [query, setQuery] = useState(initialFilters.query);
+  const [showFilters, setShowFilters] = useState(
+    !!(initialFilters.course_id || initialFilters.priority || initialFilters.tag_id || initialFilters.order !== 'nearest'),
+  );
+
+  // Vistas guardadas
+  const [views, setViews] = useState<TaskView[]>([]);
+  const [newViewName, setNewViewName] = useState<string | null>(null); // null = sin formulario abierto
+  const [viewToDelete, setViewToDelete] = useState<TaskView | null>(null);
+  const [deletingView, setDeletingView] = useState(false);
 
   // Modal nueva tarea
   const [showNewTaskModal, setShowNewTaskModal] = useState(false);
@@ -99,12 +158,20 @@ function TasksPageContent() {
   const [editDueDate, setEditDueDate] = useState('');
   const [editCourseId, setEditCourseId] = useState<string>('none');
   const [editPriority, setEditPriority] = useState<Priority>('medium');
-  const [editTags, setEditTags] = useState('');
+  const [editTags, setEditTags] = useState<string[]>([]);
+  const [editRecurrence, setEditRecurrence] = useState<RecurrenceDraft>(EMPTY_RECURRENCE_DRAFT);
+  const [editScope, setEditScope] = useState<EditScope>('future');
   const [savingEdit, setSavingEdit] = useState(false);
+  const [editFocusDueDate, setEditFocusDueDate] = useState(false); // abierto con el atajo de fecha
+
+  // Navegación con teclado
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false);
+  const searchInputRef = useRef<HTMLInputElement>(null);
 
   // ---- Subtasks state (checklist) ----
   const [expandedSubtasks, setExpandedSubtasks] = useState<Set<string>>(
-    () => new Set(),
+    () => new Set(searchParams.get('subtareas') ? [searchParams.get('subtareas') as string] : []),
   );
   const [subtasksByTaskId, setSubtasksByTaskId] = useState<
     Record<string, Subtask[]>
@@ -116,7 +183,7 @@ function TasksPageContent() {
     Record<string, string>
   >({});
   const [subtaskCountsByTaskId, setSubtaskCountsByTaskId] = useState<
-    Record<string, { total: number; done: number }>
+    Record<string, SubtaskCount>
   >({});
 
   // Proteger ruta
@@ -130,27 +197,72 @@ function TasksPageContent() {
   useEffect(() => {
     if (searchParams.get('new') === 'true') {
       setShowNewTaskModal(true);
-      // Limpiar el parámetro de la URL sin recargar
-      router.replace('/tasks', { scroll: false });
+      // Limpiar el parámetro de la URL sin recargar (conserva los filtros)
+      const params = new URLSearchParams(searchParams.toString());
+      params.delete('new');
+      router.replace(params.size > 0 ? `/tasks?${params}` : '/tasks', { scroll: false });
     }
   }, [searchParams, router]);
 
+  const currentFilters = useMemo<TaskViewFilters>(
+    () => ({
+      query,
+      status: filter,
+      course_id: filterCourseId !== 'all' ? filterCourseId : null,
+      priority: filterPriority !== 'all' ? filterPriority : null,
+      tag_id: filterTag !== 'all' ? filterTag : null,
+      order: dateOrder,
+    }),
+    [query, filter, filterCourseId, filterPriority, filterTag, dateOrder],
+  );
+
+  // Reflejar los filtros en la URL
+  useEffect(() => {
+    if (searchParams.get('new') === 'true') return;
+    const params = filtersToParams(currentFilters).toString();
+    if (params === searchParams.toString()) return;
+    router.replace(params ? `/tasks?${params}` : '/tasks', { scroll: false });
+  }, [currentFilters, searchParams, router]);
+
+  const applyFilters = (next: TaskViewFilters) => {
+    setQuery(next.query);
+    setFilter(next.status);
+    setFilterCourseId(next.course_id ?? 'all');
+    setFilterPriority(next.priority ?? 'all');
+    setFilterTag(next.tag_id ?? 'all');
+    setDateOrder(next.order);
+    if (next.course_id || next.priority || next.tag_id || next.order !== 'nearest') setShowFilters(true);
+  };
+
+  // Tarea cuyas subtareas se abren al llegar con ?subtareas=<id> (desde el buscador global)
+  const [subtasksFromUrl, setSubtasksFromUrl] = useState(() => searchParams.get('subtareas'));
+
+  // Si la URL cambia desde afuera (buscador, marcador, volver atrás) los filtros la siguen
+  const paramsKey = searchParams.toString();
+  const [syncedParams, setSyncedParams] = useState(paramsKey);
+  if (paramsKey !== syncedParams) {
+    setSyncedParams(paramsKey);
+    const fromUrl = filtersFromParams(searchParams);
+    if (!sameFilters(fromUrl, currentFilters)) applyFilters(fromUrl);
+    const subtasksParam = searchParams.get('subtareas');
+    if (subtasksParam) {
+      setSubtasksFromUrl(subtasksParam);
+      setExpandedSubtasks((prev) => new Set(prev).add(subtasksParam));
+    }
+  }
+
   // Cargar materias
   useEffect(() => {
     if (!user) return;
 
     const fetchCourses = async () => {
       setLoadingCourses(true);
-      const { data, error } = await supabaseClient
-        .from('courses')
-        .select('id, user_id, name, color')
-        .eq('user_id', user.id)
-        .order('name', { ascending: true });
+      const { data, error } = await listCourses(user.id);
 
       if (error) {
         setError('No se pudieron cargar las materias.');
       } else {
-        setCourses((data ?? []) as Course[]);
+        setCourses(data);
       }
       setLoadingCourses(false);
     };
@@ -158,6 +270,43 @@ function TasksPageContent() {
     fetchCourses();
   }, [user]);
 
+  // Cargar etiquetas y a qué tareas están asignadas
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchTags = async () => {
+      const [tagsRes, taskTagsRes] = await Promise.all([listTags(user.id), listTaskTags(user.id)]);
+
+      if (tagsRes.error || taskTagsRes.error) {
+        console.warn('No se pudieron cargar las etiquetas', tagsRes.error ?? taskTagsRes.error);
+        return;
+      }
+      setTags(tagsRes.data);
+      setTaskTagRows(taskTagsRes.data);
+    };
+
+    fetchTags();
+  }, [user]);
+
+  // Cargar vistas guardadas
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchViews = async () => {
+      const { data, error } = await listTaskViews(user.id);
+      if (error) {
+        console.warn('No se pudieron cargar las vistas guardadas', error);
+        return;
+      }
+      setViews(data);
+    };
+
+    fetchViews();
+  }, [user]);
+
+  // Etiquetas de cada tarea
+  const taskTagsMap = useMemo(() => tagsByTask(taskTags, tags), [taskTags, tags]);
+
   // Cargar tareas + minutos de Pomodoro por tarea (+ counts de subtareas)
   useEffect(() => {
     if (!user) return;
@@ -166,11 +315,7 @@ function TasksPageContent() {
       setLoadingTasks(true);
       setError(null);
 
-      const { data: tasksData, error: tasksError } = await supabaseClient
-        .from('tasks')
-        .select('id, user_id, title, description, due_date, completed, created_at, course_id, priority, tags')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
+      const { data: tasksData, error: tasksError } = await listTasks(user.id);
 
       if (tasksError) {
         setError('Error al cargar tareas');
@@ -178,18 +323,13 @@ function TasksPageContent() {
         return;
       }
 
-      const baseTasks = (tasksData ?? []) as Task[];
-
-      const { data: sessionsData, error: sessionsError } = await supabaseClient
-        .from('pomodoro_sessions')
-        .select('task_id, duration_minutes')
-        .eq('user_id', user.id)
-        .not('task_id', 'is', null);
+      const baseTasks = tasksData;
 
+      const { data: sessionsData } = await listPomodoroSessions(user.id);
 
       const minutesByTask = new Map<string, number>();
-      (sessionsData ?? []).forEach((s: any) => {
-        const id = s.task_id as string | null;
+      (sessionsData ?? []).forEach((s) => {
+        const id = s.task_id;
         if (!id) return;
         const current = minutesByTask.get(id) ?? 0;
         minutesByTask.set(id, current + (s.duration_minutes ?? 0));
@@ -205,23 +345,10 @@ function TasksPageContent() {
       // counts de subtareas (si la tabla existe y hay permisos)
       try {
         const taskIds = baseTasks.map((t) => t.id);
-        if (taskIds.length > 0) {
-          const { data: stData, error: stError } = await supabaseClient
-            .from('task_subtasks')
-            .select('task_id, completed')
-            .in('task_id', taskIds);
-
-          if (!stError) {
-            const counts: Record<string, { total: number; done: number }> = {};
-            (stData ?? []).forEach((row: any) => {
-              const tid = row.task_id as string;
-              const completed = !!row.completed;
-              if (!counts[tid]) counts[tid] = { total: 0, done: 0 };
-              counts[tid].total += 1;
-              if (completed) counts[tid].done += 1;
-            });
-            setSubtaskCountsByTaskId(counts);
-          }
+        const { data: counts, error: stError } = await countSubtasksByTask(taskIds);
+
+        if (!stError) {
+          setSubtaskCountsByTaskId(counts);
         }
       } catch {
         // silently ignore subtask count errors
@@ -233,74 +360,121 @@ function TasksPageContent() {
     fetchTasksAndStats();
   }, [user]);
 
+  // Reemplaza las etiquetas de las tareas (crea las que no existen); false si falló
+  const saveTaskTags = async (taskIds: string[], names: string[]): Promise<boolean> => {
+    if (!user) return false;
+
+    const { data: ensured, error: ensureError } = await ensureTags(user.id, names);
+    if (ensureError) return false;
+
+    const tagIds = ensured.map((t) => t.id);
+    const { error } = await setTaskTags(user.id, taskIds, tagIds);
+    if (error) return false;
+
+    setTags((prev) => [...prev, ...ensured.filter((t) => !prev.some((p) => p.id === t.id))]);
+    setTaskTagRows((prev) => [
+      ...prev.filter((tt) => !taskIds.includes(tt.task_id)),
+      ...taskIds.flatMap((task_id) => tagIds.map((tag_id) => ({ task_id, tag_id }))),
+    ]);
+    return true;
+  };
+
+  // La ocurrencia nueva de una serie hereda las etiquetas (ya copiadas en la base)
+  const copyLocalTaskTags = (fromTaskId: string, toTaskId: string) => {
+    setTaskTagRows((prev) => [
+      ...prev,
+      ...prev.filter((tt) => tt.task_id === fromTaskId).map((tt) => ({ ...tt, task_id: toTaskId })),
+    ]);
+  };
+
   // Crear nueva tarea
-  const handleAddTask = async (e: FormEvent) => {
-    e.preventDefault();
-    if (!user) return;
+  // Valida y crea la tarea; false si no se pudo crear
+  const addTask = async (input: NewTaskInput): Promise<boolean> => {
+    if (!user) return false;
 
     setError(null);
 
     // Validar título
-    const titleValidation = validateTaskTitle(title);
+    const titleValidation = validateTaskTitle(input.title);
     if (!titleValidation.valid) {
       setError(titleValidation.error ?? 'Título inválido');
-      return;
+      return false;
     }
 
     // Validar descripción
-    const descValidation = validateTaskDescription(description);
+    const descValidation = validateTaskDescription(input.description);
     if (!descValidation.valid) {
       setError(descValidation.error ?? 'Descripción inválida');
-      return;
+      return false;
     }
 
     // Validar fecha
-    const dateValidation = validateDateFormat(dueDate);
+    const dateValidation = validateDateFormat(input.dueDate);
     if (!dateValidation.valid) {
       setError(dateValidation.error ?? 'Fecha inválida');
-      return;
+      return false;
+    }
+
+    // Validar repetición (requiere fecha límite como primera ocurrencia)
+    const { rule: recurrence, error: recurrenceError } = ruleFromDraft(input.recurrence, input.dueDate);
+    if (recurrenceError) {
+      setError(recurrenceError);
+      return false;
     }
 
     // Verificar límite de tareas activas
     const activeTasks = tasks.filter((t) => !t.completed).length;
     if (!isWithinLimit('active_tasks', activeTasks)) {
       setError(getLimitMessage('active_tasks'));
-      return;
+      return false;
     }
 
-    const courseIdToSave =
-      newTaskCourseId && newTaskCourseId !== 'none' ? newTaskCourseId : null;
-
-    // Sanitizar tags
-    const tagsToSave = newTaskTags.trim().length > 0 ? sanitizeInput(newTaskTags.trim()) : null;
-
-    const { data, error } = await supabaseClient
-      .from('tasks')
-      .insert({
-        user_id: user.id,
-        title,
-        description: description || null,
-        due_date: dueDate || null,
-        course_id: courseIdToSave,
-        priority: newTaskPriority,
-        tags: tagsToSave,
-      })
-      .select('id, user_id, title, description, due_date, completed, created_at, course_id, priority, tags')
-      .single();
+    const { data: task, error } = await createTask(user.id, {
+      title: input.title,
+      description: input.description || null,
+      due_date: input.dueDate || null,
+      course_id: input.courseId,
+      priority: input.priority,
+      recurrence,
+      series_id: recurrence ? crypto.randomUUID() : null,
+    });
 
     if (error) {
       setError('No se pudo crear la tarea');
-      return;
+      return false;
     }
 
-    const task = data as Task;
     setTasks((prev) => [{ ...task, focusMinutes: 0 }, ...prev]);
+
+    if (input.tags.length > 0) {
+      const tagged = await saveTaskTags([task.id], input.tags);
+      if (!tagged) setError('La tarea se creó, pero no se pudieron guardar sus etiquetas');
+    }
+
+    return true;
+  };
+
+  const handleAddTask = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const created = await addTask({
+      title,
+      description,
+      dueDate,
+      courseId: newTaskCourseId && newTaskCourseId !== 'none' ? newTaskCourseId : null,
+      priority: newTaskPriority,
+      tags: newTaskTags,
+      recurrence: newTaskRecurrence,
+    });
+    if (!created) return;
+
     setTitle('');
     setDescription('');
     setDueDate('');
     setNewTaskCourseId('none');
     setNewTaskPriority('medium');
-    setNewTaskTags('');
+    setNewTaskTags([]);
+    setNewTaskRecurrence(EMPTY_RECURRENCE_DRAFT);
     setShowNewTaskModal(false);
   };
 
@@ -313,15 +487,12 @@ function TasksPageContent() {
       ),
     );
 
-    const { data, error } = await supabaseClient
-      .from('tasks')
-      .update({ completed: newCompleted })
-      .eq('id', task.id)
-      .eq('user_id', user?.id as string)
-      .select('id, user_id, title, description, due_date, completed, created_at, course_id, priority, tags')
-      .single();
+    // Completar una tarea recurrente genera la siguiente ocurrencia
+    const result = newCompleted
+      ? await completeTask(user?.id as string, task)
+      : await updateTask(user?.id as string, task.id, { completed: false });
 
-    if (error) {
+    if (result.error) {
       // Revertir en caso de error
       setTasks((prev) =>
         prev.map((t) =>
@@ -332,12 +503,19 @@ function TasksPageContent() {
       return;
     }
 
-    const updated = data as Task;
-    setTasks((prev) =>
-      prev.map((t) =>
+    const updated = 'task' in result.data ? result.data.task : result.data;
+    const next = 'next' in result.data ? result.data.next : null;
+    if (next) copyLocalTaskTags(task.id, next.id);
+    if ('nextError' in result.data && result.data.nextError) {
+      setError('La tarea se completó, pero no se pudo crear la siguiente repetición');
+    }
+
+    setTasks((prev) => [
+      ...(next ? [{ ...next, focusMinutes: 0 }] : []),
+      ...prev.map((t) =>
         t.id === task.id ? { ...updated, focusMinutes: task.focusMinutes } : t,
       ),
-    );
+    ]);
   }, [user?.id]);
 
   // Helpers materias
@@ -364,7 +542,10 @@ function TasksPageContent() {
     setEditDueDate(task.due_date ?? '');
     setEditCourseId(task.course_id ?? 'none');
     setEditPriority(task.priority ?? 'medium');
-    setEditTags(task.tags ?? '');
+    setEditTags((taskTagsMap.get(task.id) ?? []).map((t) => t.name));
+    setEditRecurrence(draftFromRule(task.recurrence));
+    setEditScope('future');
+    setEditFocusDueDate(false);
     setError(null);
   };
 
@@ -382,41 +563,144 @@ function TasksPageContent() {
     const courseIdToSave =
       editCourseId && editCourseId !== 'none' ? editCourseId : null;
 
-    const tagsToSave = editTags.trim().length > 0 ? editTags.trim() : null;
+    const fields = {
+      title: editTitle.trim(),
+      description: editDescription.trim() || null,
+      course_id: courseIdToSave,
+      priority: editPriority,
+    };
+    const original = taskBeingEdited;
+    const inSeries = !!original.series_id && !!original.recurrence;
+
+    // Si la regla no cambió se conserva tal cual (mantiene el conteo desde el inicio de la serie)
+    const ruleUnchanged =
+      inSeries &&
+      JSON.stringify(editRecurrence) === JSON.stringify(draftFromRule(original.recurrence));
+    const { rule, error: recurrenceError } = ruleUnchanged
+      ? { rule: original.recurrence, error: undefined }
+      : ruleFromDraft(editRecurrence, editDueDate);
+    if (recurrenceError && !(inSeries && editScope === 'this')) {
+      setError(recurrenceError);
+      return;
+    }
 
     setSavingEdit(true);
-    const { data, error } = await supabaseClient
-      .from('tasks')
-      .update({
-        title: editTitle.trim(),
-        description: editDescription.trim() || null,
+
+    const changed: Task[] = [];
+    const tagged: string[] = []; // tareas que reciben las etiquetas editadas
+    let failed = false;
+
+    if (inSeries && editScope === 'this') {
+      // Solo esta ocurrencia: se separa de la serie y la repetición sigue igual
+      const { data, error } = await detachOccurrence(user.id, original, {
+        ...fields,
         due_date: editDueDate || null,
-        course_id: courseIdToSave,
-        priority: editPriority,
-        tags: tagsToSave,
-      })
-      .eq('id', taskBeingEdited.id)
-      .eq('user_id', user.id)
-      .select('id, user_id, title, description, due_date, completed, created_at, course_id, priority, tags')
-      .single();
+      });
+      if (error) failed = true;
+      else {
+        changed.push(data.task, ...(data.next ? [data.next] : []));
+        tagged.push(data.task.id);
+        if (data.next) copyLocalTaskTags(original.id, data.next.id);
+      }
+    } else if (inSeries) {
+      // Esta y las siguientes: mismos campos para las pendientes de la serie
+      const { data, error } = await updateFutureOccurrences(
+        user.id,
+        original.series_id as string,
+        original.due_date ?? '',
+        { ...fields, recurrence: rule, series_id: rule ? original.series_id : null },
+      );
+      if (error) failed = true;
+      else {
+        changed.push(...data);
+        tagged.push(...data.map((t) => t.id));
+      }
+
+      if (!failed && editDueDate !== (original.due_date ?? '')) {
+        const { data: moved, error: moveError } = await updateTask(user.id, original.id, {
+          due_date: editDueDate || null,
+        });
+        if (moveError) failed = true;
+        else changed.push(moved);
+      }
+    } else {
+      const { data, error } = await updateTask(user.id, original.id, {
+        ...fields,
+        due_date: editDueDate || null,
+        recurrence: rule,
+        series_id: rule ? crypto.randomUUID() : null,
+      });
+      if (error) failed = true;
+      else {
+        changed.push(data);
+        tagged.push(data.id);
+      }
+    }
+
+    const tagsSaved = failed || (await saveTaskTags([...new Set(tagged)], editTags));
 
     setSavingEdit(false);
 
-    if (error) {
+    if (failed) {
       setError('No se pudieron guardar los cambios de la tarea');
       return;
     }
+    if (!tagsSaved) setError('Los cambios se guardaron, pero no las etiquetas');
+
+    setTasks((prev) => {
+      const byId = new Map(changed.map((t) => [t.id, t]));
+      const created = changed.filter((c) => !prev.some((t) => t.id === c.id));
+      return [
+        ...created.map((t) => ({ ...t, focusMinutes: 0 })),
+        ...prev.map((t) => {
+          const updated = byId.get(t.id);
+          return updated ? { ...updated, focusMinutes: t.focusMinutes } : t;
+        }),
+      ];
+    });
+    setTaskBeingEdited(null);
+  };
 
-    const updated = data as Task;
+  // ---- Vistas guardadas ----
+  const saveView = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user || newViewName === null) return;
 
-    setTasks((prev) =>
-      prev.map((t) =>
-        t.id === taskBeingEdited.id
-          ? { ...updated, focusMinutes: t.focusMinutes }
-          : t,
-      ),
-    );
-    setTaskBeingEdited(null);
+    const validationError = validateViewName(newViewName, views.map((v) => v.name));
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const { data, error } = await createTaskView(user.id, {
+      name: newViewName.trim(),
+      filters: { ...currentFilters, query: currentFilters.query.trim() },
+    });
+
+    if (error) {
+      setError('No se pudo guardar la vista');
+      return;
+    }
+
+    setError(null);
+    setViews((prev) => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+    setNewViewName(null);
+  };
+
+  const confirmDeleteView = async () => {
+    if (!viewToDelete || !user) return;
+
+    setDeletingView(true);
+    const { error } = await deleteTaskView(user.id, viewToDelete.id);
+    setDeletingView(false);
+
+    if (error) {
+      setError('No se pudo eliminar la vista');
+      return;
+    }
+
+    setViews((prev) => prev.filter((v) => v.id !== viewToDelete.id));
+    setViewToDelete(null);
   };
 
   // ---- Eliminar tarea ----
@@ -429,11 +713,7 @@ function TasksPageContent() {
     if (!taskToDelete || !user) return;
 
     setDeleting(true);
-    const { error } = await supabaseClient
-      .from('tasks')
-      .delete()
-      .eq('id', taskToDelete.id)
-      .eq('user_id', user.id);
+    const { error } = await deleteTask(user.id, taskToDelete.id);
 
     setDeleting(false);
 
@@ -459,6 +739,7 @@ function TasksPageContent() {
       return next;
     });
 
+    setTaskTagRows((prev) => prev.filter((tt) => tt.task_id !== taskToDelete.id));
     setTasks((prev) => prev.filter((t) => t.id !== taskToDelete.id));
     setTaskToDelete(null);
   };
@@ -491,11 +772,7 @@ function TasksPageContent() {
 
     setClearing(true);
 
-    const { error } = await supabaseClient
-      .from('tasks')
-      .delete()
-      .eq('completed', true)
-      .eq('user_id', user.id);
+    const { error } = await deleteCompletedTasks(user.id);
 
     setClearing(false);
 
@@ -513,7 +790,7 @@ function TasksPageContent() {
       return next;
     });
     setSubtaskCountsByTaskId((prev) => {
-      const next: Record<string, { total: number; done: number }> = {};
+      const next: Record<string, SubtaskCount> = {};
       for (const id of remaining) {
         if (prev[id]) next[id] = prev[id];
       }
@@ -527,6 +804,8 @@ function TasksPageContent() {
       return next;
     });
 
+    const kept = new Set(remaining);
+    setTaskTagRows((prev) => prev.filter((tt) => kept.has(tt.task_id)));
     setTasks((prev) => prev.filter((t) => !t.completed));
     setClearConfirmStep(0);
   };
@@ -576,12 +855,31 @@ function TasksPageContent() {
     return 'bg-[var(--warn)]/15 text-[var(--warn)] border border-[var(--warn)]/40';
   };
 
-  const parseTags = (tags: string | null): string[] => {
-    if (!tags) return [];
-    return tags
-      .split(',')
-      .map((t) => t.trim())
-      .filter((t) => t.length > 0);
+  // ---- Alta rápida ----
+  const quickAdd = useMemo(
+    () => parseQuickAdd(quickAddText, { today: todayStr, courses }),
+    [quickAddText, todayStr, courses],
+  );
+  const quickAddCourse = getCourseLabel(quickAdd.course_id);
+
+  const handleQuickAdd = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!quickAddText.trim() || quickAdding) return;
+
+    setQuickAdding(true);
+    const created = await addTask({
+      title: quickAdd.title,
+      description: '',
+      dueDate: quickAdd.due_date ?? '',
+      courseId: quickAdd.course_id,
+      // Sin acceso a prioridades o etiquetas se ignoran, como en el modal
+      priority: canAccess('priorities') ? quickAdd.priority ?? 'medium' : 'medium',
+      tags: canAccess('tags') ? quickAdd.tags : [],
+      recurrence: EMPTY_RECURRENCE_DRAFT,
+    });
+    setQuickAdding(false);
+
+    if (created) setQuickAddText('');
   };
 
   // ---- Subtasks helpers ----
@@ -593,11 +891,7 @@ function TasksPageContent() {
     setSubtasksLoadingByTaskId((prev) => ({ ...prev, [taskId]: true }));
     setError(null);
 
-    const { data, error } = await supabaseClient
-      .from('task_subtasks')
-      .select('id, task_id, title, completed, created_at')
-      .eq('task_id', taskId)
-      .order('created_at', { ascending: true });
+    const { data: list, error } = await listSubtasks(taskId);
 
     setSubtasksLoadingByTaskId((prev) => ({ ...prev, [taskId]: false }));
 
@@ -608,7 +902,6 @@ function TasksPageContent() {
       return;
     }
 
-    const list = (data ?? []) as Subtask[];
     setSubtasksByTaskId((prev) => ({ ...prev, [taskId]: list }));
 
     const done = list.filter((s) => s.completed).length;
@@ -633,6 +926,16 @@ function TasksPageContent() {
     }
   }, [expandedSubtasks, ensureSubtasksLoaded]);
 
+  useEffect(() => {
+    if (!subtasksFromUrl || !user) return;
+
+    const loadSubtasksFromUrl = async () => {
+      await ensureSubtasksLoaded(subtasksFromUrl);
+    };
+
+    loadSubtasksFromUrl();
+  }, [subtasksFromUrl, user, ensureSubtasksLoaded]);
+
   const addSubtask = useCallback(async (taskId: string) => {
     if (!user) return;
 
@@ -641,23 +944,13 @@ function TasksPageContent() {
 
     setError(null);
 
-    const { data, error } = await supabaseClient
-      .from('task_subtasks')
-      .insert({
-        task_id: taskId,
-        title: raw,
-        completed: false,
-      })
-      .select('id, task_id, title, completed, created_at')
-      .single();
+    const { data: created, error } = await createSubtask(taskId, raw);
 
     if (error) {
       setError('No se pudo crear la subtarea.');
       return;
     }
 
-    const created = data as Subtask;
-
     setSubtasksByTaskId((prev) => {
       const current = prev[taskId] ?? [];
       return { ...prev, [taskId]: [...current, created] };
@@ -679,20 +972,13 @@ function TasksPageContent() {
 
     setError(null);
 
-    const { data, error } = await supabaseClient
-      .from('task_subtasks')
-      .update({ completed: !subtask.completed })
-      .eq('id', subtask.id)
-      .select('id, task_id, title, completed, created_at')
-      .single();
+    const { data: updated, error } = await setSubtaskCompleted(subtask.id, !subtask.completed);
 
     if (error) {
       setError('No se pudo actualizar la subtarea.');
       return;
     }
 
-    const updated = data as Subtask;
-
     setSubtasksByTaskId((prev) => {
       const current = prev[taskId] ?? [];
       return {
@@ -721,10 +1007,7 @@ function TasksPageContent() {
     );
     const wasDone = !!existing?.completed;
 
-    const { error } = await supabaseClient
-      .from('task_subtasks')
-      .delete()
-      .eq('id', subtaskId);
+    const { error } = await deleteSubtaskRow(subtaskId);
 
     if (error) {
       setError('No se pudo eliminar la subtarea.');
@@ -748,16 +1031,29 @@ function TasksPageContent() {
     });
   };
 
-  // Todas las etiquetas únicas para el selector de filtro
+  // Etiquetas en uso para el selector de filtro
   const allTags = useMemo(() => {
-    const tagSet = new Set<string>();
-    tasks.forEach((t) => parseTags(t.tags).forEach((tag) => tagSet.add(tag)));
-    return Array.from(tagSet).sort();
-  }, [tasks]);
+    const used = new Set(taskTags.map((tt) => tt.tag_id));
+    return tags.filter((t) => used.has(t.id)).sort((a, b) => a.name.localeCompare(b.name));
+  }, [tags, taskTags]);
+
+  // Materias del cuatrimestre elegido en el sidebar (las tareas sin materia se ven siempre)
+  const termCourses = useMemo(() => filterCoursesByTerm(courses, selection), [courses, selection]);
+  const termCourseIds = useMemo(() => courseIdsForTerm(courses, selection), [courses, selection]);
+
+  // Buscador con filtros escritos (course:, priority:, due:, tag:, done)
+  const parsedQuery = useMemo(() => parseTaskQuery(query), [query]);
 
   // Aplicar filtro + ORDEN por fecha
   const filteredTasks = useMemo(() => {
+    const queryContext = {
+      today: todayStr,
+      courseName: (courseId: string | null) => (courseId ? courseMap.get(courseId)?.name ?? null : null),
+      tagsOf: (taskId: string) => taskTagsMap.get(taskId) ?? [],
+    };
+
     const list = tasks.filter((t) => {
+      if (termCourseIds && t.course_id && !termCourseIds.has(t.course_id)) return false;
       if (filter === 'pending' && t.completed) return false;
       if (filter === 'completed' && !t.completed) return false;
 
@@ -771,9 +1067,11 @@ function TasksPageContent() {
       }
 
       if (filterTag !== 'all') {
-        if (!parseTags(t.tags).includes(filterTag)) return false;
+        if (!taskTagsMap.get(t.id)?.some((tag) => tag.id === filterTag)) return false;
       }
 
+      if (!matchesTaskQuery(t, parsedQuery, queryContext)) return false;
+
       return true;
     });
 
@@ -790,7 +1088,22 @@ function TasksPageContent() {
         ? aDate.localeCompare(bDate)
         : bDate.localeCompare(aDate);
     });
-  }, [tasks, filter, filterCourseId, filterPriority, dateOrder]);
+  }, [
+    tasks,
+    termCourseIds,
+    filter,
+    filterCourseId,
+    filterPriority,
+    filterTag,
+    taskTagsMap,
+    parsedQuery,
+    todayStr,
+    courseMap,
+    dateOrder,
+  ]);
+
+  // Vista guardada que coincide con los filtros actuales
+  const activeView = views.find((v) => sameFilters(v.filters, currentFilters)) ?? null;
 
   // Agrupar tareas por período de tiempo
   const groupedTasks = useMemo(() => {
@@ -838,6 +1151,75 @@ function TasksPageContent() {
     return groups;
   }, [filteredTasks]);
 
+  // Tareas en el orden en que se muestran (para moverse con j/k)
+  const orderedTasks = useMemo(
+    () => [
+      ...groupedTasks.today,
+      ...groupedTasks.thisWeek,
+      ...groupedTasks.upcoming,
+      ...groupedTasks.noDate,
+      ...groupedTasks.overdue,
+      ...groupedTasks.completed,
+    ],
+    [groupedTasks],
+  );
+  const selectedTask = orderedTasks.find((t) => t.id === selectedTaskId) ?? null;
+
+  const selectTaskAt = (index: number) => {
+    const task = orderedTasks[Math.max(0, Math.min(index, orderedTasks.length - 1))];
+    if (!task) return;
+    setSelectedTaskId(task.id);
+    document.getElementById(`tarea-${task.id}`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  };
+
+  const changeTaskPriority = async (task: TaskWithStats, priority: Priority) => {
+    if (!user || task.priority === priority) return;
+
+    setTasks((prev) => prev.map((t) => (t.id === task.id ? { ...t, priority } : t)));
+    const { error } = await updateTask(user.id, task.id, { priority });
+    if (error) {
+      setTasks((prev) => prev.map((t) => (t.id === task.id ? { ...t, priority: task.priority } : t)));
+      setError('No se pudo cambiar la prioridad');
+    }
+  };
+
+  const selectedIndex = selectedTask ? orderedTasks.indexOf(selectedTask) : -1;
+  const withSelected = (fn: (task: TaskWithStats) => void) => () => {
+    if (selectedTask) fn(selectedTask);
+  };
+
+  useShortcutHandler(
+    {
+      new: () => setShowNewTaskModal(true),
+      search: () => {
+        if (searchInputRef.current) searchInputRef.current.focus();
+        else openSearchPalette();
+      },
+      next: () => selectTaskAt(selectedIndex + 1),
+      previous: () => selectTaskAt(selectedIndex === -1 ? 0 : selectedIndex - 1),
+      toggle: withSelected(toggleCompleted),
+      edit: withSelected(openEditTask),
+      due_date: withSelected((task) => {
+        openEditTask(task);
+        setEditFocusDueDate(true);
+      }),
+      ...(canAccess('priorities') && {
+        priority_high: withSelected((task) => changeTaskPriority(task, 'high')),
+        priority_medium: withSelected((task) => changeTaskPriority(task, 'medium')),
+        priority_low: withSelected((task) => changeTaskPriority(task, 'low')),
+      }),
+      help: () => setShowShortcutHelp(true),
+    },
+    // Con un modal abierto las teclas son del modal
+    !showNewTaskModal &&
+      !taskBeingEdited &&
+      !taskToDelete &&
+      !viewToDelete &&
+      clearConfirmStep === 0 &&
+      !showTagManager &&
+      !showShortcutHelp,
+  );
+
   // Props compartidas para TaskGroup
   const taskGroupProps = {
     toggleCompleted,
@@ -847,7 +1229,6 @@ function TasksPageContent() {
     getCourseLabel,
     getPriorityLabel,
     getPriorityClass,
-    parseTags,
     getStatusLabel,
     expandedSubtasks,
     subtaskCountsByTaskId,
@@ -867,7 +1248,7 @@ function TasksPageContent() {
     const course = getCourseLabel(task.course_id);
     const priorityLabel = getPriorityLabel(task.priority);
     const priorityClass = getPriorityClass(task.priority);
-    const tagsList = parseTags(task.tags);
+    const tagsList = taskTagsMap.get(task.id) ?? [];
     const priority = task.priority ?? 'medium';
 
     const isExpanded = expandedSubtasks.has(task.id);
@@ -884,7 +1265,8 @@ function TasksPageContent() {
 
     return (
       <div
-        className={`group relative bg-[var(--card-bg)] rounded-2xl border border-[var(--card-border)] border-l-4 ${borderColor} overflow-hidden transition-all duration-300 hover:shadow-lg hover:shadow-[var(--accent)]/5 hover:-translate-y-0.5 ${task.completed ? 'opacity-60' : ''}`}
+        id={`tarea-${task.id}`}
+        className={`group relative bg-[var(--card-bg)] rounded-2xl border border-[var(--card-border)] border-l-4 ${borderColor} overflow-hidden transition-all duration-300 hover:shadow-lg hover:shadow-[var(--accent)]/5 hover:-translate-y-0.5 ${task.completed ? 'opacity-60' : ''} ${selectedTaskId === task.id ? 'ring-2 ring-[var(--accent)]' : ''}`}
       >
         <div className="p-4">
           <div className="flex gap-4">
@@ -965,6 +1347,11 @@ function TasksPageContent() {
                     {task.focusMinutes} min
                   </span>
                 )}
+                {task.recurrence && (
+                  <span className="px-2 py-0.5 rounded-full text-[10px] font-medium bg-[var(--accent)]/15 text-[var(--accent)]">
+                    ↻ {describeRecurrence(task.recurrence)}
+                  </span>
+                )}
               </div>
 
               {/* Descripción */}
@@ -977,22 +1364,23 @@ function TasksPageContent() {
               {/* Tags */}
               {tagsList.length > 0 && (
                 <div className="flex flex-wrap gap-1 mb-2">
-                  {tagsList.map((tag, idx) => (
+                  {tagsList.map((tag) => (
                     <button
-                      key={`${task.id}-tag-${idx}`}
+                      key={tag.id}
                       type="button"
                       onClick={(e) => {
                         e.stopPropagation();
-                        setFilterTag((prev) => prev === tag ? 'all' : tag);
+                        setFilterTag((prev) => prev === tag.id ? 'all' : tag.id);
                         setShowFilters(true);
                       }}
-                      className={`px-2 py-0.5 rounded-full text-[10px] font-medium transition-all ${
-                        filterTag === tag
-                          ? 'bg-[var(--primary-soft)] text-white'
-                          : 'bg-[var(--primary-soft)]/10 text-[var(--primary-soft)] hover:bg-[var(--primary-soft)]/20'
-                      }`}
+                      className="px-2 py-0.5 rounded-full text-[10px] font-medium transition-all hover:opacity-80"
+                      style={
+                        filterTag === tag.id
+                          ? { backgroundColor: tag.color, color: 'white' }
+                          : { backgroundColor: `${tag.color}20`, color: tag.color }
+                      }
                     >
-                      #{tag}
+                      #{tag.name}
                     </button>
                   ))}
                 </div>
@@ -1092,6 +1480,7 @@ function TasksPageContent() {
                 {subtasks.map((s) => (
                   <div
                     key={s.id}
+                    id={`subtarea-${s.id}`}
                     className="flex items-center gap-3 p-2 rounded-xl bg-[var(--card-bg)] group/sub"
                   >
                     <button
@@ -1225,18 +1614,98 @@ function TasksPageContent() {
               Organiza trabajos, exámenes y pendientes
             </p>
           </div>
-          <button
-            type="button"
-            onClick={() => setShowNewTaskModal(true)}
-            className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-[var(--accent)] text-[var(--foreground)] font-semibold text-sm hover:opacity-90 transition-opacity shadow-sm"
-          >
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-            </svg>
-            Nueva tarea
-          </button>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/import?target=tasks"
+              className="px-4 py-2.5 rounded-xl border border-[var(--card-border)] text-sm text-[var(--text-muted)] hover:text-[var(--foreground)] hover:border-[var(--primary-soft)] transition-all duration-200"
+            >
+              Importar
+            </Link>
+            <button
+              type="button"
+              onClick={() => setShowNewTaskModal(true)}
+              className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-[var(--accent)] text-[var(--foreground)] font-semibold text-sm hover:opacity-90 transition-opacity shadow-sm"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+              </svg>
+              Nueva tarea
+            </button>
+          </div>
         </header>
 
+        {/* Alta rápida */}
+        <form onSubmit={handleQuickAdd} className="flex flex-col gap-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              className="flex-1 border border-[var(--card-border)] rounded-xl px-4 py-2.5 bg-[var(--card-bg)] text-sm text-[var(--foreground)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/50"
+              value={quickAddText}
+              onChange={(e) => setQuickAddText(e.target.value)}
+              placeholder="Alta rápida: Entregar TP2 de Álgebra el viernes !alta #lab"
+              title="Fecha (hoy, mañana, el viernes, en 3 días, 3/11), materia por nombre, !alta / !media / !baja y #etiquetas. También en inglés."
+              aria-label="Alta rápida de tarea"
+            />
+            <button
+              type="submit"
+              disabled={!quickAdd.title || quickAdding}
+              className="px-4 py-2.5 rounded-xl bg-[var(--accent)] text-[var(--foreground)] font-semibold text-sm hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              {quickAdding ? 'Agregando...' : 'Agregar'}
+            </button>
+          </div>
+
+          {/* Vista previa de lo que se va a guardar */}
+          {quickAddText.trim() && (
+            <div className="flex flex-wrap items-center gap-1.5 text-xs">
+              <span className={`font-medium ${quickAdd.title ? 'text-[var(--foreground)]' : 'text-[var(--danger)]'}`}>
+                {quickAdd.title || 'Falta el título'}
+              </span>
+              {quickAdd.due_date && (
+                <span className="px-2 py-0.5 rounded-md bg-[var(--card-bg)] border border-[var(--card-border)] text-[var(--text-soft)]">
+                  {new Date(quickAdd.due_date + 'T00:00:00').toLocaleDateString('es-AR', {
+                    weekday: 'short',
+                    day: 'numeric',
+                    month: 'short',
+                  })}
+                </span>
+              )}
+              {quickAddCourse && (
+                <span
+                  className="px-2 py-0.5 rounded-md"
+                  style={{
+                    backgroundColor: quickAddCourse.color ? `${quickAddCourse.color}20` : 'var(--primary-soft)/15',
+                    color: quickAddCourse.color || 'var(--primary-soft)',
+                  }}
+                >
+                  {quickAddCourse.name}
+                </span>
+              )}
+              {quickAdd.priority && (
+                <span
+                  className={`px-2 py-0.5 rounded-md ${
+                    canAccess('priorities') ? getPriorityClass(quickAdd.priority) : 'line-through text-[var(--text-muted)]'
+                  }`}
+                  title={canAccess('priorities') ? undefined : 'Las prioridades son Premium'}
+                >
+                  {getPriorityLabel(quickAdd.priority)}
+                </span>
+              )}
+              {quickAdd.tags.map((tag) => (
+                <span
+                  key={tag}
+                  className={`px-2 py-0.5 rounded-md bg-[var(--card-bg)] border border-[var(--card-border)] ${
+                    canAccess('tags') ? 'text-[var(--text-soft)]' : 'line-through text-[var(--text-muted)]'
+                  }`}
+                  title={canAccess('tags') ? undefined : 'Las etiquetas son Premium'}
+                >
+                  #{tag}
+                </span>
+              ))}
+            </div>
+          )}
+        </form>
+
         {error && (
           <p className="text-sm text-[var(--danger)] bg-[var(--danger)]/10 px-4 py-2 rounded-lg">
             {error}
@@ -1337,6 +1806,91 @@ function TasksPageContent() {
             </div>
           </div>
 
+          {/* Buscador y vistas guardadas */}
+          {canAccess('advanced_filters') && (
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center gap-2">
+                <input
+                  ref={searchInputRef}
+                  type="search"
+                  className="flex-1 border border-[var(--card-border)] rounded-xl px-4 py-2 bg-[var(--card-bg)] text-sm text-[var(--foreground)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/50"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Buscar… course:Física priority:high due:<7d tag:lab -done"
+                  title="Filtros: course:, priority:, due: (<7d, hoy, vencida, sin, 2026-11-03), tag: o #, done. Un '-' adelante los niega."
+                  aria-label="Buscar tareas"
+                />
+                {newViewName === null ? (
+                  <button
+                    type="button"
+                    onClick={() => setNewViewName('')}
+                    disabled={!!activeView}
+                    className="px-3 py-2 rounded-xl border border-[var(--card-border)] text-sm text-[var(--text-muted)] hover:text-[var(--foreground)] hover:border-[var(--primary-soft)] transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={activeView ? `Ya guardada como “${activeView.name}”` : 'Guardar los filtros actuales como vista'}
+                  >
+                    Guardar vista
+                  </button>
+                ) : (
+                  <form onSubmit={saveView} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      className="w-44 border border-[var(--card-border)] rounded-xl px-3 py-2 bg-[var(--card-bg)] text-sm text-[var(--foreground)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/50"
+                      value={newViewName}
+                      onChange={(e) => setNewViewName(e.target.value)}
+                      placeholder="Parciales esta semana"
+                      autoFocus
+                    />
+                    <button
+                      type="submit"
+                      className="px-3 py-2 rounded-xl bg-[var(--accent)] text-[var(--foreground)] text-sm font-semibold hover:opacity-90 transition-opacity"
+                    >
+                      Guardar
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setNewViewName(null)}
+                      className="px-2 py-2 text-sm text-[var(--text-muted)] hover:text-[var(--foreground)]"
+                    >
+                      Cancelar
+                    </button>
+                  </form>
+                )}
+              </div>
+
+              {parsedQuery.errors.length > 0 && (
+                <p className="text-xs text-[var(--warn)]">{parsedQuery.errors.join(' ')}</p>
+              )}
+
+              {views.length > 0 && (
+                <div className="flex items-center gap-1.5 flex-wrap">
+                  <span className="text-xs text-[var(--text-muted)]">Vistas:</span>
+                  {views.map((view) => (
+                    <span
+                      key={view.id}
+                      className={`flex items-center rounded-full text-xs font-medium transition-all ${
+                        activeView?.id === view.id
+                          ? 'bg-[var(--accent)] text-[var(--foreground)]'
+                          : 'bg-[var(--card-border)]/40 text-[var(--text-muted)] hover:text-[var(--foreground)]'
+                      }`}
+                    >
+                      <button type="button" onClick={() => applyFilters(view.filters)} className="pl-2.5 py-1">
+                        {view.name}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setViewToDelete(view)}
+                        className="px-2 py-1 opacity-60 hover:opacity-100"
+                        aria-label={`Eliminar vista ${view.name}`}
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Panel de filtros desplegable */}
           {showFilters && (
             <div className="flex flex-wrap items-center gap-3 p-3 rounded-xl border border-[var(--card-border)] bg-[var(--card-bg)]">
@@ -1347,7 +1901,7 @@ function TasksPageContent() {
                 disabled={loadingCourses}
               >
                 <option value="all">Todas las materias</option>
-                {courses.map((c) => (
+                {termCourses.map((c) => (
                   <option key={c.id} value={c.id}>
                     {c.name}
                   </option>
@@ -1391,29 +1945,41 @@ function TasksPageContent() {
                   </button>
                   {allTags.map((tag) => (
                     <button
-                      key={tag}
+                      key={tag.id}
                       type="button"
-                      onClick={() => setFilterTag(tag === filterTag ? 'all' : tag)}
-                      className={`px-2.5 py-1 rounded-full text-xs font-medium transition-all ${
-                        filterTag === tag
-                          ? 'bg-[var(--primary-soft)] text-white'
-                          : 'bg-[var(--primary-soft)]/10 text-[var(--primary-soft)] hover:bg-[var(--primary-soft)]/20'
-                      }`}
+                      onClick={() => setFilterTag(tag.id === filterTag ? 'all' : tag.id)}
+                      className="px-2.5 py-1 rounded-full text-xs font-medium transition-all hover:opacity-80"
+                      style={
+                        filterTag === tag.id
+                          ? { backgroundColor: tag.color, color: 'white' }
+                          : { backgroundColor: `${tag.color}20`, color: tag.color }
+                      }
                     >
-                      #{tag}
+                      #{tag.name}
                     </button>
                   ))}
                 </div>
               )}
 
+              {canAccess('tags') && tags.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setShowTagManager(true)}
+                  className="text-xs text-[var(--text-muted)] hover:text-[var(--foreground)] hover:underline"
+                >
+                  Administrar etiquetas
+                </button>
+              )}
+
               {/* Indicador de filtros activos */}
-              {(filterCourseId !== 'all' || filterPriority !== 'all' || filterTag !== 'all') && (
+              {(filterCourseId !== 'all' || filterPriority !== 'all' || filterTag !== 'all' || query) && (
                 <button
                   type="button"
                   onClick={() => {
                     setFilterCourseId('all');
                     setFilterPriority('all');
                     setFilterTag('all');
+                    setQuery('');
                   }}
                   className="text-xs text-[var(--accent)] hover:underline"
                 >
@@ -1532,6 +2098,58 @@ function TasksPageContent() {
         </section>
       </main>
 
+      {showShortcutHelp && (
+        <ShortcutHelp
+          actions={
+            canAccess('priorities')
+              ? SHORTCUT_ACTIONS
+              : SHORTCUT_ACTIONS.filter((a) => !a.startsWith('priority_'))
+          }
+          onClose={() => setShowShortcutHelp(false)}
+        />
+      )}
+
+      {showTagManager && (
+        <TagManager
+          tags={tags}
+          taskTags={taskTags}
+          onClose={() => setShowTagManager(false)}
+          onTagUpdated={(tag) => setTags((prev) => prev.map((t) => (t.id === tag.id ? tag : t)))}
+          onTagsMerged={(sourceId, targetId) => {
+            setTaskTagRows((prev) => {
+              const withTarget = new Set(prev.filter((tt) => tt.tag_id === targetId).map((tt) => tt.task_id));
+              return prev
+                .filter((tt) => tt.tag_id !== sourceId || !withTarget.has(tt.task_id))
+                .map((tt) => (tt.tag_id === sourceId ? { ...tt, tag_id: targetId } : tt));
+            });
+            setTags((prev) => prev.filter((t) => t.id !== sourceId));
+            setFilterTag((prev) => (prev === sourceId ? targetId : prev));
+          }}
+          onTagDeleted={(tagId) => {
+            setTaskTagRows((prev) => prev.filter((tt) => tt.tag_id !== tagId));
+            setTags((prev) => prev.filter((t) => t.id !== tagId));
+            setFilterTag((prev) => (prev === tagId ? 'all' : prev));
+          }}
+        />
+      )}
+
+      {/* Confirmación eliminar vista */}
+      <ConfirmDialog
+        open={!!viewToDelete}
+        title="Eliminar vista"
+        description={
+          <>
+            ¿Seguro que desea eliminar la vista{' '}
+            <span className="font-medium">“{viewToDelete?.name}”</span>? Las tareas no se modifican.
+          </>
+        }
+        confirmLabel="Eliminar"
+        cancelLabel="Cancelar"
+        loading={deletingView}
+        onCancel={() => setViewToDelete(null)}
+        onConfirm={confirmDeleteView}
+      />
+
       {/* Confirmación eliminar tarea */}
       <ConfirmDialog
         open={!!taskToDelete}
@@ -1618,6 +2236,7 @@ function TasksPageContent() {
                 className="border border-[var(--card-border)] rounded-md px-2 py-1 bg-transparent focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
                 value={editDueDate}
                 onChange={(e) => setEditDueDate(e.target.value)}
+                autoFocus={editFocusDueDate}
               />
             </label>
 
@@ -1659,18 +2278,48 @@ function TasksPageContent() {
 
             {canAccess('tags') ? (
               <label className="flex flex-col gap-1 text-sm">
-                <span>Etiquetas (separadas por coma)</span>
-                <input
-                  type="text"
-                  className="border border-[var(--card-border)] rounded-md px-2 py-1 bg-transparent focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+                <span>Etiquetas</span>
+                <TagInput
                   value={editTags}
-                  onChange={(e) => setEditTags(e.target.value)}
+                  onChange={setEditTags}
+                  tags={tags}
+                  className="border border-[var(--card-border)] rounded-md px-2 py-1"
                   placeholder="Ejemplo: parcial, tp, final"
                 />
               </label>
             ) : (
               <PremiumGate feature="tags"><span /></PremiumGate>
             )}
+
+            {taskBeingEdited?.recurrence && (
+              <div className="flex flex-col gap-1 text-sm">
+                <span>Aplicar cambios a</span>
+                <div className="flex gap-4">
+                  <label className="flex items-center gap-1.5">
+                    <input
+                      type="radio"
+                      name="edit-scope"
+                      checked={editScope === 'this'}
+                      onChange={() => setEditScope('this')}
+                    />
+                    Solo esta
+                  </label>
+                  <label className="flex items-center gap-1.5">
+                    <input
+                      type="radio"
+                      name="edit-scope"
+                      checked={editScope === 'future'}
+                      onChange={() => setEditScope('future')}
+                    />
+                    Esta y las siguientes
+                  </label>
+                </div>
+              </div>
+            )}
+
+            {!(taskBeingEdited?.recurrence && editScope === 'this') && (
+              <RecurrenceEditor value={editRecurrence} onChange={setEditRecurrence} />
+            )}
           </div>
         }
         confirmLabel="Guardar"
@@ -1785,17 +2434,19 @@ function TasksPageContent() {
 
               <PremiumGate feature="tags">
                 <label className="flex flex-col gap-1.5">
-                  <span className="text-xs text-[var(--text-soft)]">Etiquetas (separadas por coma)</span>
-                  <input
-                    type="text"
-                    className="border border-[var(--card-border)] rounded-xl px-4 py-2.5 bg-[var(--card-bg)] text-[var(--foreground)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/50"
+                  <span className="text-xs text-[var(--text-soft)]">Etiquetas</span>
+                  <TagInput
                     value={newTaskTags}
-                    onChange={(e) => setNewTaskTags(e.target.value)}
+                    onChange={setNewTaskTags}
+                    tags={tags}
+                    className="border border-[var(--card-border)] rounded-xl px-4 py-2.5 bg-[var(--card-bg)]"
                     placeholder="parcial, tp, final..."
                   />
                 </label>
               </PremiumGate>
 
+              <RecurrenceEditor value={newTaskRecurrence} onChange={setNewTaskRecurrence} />
+
               {/* Footer */}
               <div className="flex justify-end gap-3 pt-2">
                 <button
@@ -0,0 +1,336 @@
+// src/app/transcript/page.tsx
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/context/AuthContext';
+import { useTerm } from '@/context/TermContext';
+import { useGradingScale } from '@/context/GradingScaleContext';
+import {
+  listCourseGrades,
+  listCourses,
+  updateCourse,
+  type Course,
+  type CourseGrade,
+} from '@/lib/db';
+import { gradeBadgeClasses, gradeColor, gradeStatusLabel } from '@/lib/grades';
+import {
+  buildTranscript,
+  buildTranscriptCsv,
+  transcriptTotals,
+  TRANSCRIPT_STATUS_LABELS,
+  type TranscriptEntry,
+  type TranscriptStatus,
+} from '@/lib/transcript';
+import { downloadCsv } from '@/lib/csv';
+import { formatGrade } from '@/lib/gradingScales';
+import { FaDownload, FaPrint, FaScroll } from 'react-icons/fa';
+
+const STATUS_CLASSES: Record<TranscriptStatus, string> = {
+  promocionada: 'bg-[var(--success)]/15 text-[var(--success)] border-[var(--success)]/40',
+  aprobada: 'bg-[var(--accent)]/15 text-[var(--accent)] border-[var(--accent)]/40',
+  libre: 'bg-[var(--danger)]/15 text-[var(--danger)] border-[var(--danger)]/40',
+  en_curso: 'bg-[var(--card-bg)] text-[var(--text-muted)] border-[var(--card-border)]',
+};
+
+type TermGroup = {
+  key: string;
+  title: string;
+  entries: TranscriptEntry[];
+};
+
+export default function TranscriptPage() {
+  const { user, loading } = useAuth();
+  const { terms } = useTerm();
+  const { scale } = useGradingScale();
+  const router = useRouter();
+
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [grades, setGrades] = useState<CourseGrade[]>([]);
+  const [loadingData, setLoadingData] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Créditos en edición (texto) por materia
+  const [creditDrafts, setCreditDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/login');
+    }
+  }, [loading, user, router]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchData = async () => {
+      setLoadingData(true);
+      setError(null);
+
+      const [coursesRes, gradesRes] = await Promise.all([
+        listCourses(user.id),
+        listCourseGrades(user.id),
+      ]);
+
+      if (coursesRes.error || gradesRes.error) {
+        setError('No se pudo cargar el analítico.');
+      } else {
+        setCourses(coursesRes.data);
+        setGrades(gradesRes.data);
+      }
+
+      setLoadingData(false);
+    };
+
+    fetchData();
+  }, [user]);
+
+  const entries = useMemo(
+    () => buildTranscript(courses, grades, terms, scale),
+    [courses, grades, terms, scale],
+  );
+  const totals = useMemo(() => transcriptTotals(entries), [entries]);
+
+  // Agrupar filas por cuatrimestre (ya vienen ordenadas)
+  const groups = useMemo(() => {
+    const list: TermGroup[] = [];
+    for (const entry of entries) {
+      const key = entry.term?.id ?? 'none';
+      const last = list[list.length - 1];
+      if (last && last.key === key) {
+        last.entries.push(entry);
+      } else {
+        list.push({ key, title: entry.term?.name ?? 'Sin cuatrimestre', entries: [entry] });
+      }
+    }
+    return list;
+  }, [entries]);
+
+  const saveCredits = async (course: Course) => {
+    if (!user) return;
+
+    const raw = creditDrafts[course.id];
+    if (raw === undefined) return;
+
+    const trimmed = raw.trim().replace(',', '.');
+    const credits = trimmed ? Number(trimmed) : null;
+    if (credits !== null && (isNaN(credits) || credits < 0 || credits > 1000)) {
+      setError('Los créditos deben ser un número entre 0 y 1000.');
+      return;
+    }
+
+    setCreditDrafts((prev) => {
+      const next = { ...prev };
+      delete next[course.id];
+      return next;
+    });
+    if (credits === course.credits) return;
+
+    setError(null);
+    const { data, error } = await updateCourse(user.id, course.id, { credits });
+
+    if (error) {
+      setError('No se pudieron guardar los créditos.');
+      return;
+    }
+
+    setCourses((prev) => prev.map((c) => (c.id === data.id ? data : c)));
+  };
+
+  const handleDownload = () => {
+    downloadCsv('taskademic-analitico.csv', buildTranscriptCsv(entries, scale));
+  };
+
+  if (loading || (!user && !loading)) {
+    return (
+      <main className="flex items-center justify-center min-h-screen">
+        <p>Cargando...</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="max-w-5xl mx-auto px-4 py-8 flex flex-col gap-6">
+      {/* Header */}
+      <header className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <FaScroll className="text-[var(--accent)]" />
+            Analítico
+          </h1>
+          <p className="text-sm text-muted mt-1">
+            Nota final, créditos y condición de cada materia
+          </p>
+        </div>
+        <div className="flex items-center gap-2 print:hidden">
+          <button
+            type="button"
+            onClick={handleDownload}
+            disabled={entries.length === 0}
+            className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl border border-[var(--card-border)] text-sm text-[var(--text-muted)] hover:text-[var(--foreground)] hover:border-[var(--primary-soft)] transition-all duration-200 disabled:opacity-50"
+          >
+            <FaDownload className="text-xs" />
+            CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => window.print()}
+            disabled={entries.length === 0}
+            className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-[var(--accent)] text-[var(--foreground)] font-semibold text-sm hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+            <FaPrint className="text-xs" />
+            Imprimir
+          </button>
+        </div>
+      </header>
+
+      {error && (
+        <div className="text-sm text-[var(--danger)] bg-[var(--danger)]/10 px-4 py-2 rounded-xl">
+          {error}
+        </div>
+      )}
+
+      {loadingData ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-2 border-[var(--accent)] border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12 border border-dashed border-[var(--card-border)] rounded-2xl bg-[var(--card-bg)]/50">
+          <p className="text-soft mb-2">Todavía no hay materias cargadas</p>
+          <Link href="/courses" className="text-sm text-[var(--accent)] hover:underline">
+            Ir a Materias
+          </Link>
+        </div>
+      ) : (
+        <>
+          {/* Totales */}
+          <section className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <article className="border border-[var(--card-border)] rounded-2xl p-4 bg-[var(--card-bg)]">
+              <span className="text-xs text-muted uppercase tracking-wide">Promedio ponderado</span>
+              <p
+                className={`text-2xl font-bold ${
+                  totals.weightedAverage !== null ? gradeColor(totals.weightedAverage, undefined, scale) : ''
+                }`}
+              >
+                {totals.weightedAverage !== null ? formatGrade(totals.weightedAverage, scale) : '—'}
+              </p>
+              <p className="text-xs text-muted">por créditos</p>
+            </article>
+            <article className="border border-[var(--card-border)] rounded-2xl p-4 bg-[var(--card-bg)]">
+              <span className="text-xs text-muted uppercase tracking-wide">Promedio simple</span>
+              <p className="text-2xl font-bold">
+                {totals.simpleAverage !== null ? formatGrade(totals.simpleAverage, scale) : '—'}
+              </p>
+              <p className="text-xs text-muted">
+                {totals.simpleAverage !== null ? gradeStatusLabel(totals.simpleAverage, undefined, scale) : 'sin aprobadas'}
+              </p>
+            </article>
+            <article className="border border-[var(--card-border)] rounded-2xl p-4 bg-[var(--card-bg)]">
+              <span className="text-xs text-muted uppercase tracking-wide">Aprobadas</span>
+              <p className="text-2xl font-bold text-[var(--success)]">{totals.approvedCount}</p>
+              <p className="text-xs text-muted">de {entries.length} materias</p>
+            </article>
+            <article className="border border-[var(--card-border)] rounded-2xl p-4 bg-[var(--card-bg)]">
+              <span className="text-xs text-muted uppercase tracking-wide">Créditos</span>
+              <p className="text-2xl font-bold">{totals.approvedCredits}</p>
+              <p className="text-xs text-muted">aprobados</p>
+            </article>
+          </section>
+
+          <p className="text-xs text-muted">
+            Solo las materias aprobadas o promocionadas cuentan para los promedios. Las materias
+            sin créditos cargados pesan 1 en el promedio ponderado.
+          </p>
+
+          {/* Filas por cuatrimestre */}
+          {groups.map((group) => {
+            const groupTotals = transcriptTotals(group.entries);
+            return (
+              <section
+                key={group.key}
+                className="border border-[var(--card-border)] rounded-2xl bg-[var(--card-bg)] overflow-hidden"
+              >
+                <div className="flex items-center justify-between p-4 border-b border-[var(--card-border)]">
+                  <h2 className="font-semibold">{group.title}</h2>
+                  {groupTotals.weightedAverage !== null && (
+                    <span className="text-sm text-muted">
+                      Promedio{' '}
+                      <span className={`font-semibold ${gradeColor(groupTotals.weightedAverage, undefined, scale)}`}>
+                        {formatGrade(groupTotals.weightedAverage, scale)}
+                      </span>
+                    </span>
+                  )}
+                </div>
+
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-muted uppercase tracking-wide">
+                      <th className="text-left font-medium px-4 py-2">Materia</th>
+                      <th className="text-right font-medium px-4 py-2 w-28">Créditos</th>
+                      <th className="text-right font-medium px-4 py-2 w-24">Nota</th>
+                      <th className="text-right font-medium px-4 py-2 w-36">Condición</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {group.entries.map((entry) => (
+                      <tr key={entry.course.id} className="border-t border-[var(--card-border)]">
+                        <td className="px-4 py-2">
+                          <span className="flex items-center gap-2">
+                            <span
+                              className="w-2.5 h-2.5 rounded-full shrink-0"
+                              style={{ backgroundColor: entry.course.color || 'var(--primary-soft)' }}
+                            />
+                            <span className="truncate">{entry.course.name}</span>
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.5"
+                            placeholder="—"
+                            value={creditDrafts[entry.course.id] ?? entry.course.credits ?? ''}
+                            onChange={(e) =>
+                              setCreditDrafts((prev) => ({ ...prev, [entry.course.id]: e.target.value }))
+                            }
+                            onBlur={() => saveCredits(entry.course)}
+                            className="w-20 text-right border border-transparent hover:border-[var(--card-border)] rounded-md px-2 py-1 bg-transparent focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+                            aria-label={`Créditos de ${entry.course.name}`}
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {entry.finalGrade !== null ? (
+                            <span
+                              className={`inline-block px-2 py-0.5 rounded-lg border font-semibold ${gradeBadgeClasses(
+                                entry.finalGrade,
+                                entry.scheme,
+                                scale,
+                              )}`}
+                            >
+                              {formatGrade(entry.finalGrade, scale)}
+                            </span>
+                          ) : (
+                            <span className="text-muted">—</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <span
+                            className={`inline-block px-2 py-0.5 rounded-full border text-xs font-medium ${
+                              STATUS_CLASSES[entry.status]
+                            }`}
+                          >
+                            {TRANSCRIPT_STATUS_LABELS[entry.status]}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            );
+          })}
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { FaCalendarPlus, FaCopy, FaDownload, FaFileImport, FaSyncAlt } from 'react-icons/fa';
+import { useAuth } from '@/context/AuthContext';
+import {
+  getCalendarFeedToken,
+  listCourseGrades,
+  listCourses,
+  listExamPlans,
+  listTags,
+  listTaskTags,
+  listTasks,
+  rotateCalendarFeedToken,
+} from '@/lib/db';
+import { buildCalendar, buildTaskademicEvents, downloadCalendar } from '@/lib/ical';
+
+export function CalendarSync() {
+  const { user } = useAuth();
+  const [feedToken, setFeedToken] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [rotating, setRotating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchToken = async () => {
+      const { data } = await getCalendarFeedToken(user.id);
+      setFeedToken(data);
+    };
+
+    fetchToken();
+  }, [user]);
+
+  const feedUrl =
+    feedToken && typeof window !== 'undefined'
+      ? `${window.location.origin}/api/calendar/${feedToken}.ics`
+      : null;
+
+  const handleExport = async () => {
+    if (!user) return;
+
+    setExporting(true);
+    setError(null);
+
+    const [tasksRes, coursesRes, plansRes, gradesRes, tagsRes, taskTagsRes] = await Promise.all([
+      listTasks(user.id),
+      listCourses(user.id),
+      listExamPlans(user.id),
+      listCourseGrades(user.id),
+      listTags(user.id),
+      listTaskTags(user.id),
+    ]);
+
+    setExporting(false);
+
+    if (tasksRes.error || coursesRes.error) {
+      setError('No se pudo generar el archivo .ics.');
+      return;
+    }
+
+    const ics = buildCalendar(
+      buildTaskademicEvents({
+        tasks: tasksRes.data,
+        courses: coursesRes.data,
+        examPlans: plansRes.data ?? [],
+        grades: gradesRes.data ?? [],
+        tags: tagsRes.data ?? [],
+        taskTags: taskTagsRes.data ?? [],
+      }),
+    );
+    downloadCalendar('taskademic.ics', ics);
+  };
+
+  const handleRotate = async () => {
+    if (!user) return;
+
+    setRotating(true);
+    setError(null);
+
+    const { data, error: rotateError } = await rotateCalendarFeedToken(user.id);
+
+    setRotating(false);
+
+    if (rotateError) {
+      setError('No se pudo generar el enlace de suscripción.');
+      return;
+    }
+
+    setFeedToken(data);
+    setCopied(false);
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+    } catch {
+      setError('No se pudo copiar el enlace.');
+    }
+  };
+
+  return (
+    <section className="border border-[var(--card-border)] rounded-2xl p-6 bg-[var(--card-bg)] flex flex-col gap-4">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-xl bg-[var(--accent)]/15 flex items-center justify-center">
+          <FaCalendarPlus className="w-5 h-5 text-[var(--accent)]" />
+        </div>
+        <div>
+          <h2 className="font-semibold text-[var(--foreground)]">Sincronizar con otro calendario</h2>
+          <p className="text-xs text-[var(--text-muted)]">
+            Exportá tus fechas o importá calendarios de la facultad
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={exporting}
+          className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-[var(--accent)] text-[var(--foreground)] font-semibold text-sm hover:opacity-90 transition-opacity disabled:opacity-50"
+        >
+          <FaDownload className="text-xs" />
+          {exporting ? 'Generando...' : 'Descargar .ics'}
+        </button>
+        <button
+          type="button"
+          onClick={handleRotate}
+          disabled={rotating}
+          className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl border border-[var(--card-border)] text-sm text-[var(--text-muted)] hover:text-[var(--foreground)] hover:border-[var(--primary-soft)] transition-all duration-200 disabled:opacity-50"
+        >
+          <FaSyncAlt className="text-xs" />
+          {feedToken ? 'Regenerar enlace' : 'Crear enlace de suscripción'}
+        </button>
+        <Link
+          href="/import/ics"
+          className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl border border-[var(--card-border)] text-sm text-[var(--text-muted)] hover:text-[var(--foreground)] hover:border-[var(--primary-soft)] transition-all duration-200"
+        >
+          <FaFileImport className="text-xs" />
+          Importar .ics
+        </Link>
+      </div>
+
+      {feedUrl && (
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center gap-2">
+            <input
+              readOnly
+              value={feedUrl}
+              onFocus={(e) => e.currentTarget.select()}
+              className="flex-1 border border-[var(--card-border)] rounded-xl px-4 py-2.5 bg-[var(--background)] text-xs text-[var(--foreground)]"
+            />
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="p-3 rounded-xl border border-[var(--card-border)] text-[var(--text-muted)] hover:text-[var(--foreground)] transition-colors"
+              aria-label="Copiar enlace"
+            >
+              <FaCopy className="text-xs" />
+            </button>
+          </div>
+          <p className="text-xs text-[var(--text-muted)]">
+            {copied
+              ? 'Enlace copiado.'
+              : 'Pegalo en Google Calendar ("Desde URL"), Apple Calendar o Thunderbird. Quien tenga el enlace puede ver tus fechas: regeneralo si lo compartiste por error.'}
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-[var(--danger)] bg-[var(--danger)]/10 px-4 py-2 rounded-lg">
+          {error}
+        </p>
+      )}
+    </section>
+  );
+}
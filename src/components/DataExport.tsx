@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { FaDownload, FaFileCsv } from 'react-icons/fa';
+import { useAuth } from '@/context/AuthContext';
+import { PremiumGate } from '@/components/PremiumGate';
+import {
+  countSubtasksByTask,
+  listCourseGrades,
+  listCourses,
+  listPomodoroSessions,
+  listTags,
+  listTaskTags,
+  listTasks,
+} from '@/lib/db';
+import { downloadBlob, downloadCsv, withBom } from '@/lib/csv';
+import { buildGradesCsv, buildSessionsCsv, buildTasksCsv } from '@/lib/export';
+import { tagsByTask } from '@/lib/tags';
+import { buildZip } from '@/lib/zip';
+
+type ExportKind = 'tasks' | 'grades' | 'sessions';
+
+const EXPORT_OPTIONS: { kind: ExportKind; label: string; description: string }[] = [
+  { kind: 'tasks', label: 'Tareas', description: 'Materia, prioridad, etiquetas y subtareas' },
+  { kind: 'grades', label: 'Notas', description: 'Materia, tipo y fecha de examen' },
+  { kind: 'sessions', label: 'Sesiones Pomodoro', description: 'Duración y tarea vinculada' },
+];
+
+export function DataExport() {
+  const { user } = useAuth();
+  const [exporting, setExporting] = useState<ExportKind | 'all' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportKinds = async (kinds: ExportKind[]) => {
+    if (!user) return;
+
+    const [tasksRes, coursesRes, gradesRes, sessionsRes] = await Promise.all([
+      listTasks(user.id),
+      listCourses(user.id),
+      kinds.includes('grades') ? listCourseGrades(user.id) : null,
+      kinds.includes('sessions') ? listPomodoroSessions(user.id) : null,
+    ]);
+
+    if (tasksRes.error || coursesRes.error || gradesRes?.error || sessionsRes?.error) {
+      throw new Error('fetch');
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const files: { name: string; content: string }[] = [];
+
+    if (kinds.includes('tasks')) {
+      const [{ data: counts }, tagsRes, taskTagsRes] = await Promise.all([
+        countSubtasksByTask(tasksRes.data.map((t) => t.id)),
+        listTags(user.id),
+        listTaskTags(user.id),
+      ]);
+      const tagNames = new Map(
+        [...tagsByTask(taskTagsRes.data ?? [], tagsRes.data ?? [])].map(([taskId, tags]) => [
+          taskId,
+          tags.map((t) => t.name),
+        ]),
+      );
+      files.push({
+        name: `taskademic-tareas-${today}.csv`,
+        content: buildTasksCsv(tasksRes.data, coursesRes.data, counts ?? {}, tagNames),
+      });
+    }
+    if (gradesRes?.data) {
+      files.push({
+        name: `taskademic-notas-${today}.csv`,
+        content: buildGradesCsv(gradesRes.data, coursesRes.data),
+      });
+    }
+    if (sessionsRes?.data) {
+      files.push({
+        name: `taskademic-sesiones-${today}.csv`,
+        content: buildSessionsCsv(sessionsRes.data, tasksRes.data),
+      });
+    }
+
+    // Varios archivos van en un solo .zip: el navegador bloquea descargas seguidas
+    if (files.length === 1) {
+      downloadCsv(files[0].name, files[0].content);
+    } else if (files.length > 1) {
+      const csvFiles = files.map((f) => ({ ...f, content: withBom(f.content) }));
+      downloadBlob(`taskademic-${today}.zip`, buildZip(csvFiles));
+    }
+  };
+
+  const handleExport = async (target: ExportKind | 'all') => {
+    setExporting(target);
+    setError(null);
+
+    try {
+      await exportKinds(target === 'all' ? ['tasks', 'grades', 'sessions'] : [target]);
+    } catch {
+      setError('No se pudieron exportar los datos. Intentá nuevamente.');
+    }
+
+    setExporting(null);
+  };
+
+  return (
+    <section className="border border-[var(--card-border)] rounded-2xl p-6 bg-[var(--card-bg)] backdrop-blur-sm">
+      <div className="flex items-center gap-3 mb-5">
+        <div className="w-10 h-10 rounded-xl bg-[var(--accent)]/15 flex items-center justify-center">
+          <FaFileCsv className="w-5 h-5 text-[var(--accent)]" />
+        </div>
+        <div>
+          <h2 className="font-semibold text-[var(--foreground)]">Exportar datos</h2>
+          <p className="text-xs text-[var(--text-muted)]">Descargá tu información en archivos CSV</p>
+        </div>
+      </div>
+
+      <PremiumGate feature="export">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+          {EXPORT_OPTIONS.map((opt) => (
+            <button
+              key={opt.kind}
+              onClick={() => handleExport(opt.kind)}
+              disabled={exporting !== null}
+              className="text-left p-4 rounded-xl border border-[var(--card-border)] bg-[var(--background)] hover:border-[var(--primary-soft)] transition-all duration-200 disabled:opacity-50"
+            >
+              <span className="flex items-center gap-2 text-sm font-medium text-[var(--foreground)]">
+                <FaDownload className="w-3 h-3 text-[var(--accent)]" />
+                {exporting === opt.kind ? 'Exportando...' : opt.label}
+              </span>
+              <span className="block text-xs text-[var(--text-muted)] mt-1">
+                {opt.description}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={() => handleExport('all')}
+          disabled={exporting !== null}
+          className="px-6 py-3 rounded-xl bg-[var(--accent)] text-[var(--foreground)] font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+        >
+          {exporting === 'all' ? 'Exportando...' : 'Exportar todo (.zip)'}
+        </button>
+
+        {error && (
+          <p className="text-sm text-[var(--danger)] bg-[var(--danger)]/10 px-4 py-2 rounded-lg mt-4">
+            {error}
+          </p>
+        )}
+      </PremiumGate>
+    </section>
+  );
+}
@@ -0,0 +1,265 @@
+'use client';
+
+import { ChangeEvent, FormEvent, useState } from 'react';
+import { FaDownload, FaFileImport, FaTrash, FaTimes } from 'react-icons/fa';
+import { useAuth } from '@/context/AuthContext';
+import { createCards, deleteCard, deleteDeck, type Flashcard, type FlashcardDeck } from '@/lib/db';
+import { buildDeckExport, parseDeckFile, type DeckFileFormat } from '@/lib/flashcards';
+import { downloadCsv } from '@/lib/csv';
+import { describeDue } from '@/lib/spacedRepetition';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+
+type DeckEditorProps = {
+  deck: FlashcardDeck;
+  cards: Flashcard[];
+  today: string;
+  onCardsAdded: (cards: Flashcard[]) => void;
+  onCardDeleted: (cardId: string) => void;
+  onDeckDeleted: () => void;
+};
+
+const inputClass =
+  'border border-[var(--card-border)] rounded-xl px-3 py-2 bg-[var(--background)] text-[var(--foreground)] text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/50';
+
+function fileSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'mazo';
+}
+
+export function DeckEditor({
+  deck,
+  cards,
+  today,
+  onCardsAdded,
+  onCardDeleted,
+  onDeckDeleted,
+}: DeckEditorProps) {
+  const { user } = useAuth();
+
+  const [front, setFront] = useState('');
+  const [back, setBack] = useState('');
+  const [tags, setTags] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!front.trim() || !back.trim()) {
+      setError('La tarjeta necesita frente y dorso.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+    const { data, error: insertError } = await createCards(user.id, [
+      {
+        deck_id: deck.id,
+        front: front.trim(),
+        back: back.trim(),
+        tags: tags.trim().replace(/\s+/g, ' ') || null,
+        due_date: today,
+      },
+    ]);
+    setSaving(false);
+
+    if (insertError) {
+      setError('No se pudo crear la tarjeta.');
+      return;
+    }
+    onCardsAdded(data);
+    setFront('');
+    setBack('');
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !user) return;
+
+    setError(null);
+    setInfo(null);
+
+    try {
+      const parsed = parseDeckFile(file.name, await file.text());
+      if (parsed.error) {
+        setError(parsed.error);
+        return;
+      }
+
+      setSaving(true);
+      const { data, error: insertError } = await createCards(
+        user.id,
+        parsed.cards.map((c) => ({ ...c, deck_id: deck.id, due_date: today })),
+      );
+      setSaving(false);
+
+      if (insertError) {
+        setError('No se pudieron importar las tarjetas.');
+        return;
+      }
+      onCardsAdded(data);
+      setInfo(
+        `Se importaron ${data.length} tarjetas` +
+          (parsed.skipped > 0 ? ` (${parsed.skipped} filas sin frente o dorso se omitieron).` : '.'),
+      );
+    } catch (err) {
+      setSaving(false);
+      setError(err instanceof Error ? err.message : 'No se pudo leer el archivo.');
+    }
+  };
+
+  const handleExport = (format: DeckFileFormat) => {
+    downloadCsv(`${fileSlug(deck.name)}.${format === 'tsv' ? 'txt' : 'csv'}`, buildDeckExport(cards, format));
+  };
+
+  const handleDeleteCard = async (cardId: string) => {
+    if (!user) return;
+    const { error: deleteError } = await deleteCard(user.id, cardId);
+    if (deleteError) {
+      setError('No se pudo eliminar la tarjeta.');
+      return;
+    }
+    onCardDeleted(cardId);
+  };
+
+  const handleDeleteDeck = async () => {
+    if (!user) return;
+    setDeleting(true);
+    const { error: deleteError } = await deleteDeck(user.id, deck.id);
+    setDeleting(false);
+    setConfirmDelete(false);
+
+    if (deleteError) {
+      setError('No se pudo eliminar el mazo.');
+      return;
+    }
+    onDeckDeleted();
+  };
+
+  return (
+    <div className="flex flex-col gap-5">
+      {/* Nueva tarjeta */}
+      <form onSubmit={handleAdd} className="grid gap-3 sm:grid-cols-2">
+        <textarea
+          value={front}
+          onChange={(e) => setFront(e.target.value)}
+          placeholder="Frente (pregunta)"
+          rows={3}
+          className={inputClass}
+        />
+        <textarea
+          value={back}
+          onChange={(e) => setBack(e.target.value)}
+          placeholder="Dorso (respuesta)"
+          rows={3}
+          className={inputClass}
+        />
+        <input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Etiquetas (opcional, separadas por espacios)"
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 rounded-xl bg-[var(--accent)] text-[var(--foreground)] text-sm font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+        >
+          {saving ? 'Guardando…' : 'Agregar tarjeta'}
+        </button>
+      </form>
+
+      {/* Importar / exportar */}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <label className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl border border-[var(--card-border)] cursor-pointer hover:border-[var(--primary-soft)] transition-colors">
+          <FaFileImport className="text-[var(--accent)]" />
+          Importar TSV/CSV
+          <input
+            type="file"
+            accept=".txt,.tsv,.csv,text/plain,text/tab-separated-values,text/csv"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </label>
+        {(['tsv', 'csv'] as const).map((format) => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => handleExport(format)}
+            disabled={cards.length === 0}
+            className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl border border-[var(--card-border)] hover:border-[var(--primary-soft)] transition-colors disabled:opacity-50"
+          >
+            <FaDownload className="text-[var(--accent)]" />
+            Exportar {format.toUpperCase()}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => setConfirmDelete(true)}
+          className="ml-auto inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-[var(--danger)] hover:bg-[var(--danger)]/10 transition-colors"
+        >
+          <FaTrash />
+          Eliminar mazo
+        </button>
+      </div>
+      <p className="text-[11px] text-[var(--text-muted)]">
+        Compatible con &quot;Notas en texto plano&quot; de Anki: frente, dorso y etiquetas.
+      </p>
+
+      {error && (
+        <p className="text-sm text-[var(--danger)] bg-[var(--danger)]/10 px-4 py-2 rounded-lg">{error}</p>
+      )}
+      {info && (
+        <p className="text-sm text-[var(--success)] bg-[var(--success)]/10 px-4 py-2 rounded-lg">{info}</p>
+      )}
+
+      {/* Tarjetas */}
+      {cards.length === 0 ? (
+        <p className="text-sm text-[var(--text-muted)] text-center py-6">Este mazo todavía no tiene tarjetas.</p>
+      ) : (
+        <ul className="flex flex-col divide-y divide-[var(--card-border)]">
+          {cards.map((card) => (
+            <li key={card.id} className="flex items-start gap-3 py-2 text-sm">
+              <div className="flex-1 min-w-0 grid sm:grid-cols-2 gap-x-4">
+                <span className="truncate text-[var(--foreground)]">{card.front}</span>
+                <span className="truncate text-[var(--text-muted)]">{card.back}</span>
+              </div>
+              <span className="text-[11px] text-[var(--text-muted)] shrink-0 mt-0.5">
+                {card.last_reviewed_at ? describeDue(card.due_date, today) : 'nueva'}
+              </span>
+              <button
+                onClick={() => handleDeleteCard(card.id)}
+                className="w-6 h-6 flex items-center justify-center rounded-lg text-[var(--text-muted)] hover:text-[var(--danger)] hover:bg-[var(--danger)]/10 transition-colors shrink-0"
+                aria-label="Eliminar tarjeta"
+              >
+                <FaTimes size={10} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ConfirmDialog
+        open={confirmDelete}
+        title="Eliminar mazo"
+        description={
+          <>
+            ¿Seguro que desea eliminar el mazo <span className="font-medium">“{deck.name}”</span>? Se
+            borran sus {cards.length} tarjetas y el historial de repasos.
+          </>
+        }
+        confirmLabel="Eliminar"
+        cancelLabel="Cancelar"
+        loading={deleting}
+        onCancel={() => setConfirmDelete(false)}
+        onConfirm={handleDeleteDeck}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { FaPlay, FaPlus, FaTimes } from 'react-icons/fa';
+import { useAuth } from '@/context/AuthContext';
+import { createExamTopic, deleteExamTopic, updateExamTopic, type ExamTopic, type ExamTopicStatus } from '@/lib/db';
+import { EXAM_TOPIC_STATUS_LABELS, NEXT_EXAM_TOPIC_STATUS } from '@/lib/studySchedule';
+
+type ExamTopicListProps = {
+  planId: string;
+  topics: ExamTopic[];
+  // exam_topic_id → minutos enfocados
+  minutesByTopic: Map<string, number>;
+  // false para exámenes ya rendidos: se listan pero no se agregan ni se estudian
+  editable: boolean;
+  onAdded: (topic: ExamTopic) => void;
+  onUpdated: (topic: ExamTopic) => void;
+  onDeleted: (topicId: string) => void;
+  onStart: (topic: ExamTopic) => void;
+};
+
+const STATUS_STYLES: Record<ExamTopicStatus, string> = {
+  pending: 'text-[var(--text-muted)] bg-[var(--card-border)]/40',
+  in_progress: 'text-[var(--warn)] bg-[var(--warn)]/10',
+  done: 'text-[var(--success)] bg-[var(--success)]/10',
+};
+
+const inputClass =
+  'px-3 py-2 rounded-xl border border-[var(--card-border)] bg-[var(--background)] text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/40';
+
+export function ExamTopicList({
+  planId,
+  topics,
+  minutesByTopic,
+  editable,
+  onAdded,
+  onUpdated,
+  onDeleted,
+  onStart,
+}: ExamTopicListProps) {
+  const { user } = useAuth();
+
+  const [name, setName] = useState('');
+  const [hours, setHours] = useState('2');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const trimmed = name.trim();
+    const estimated = parseFloat(hours.replace(',', '.'));
+    if (!trimmed) {
+      setError('Escribí el nombre de la unidad.');
+      return;
+    }
+    if (isNaN(estimated) || estimated <= 0) {
+      setError('Las horas estimadas deben ser mayores a 0.');
+      return;
+    }
+
+    setBusy('new');
+    setError(null);
+    const { data, error: insertError } = await createExamTopic(user.id, {
+      plan_id: planId,
+      name: trimmed,
+      estimated_hours: estimated,
+      position: topics.length,
+    });
+    setBusy(null);
+
+    if (insertError) {
+      setError('No se pudo agregar la unidad.');
+      return;
+    }
+    onAdded(data);
+    setName('');
+  };
+
+  const handleCycleStatus = async (topic: ExamTopic) => {
+    if (!user) return;
+    setBusy(topic.id);
+    setError(null);
+    const { data, error: updateError } = await updateExamTopic(user.id, topic.id, {
+      status: NEXT_EXAM_TOPIC_STATUS[topic.status],
+    });
+    setBusy(null);
+
+    if (updateError) {
+      setError('No se pudo actualizar la unidad.');
+      return;
+    }
+    onUpdated(data);
+  };
+
+  const handleDelete = async (topic: ExamTopic) => {
+    if (!user) return;
+    setBusy(topic.id);
+    const { error: deleteError } = await deleteExamTopic(user.id, topic.id);
+    setBusy(null);
+
+    if (deleteError) {
+      setError('No se pudo eliminar la unidad.');
+      return;
+    }
+    onDeleted(topic.id);
+  };
+
+  if (topics.length === 0 && !editable) return null;
+
+  return (
+    <div className="flex flex-col gap-2">
+      {topics.length > 0 && (
+        <ul className="flex flex-col divide-y divide-[var(--card-border)] rounded-2xl border border-[var(--card-border)] bg-[var(--background)] px-3">
+          {topics.map((topic) => {
+            const minutes = minutesByTopic.get(topic.id) ?? 0;
+            return (
+              <li key={topic.id} className="flex items-center gap-2.5 py-2 text-sm">
+                <button
+                  type="button"
+                  onClick={() => handleCycleStatus(topic)}
+                  disabled={busy === topic.id}
+                  className={`shrink-0 w-20 text-[11px] font-semibold px-2 py-1 rounded-lg transition-opacity disabled:opacity-50 ${STATUS_STYLES[topic.status]}`}
+                  title="Cambiar estado"
+                >
+                  {EXAM_TOPIC_STATUS_LABELS[topic.status]}
+                </button>
+                <span
+                  className={`flex-1 min-w-0 truncate ${
+                    topic.status === 'done' ? 'line-through text-[var(--text-muted)]' : 'text-[var(--foreground)]'
+                  }`}
+                >
+                  {topic.name}
+                </span>
+                <span className="text-[11px] text-[var(--text-muted)] shrink-0 tabular-nums">
+                  {Math.round((minutes / 60) * 10) / 10} / {topic.estimated_hours} h
+                </span>
+                {editable && topic.status !== 'done' && (
+                  <button
+                    type="button"
+                    onClick={() => onStart(topic)}
+                    className="w-6 h-6 flex items-center justify-center rounded-lg text-[var(--accent)] hover:bg-[var(--accent)]/10 transition-colors shrink-0"
+                    aria-label={`Pomodoro para ${topic.name}`}
+                    title="Iniciar Pomodoro para esta unidad"
+                  >
+                    <FaPlay size={8} />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleDelete(topic)}
+                  disabled={busy === topic.id}
+                  className="w-6 h-6 flex items-center justify-center rounded-lg text-[var(--text-muted)] hover:text-[var(--danger)] hover:bg-[var(--danger)]/10 transition-colors shrink-0 disabled:opacity-40"
+                  aria-label={`Eliminar ${topic.name}`}
+                >
+                  <FaTimes size={10} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {editable && (
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Agregar unidad (ej: Unidad 4 - Series)"
+            className={`${inputClass} flex-1 min-w-0`}
+          />
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={hours}
+            onChange={(e) => setHours(e.target.value)}
+            className={`${inputClass} w-20`}
+            aria-label="Horas estimadas"
+            title="Horas estimadas"
+          />
+          <button
+            type="submit"
+            disabled={busy === 'new'}
+            className="w-9 flex items-center justify-center rounded-xl border border-[var(--card-border)] text-[var(--accent)] hover:bg-[var(--accent)]/10 transition-colors disabled:opacity-50 shrink-0"
+            aria-label="Agregar unidad"
+          >
+            <FaPlus size={11} />
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-[var(--danger)]">{error}</p>}
+    </div>
+  );
+}
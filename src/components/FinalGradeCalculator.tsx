@@ -0,0 +1,235 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { FaCalculator } from 'react-icons/fa';
+import { useGradingScale } from '@/context/GradingScaleContext';
+import type { Course, CourseGrade, ExamPlan, GradingScale } from '@/lib/db';
+import {
+  EXAM_TYPES,
+  guessExamType,
+  hasWeights,
+  requiredGrade,
+  schemeForCourse,
+  summarizeCourseGrades,
+  type RequiredGrade,
+} from '@/lib/grades';
+import { formatGrade, letterOptions, parseScaleInput, scaleStep } from '@/lib/gradingScales';
+
+type FinalGradeCalculatorProps = {
+  courses: Course[];
+  grades: CourseGrade[];
+  examPlans: ExamPlan[];
+};
+
+type ResultLineProps = {
+  label: string;
+  target: number;
+  result: RequiredGrade;
+  scale: GradingScale;
+};
+
+function ResultLine({ label, target, result, scale }: ResultLineProps) {
+  let text: string;
+  let color: string;
+  if (result.status === 'reached') {
+    text = 'Ya lo tenés asegurado con las notas actuales.';
+    color = 'text-[var(--success)]';
+  } else if (result.status === 'reachable') {
+    text = `Necesitás al menos ${formatGrade(result.grade, scale)} en cada evaluación pendiente.`;
+    color = result.grade > 8 ? 'text-[var(--warn)]' : 'text-[var(--foreground)]';
+  } else {
+    text = `Fuera de alcance: con ${formatGrade(10, scale)} en todo llegarías a ${formatGrade(result.maxAchievable, scale)}.`;
+    color = 'text-[var(--danger)]';
+  }
+
+  return (
+    <div className="flex items-start justify-between gap-4 p-3 rounded-xl bg-[var(--background)] border border-[var(--card-border)]">
+      <div>
+        <p className="text-sm font-medium">{label}</p>
+        <p className={`text-xs ${color}`}>{text}</p>
+      </div>
+      <span className="text-xs text-muted shrink-0">Objetivo {formatGrade(target, scale)}</span>
+    </div>
+  );
+}
+
+export function FinalGradeCalculator({ courses, grades, examPlans }: FinalGradeCalculatorProps) {
+  const today = new Date().toISOString().slice(0, 10);
+  const { scale } = useGradingScale();
+
+  const [selectedCourseId, setCourseId] = useState('');
+  const [typeOverrides, setTypeOverrides] = useState<Record<string, string>>({});
+  const [customTarget, setCustomTarget] = useState('');
+
+  // Las materias llegan después del primer render: por defecto, la primera
+  const courseId = selectedCourseId || courses[0]?.id || '';
+  const course = courses.find((c) => c.id === courseId) ?? null;
+  const scheme = schemeForCourse(course, scale);
+
+  const courseGrades = useMemo(
+    () => grades.filter((g) => g.course_id === courseId),
+    [grades, courseId],
+  );
+
+  // Exámenes del planificador que todavía no se rindieron
+  const pendingPlans = useMemo(
+    () => examPlans.filter((p) => p.course_id === courseId && p.exam_date >= today),
+    [examPlans, courseId, today],
+  );
+
+  const pending = pendingPlans.map((p) => ({
+    id: p.id,
+    examType: (typeOverrides[p.id] ?? guessExamType(p.name)) || null,
+    date: p.exam_date,
+  }));
+
+  const summary = summarizeCourseGrades(courseGrades, scheme);
+
+  const targets: { label: string; value: number }[] = [
+    { label: 'Aprobar', value: scheme.passing_grade },
+  ];
+  if (scheme.promotion_grade !== null) {
+    targets.push({ label: 'Promocionar', value: scheme.promotion_grade });
+  }
+  // El objetivo personalizado se carga en la escala del usuario
+  const custom = customTarget.trim() ? parseScaleInput(customTarget, scale).grade : null;
+  if (custom !== null && custom > 0) {
+    targets.push({ label: 'Objetivo personalizado', value: custom });
+  }
+
+  // Con pesos, una pendiente sin tipo (o con tipo sin peso) no mueve la nota
+  const ignoredPending = hasWeights(scheme)
+    ? pending.filter((p) => !p.examType || !(scheme.weights[p.examType] > 0)).length
+    : 0;
+
+  if (courses.length === 0) return null;
+
+  return (
+    <section className="border border-[var(--card-border)] rounded-2xl p-6 bg-[var(--card-bg)] flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-[var(--accent)]/15 flex items-center justify-center">
+            <FaCalculator className="text-[var(--accent)]" />
+          </div>
+          <div>
+            <h2 className="font-semibold">¿Cuánto necesito?</h2>
+            <p className="text-xs text-muted">
+              Nota mínima en los exámenes pendientes para llegar a tu objetivo
+            </p>
+          </div>
+        </div>
+        <select
+          value={courseId}
+          onChange={(e) => setCourseId(e.target.value)}
+          className="text-sm border border-[var(--card-border)] rounded-xl px-3 py-2 bg-[var(--background)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/50"
+        >
+          {courses.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-sm text-muted">
+        {summary.average !== null
+          ? `Nota actual: ${formatGrade(summary.average, scale)}`
+          : 'Todavía no hay notas cargadas para esta materia.'}
+        {summary.evaluatedShare !== null &&
+          ` · ${Math.round(summary.evaluatedShare * 100)}% del peso evaluado`}
+      </p>
+
+      {pending.length === 0 ? (
+        <p className="text-sm text-muted">
+          No hay exámenes pendientes para esta materia.{' '}
+          <Link href="/study-planner" className="text-[var(--accent)] hover:underline">
+            Agregalos en el planificador
+          </Link>{' '}
+          para calcular la nota que necesitás.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-col gap-2">
+            <span className="text-xs text-muted uppercase tracking-wide">Pendientes</span>
+            {pendingPlans.map((p, i) => (
+              <div key={p.id} className="flex items-center justify-between gap-3 text-sm">
+                <span className="truncate">
+                  {p.name}
+                  <span className="ml-2 text-xs text-muted">
+                    {new Date(p.exam_date + 'T00:00:00').toLocaleDateString('es-AR', {
+                      day: 'numeric',
+                      month: 'short',
+                    })}
+                  </span>
+                </span>
+                <select
+                  value={pending[i].examType ?? ''}
+                  onChange={(e) =>
+                    setTypeOverrides((prev) => ({ ...prev, [p.id]: e.target.value }))
+                  }
+                  className="text-xs border border-[var(--card-border)] rounded-lg px-2 py-1 bg-[var(--background)]"
+                >
+                  <option value="">Sin tipo</option>
+                  {EXAM_TYPES.map((t) => (
+                    <option key={t} value={t}>
+                      {t}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            {ignoredPending > 0 && (
+              <p className="text-xs text-[var(--warn)]">
+                {ignoredPending === 1
+                  ? 'Un examen pendiente no tiene peso en el esquema y no cambia la nota.'
+                  : `${ignoredPending} exámenes pendientes no tienen peso en el esquema y no cambian la nota.`}
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-2">
+            {targets.map((t) => (
+              <ResultLine
+                key={t.label}
+                label={t.label}
+                target={t.value}
+                result={requiredGrade(courseGrades, pending, scheme, t.value)}
+                scale={scale}
+              />
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <span className="text-muted">Otro objetivo</span>
+            {scale.letters ? (
+              <select
+                value={customTarget}
+                onChange={(e) => setCustomTarget(e.target.value)}
+                className="border border-[var(--card-border)] rounded-lg px-2 py-1 bg-[var(--background)]"
+              >
+                <option value="">—</option>
+                {letterOptions(scale).map((o) => (
+                  <option key={o.label} value={o.label}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="number"
+                min={scale.min}
+                max={scale.max}
+                step={scaleStep(scale)}
+                value={customTarget}
+                onChange={(e) => setCustomTarget(e.target.value)}
+                placeholder={formatGrade(8, scale)}
+                className="w-20 border border-[var(--card-border)] rounded-lg px-2 py-1 bg-[var(--background)]"
+              />
+            )}
+          </label>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import type { Flashcard } from '@/lib/db';
+import type { ReviewRating } from '@/lib/spacedRepetition';
+import { ReviewButtons } from '@/components/ReviewButtons';
+
+type FlashcardStudyProps = {
+  deckName: string;
+  cards: Flashcard[];
+  today: string;
+  // Guarda la calificación y devuelve la tarjeta actualizada (null si falló)
+  onRate: (card: Flashcard, rating: ReviewRating) => Promise<Flashcard | null>;
+  onClose: () => void;
+};
+
+export function FlashcardStudy({ deckName, cards, today, onRate, onClose }: FlashcardStudyProps) {
+  // La cola se arma al abrir; las olvidadas vuelven al final de la sesión
+  const [queue, setQueue] = useState<Flashcard[]>(cards);
+  const [revealed, setRevealed] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = queue[0] ?? null;
+
+  const handleRate = async (rating: ReviewRating) => {
+    if (!current) return;
+    setSaving(true);
+    setError(null);
+    const updated = await onRate(current, rating);
+    setSaving(false);
+
+    if (!updated) {
+      setError('No se pudo guardar la calificación.');
+      return;
+    }
+
+    setReviewed((n) => n + 1);
+    setRevealed(false);
+    setQueue((prev) => (rating === 'again' ? [...prev.slice(1), updated] : prev.slice(1)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm">
+      <div className="w-full max-w-xl rounded-3xl border border-[var(--card-border)] bg-[var(--card-bg)] shadow-2xl p-6 flex flex-col gap-5">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-[var(--foreground)]">{deckName}</h2>
+            <p className="text-xs text-[var(--text-muted)]">
+              {reviewed} repasadas · {queue.length} en la cola
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 flex items-center justify-center rounded-xl hover:bg-[var(--card-border)]/40 text-[var(--text-muted)] transition-colors"
+            aria-label="Terminar sesión"
+          >
+            <FaTimes size={12} />
+          </button>
+        </div>
+
+        {current ? (
+          <>
+            <div className="flex flex-col gap-4 min-h-48 p-5 rounded-2xl border border-[var(--card-border)] bg-[var(--background)]">
+              <p className="text-lg font-medium text-[var(--foreground)] whitespace-pre-wrap text-center">
+                {current.front}
+              </p>
+              {revealed && (
+                <>
+                  <hr className="border-[var(--card-border)]" />
+                  <p className="text-base text-[var(--foreground)] whitespace-pre-wrap text-center">
+                    {current.back}
+                  </p>
+                </>
+              )}
+            </div>
+
+            {current.tags && (
+              <p className="text-[11px] text-[var(--text-muted)] text-center">{current.tags}</p>
+            )}
+
+            <div className="flex justify-center">
+              {revealed ? (
+                <ReviewButtons
+                  schedule={current}
+                  today={today}
+                  onRate={handleRate}
+                  disabled={saving}
+                  size="md"
+                />
+              ) : (
+                <button
+                  onClick={() => setRevealed(true)}
+                  className="px-5 py-2.5 rounded-xl bg-[var(--accent)] text-[var(--foreground)] text-sm font-semibold hover:opacity-90 transition-opacity"
+                >
+                  Mostrar respuesta
+                </button>
+              )}
+            </div>
+          </>
+        ) : (
+          <div className="py-10 text-center">
+            <p className="font-semibold text-[var(--foreground)]">¡Listo por hoy!</p>
+            <p className="text-sm text-[var(--text-muted)] mt-1">
+              Repasaste {reviewed} {reviewed === 1 ? 'tarjeta' : 'tarjetas'} de este mazo.
+            </p>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-[var(--danger)] text-center">{error}</p>}
+      </div>
+    </div>
+  );
+}
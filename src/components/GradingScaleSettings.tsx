@@ -0,0 +1,256 @@
+'use client';
+
+import { useState } from 'react';
+import { FaPlus, FaRulerHorizontal, FaTrash } from 'react-icons/fa';
+import { useGradingScale } from '@/context/GradingScaleContext';
+import type { GradeTone, GradingScale, GradingScalePreset } from '@/lib/db';
+import {
+  draftFromScale,
+  GRADING_SCALE_PRESETS,
+  scaleFromDraft,
+  type GradingScaleDraft,
+} from '@/lib/gradingScales';
+
+const TONE_LABELS: Record<GradeTone, string> = {
+  success: 'Verde',
+  warn: 'Amarillo',
+  danger: 'Rojo',
+};
+
+const TONE_DOT: Record<GradeTone, string> = {
+  success: 'bg-[var(--success)]',
+  warn: 'bg-[var(--warn)]',
+  danger: 'bg-[var(--danger)]',
+};
+
+const inputClass =
+  'border border-[var(--card-border)] rounded-lg px-2 py-1.5 bg-[var(--background)] text-[var(--foreground)] text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/50';
+
+function BandPreview({ scale }: { scale: GradingScale }) {
+  if (scale.bands.length === 0) {
+    return (
+      <p className="text-xs text-[var(--text-muted)]">
+        Las etiquetas y colores salen del esquema de evaluación de cada materia.
+      </p>
+    );
+  }
+  return (
+    <div className="flex flex-wrap gap-2">
+      {scale.bands.map((b) => (
+        <span
+          key={`${b.min}-${b.label}`}
+          className="inline-flex items-center gap-1.5 px-2 py-1 rounded-lg border border-[var(--card-border)] text-xs"
+        >
+          <span className={`w-2 h-2 rounded-full ${TONE_DOT[b.tone]}`} />
+          {b.label}
+          <span className="text-[var(--text-muted)]">≥ {b.min}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export function GradingScaleSettings() {
+  const { scale, saveScale } = useGradingScale();
+
+  const [preset, setPreset] = useState<GradingScalePreset | null>(null);
+  const [draft, setDraft] = useState<GradingScaleDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  // Sin cambios pendientes se muestra la escala guardada
+  const selectedPreset = preset ?? scale.preset;
+  const customDraft = draft ?? draftFromScale(scale);
+
+  const updateDraft = (patch: Partial<GradingScaleDraft>) =>
+    setDraft({ ...customDraft, ...patch });
+
+  const updateBand = (index: number, patch: Partial<GradingScaleDraft['bands'][number]>) =>
+    updateDraft({
+      bands: customDraft.bands.map((b, i) => (i === index ? { ...b, ...patch } : b)),
+    });
+
+  const handleSave = async () => {
+    let next: GradingScale;
+    if (selectedPreset === 'custom') {
+      const { scale: built, error: draftError } = scaleFromDraft(customDraft);
+      if (!built) {
+        setError(draftError ?? 'Escala inválida');
+        return;
+      }
+      next = built;
+    } else {
+      next = GRADING_SCALE_PRESETS[selectedPreset];
+    }
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+    const ok = await saveScale(next);
+    setSaving(false);
+
+    if (!ok) {
+      setError('No se pudo guardar la escala de calificación.');
+      return;
+    }
+
+    setPreset(null);
+    setDraft(null);
+    setInfo('Escala actualizada. Tus notas se muestran con la nueva escala.');
+  };
+
+  const previewScale =
+    selectedPreset === 'custom' ? scaleFromDraft(customDraft).scale : GRADING_SCALE_PRESETS[selectedPreset];
+
+  return (
+    <section className="border border-[var(--card-border)] rounded-2xl p-6 bg-[var(--card-bg)] backdrop-blur-sm">
+      <div className="flex items-center gap-3 mb-5">
+        <div className="w-10 h-10 rounded-xl bg-[var(--accent)]/15 flex items-center justify-center">
+          <FaRulerHorizontal className="text-[var(--accent)]" />
+        </div>
+        <div>
+          <h2 className="font-semibold text-[var(--foreground)]">Escala de calificación</h2>
+          <p className="text-xs text-[var(--text-muted)]">
+            Cómo se cargan y muestran tus notas en Notas, Rendimiento y el analítico
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4 text-sm">
+        <select
+          value={selectedPreset}
+          onChange={(e) => {
+            setPreset(e.target.value as GradingScalePreset);
+            setInfo(null);
+          }}
+          className={inputClass}
+        >
+          {Object.values(GRADING_SCALE_PRESETS).map((p) => (
+            <option key={p.preset} value={p.preset}>
+              {p.name}
+            </option>
+          ))}
+          <option value="custom">Personalizada</option>
+        </select>
+
+        {selectedPreset === 'custom' && (
+          <div className="flex flex-col gap-3 p-4 rounded-xl bg-[var(--background)] border border-[var(--card-border)]">
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-[var(--text-soft)]">Nombre</span>
+              <input
+                className={inputClass}
+                value={customDraft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+              />
+            </label>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {(
+                [
+                  ['min', 'Mínimo'],
+                  ['max', 'Máximo'],
+                  ['passing', 'Aprueba con'],
+                  ['decimals', 'Decimales'],
+                ] as const
+              ).map(([key, label]) => (
+                <label key={key} className="flex flex-col gap-1">
+                  <span className="text-xs text-[var(--text-soft)]">{label}</span>
+                  <input
+                    type="number"
+                    className={inputClass}
+                    value={customDraft[key]}
+                    onChange={(e) => updateDraft({ [key]: e.target.value })}
+                  />
+                </label>
+              ))}
+            </div>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={customDraft.letters}
+                onChange={(e) => updateDraft({ letters: e.target.checked })}
+              />
+              <span>Mostrar la etiqueta de la franja en lugar del número (letras)</span>
+            </label>
+
+            <div className="flex flex-col gap-2">
+              <span className="text-xs text-[var(--text-soft)]">Franjas (desde → etiqueta y color)</span>
+              {customDraft.bands.map((band, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    className={`${inputClass} w-20`}
+                    value={band.min}
+                    onChange={(e) => updateBand(i, { min: e.target.value })}
+                    aria-label="Desde"
+                  />
+                  <input
+                    className={`${inputClass} flex-1`}
+                    value={band.label}
+                    onChange={(e) => updateBand(i, { label: e.target.value })}
+                    placeholder="Etiqueta"
+                  />
+                  <select
+                    className={inputClass}
+                    value={band.tone}
+                    onChange={(e) => updateBand(i, { tone: e.target.value as GradeTone })}
+                  >
+                    {(Object.keys(TONE_LABELS) as GradeTone[]).map((tone) => (
+                      <option key={tone} value={tone}>
+                        {TONE_LABELS[tone]}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateDraft({ bands: customDraft.bands.filter((_, j) => j !== i) })
+                    }
+                    className="p-2 rounded-lg text-[var(--danger)] hover:bg-[var(--danger)]/10"
+                    title="Quitar franja"
+                  >
+                    <FaTrash className="text-xs" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  updateDraft({
+                    bands: [...customDraft.bands, { min: '', label: '', tone: 'success' }],
+                  })
+                }
+                className="self-start inline-flex items-center gap-1.5 text-xs text-[var(--accent)] hover:underline"
+              >
+                <FaPlus className="text-[10px]" />
+                Agregar franja
+              </button>
+            </div>
+          </div>
+        )}
+
+        {previewScale && <BandPreview scale={previewScale} />}
+
+        {error && (
+          <p className="text-sm text-[var(--danger)] bg-[var(--danger)]/10 px-4 py-2 rounded-lg">
+            {error}
+          </p>
+        )}
+        {info && (
+          <p className="text-sm text-[var(--success)] bg-[var(--success)]/10 px-4 py-2 rounded-lg">
+            {info}
+          </p>
+        )}
+
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || (preset === null && draft === null)}
+          className="self-start px-4 py-2 rounded-xl bg-[var(--accent)] text-[var(--foreground)] font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+        >
+          {saving ? 'Guardando...' : 'Guardar escala'}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useGradingScale } from '@/context/GradingScaleContext';
+import { EXAM_TYPES, RECOVERY_EXAM_TYPE, type GradingSchemeDraft } from '@/lib/grades';
+import { scaleStep } from '@/lib/gradingScales';
+
+type GradingSchemeFormProps = {
+  value: GradingSchemeDraft;
+  onChange: (value: GradingSchemeDraft) => void;
+};
+
+const inputClass =
+  'border border-[var(--card-border)] rounded-md px-2 py-1 bg-transparent text-right focus:outline-none focus:ring-1 focus:ring-[var(--accent)]';
+
+export function GradingSchemeForm({ value, onChange }: GradingSchemeFormProps) {
+  const { scale } = useGradingScale();
+  const update = (patch: Partial<GradingSchemeDraft>) => onChange({ ...value, ...patch });
+
+  const weightSum = EXAM_TYPES.reduce((acc, t) => {
+    const n = Number((value.weights[t] ?? '').replace(',', '.'));
+    return acc + (isNaN(n) ? 0 : n);
+  }, 0);
+
+  return (
+    <div className="flex flex-col gap-4 mt-1 text-sm">
+      <div className="flex flex-col gap-2">
+        <span className="font-medium">Peso de cada evaluación (%)</span>
+        {EXAM_TYPES.map((examType) => (
+          <label key={examType} className="flex items-center justify-between gap-3">
+            <span className="text-[var(--text-muted)]">{examType}</span>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              placeholder="0"
+              className={`${inputClass} w-20`}
+              value={value.weights[examType] ?? ''}
+              onChange={(e) =>
+                update({ weights: { ...value.weights, [examType]: e.target.value } })
+              }
+            />
+          </label>
+        ))}
+        <p className="text-xs text-[var(--text-muted)]">
+          {weightSum > 0
+            ? `Total: ${weightSum}%${weightSum !== 100 ? ' (se normaliza sobre lo rendido)' : ''}`
+            : 'Sin pesos se usa el promedio simple de todas las notas.'}
+        </p>
+      </div>
+
+      <label className="flex items-start gap-2">
+        <input
+          type="checkbox"
+          className="mt-1"
+          checked={value.recoveryReplacesFailed}
+          onChange={(e) => update({ recoveryReplacesFailed: e.target.checked })}
+        />
+        <span>
+          El {RECOVERY_EXAM_TYPE.toLowerCase()} reemplaza al parcial desaprobado
+          <span className="block text-xs text-[var(--text-muted)]">
+            Si no hay parciales desaprobados, cuenta con su propio peso.
+          </span>
+        </span>
+      </label>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1">
+          <span>Nota para aprobar</span>
+          <input
+            type="number"
+            min={scale.min}
+            max={scale.max}
+            step={scaleStep(scale)}
+            className={inputClass}
+            value={value.passingGrade}
+            onChange={(e) => update({ passingGrade: e.target.value })}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Nota para promocionar</span>
+          <input
+            type="number"
+            min={scale.min}
+            max={scale.max}
+            step={scaleStep(scale)}
+            placeholder="Sin promoción"
+            className={inputClass}
+            value={value.promotionGrade}
+            onChange={(e) => update({ promotionGrade: e.target.value })}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import {
+  WEEKDAY_LABELS,
+  type RecurrenceDraft,
+  type RecurrenceEnd,
+} from '@/lib/recurrence';
+
+type RecurrenceEditorProps = {
+  value: RecurrenceDraft;
+  onChange: (value: RecurrenceDraft) => void;
+};
+
+const inputClass =
+  'border border-[var(--card-border)] rounded-lg px-2 py-1.5 bg-[var(--card-bg)] text-[var(--foreground)] text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/50';
+
+export function RecurrenceEditor({ value, onChange }: RecurrenceEditorProps) {
+  const update = (patch: Partial<RecurrenceDraft>) => onChange({ ...value, ...patch });
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter((d) => d !== day)
+      : [...value.weekdays, day];
+    update({ weekdays });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-[var(--text-soft)]">Repetir</span>
+        <select
+          className={inputClass}
+          value={value.freq}
+          onChange={(e) => update({ freq: e.target.value as RecurrenceDraft['freq'] })}
+        >
+          <option value="none">No se repite</option>
+          <option value="daily">Diariamente</option>
+          <option value="weekly">Semanalmente</option>
+        </select>
+
+        {value.freq !== 'none' && (
+          <>
+            <span className="text-xs text-[var(--text-muted)]">cada</span>
+            <input
+              type="number"
+              min="1"
+              max="52"
+              className={`${inputClass} w-16`}
+              value={value.interval}
+              onChange={(e) => update({ interval: e.target.value })}
+            />
+            <span className="text-xs text-[var(--text-muted)]">
+              {value.freq === 'daily' ? 'día(s)' : 'semana(s)'}
+            </span>
+          </>
+        )}
+      </div>
+
+      {value.freq === 'weekly' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_LABELS.map((label, day) => {
+            const active = value.weekdays.includes(day);
+            return (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                className={`w-10 py-1 rounded-lg text-xs font-medium border transition-colors ${
+                  active
+                    ? 'bg-[var(--accent)] border-[var(--accent)] text-[var(--foreground)]'
+                    : 'border-[var(--card-border)] text-[var(--text-muted)] hover:text-[var(--foreground)]'
+                }`}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value.freq !== 'none' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-[var(--text-soft)]">Termina</span>
+          <select
+            className={inputClass}
+            value={value.end}
+            onChange={(e) => update({ end: e.target.value as RecurrenceEnd })}
+          >
+            <option value="never">Nunca</option>
+            <option value="until">El día</option>
+            <option value="count">Después de</option>
+          </select>
+          {value.end === 'until' && (
+            <input
+              type="date"
+              className={inputClass}
+              value={value.until}
+              onChange={(e) => update({ until: e.target.value })}
+            />
+          )}
+          {value.end === 'count' && (
+            <>
+              <input
+                type="number"
+                min="1"
+                max="365"
+                className={`${inputClass} w-20`}
+                value={value.count}
+                onChange={(e) => update({ count: e.target.value })}
+              />
+              <span className="text-xs text-[var(--text-muted)]">veces</span>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
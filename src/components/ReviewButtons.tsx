@@ -0,0 +1,47 @@
+'use client';
+
+import type { ReviewSchedule } from '@/lib/db';
+import {
+  formatInterval,
+  previewIntervals,
+  RATING_LABELS,
+  REVIEW_RATINGS,
+  type ReviewRating,
+} from '@/lib/spacedRepetition';
+
+type ReviewButtonsProps = {
+  schedule: ReviewSchedule;
+  today: string;
+  onRate: (rating: ReviewRating) => void;
+  disabled?: boolean;
+  size?: 'sm' | 'md';
+};
+
+const RATING_CLASSES: Record<ReviewRating, string> = {
+  again: 'border-[var(--danger)]/30 text-[var(--danger)] hover:bg-[var(--danger)]/10',
+  hard: 'border-[var(--warn)]/30 text-[var(--warn)] hover:bg-[var(--warn)]/10',
+  easy: 'border-[var(--success)]/30 text-[var(--success)] hover:bg-[var(--success)]/10',
+};
+
+export function ReviewButtons({ schedule, today, onRate, disabled, size = 'sm' }: ReviewButtonsProps) {
+  const intervals = previewIntervals(schedule, today);
+  const padding = size === 'sm' ? 'px-2 py-1 text-[11px]' : 'px-3 py-2 text-xs';
+
+  return (
+    <div className="flex items-center gap-1.5">
+      {REVIEW_RATINGS.map((rating) => (
+        <button
+          key={rating}
+          type="button"
+          onClick={() => onRate(rating)}
+          disabled={disabled}
+          className={`rounded-lg border font-medium transition-colors disabled:opacity-50 ${padding} ${RATING_CLASSES[rating]}`}
+          title={`Próximo repaso en ${formatInterval(intervals[rating])}`}
+        >
+          {RATING_LABELS[rating]}
+          <span className="ml-1 opacity-60">{formatInterval(intervals[rating])}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { FaArrowRight, FaBrain, FaPlay } from 'react-icons/fa';
+import { useAuth } from '@/context/AuthContext';
+import { listCourses, listTopics, updateTopic, type Course, type CourseTopic } from '@/lib/db';
+import { describeDue, reviewPatch, topicPomodoroContext, type ReviewRating } from '@/lib/spacedRepetition';
+import { savePomodoroExamContext } from '@/lib/studySchedule';
+import { ReviewButtons } from '@/components/ReviewButtons';
+
+// Cuántos temas vencidos se muestran en el inicio
+const MAX_VISIBLE = 5;
+
+/**
+ * Tarjeta del inicio con los temas que tocan repasar hoy
+ */
+export function ReviewsDue() {
+  const { user } = useAuth();
+  const router = useRouter();
+
+  const [topics, setTopics] = useState<CourseTopic[]>([]);
+  const [courses, setCourses] = useState<Map<string, Course>>(new Map());
+  const [rating, setRating] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchDue = async () => {
+      const [topicsRes, coursesRes] = await Promise.all([
+        listTopics(user.id, { dueBy: today }),
+        listCourses(user.id),
+      ]);
+
+      // Sin la tabla course_topics la tarjeta simplemente no se muestra
+      if (!topicsRes.error) setTopics(topicsRes.data);
+      if (!coursesRes.error) setCourses(new Map(coursesRes.data.map((c) => [c.id, c])));
+    };
+
+    fetchDue();
+  }, [user, today]);
+
+  const handleRate = async (topic: CourseTopic, value: ReviewRating) => {
+    if (!user) return;
+    setRating(topic.id);
+    setError(null);
+
+    const { error: updateError } = await updateTopic(user.id, topic.id, reviewPatch(topic, value, today));
+    setRating(null);
+
+    if (updateError) {
+      setError('No se pudo guardar el repaso.');
+      return;
+    }
+    setTopics((prev) => prev.filter((t) => t.id !== topic.id));
+  };
+
+  const startReview = (topic: CourseTopic) => {
+    savePomodoroExamContext(topicPomodoroContext(topic, courses.get(topic.course_id)?.name ?? null));
+    router.push('/pomodoro');
+  };
+
+  if (topics.length === 0) return null;
+
+  return (
+    <section className="border border-[var(--card-border)] rounded-2xl p-5 bg-[var(--card-bg)]">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="inline-flex items-center justify-center w-8 h-8 rounded-lg bg-[var(--accent)]/15">
+            <FaBrain className="text-sm text-[var(--accent)]" />
+          </div>
+          <h2 className="font-semibold">Para repasar hoy</h2>
+          <span className="text-xs text-[var(--text-muted)] bg-[var(--background)] px-2 py-0.5 rounded-full border border-[var(--card-border)]">
+            {topics.length}
+          </span>
+        </div>
+        <Link
+          href="/reviews"
+          className="text-xs text-[var(--accent)] hover:underline flex items-center gap-1"
+        >
+          Ver repasos <FaArrowRight className="text-[10px]" />
+        </Link>
+      </div>
+
+      {error && <p className="text-xs text-[var(--danger)] mb-2">{error}</p>}
+
+      <ul className="flex flex-col gap-2">
+        {topics.slice(0, MAX_VISIBLE).map((topic) => {
+          const course = courses.get(topic.course_id);
+          return (
+            <li
+              key={topic.id}
+              className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-xl border border-[var(--card-border)] bg-[var(--background)]"
+            >
+              <div className="flex items-center gap-2 flex-1 min-w-0">
+                <span
+                  className="w-2.5 h-2.5 rounded-full shrink-0"
+                  style={{ backgroundColor: course?.color || 'var(--accent)' }}
+                />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{topic.name}</p>
+                  <p className="text-[11px] text-[var(--text-muted)] truncate">
+                    {course?.name ?? 'Materia'}
+                    {topic.due_date < today && ` · vencido ${describeDue(topic.due_date, today)}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-1.5 shrink-0">
+                <button
+                  onClick={() => startReview(topic)}
+                  className="flex items-center gap-1 px-2 py-1 rounded-lg bg-[var(--accent)] text-[var(--foreground)] text-[11px] font-semibold hover:opacity-90"
+                  title="Repasar con un Pomodoro"
+                >
+                  <FaPlay size={8} />
+                  Pomodoro
+                </button>
+                <ReviewButtons
+                  schedule={topic}
+                  today={today}
+                  onRate={(value) => handleRate(topic, value)}
+                  disabled={rating === topic.id}
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {topics.length > MAX_VISIBLE && (
+        <p className="mt-2 text-xs text-[var(--text-muted)]">
+          y {topics.length - MAX_VISIBLE} más en Repasos
+        </p>
+      )}
+    </section>
+  );
+}
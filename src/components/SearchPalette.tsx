@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useMemo, useState, type KeyboardEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { FaSearch } from 'react-icons/fa';
+import { useAuth } from '@/context/AuthContext';
+import { useGradingScale } from '@/context/GradingScaleContext';
+import { useTerm } from '@/context/TermContext';
+import {
+  listCourseGrades,
+  listCourses,
+  listExamPlans,
+  listProjectTasks,
+  listProjects,
+  listSubtasksByTasks,
+  listTasks,
+} from '@/lib/db';
+import {
+  buildSearchItems,
+  focusSearchTarget,
+  searchItems,
+  searchTermSelection,
+  SEARCH_KIND_LABELS,
+  type SearchData,
+  type SearchItem,
+} from '@/lib/search';
+
+type SearchPaletteProps = {
+  onClose: () => void;
+};
+
+/**
+ * Buscador global (Ctrl/⌘ + K): lleva a la página del resultado y lo resalta
+ */
+export function SearchPalette({ onClose }: SearchPaletteProps) {
+  const { user } = useAuth();
+  const { scale } = useGradingScale();
+  const { selection, setSelection } = useTerm();
+  const router = useRouter();
+
+  const [data, setData] = useState<SearchData | null>(null);
+  const [loadingItems, setLoadingItems] = useState(true);
+  const [query, setQuery] = useState('');
+  const [highlight, setHighlight] = useState(0);
+
+  // Se cargan al abrir para buscar sobre los datos más recientes
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchItems = async () => {
+      const [tasksRes, coursesRes, plansRes, projectsRes, gradesRes] = await Promise.all([
+        listTasks(user.id),
+        listCourses(user.id),
+        listExamPlans(user.id),
+        listProjects(),
+        listCourseGrades(user.id),
+      ]);
+
+      const tasks = tasksRes.data ?? [];
+      const projects = projectsRes.data ?? [];
+      const [subtasksRes, projectTasksRes] = await Promise.all([
+        listSubtasksByTasks(tasks.map((t) => t.id)),
+        projects.length > 0
+          ? listProjectTasks(projects.map((p) => p.id))
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      const failed = [tasksRes, coursesRes, plansRes, projectsRes, gradesRes, subtasksRes, projectTasksRes].find(
+        (r) => r.error,
+      );
+      if (failed) console.warn('El buscador no pudo cargar todos los datos', failed.error);
+
+      setData({
+        tasks,
+        subtasks: subtasksRes.data ?? [],
+        courses: coursesRes.data ?? [],
+        examPlans: plansRes.data ?? [],
+        projects,
+        projectTasks: projectTasksRes.data ?? [],
+        grades: gradesRes.data ?? [],
+      });
+      setLoadingItems(false);
+    };
+
+    fetchItems();
+  }, [user]);
+
+  const items = useMemo(() => (data ? buildSearchItems(data, scale) : []), [data, scale]);
+  const results = useMemo(() => searchItems(items, query), [items, query]);
+
+  const openResult = (item: SearchItem) => {
+    onClose();
+    // Si el resultado es de otro cuatrimestre, la página lo ocultaría: se cambia la selección
+    const term = searchTermSelection(item, selection);
+    if (term !== null) setSelection(term);
+    router.push(item.href);
+    focusSearchTarget(item.elementId);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && results.length > 0) {
+      e.preventDefault();
+      setHighlight((h) => (h + 1) % results.length);
+    } else if (e.key === 'ArrowUp' && results.length > 0) {
+      e.preventDefault();
+      setHighlight((h) => (h - 1 + results.length) % results.length);
+    } else if (e.key === 'Enter' && results[highlight]) {
+      e.preventDefault();
+      openResult(results[highlight]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[15vh] bg-black/40 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-xl rounded-2xl border border-[var(--card-border)] bg-[var(--background)] shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Buscar"
+      >
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-[var(--card-border)]">
+          <FaSearch className="text-[var(--text-muted)]" />
+          <input
+            type="text"
+            className="flex-1 bg-transparent text-[var(--foreground)] placeholder:text-[var(--text-muted)] focus:outline-none"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setHighlight(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Buscar tareas, subtareas, proyectos, materias, exámenes y notas…"
+            autoFocus
+          />
+          <kbd className="text-[10px] px-1.5 py-0.5 rounded border border-[var(--card-border)] text-[var(--text-muted)]">
+            Esc
+          </kbd>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto">
+          {!query.trim() ? (
+            <p className="px-4 py-6 text-sm text-center text-[var(--text-muted)]">
+              Escribí para buscar. Usá ↑ ↓ para moverte y Enter para abrir.
+            </p>
+          ) : loadingItems ? (
+            <p className="px-4 py-6 text-sm text-center text-[var(--text-muted)]">Cargando…</p>
+          ) : results.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-[var(--text-muted)]">
+              Sin resultados para “{query.trim()}”.
+            </p>
+          ) : (
+            <ul className="py-1">
+              {results.map((item, idx) => (
+                <li key={`${item.kind}-${item.id}`}>
+                  <button
+                    type="button"
+                    onClick={() => openResult(item)}
+                    onMouseEnter={() => setHighlight(idx)}
+                    className={`w-full flex items-center gap-3 px-4 py-2.5 text-left ${
+                      idx === highlight ? 'bg-[var(--card-bg)]' : ''
+                    }`}
+                  >
+                    <span className="w-16 shrink-0 text-[10px] font-semibold uppercase tracking-wide text-[var(--accent)]">
+                      {SEARCH_KIND_LABELS[item.kind]}
+                    </span>
+                    <span className="flex-1 min-w-0">
+                      <span className={`block text-sm truncate ${item.done ? 'line-through opacity-60' : ''}`}>
+                        {item.title}
+                      </span>
+                      {item.detail && (
+                        <span className="block text-xs text-[var(--text-muted)] truncate">{item.detail}</span>
+                      )}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
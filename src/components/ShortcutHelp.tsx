@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect } from 'react';
+import { FaKeyboard } from 'react-icons/fa';
+import { useShortcuts } from '@/context/ShortcutsContext';
+import type { ShortcutAction } from '@/lib/db';
+import { formatShortcutKey, SHORTCUT_LABELS } from '@/lib/shortcuts';
+
+type ShortcutHelpProps = {
+  actions: ShortcutAction[];
+  onClose: () => void;
+};
+
+/**
+ * Lista de atajos disponibles en la página actual
+ */
+export function ShortcutHelp({ actions, onClose }: ShortcutHelpProps) {
+  const { shortcuts } = useShortcuts();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-sm rounded-2xl border border-[var(--card-border)] bg-[var(--background)] shadow-2xl p-6"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Atajos de teclado"
+      >
+        <div className="flex items-center gap-2 mb-4">
+          <FaKeyboard className="text-[var(--accent)]" />
+          <h2 className="text-lg font-bold">Atajos de teclado</h2>
+        </div>
+
+        <ul className="flex flex-col gap-2 text-sm">
+          {actions.map((action) => (
+            <li key={action} className="flex items-center justify-between gap-3">
+              <span className="text-[var(--text-soft)]">{SHORTCUT_LABELS[action]}</span>
+              <kbd className="min-w-7 text-center text-xs px-2 py-0.5 rounded border border-[var(--card-border)] bg-[var(--card-bg)]">
+                {formatShortcutKey(shortcuts[action])}
+              </kbd>
+            </li>
+          ))}
+        </ul>
+
+        <p className="mt-4 text-xs text-[var(--text-muted)]">
+          Podés cambiar las teclas desde tu perfil. Esc para cerrar.
+        </p>
+      </div>
+    </div>
+  );
+}
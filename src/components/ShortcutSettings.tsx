@@ -0,0 +1,142 @@
+'use client';
+
+import { useState, type KeyboardEvent } from 'react';
+import { FaKeyboard } from 'react-icons/fa';
+import { useShortcuts } from '@/context/ShortcutsContext';
+import type { ShortcutAction } from '@/lib/db';
+import {
+  DEFAULT_SHORTCUTS,
+  formatShortcutKey,
+  isBindableKey,
+  keyFromEvent,
+  SHORTCUT_ACTIONS,
+  SHORTCUT_LABELS,
+  validateShortcuts,
+} from '@/lib/shortcuts';
+
+export function ShortcutSettings() {
+  const { shortcuts, saveShortcuts } = useShortcuts();
+
+  const [draft, setDraft] = useState<Record<ShortcutAction, string> | null>(null);
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  // Sin cambios pendientes se muestran los atajos guardados
+  const current = draft ?? shortcuts;
+
+  // El botón en espera toma la próxima tecla; Esc cancela
+  const handleCapture = (action: ShortcutAction, e: KeyboardEvent<HTMLButtonElement>) => {
+    if (capturing !== action) return;
+    e.preventDefault();
+
+    if (e.key === 'Escape') {
+      setCapturing(null);
+      return;
+    }
+    const key = keyFromEvent(e);
+    if (!isBindableKey(key) || e.ctrlKey || e.metaKey || e.altKey) return;
+
+    setDraft({ ...current, [action]: key });
+    setCapturing(null);
+    setInfo(null);
+  };
+
+  const handleSave = async () => {
+    const validationError = validateShortcuts(current);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+    const ok = await saveShortcuts(current);
+    setSaving(false);
+
+    if (!ok) {
+      setError('No se pudieron guardar los atajos.');
+      return;
+    }
+
+    setDraft(null);
+    setInfo('Atajos actualizados.');
+  };
+
+  const isDefault = SHORTCUT_ACTIONS.every((a) => current[a] === DEFAULT_SHORTCUTS[a]);
+
+  return (
+    <section className="border border-[var(--card-border)] rounded-2xl p-6 bg-[var(--card-bg)] backdrop-blur-sm">
+      <div className="flex items-center gap-3 mb-5">
+        <div className="w-10 h-10 rounded-xl bg-[var(--accent)]/15 flex items-center justify-center">
+          <FaKeyboard className="text-[var(--accent)]" />
+        </div>
+        <div>
+          <h2 className="font-semibold text-[var(--foreground)]">Atajos de teclado</h2>
+          <p className="text-xs text-[var(--text-muted)]">
+            Funcionan en Tareas y en el tablero de proyectos. Tocá una tecla para cambiarla.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4 text-sm">
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+          {SHORTCUT_ACTIONS.map((action) => (
+            <li key={action} className="flex items-center justify-between gap-3">
+              <span className="text-[var(--text-soft)]">{SHORTCUT_LABELS[action]}</span>
+              <button
+                type="button"
+                onClick={() => setCapturing(capturing === action ? null : action)}
+                onKeyDown={(e) => handleCapture(action, e)}
+                onBlur={() => setCapturing((prev) => (prev === action ? null : prev))}
+                className={`min-w-16 px-2 py-1 rounded-lg border text-xs font-mono ${
+                  capturing === action
+                    ? 'border-[var(--accent)] text-[var(--accent)]'
+                    : 'border-[var(--card-border)] bg-[var(--background)]'
+                }`}
+              >
+                {capturing === action ? 'Tecla…' : formatShortcutKey(current[action])}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {error && (
+          <p className="text-sm text-[var(--danger)] bg-[var(--danger)]/10 px-4 py-2 rounded-lg">
+            {error}
+          </p>
+        )}
+        {info && (
+          <p className="text-sm text-[var(--success)] bg-[var(--success)]/10 px-4 py-2 rounded-lg">
+            {info}
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || draft === null}
+            className="px-4 py-2 rounded-xl bg-[var(--accent)] text-[var(--foreground)] font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+            {saving ? 'Guardando...' : 'Guardar atajos'}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setDraft({ ...DEFAULT_SHORTCUTS });
+              setError(null);
+              setInfo(null);
+            }}
+            disabled={saving || isDefault}
+            className="px-4 py-2 rounded-xl border border-[var(--card-border)] hover:bg-[var(--card-bg)] disabled:opacity-50"
+          >
+            Restablecer
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -5,10 +5,13 @@ import Image from 'next/image';
 import { usePathname, useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
 import { usePlan } from '@/context/PlanContext';
+import { useTerm } from '@/context/TermContext';
 import { supabaseClient } from '@/lib/supabaseClient';
 import { useTheme } from '@/context/ThemeContext';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { SearchPalette } from '@/components/SearchPalette';
+import { OPEN_SEARCH_EVENT } from '@/lib/search';
 import { FaEnvelope } from 'react-icons/fa';
 
 import {
@@ -27,6 +30,10 @@ import {
   FaClipboardCheck,
   FaProjectDiagram,
   FaGraduationCap,
+  FaScroll,
+  FaBrain,
+  FaLayerGroup,
+  FaSearch,
 } from 'react-icons/fa';
 
 const mainLinks = [
@@ -38,10 +45,13 @@ const mainLinks = [
   { href: '/courses', label: 'Materias', icon: <FaBook />, requiresAuth: true },
   // Ejecutar
   { href: '/pomodoro', label: 'Pomodoro', icon: <FaClock />, requiresAuth: true },
+  { href: '/reviews', label: 'Repasos', icon: <FaBrain />, requiresAuth: true },
+  { href: '/flashcards', label: 'Tarjetas', icon: <FaLayerGroup />, requiresAuth: true },
   { href: '/projects', label: 'Proyectos', icon: <FaProjectDiagram />, requiresAuth: true },
   // Revisar
   { href: '/grades', label: 'Notas', requiresAuth: true, icon: <FaClipboardCheck /> },
   { href: '/performance', label: 'Rendimiento', icon: <FaChartBar />, requiresAuth: true },
+  { href: '/transcript', label: 'Analítico', icon: <FaScroll />, requiresAuth: true },
   // Cuenta
   { href: '/profile', label: 'Perfil', icon: <FaUser />, requiresAuth: true },
 ];
@@ -69,11 +79,32 @@ export function Sidebar() {
   const router = useRouter();
   const { user } = useAuth();
   const { isPremium } = usePlan();
+  const { terms, selection, setSelection } = useTerm();
   const { theme, toggleTheme } = useTheme();
   const [collapsed, setCollapsed] = useState(false);
 
   const [logoutOpen, setLogoutOpen] = useState(false);
   const [loggingOut, setLoggingOut] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+
+  // Atajo del buscador global: Ctrl/⌘ + K (o el evento que disparan las páginas)
+  useEffect(() => {
+    if (!user) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setSearchOpen((prev) => !prev);
+      }
+    };
+    const handleOpenSearch = () => setSearchOpen(true);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener(OPEN_SEARCH_EVENT, handleOpenSearch);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener(OPEN_SEARCH_EVENT, handleOpenSearch);
+    };
+  }, [user]);
 
   const widthClass = collapsed ? 'w-16' : 'w-60';
 
@@ -130,6 +161,23 @@ export function Sidebar() {
             )}
           </Link>
 
+          {/* Buscador global */}
+          {user && (
+            <button
+              onClick={() => setSearchOpen(true)}
+              className="mb-3 w-full px-3 py-2 border border-[var(--card-border)] rounded-md text-sm hover:bg-white/5 flex items-center gap-3 text-[var(--text-muted)]"
+              title={collapsed ? 'Buscar (Ctrl + K)' : undefined}
+            >
+              <FaSearch />
+              {!collapsed && (
+                <>
+                  <span className="flex-1 text-left">Buscar</span>
+                  <kbd className="text-[10px] px-1.5 py-0.5 rounded border border-[var(--card-border)]">Ctrl K</kbd>
+                </>
+              )}
+            </button>
+          )}
+
           {/* Navegación principal */}
           <nav className="flex flex-col gap-1">
             {mainLinks
@@ -162,6 +210,49 @@ export function Sidebar() {
               })}
           </nav>
 
+          {/* Cuatrimestre activo (filtra materias, tareas y notas) */}
+          {user && !collapsed && (
+            <div className="mt-4 pt-3 border-t border-[var(--card-border)]">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-[10px] uppercase tracking-wide opacity-60">
+                  Cuatrimestre
+                </p>
+                <Link
+                  href="/courses#cuatrimestres"
+                  className="text-[10px] text-[var(--accent)] hover:underline"
+                >
+                  Gestionar
+                </Link>
+              </div>
+              <select
+                value={selection}
+                onChange={(e) => setSelection(e.target.value)}
+                className="w-full px-2 py-1.5 border border-[var(--card-border)] rounded-md bg-[var(--background)] text-xs"
+                aria-label="Cuatrimestre activo"
+              >
+                <option value="all">Todos</option>
+                {terms
+                  .filter((t) => !t.archived)
+                  .map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}
+                    </option>
+                  ))}
+                {terms.some((t) => t.archived) && (
+                  <optgroup label="Archivados">
+                    {terms
+                      .filter((t) => t.archived)
+                      .map((t) => (
+                        <option key={t.id} value={t.id}>
+                          {t.name}
+                        </option>
+                      ))}
+                  </optgroup>
+                )}
+              </select>
+            </div>
+          )}
+
           {/* Secciones de landing (solo sin sesión) */}
           {!user && (
             <div className="mt-4 pt-3 border-t border-[var(--card-border)]">
@@ -272,6 +363,8 @@ export function Sidebar() {
         </div>
       </aside>
 
+      {searchOpen && user && <SearchPalette onClose={() => setSearchOpen(false)} />}
+
       {/* Confirmación de logout */}
       <ConfirmDialog
         open={logoutOpen}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { FaCalendarWeek } from 'react-icons/fa';
+import type { StudyAvailability } from '@/lib/db';
+import { WEEKDAY_LABELS } from '@/lib/recurrence';
+import { HEAVY_DAY_TASKS, MAX_DAILY_MINUTES } from '@/lib/studySchedule';
+
+type StudyAvailabilityEditorProps = {
+  value: StudyAvailability;
+  // false mientras se usa la disponibilidad sugerida
+  isSaved: boolean;
+  onSave: (next: StudyAvailability) => Promise<boolean>;
+};
+
+// Lunes primero, como se lee la semana de cursada
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const toHours = (minutes: number) => String(Math.round((minutes / 60) * 10) / 10);
+
+export function StudyAvailabilityEditor({ value, isSaved, onSave }: StudyAvailabilityEditorProps) {
+  const [draft, setDraft] = useState<string[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Sin cambios pendientes se muestra la disponibilidad guardada
+  const hours = draft ?? value.map(toHours);
+  const weeklyHours = hours.reduce((acc, h) => acc + (Number(h.replace(',', '.')) || 0), 0);
+
+  const handleSave = async () => {
+    const next: number[] = [];
+    for (const raw of hours) {
+      const h = raw.trim() ? Number(raw.replace(',', '.')) : 0;
+      if (isNaN(h) || h < 0 || h * 60 > MAX_DAILY_MINUTES) {
+        setError(`Cada día debe tener entre 0 y ${MAX_DAILY_MINUTES / 60} horas.`);
+        return;
+      }
+      next.push(Math.round(h * 60));
+    }
+
+    setSaving(true);
+    setError(null);
+    const ok = await onSave(next);
+    setSaving(false);
+
+    if (!ok) {
+      setError('No se pudo guardar la disponibilidad.');
+      return;
+    }
+    setDraft(null);
+  };
+
+  return (
+    <section className="rounded-3xl border border-[var(--card-border)] bg-[var(--card-bg)] p-6 flex flex-col gap-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-center gap-2.5">
+          <FaCalendarWeek className="text-[var(--accent)]" />
+          <div>
+            <p className="font-semibold text-[var(--foreground)]">Disponibilidad semanal</p>
+            <p className="text-xs text-[var(--text-muted)]">
+              {isSaved
+                ? `${Math.round(weeklyHours * 10) / 10} h por semana para preparar exámenes`
+                : 'Usando una disponibilidad sugerida: ajustala a tu semana'}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving || draft === null}
+          className="px-3.5 py-2 rounded-xl bg-[var(--accent)] text-[var(--foreground)] text-xs font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 shrink-0"
+        >
+          {saving ? 'Guardando…' : 'Guardar'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-2">
+        {WEEK_ORDER.map((weekday) => (
+          <label key={weekday} className="flex flex-col items-center gap-1">
+            <span className="text-[11px] font-medium text-[var(--text-muted)]">
+              {WEEKDAY_LABELS[weekday]}
+            </span>
+            <input
+              type="number"
+              min={0}
+              max={MAX_DAILY_MINUTES / 60}
+              step={0.5}
+              value={hours[weekday]}
+              onChange={(e) =>
+                setDraft(hours.map((h, i) => (i === weekday ? e.target.value : h)))
+              }
+              className="w-full px-1.5 py-2 rounded-xl border border-[var(--card-border)] bg-[var(--background)] text-sm text-center focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/40"
+              aria-label={`Horas disponibles el ${WEEKDAY_LABELS[weekday]}`}
+            />
+          </label>
+        ))}
+      </div>
+      <p className="text-[11px] text-[var(--text-muted)]">
+        Horas por día. Los días con entregas se recortan solos y con {HEAVY_DAY_TASKS} o más entregas no se agenda estudio.
+      </p>
+
+      {error && <p className="text-xs text-[var(--danger)]">{error}</p>}
+    </section>
+  );
+}
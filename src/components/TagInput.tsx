@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, type KeyboardEvent } from 'react';
+import type { Tag } from '@/lib/db';
+import { normalizeTagName, parseTagList, suggestTags, tagKey, DEFAULT_TAG_COLOR } from '@/lib/tags';
+
+type TagInputProps = {
+  value: string[]; // nombres de las etiquetas elegidas
+  onChange: (names: string[]) => void;
+  tags: Tag[]; // etiquetas existentes del usuario (para autocompletar y colores)
+  placeholder?: string;
+  className?: string;
+};
+
+/**
+ * Campo de etiquetas con chips y autocompletado. Enter o coma agregan lo escrito.
+ */
+export function TagInput({ value, onChange, tags, placeholder, className = '' }: TagInputProps) {
+  const [query, setQuery] = useState('');
+  const [focused, setFocused] = useState(false);
+  const [highlight, setHighlight] = useState(0);
+
+  const suggestions = focused ? suggestTags(tags, query, value) : [];
+  const colorByKey = new Map(tags.map((t) => [tagKey(t.name), t.color]));
+
+  const addNames = (names: string[]) => {
+    const taken = new Set(value.map(tagKey));
+    const added = names.filter((n) => !taken.has(tagKey(n)));
+    if (added.length > 0) onChange([...value, ...added]);
+    setQuery('');
+    setHighlight(0);
+  };
+
+  // Si existe una etiqueta con el mismo nombre se usa su escritura
+  const addTyped = () => {
+    const names = parseTagList(query).map(
+      (name) => tags.find((t) => tagKey(t.name) === tagKey(name))?.name ?? name,
+    );
+    addNames(names);
+  };
+
+  const remove = (name: string) => {
+    onChange(value.filter((n) => n !== name));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlight((h) => (h + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlight((h) => (h - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === ',') {
+      if (!normalizeTagName(query)) {
+        if (e.key === ',') e.preventDefault();
+        return;
+      }
+      e.preventDefault();
+      const picked = suggestions[highlight];
+      if (e.key === 'Enter' && picked && query.trim()) addNames([picked.name]);
+      else addTyped();
+    } else if (e.key === 'Backspace' && !query && value.length > 0) {
+      remove(value[value.length - 1]);
+    } else if (e.key === 'Escape') {
+      setFocused(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div
+        className={`flex flex-wrap items-center gap-1.5 focus-within:ring-2 focus-within:ring-[var(--accent)]/50 ${className}`}
+      >
+        {value.map((name) => {
+          const color = colorByKey.get(tagKey(name)) ?? DEFAULT_TAG_COLOR;
+          return (
+            <span
+              key={name}
+              className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium"
+              style={{ backgroundColor: `${color}20`, color }}
+            >
+              #{name}
+              <button
+                type="button"
+                onClick={() => remove(name)}
+                className="opacity-70 hover:opacity-100"
+                aria-label={`Quitar ${name}`}
+              >
+                ×
+              </button>
+            </span>
+          );
+        })}
+        <input
+          type="text"
+          className="flex-1 min-w-[8rem] bg-transparent text-[var(--foreground)] placeholder:text-[var(--text-muted)] focus:outline-none"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlight(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            if (normalizeTagName(query)) addTyped();
+          }}
+          placeholder={value.length === 0 ? placeholder : ''}
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full max-h-48 overflow-y-auto rounded-xl border border-[var(--card-border)] bg-[var(--background)] shadow-lg py-1">
+          {suggestions.map((tag, idx) => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                // mousedown para elegir antes de que el blur agregue lo escrito
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addNames([tag.name]);
+                }}
+                className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm ${
+                  idx === highlight ? 'bg-[var(--card-bg)]' : 'hover:bg-[var(--card-bg)]'
+                }`}
+              >
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                {tag.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
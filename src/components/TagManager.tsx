@@ -0,0 +1,303 @@
+'use client';
+
+import { useState } from 'react';
+import { FaCheck, FaCompressArrowsAlt, FaPen, FaTimes, FaTrash } from 'react-icons/fa';
+import { useAuth } from '@/context/AuthContext';
+import { deleteTag, mergeTags, updateTag, type Tag, type TaskTag } from '@/lib/db';
+import { normalizeTagName, tagKey, tagUsage, validateTagName } from '@/lib/tags';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+
+type TagManagerProps = {
+  tags: Tag[];
+  taskTags: TaskTag[];
+  onClose: () => void;
+  onTagUpdated: (tag: Tag) => void;
+  onTagsMerged: (sourceId: string, targetId: string) => void;
+  onTagDeleted: (tagId: string) => void;
+};
+
+const inputClass =
+  'border border-[var(--card-border)] rounded-xl px-3 py-1.5 bg-[var(--background)] text-[var(--foreground)] text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/50';
+
+/**
+ * Modal para renombrar, recolorear, combinar y eliminar etiquetas
+ */
+export function TagManager({
+  tags,
+  taskTags,
+  onClose,
+  onTagUpdated,
+  onTagsMerged,
+  onTagDeleted,
+}: TagManagerProps) {
+  const { user } = useAuth();
+
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [tagToDelete, setTagToDelete] = useState<Tag | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const usage = tagUsage(taskTags);
+  const sorted = [...tags].sort((a, b) => a.name.localeCompare(b.name));
+
+  const startRename = (tag: Tag) => {
+    setEditingId(tag.id);
+    setEditName(tag.name);
+    setMergingId(null);
+    setError(null);
+  };
+
+  const saveRename = async (tag: Tag) => {
+    if (!user) return;
+
+    const validationError = validateTagName(editName);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const name = normalizeTagName(editName);
+    if (name === tag.name) {
+      setEditingId(null);
+      return;
+    }
+    if (tags.some((t) => t.id !== tag.id && tagKey(t.name) === tagKey(name))) {
+      setError('Ya existe una etiqueta con ese nombre. Podés combinarlas.');
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await updateTag(user.id, tag.id, { name });
+    setSaving(false);
+
+    if (error) {
+      setError('No se pudo renombrar la etiqueta.');
+      return;
+    }
+
+    setError(null);
+    setEditingId(null);
+    onTagUpdated(data);
+  };
+
+  const saveColor = async (tag: Tag, color: string) => {
+    if (!user || color === tag.color) return;
+
+    const { data, error } = await updateTag(user.id, tag.id, { color });
+    if (error) {
+      setError('No se pudo cambiar el color de la etiqueta.');
+      return;
+    }
+
+    setError(null);
+    onTagUpdated(data);
+  };
+
+  const startMerge = (tag: Tag) => {
+    setMergingId(tag.id);
+    setMergeTargetId('');
+    setEditingId(null);
+    setError(null);
+  };
+
+  const confirmMerge = async (tag: Tag) => {
+    if (!user || !mergeTargetId) return;
+
+    setSaving(true);
+    const { error } = await mergeTags(user.id, tag.id, mergeTargetId);
+    setSaving(false);
+
+    if (error) {
+      setError('No se pudieron combinar las etiquetas.');
+      return;
+    }
+
+    setError(null);
+    setMergingId(null);
+    onTagsMerged(tag.id, mergeTargetId);
+  };
+
+  const confirmDelete = async () => {
+    if (!tagToDelete || !user) return;
+
+    setDeleting(true);
+    const { error } = await deleteTag(user.id, tagToDelete.id);
+    setDeleting(false);
+
+    if (error) {
+      setError('No se pudo eliminar la etiqueta.');
+      return;
+    }
+
+    onTagDeleted(tagToDelete.id);
+    setTagToDelete(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm">
+      <div className="w-full max-w-lg max-h-[85vh] rounded-3xl border border-[var(--card-border)] bg-[var(--card-bg)] shadow-2xl p-6 flex flex-col gap-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-[var(--foreground)]">Etiquetas</h2>
+            <p className="text-xs text-[var(--text-muted)]">
+              Los cambios se aplican a todas las tareas que usan cada etiqueta.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 flex items-center justify-center rounded-xl hover:bg-[var(--card-border)]/40 text-[var(--text-muted)] transition-colors"
+            aria-label="Cerrar"
+          >
+            <FaTimes size={12} />
+          </button>
+        </div>
+
+        {error && (
+          <p className="text-sm text-[var(--danger)] bg-[var(--danger)]/10 px-4 py-2 rounded-lg">
+            {error}
+          </p>
+        )}
+
+        {sorted.length === 0 ? (
+          <p className="text-sm text-[var(--text-muted)]">
+            Todavía no tenés etiquetas. Agregalas al crear o editar una tarea.
+          </p>
+        ) : (
+          <ul className="flex flex-col gap-2 overflow-y-auto">
+            {sorted.map((tag) => {
+              const count = usage.get(tag.id) ?? 0;
+              return (
+                <li
+                  key={tag.id}
+                  className="flex flex-col gap-2 p-3 rounded-xl border border-[var(--card-border)] bg-[var(--background)]"
+                >
+                  <div className="flex items-center gap-3">
+                    {/* Se guarda al cerrar el selector, no en cada movimiento */}
+                    <input
+                      key={tag.color}
+                      type="color"
+                      defaultValue={tag.color}
+                      onBlur={(e) => saveColor(tag, e.target.value)}
+                      className="w-7 h-7 rounded cursor-pointer bg-transparent"
+                      aria-label={`Color de ${tag.name}`}
+                    />
+
+                    {editingId === tag.id ? (
+                      <form
+                        className="flex-1 flex items-center gap-2"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          saveRename(tag);
+                        }}
+                      >
+                        <input
+                          type="text"
+                          className={`${inputClass} flex-1`}
+                          value={editName}
+                          onChange={(e) => setEditName(e.target.value)}
+                          autoFocus
+                        />
+                        <button
+                          type="submit"
+                          disabled={saving}
+                          className="p-2 rounded-lg text-[var(--success)] hover:bg-[var(--success)]/10 disabled:opacity-60"
+                          title="Guardar nombre"
+                        >
+                          <FaCheck />
+                        </button>
+                      </form>
+                    ) : (
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate" style={{ color: tag.color }}>
+                          #{tag.name}
+                        </p>
+                        <p className="text-xs text-[var(--text-muted)]">
+                          {count} {count === 1 ? 'tarea' : 'tareas'}
+                        </p>
+                      </div>
+                    )}
+
+                    {editingId !== tag.id && (
+                      <button
+                        onClick={() => startRename(tag)}
+                        className="p-2 rounded-lg text-[var(--text-muted)] hover:text-[var(--foreground)] hover:bg-white/5"
+                        title="Renombrar"
+                      >
+                        <FaPen />
+                      </button>
+                    )}
+                    {sorted.length > 1 && (
+                      <button
+                        onClick={() => (mergingId === tag.id ? setMergingId(null) : startMerge(tag))}
+                        className="p-2 rounded-lg text-[var(--text-muted)] hover:text-[var(--foreground)] hover:bg-white/5"
+                        title="Combinar con otra etiqueta"
+                      >
+                        <FaCompressArrowsAlt />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setTagToDelete(tag)}
+                      className="p-2 rounded-lg text-[var(--danger)] hover:bg-[var(--danger)]/10"
+                      title="Eliminar etiqueta"
+                    >
+                      <FaTrash />
+                    </button>
+                  </div>
+
+                  {mergingId === tag.id && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="text-[var(--text-muted)]">Pasar sus tareas a</span>
+                      <select
+                        className={`${inputClass} flex-1`}
+                        value={mergeTargetId}
+                        onChange={(e) => setMergeTargetId(e.target.value)}
+                      >
+                        <option value="">Elegí una etiqueta</option>
+                        {sorted
+                          .filter((t) => t.id !== tag.id)
+                          .map((t) => (
+                            <option key={t.id} value={t.id}>
+                              {t.name}
+                            </option>
+                          ))}
+                      </select>
+                      <button
+                        onClick={() => confirmMerge(tag)}
+                        disabled={!mergeTargetId || saving}
+                        className="px-3 py-1.5 rounded-xl bg-[var(--accent)] text-[var(--foreground)] text-sm font-semibold hover:opacity-90 transition-opacity disabled:opacity-60"
+                      >
+                        Combinar
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <ConfirmDialog
+        open={!!tagToDelete}
+        title="Eliminar etiqueta"
+        description={
+          <>
+            ¿Seguro que desea eliminar{' '}
+            <span className="font-medium">“{tagToDelete?.name}”</span>? Las tareas no se
+            borran: solo pierden esta etiqueta.
+          </>
+        }
+        confirmLabel="Eliminar"
+        cancelLabel="Cancelar"
+        loading={deleting}
+        onCancel={() => setTagToDelete(null)}
+        onConfirm={confirmDelete}
+      />
+    </div>
+  );
+}
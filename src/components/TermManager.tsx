@@ -0,0 +1,227 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { FaArchive, FaBoxOpen, FaTrash } from 'react-icons/fa';
+import { useAuth } from '@/context/AuthContext';
+import { usePlan } from '@/context/PlanContext';
+import { useTerm } from '@/context/TermContext';
+import { createTerm, deleteTerm, updateTerm, type Course, type Term } from '@/lib/db';
+import { countActiveCourses, validateTerm } from '@/lib/terms';
+import { getLimitMessage } from '@/lib/plans';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+
+type TermManagerProps = {
+  courses: Course[];
+  onTermDeleted: (termId: string) => void;
+};
+
+const inputClass =
+  'border border-[var(--card-border)] rounded-xl px-3 py-2 bg-[var(--background)] text-[var(--foreground)] text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/50';
+
+function formatRange(term: Term): string {
+  const fmt = (d: string) =>
+    new Date(d + 'T00:00:00').toLocaleDateString('es-AR', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+  return `${fmt(term.start_date)} – ${fmt(term.end_date)}`;
+}
+
+export function TermManager({ courses, onTermDeleted }: TermManagerProps) {
+  const { user } = useAuth();
+  const { isWithinLimit } = usePlan();
+  const { terms, selection, reloadTerms } = useTerm();
+
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [termToDelete, setTermToDelete] = useState<Term | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const input = { name: name.trim(), start_date: startDate, end_date: endDate };
+    const validationError = validateTerm(input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const { error } = await createTerm(user.id, input);
+    setSaving(false);
+
+    if (error) {
+      setError('No se pudo crear el cuatrimestre.');
+      return;
+    }
+
+    setName('');
+    setStartDate('');
+    setEndDate('');
+    reloadTerms();
+  };
+
+  const toggleArchived = async (term: Term) => {
+    if (!user) return;
+
+    // Al desarchivar, sus materias vuelven a contar para el límite del plan
+    if (term.archived) {
+      const restored = courses.filter((c) => c.term_id === term.id).length;
+      if (restored > 0 && !isWithinLimit('courses', countActiveCourses(courses, terms) + restored - 1)) {
+        setError(getLimitMessage('courses'));
+        return;
+      }
+    }
+
+    setError(null);
+    const { error } = await updateTerm(user.id, term.id, { archived: !term.archived });
+
+    if (error) {
+      setError('No se pudo actualizar el cuatrimestre.');
+      return;
+    }
+
+    reloadTerms();
+  };
+
+  const confirmDelete = async () => {
+    if (!termToDelete || !user) return;
+
+    setDeleting(true);
+    const { error } = await deleteTerm(user.id, termToDelete.id);
+    setDeleting(false);
+
+    if (error) {
+      setError('No se pudo eliminar el cuatrimestre.');
+      return;
+    }
+
+    onTermDeleted(termToDelete.id);
+    setTermToDelete(null);
+    reloadTerms();
+  };
+
+  return (
+    <section
+      id="cuatrimestres"
+      className="border border-[var(--card-border)] rounded-2xl p-6 bg-[var(--card-bg)] flex flex-col gap-4"
+    >
+      <div>
+        <h2 className="font-semibold text-[var(--foreground)]">Cuatrimestres</h2>
+        <p className="text-xs text-[var(--text-muted)]">
+          Agrupá tus materias por período. Las materias de cuatrimestres archivados no cuentan
+          para el límite del plan.
+        </p>
+      </div>
+
+      <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          className={`${inputClass} flex-1`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="1er cuatrimestre 2026"
+        />
+        <input
+          type="date"
+          className={inputClass}
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          aria-label="Inicio"
+        />
+        <input
+          type="date"
+          className={inputClass}
+          value={endDate}
+          onChange={(e) => setEndDate(e.target.value)}
+          aria-label="Fin"
+        />
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 rounded-xl bg-[var(--accent)] text-[var(--foreground)] text-sm font-semibold hover:opacity-90 transition-opacity disabled:opacity-60"
+        >
+          Agregar
+        </button>
+      </form>
+
+      {error && (
+        <p className="text-sm text-[var(--danger)] bg-[var(--danger)]/10 px-4 py-2 rounded-lg">
+          {error}
+        </p>
+      )}
+
+      {terms.length > 0 && (
+        <ul className="flex flex-col gap-2">
+          {terms.map((term) => {
+            const count = courses.filter((c) => c.term_id === term.id).length;
+            return (
+              <li
+                key={term.id}
+                className={`flex items-center gap-3 p-3 rounded-xl border border-[var(--card-border)] bg-[var(--background)] ${
+                  term.archived ? 'opacity-60' : ''
+                }`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {term.name}
+                    {term.id === selection && (
+                      <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-[var(--accent)]/15 text-[var(--accent)]">
+                        Activo
+                      </span>
+                    )}
+                    {term.archived && (
+                      <span className="ml-2 text-[10px] text-[var(--text-muted)]">Archivado</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-[var(--text-muted)]">
+                    {formatRange(term)} · {count} {count === 1 ? 'materia' : 'materias'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => toggleArchived(term)}
+                  className="p-2 rounded-lg text-[var(--text-muted)] hover:text-[var(--foreground)] hover:bg-white/5"
+                  title={term.archived ? 'Desarchivar' : 'Archivar'}
+                >
+                  {term.archived ? <FaBoxOpen /> : <FaArchive />}
+                </button>
+                <button
+                  onClick={() => setTermToDelete(term)}
+                  className="p-2 rounded-lg text-[var(--danger)] hover:bg-[var(--danger)]/10"
+                  title="Eliminar cuatrimestre"
+                >
+                  <FaTrash />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <ConfirmDialog
+        open={!!termToDelete}
+        title="Eliminar cuatrimestre"
+        description={
+          <>
+            ¿Seguro que desea eliminar{' '}
+            <span className="font-medium">“{termToDelete?.name}”</span>? Sus materias no se
+            borran: quedan sin cuatrimestre asignado.
+          </>
+        }
+        confirmLabel="Eliminar"
+        cancelLabel="Cancelar"
+        loading={deleting}
+        onCancel={() => setTermToDelete(null)}
+        onConfirm={confirmDelete}
+      />
+    </section>
+  );
+}
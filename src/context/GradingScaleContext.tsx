@@ -0,0 +1,74 @@
+'use client';
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react';
+import { useAuth } from './AuthContext';
+import { getProfile, upsertProfile, type GradingScale } from '@/lib/db';
+import { DEFAULT_GRADING_SCALE, resolveScale } from '@/lib/gradingScales';
+
+type GradingScaleContextType = {
+  scale: GradingScale;
+  loading: boolean;
+  saveScale: (scale: GradingScale) => Promise<boolean>;
+};
+
+const GradingScaleContext = createContext<GradingScaleContextType>({
+  scale: DEFAULT_GRADING_SCALE,
+  loading: true,
+  saveScale: async () => false,
+});
+
+export function GradingScaleProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [saved, setSaved] = useState<GradingScale | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchScale = async () => {
+      setLoading(true);
+      const { data } = await getProfile(user.id);
+
+      setSaved(data?.grading_scale ?? null);
+      setLoading(false);
+    };
+
+    fetchScale();
+  }, [user]);
+
+  const saveScale = useCallback(
+    async (next: GradingScale) => {
+      if (!user) return false;
+
+      const { error } = await upsertProfile(user.id, { grading_scale: next });
+      if (error) return false;
+
+      setSaved(next);
+      return true;
+    },
+    [user],
+  );
+
+  const value = useMemo(
+    () => ({
+      scale: user ? resolveScale(saved) : DEFAULT_GRADING_SCALE,
+      loading: user ? loading : false,
+      saveScale,
+    }),
+    [user, saved, loading, saveScale],
+  );
+
+  return <GradingScaleContext.Provider value={value}>{children}</GradingScaleContext.Provider>;
+}
+
+export function useGradingScale() {
+  return useContext(GradingScaleContext);
+}
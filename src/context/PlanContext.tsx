@@ -10,7 +10,7 @@ import {
   type ReactNode,
 } from 'react';
 import { useAuth } from './AuthContext';
-import { supabaseClient } from '@/lib/supabaseClient';
+import { getProfilePlan } from '@/lib/db';
 import {
   type Plan,
   type PremiumFeature,
@@ -49,13 +49,9 @@ export function PlanProvider({ children }: { children: ReactNode }) {
 
     const fetchPlan = async () => {
       setLoading(true);
-      const { data } = await supabaseClient
-        .from('profiles')
-        .select('plan')
-        .eq('id', user.id)
-        .maybeSingle();
+      const { data } = await getProfilePlan(user.id);
 
-      setPlan((data?.plan as Plan) ?? 'free');
+      setPlan(data ?? 'free');
       setLoading(false);
     };
 
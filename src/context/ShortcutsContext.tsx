@@ -0,0 +1,108 @@
+'use client';
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react';
+import { useAuth } from './AuthContext';
+import { getProfile, upsertProfile, type KeyboardShortcuts, type ShortcutAction } from '@/lib/db';
+import {
+  actionForKey,
+  customShortcuts,
+  DEFAULT_SHORTCUTS,
+  isTypingTarget,
+  keyFromEvent,
+  resolveShortcuts,
+} from '@/lib/shortcuts';
+
+type ShortcutsContextType = {
+  shortcuts: Record<ShortcutAction, string>;
+  saveShortcuts: (shortcuts: Record<ShortcutAction, string>) => Promise<boolean>;
+};
+
+const ShortcutsContext = createContext<ShortcutsContextType>({
+  shortcuts: DEFAULT_SHORTCUTS,
+  saveShortcuts: async () => false,
+});
+
+export function ShortcutsProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [saved, setSaved] = useState<KeyboardShortcuts | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchShortcuts = async () => {
+      const { data } = await getProfile(user.id);
+      setSaved(data?.keyboard_shortcuts ?? null);
+    };
+
+    fetchShortcuts();
+  }, [user]);
+
+  const saveShortcuts = useCallback(
+    async (next: Record<ShortcutAction, string>) => {
+      if (!user) return false;
+
+      const custom = customShortcuts(next);
+      const { error } = await upsertProfile(user.id, { keyboard_shortcuts: custom });
+      if (error) return false;
+
+      setSaved(custom);
+      return true;
+    },
+    [user],
+  );
+
+  const value = useMemo(
+    () => ({
+      shortcuts: user ? resolveShortcuts(saved) : DEFAULT_SHORTCUTS,
+      saveShortcuts,
+    }),
+    [user, saved, saveShortcuts],
+  );
+
+  return <ShortcutsContext.Provider value={value}>{children}</ShortcutsContext.Provider>;
+}
+
+export function useShortcuts() {
+  return useContext(ShortcutsContext);
+}
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+/**
+ * Escucha los atajos mientras `enabled` sea true (se apagan con un modal abierto).
+ * Las teclas con Ctrl, ⌘ o Alt y las que se escriben en un campo no cuentan.
+ */
+export function useShortcutHandler(handlers: ShortcutHandlers, enabled = true) {
+  const { shortcuts } = useShortcuts();
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+
+      const action = actionForKey(shortcuts, keyFromEvent(e));
+      const handler = action ? handlersRef.current[action] : undefined;
+      if (!handler) return;
+
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcuts, enabled]);
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react';
+import { useAuth } from './AuthContext';
+import { listTerms, type Term } from '@/lib/db';
+import { currentTerm, type TermSelection } from '@/lib/terms';
+
+type TermContextType = {
+  terms: Term[];
+  loading: boolean;
+  selection: TermSelection;
+  activeTerm: Term | null;
+  setSelection: (selection: TermSelection) => void;
+  reloadTerms: () => void;
+};
+
+const TermContext = createContext<TermContextType>({
+  terms: [],
+  loading: true,
+  selection: 'all',
+  activeTerm: null,
+  setSelection: () => {},
+  reloadTerms: () => {},
+});
+
+const STORAGE_KEY = 'taskademic-term';
+
+export function TermProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Elección guardada del usuario (null: seguir el cuatrimestre vigente)
+  const [saved, setSaved] = useState<TermSelection | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchTerms = async () => {
+      setLoading(true);
+      const { data } = await listTerms(user.id);
+
+      setTerms(data ?? []);
+      setSaved(window.localStorage.getItem(STORAGE_KEY));
+      setLoading(false);
+    };
+
+    fetchTerms();
+  }, [user, reloadKey]);
+
+  const visibleTerms = useMemo(() => (user ? terms : []), [user, terms]);
+
+  // Si la elección guardada ya no existe, se usa el cuatrimestre vigente
+  const selection = useMemo<TermSelection>(() => {
+    if (saved === 'all') return 'all';
+    if (saved && visibleTerms.some((t) => t.id === saved)) return saved;
+    const today = new Date().toISOString().slice(0, 10);
+    return currentTerm(visibleTerms, today)?.id ?? 'all';
+  }, [saved, visibleTerms]);
+
+  const activeTerm = useMemo(
+    () => visibleTerms.find((t) => t.id === selection) ?? null,
+    [visibleTerms, selection],
+  );
+
+  const setSelection = useCallback((next: TermSelection) => {
+    setSaved(next);
+    window.localStorage.setItem(STORAGE_KEY, next);
+  }, []);
+
+  const reloadTerms = useCallback(() => {
+    setReloadKey((k) => k + 1);
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      terms: visibleTerms,
+      loading: user ? loading : false,
+      selection,
+      activeTerm,
+      setSelection,
+      reloadTerms,
+    }),
+    [visibleTerms, user, loading, selection, activeTerm, setSelection, reloadTerms],
+  );
+
+  return <TermContext.Provider value={value}>{children}</TermContext.Provider>;
+}
+
+export function useTerm() {
+  return useContext(TermContext);
+}
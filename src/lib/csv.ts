@@ -0,0 +1,122 @@
+// Utilidades CSV (RFC 4180)
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Escapa un campo: se entrecomilla si contiene coma, comillas o saltos de línea
+ */
+export function escapeCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Construye un CSV con encabezado y líneas terminadas en CRLF
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows]
+    .map((row) => row.map(escapeCsvField).join(','))
+    .join('\r\n')
+    .concat('\r\n');
+}
+
+/**
+ * Descarga un archivo en el navegador.
+ * La URL se libera después: revocarla enseguida corta la descarga en Safari y Firefox.
+ */
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Contenido del CSV con BOM para que Excel respete los acentos
+ */
+export function withBom(csv: string): string {
+  return `\uFEFF${csv}`;
+}
+
+/**
+ * Descarga un CSV en el navegador
+ */
+export function downloadCsv(filename: string, csv: string) {
+  downloadBlob(filename, new Blob([withBom(csv)], { type: 'text/csv;charset=utf-8' }));
+}
+
+/**
+ * Detecta el separador mirando la primera línea (Excel en español usa `;`)
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const commas = (firstLine.match(/,/g) ?? []).length;
+  const semicolons = (firstLine.match(/;/g) ?? []).length;
+  const tabs = (firstLine.match(/\t/g) ?? []).length;
+  if (tabs > commas && tabs > semicolons) return '\t';
+  return semicolons > commas ? ';' : ',';
+}
+
+/**
+ * Parsea un CSV a filas de campos, respetando comillas y saltos de línea internos
+ */
+export function parseCsv(input: string, delimiter?: string): string[][] {
+  const text = input.replace(/^\uFEFF/, '');
+  const sep = delimiter ?? detectDelimiter(text);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === sep) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Ignorar líneas vacías
+  return rows.filter((r) => r.some((f) => f.trim() !== ''));
+}
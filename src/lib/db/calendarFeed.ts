@@ -0,0 +1,62 @@
+// Lectura de datos para el feed .ics público (solo servidor).
+// No se reexporta desde el índice porque usa el cliente con service role.
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { COURSE_COLUMNS } from './courses';
+import { EXAM_PLAN_COLUMNS } from './examPlans';
+import { COURSE_GRADE_COLUMNS } from './grades';
+import { TAG_COLUMNS } from './tags';
+import { TASK_COLUMNS } from './tasks';
+import type { Course, CourseGrade, DbResult, ExamPlan, Tag, Task, TaskTag } from './types';
+
+export type CalendarFeedData = {
+  tasks: Task[];
+  courses: Course[];
+  examPlans: ExamPlan[];
+  grades: CourseGrade[];
+  tags: Tag[];
+  taskTags: TaskTag[];
+};
+
+/**
+ * Resuelve el token del feed y devuelve los datos del usuario (null si el token no existe).
+ * Si falla cualquier consulta se devuelve el error: un feed vacío haría que el calendario
+ * suscrito borre los eventos del usuario.
+ */
+export async function getCalendarFeedData(token: string): Promise<DbResult<CalendarFeedData | null>> {
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('calendar_feed_token', token)
+    .maybeSingle();
+
+  if (profileError) return { data: null, error: profileError };
+  if (!profile) return { data: null, error: null };
+
+  const userId = profile.id as string;
+  const [tasksRes, coursesRes, plansRes, gradesRes, tagsRes, taskTagsRes] = await Promise.all([
+    supabaseAdmin.from('tasks').select(TASK_COLUMNS).eq('user_id', userId),
+    supabaseAdmin.from('courses').select(COURSE_COLUMNS).eq('user_id', userId),
+    supabaseAdmin.from('exam_plans').select(EXAM_PLAN_COLUMNS).eq('user_id', userId),
+    supabaseAdmin.from('course_grades').select(COURSE_GRADE_COLUMNS).eq('user_id', userId),
+    supabaseAdmin.from('tags').select(TAG_COLUMNS).eq('user_id', userId),
+    supabaseAdmin.from('task_tags').select('task_id, tag_id').eq('user_id', userId),
+  ]);
+
+  const error = [tasksRes, coursesRes, plansRes, gradesRes, tagsRes, taskTagsRes]
+    .map((res) => res.error)
+    .find(Boolean);
+  if (error) return { data: null, error };
+
+  return {
+    data: {
+      tasks: (tasksRes.data ?? []) as Task[],
+      courses: (coursesRes.data ?? []) as Course[],
+      examPlans: (plansRes.data ?? []) as ExamPlan[],
+      grades: (gradesRes.data ?? []) as CourseGrade[],
+      tags: (tagsRes.data ?? []) as Tag[],
+      taskTags: (taskTagsRes.data ?? []) as TaskTag[],
+    },
+    error: null,
+  };
+}
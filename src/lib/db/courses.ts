@@ -0,0 +1,76 @@
+// Acceso a la tabla `courses`
+//
+// REQUISITO: Ejecutar en Supabase SQL Editor:
+// ALTER TABLE courses ADD COLUMN grading_scheme jsonb;
+// ALTER TABLE courses ADD COLUMN term_id uuid REFERENCES terms (id) ON DELETE SET NULL;
+// ALTER TABLE courses ADD COLUMN credits numeric;
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { toListResult, toResult } from './result';
+import type { Course, CourseInsert, CourseUpdate, DbResult } from './types';
+
+export const COURSE_COLUMNS = 'id, user_id, name, color, created_at, grading_scheme, term_id, credits';
+
+/**
+ * Lista las materias del usuario, por nombre o por fecha de creación
+ */
+export async function listCourses(
+  userId: string,
+  orderBy: 'name' | 'created_at' = 'name',
+): Promise<DbResult<Course[]>> {
+  const res = await supabaseClient
+    .from('courses')
+    .select(COURSE_COLUMNS)
+    .eq('user_id', userId)
+    .order(orderBy, { ascending: true });
+
+  return toListResult<Course>(res);
+}
+
+/**
+ * Crea una materia y devuelve la fila insertada
+ */
+export async function createCourse(
+  userId: string,
+  input: CourseInsert,
+): Promise<DbResult<Course>> {
+  const res = await supabaseClient
+    .from('courses')
+    .insert({ ...input, user_id: userId })
+    .select(COURSE_COLUMNS)
+    .single();
+
+  return toResult<Course>(res);
+}
+
+/**
+ * Actualiza una materia del usuario y devuelve la fila resultante
+ */
+export async function updateCourse(
+  userId: string,
+  courseId: string,
+  patch: CourseUpdate,
+): Promise<DbResult<Course>> {
+  const res = await supabaseClient
+    .from('courses')
+    .update(patch)
+    .eq('id', courseId)
+    .eq('user_id', userId)
+    .select(COURSE_COLUMNS)
+    .single();
+
+  return toResult<Course>(res);
+}
+
+/**
+ * Elimina una materia del usuario
+ */
+export async function deleteCourse(userId: string, courseId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('courses')
+    .delete()
+    .eq('id', courseId)
+    .eq('user_id', userId);
+
+  return toResult<null>(res);
+}
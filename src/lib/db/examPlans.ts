@@ -0,0 +1,50 @@
+// Acceso a la tabla `exam_plans`
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { toListResult, toResult } from './result';
+import type { DbResult, ExamPlan, ExamPlanInsert } from './types';
+
+export const EXAM_PLAN_COLUMNS =
+  'id, user_id, course_id, name, exam_date, study_hours, created_at';
+
+/**
+ * Lista los planes de examen del usuario ordenados por fecha
+ */
+export async function listExamPlans(userId: string): Promise<DbResult<ExamPlan[]>> {
+  const res = await supabaseClient
+    .from('exam_plans')
+    .select(EXAM_PLAN_COLUMNS)
+    .eq('user_id', userId)
+    .order('exam_date', { ascending: true });
+
+  return toListResult<ExamPlan>(res);
+}
+
+/**
+ * Crea un plan de examen y devuelve la fila insertada
+ */
+export async function createExamPlan(
+  userId: string,
+  input: ExamPlanInsert,
+): Promise<DbResult<ExamPlan>> {
+  const res = await supabaseClient
+    .from('exam_plans')
+    .insert({ ...input, user_id: userId })
+    .select(EXAM_PLAN_COLUMNS)
+    .single();
+
+  return toResult<ExamPlan>(res);
+}
+
+/**
+ * Elimina un plan de examen del usuario
+ */
+export async function deleteExamPlan(userId: string, planId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('exam_plans')
+    .delete()
+    .eq('id', planId)
+    .eq('user_id', userId);
+
+  return toResult<null>(res);
+}
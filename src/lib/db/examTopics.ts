@@ -0,0 +1,85 @@
+// Acceso a la tabla `exam_topics` (unidades del programa de cada plan de examen)
+//
+// REQUISITO: Ejecutar en Supabase SQL Editor:
+// CREATE TABLE exam_topics (
+//   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+//   user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+//   plan_id uuid NOT NULL REFERENCES exam_plans (id) ON DELETE CASCADE,
+//   name text NOT NULL,
+//   estimated_hours numeric NOT NULL DEFAULT 1,
+//   status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'done')),
+//   position integer NOT NULL DEFAULT 0,
+//   created_at timestamptz NOT NULL DEFAULT now()
+// );
+// ALTER TABLE exam_topics ENABLE ROW LEVEL SECURITY;
+// CREATE POLICY "exam_topics_owner" ON exam_topics FOR ALL
+//   USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { toListResult, toResult } from './result';
+import type { DbResult, ExamTopic, ExamTopicInsert, ExamTopicUpdate } from './types';
+
+export const EXAM_TOPIC_COLUMNS =
+  'id, user_id, plan_id, name, estimated_hours, status, position, created_at';
+
+/**
+ * Lista las unidades de todos los planes del usuario en el orden del programa
+ */
+export async function listExamTopics(userId: string): Promise<DbResult<ExamTopic[]>> {
+  const res = await supabaseClient
+    .from('exam_topics')
+    .select(EXAM_TOPIC_COLUMNS)
+    .eq('user_id', userId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  return toListResult<ExamTopic>(res);
+}
+
+/**
+ * Agrega una unidad a un plan y devuelve la fila insertada
+ */
+export async function createExamTopic(
+  userId: string,
+  input: ExamTopicInsert,
+): Promise<DbResult<ExamTopic>> {
+  const res = await supabaseClient
+    .from('exam_topics')
+    .insert({ ...input, user_id: userId })
+    .select(EXAM_TOPIC_COLUMNS)
+    .single();
+
+  return toResult<ExamTopic>(res);
+}
+
+/**
+ * Actualiza una unidad (nombre, horas estimadas, estado u orden)
+ */
+export async function updateExamTopic(
+  userId: string,
+  topicId: string,
+  patch: ExamTopicUpdate,
+): Promise<DbResult<ExamTopic>> {
+  const res = await supabaseClient
+    .from('exam_topics')
+    .update(patch)
+    .eq('id', topicId)
+    .eq('user_id', userId)
+    .select(EXAM_TOPIC_COLUMNS)
+    .single();
+
+  return toResult<ExamTopic>(res);
+}
+
+/**
+ * Elimina una unidad (sus sesiones quedan sin unidad asignada)
+ */
+export async function deleteExamTopic(userId: string, topicId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('exam_topics')
+    .delete()
+    .eq('id', topicId)
+    .eq('user_id', userId);
+
+  return toResult<null>(res);
+}
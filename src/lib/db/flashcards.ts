@@ -0,0 +1,213 @@
+// Acceso a las tablas `flashcard_decks`, `flashcards` y `flashcard_reviews`
+//
+// REQUISITO: Ejecutar en Supabase SQL Editor:
+// CREATE TABLE flashcard_decks (
+//   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+//   user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+//   course_id uuid NOT NULL REFERENCES courses (id) ON DELETE CASCADE,
+//   name text NOT NULL,
+//   created_at timestamptz NOT NULL DEFAULT now()
+// );
+// CREATE TABLE flashcards (
+//   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+//   user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+//   deck_id uuid NOT NULL REFERENCES flashcard_decks (id) ON DELETE CASCADE,
+//   front text NOT NULL,
+//   back text NOT NULL,
+//   tags text,
+//   ease numeric NOT NULL DEFAULT 2.5,
+//   interval_days integer NOT NULL DEFAULT 0,
+//   repetitions integer NOT NULL DEFAULT 0,
+//   due_date date NOT NULL DEFAULT current_date,
+//   last_reviewed_at timestamptz,
+//   created_at timestamptz NOT NULL DEFAULT now()
+// );
+// CREATE TABLE flashcard_reviews (
+//   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+//   user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+//   card_id uuid NOT NULL REFERENCES flashcards (id) ON DELETE CASCADE,
+//   deck_id uuid NOT NULL REFERENCES flashcard_decks (id) ON DELETE CASCADE,
+//   rating text NOT NULL CHECK (rating IN ('again', 'hard', 'easy')),
+//   reviewed_at timestamptz NOT NULL DEFAULT now()
+// );
+// ALTER TABLE flashcard_decks ENABLE ROW LEVEL SECURITY;
+// ALTER TABLE flashcards ENABLE ROW LEVEL SECURITY;
+// ALTER TABLE flashcard_reviews ENABLE ROW LEVEL SECURITY;
+// CREATE POLICY "flashcard_decks_owner" ON flashcard_decks FOR ALL
+//   USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+// CREATE POLICY "flashcards_owner" ON flashcards FOR ALL
+//   USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+// CREATE POLICY "flashcard_reviews_owner" ON flashcard_reviews FOR ALL
+//   USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { toListResult, toResult } from './result';
+import type {
+  DbResult,
+  Flashcard,
+  FlashcardDeck,
+  FlashcardDeckInsert,
+  FlashcardInsert,
+  FlashcardReview,
+  FlashcardReviewInsert,
+  FlashcardUpdate,
+} from './types';
+
+export const FLASHCARD_DECK_COLUMNS = 'id, user_id, course_id, name, created_at';
+
+export const FLASHCARD_COLUMNS =
+  'id, user_id, deck_id, front, back, tags, ease, interval_days, repetitions, due_date, last_reviewed_at, created_at';
+
+export const FLASHCARD_REVIEW_COLUMNS = 'id, user_id, card_id, deck_id, rating, reviewed_at';
+
+// ---- mazos ----
+
+/**
+ * Lista los mazos del usuario por nombre
+ */
+export async function listDecks(userId: string): Promise<DbResult<FlashcardDeck[]>> {
+  const res = await supabaseClient
+    .from('flashcard_decks')
+    .select(FLASHCARD_DECK_COLUMNS)
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  return toListResult<FlashcardDeck>(res);
+}
+
+/**
+ * Crea un mazo y devuelve la fila insertada
+ */
+export async function createDeck(
+  userId: string,
+  input: FlashcardDeckInsert,
+): Promise<DbResult<FlashcardDeck>> {
+  const res = await supabaseClient
+    .from('flashcard_decks')
+    .insert({ ...input, user_id: userId })
+    .select(FLASHCARD_DECK_COLUMNS)
+    .single();
+
+  return toResult<FlashcardDeck>(res);
+}
+
+/**
+ * Elimina un mazo junto con sus tarjetas y repasos
+ */
+export async function deleteDeck(userId: string, deckId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('flashcard_decks')
+    .delete()
+    .eq('id', deckId)
+    .eq('user_id', userId);
+
+  return toResult<null>(res);
+}
+
+// ---- tarjetas ----
+
+/**
+ * Lista las tarjetas del usuario (de un mazo si se indica `deckId`)
+ */
+export async function listCards(
+  userId: string,
+  options: { deckId?: string } = {},
+): Promise<DbResult<Flashcard[]>> {
+  let query = supabaseClient
+    .from('flashcards')
+    .select(FLASHCARD_COLUMNS)
+    .eq('user_id', userId);
+
+  if (options.deckId) {
+    query = query.eq('deck_id', options.deckId);
+  }
+
+  const res = await query.order('created_at', { ascending: true });
+
+  return toListResult<Flashcard>(res);
+}
+
+/**
+ * Crea varias tarjetas de una vez (alta manual o importación)
+ */
+export async function createCards(
+  userId: string,
+  inputs: FlashcardInsert[],
+): Promise<DbResult<Flashcard[]>> {
+  const res = await supabaseClient
+    .from('flashcards')
+    .insert(inputs.map((input) => ({ ...input, user_id: userId })))
+    .select(FLASHCARD_COLUMNS);
+
+  return toListResult<Flashcard>(res);
+}
+
+/**
+ * Actualiza una tarjeta (contenido o estado de repaso)
+ */
+export async function updateCard(
+  userId: string,
+  cardId: string,
+  patch: FlashcardUpdate,
+): Promise<DbResult<Flashcard>> {
+  const res = await supabaseClient
+    .from('flashcards')
+    .update(patch)
+    .eq('id', cardId)
+    .eq('user_id', userId)
+    .select(FLASHCARD_COLUMNS)
+    .single();
+
+  return toResult<Flashcard>(res);
+}
+
+/**
+ * Elimina una tarjeta
+ */
+export async function deleteCard(userId: string, cardId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('flashcards')
+    .delete()
+    .eq('id', cardId)
+    .eq('user_id', userId);
+
+  return toResult<null>(res);
+}
+
+// ---- historial de repasos ----
+
+/**
+ * Lista los repasos de tarjetas en orden cronológico.
+ * `since` (ISO) limita a los hechos desde esa fecha.
+ */
+export async function listCardReviews(
+  userId: string,
+  options: { since?: string } = {},
+): Promise<DbResult<FlashcardReview[]>> {
+  let query = supabaseClient
+    .from('flashcard_reviews')
+    .select(FLASHCARD_REVIEW_COLUMNS)
+    .eq('user_id', userId);
+
+  if (options.since) {
+    query = query.gte('reviewed_at', options.since);
+  }
+
+  const res = await query.order('reviewed_at', { ascending: true });
+
+  return toListResult<FlashcardReview>(res);
+}
+
+/**
+ * Registra la calificación de un repaso
+ */
+export async function logCardReview(
+  userId: string,
+  input: FlashcardReviewInsert,
+): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('flashcard_reviews')
+    .insert({ ...input, user_id: userId });
+
+  return toResult<null>(res);
+}
@@ -0,0 +1,51 @@
+// Acceso a la tabla `course_grades`
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { toListResult, toResult } from './result';
+import type { CourseGrade, CourseGradeInsert, DbResult } from './types';
+
+export const COURSE_GRADE_COLUMNS =
+  'id, user_id, course_id, grade, exam_type, exam_date, created_at';
+
+/**
+ * Lista las notas del usuario, de la más reciente a la más antigua
+ */
+export async function listCourseGrades(userId: string): Promise<DbResult<CourseGrade[]>> {
+  const res = await supabaseClient
+    .from('course_grades')
+    .select(COURSE_GRADE_COLUMNS)
+    .eq('user_id', userId)
+    .order('exam_date', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  return toListResult<CourseGrade>(res);
+}
+
+/**
+ * Registra una nota y devuelve la fila insertada
+ */
+export async function createCourseGrade(
+  userId: string,
+  input: CourseGradeInsert,
+): Promise<DbResult<CourseGrade>> {
+  const res = await supabaseClient
+    .from('course_grades')
+    .insert({ ...input, user_id: userId })
+    .select(COURSE_GRADE_COLUMNS)
+    .single();
+
+  return toResult<CourseGrade>(res);
+}
+
+/**
+ * Elimina una nota del usuario
+ */
+export async function deleteCourseGrade(userId: string, gradeId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('course_grades')
+    .delete()
+    .eq('id', gradeId)
+    .eq('user_id', userId);
+
+  return toResult<null>(res);
+}
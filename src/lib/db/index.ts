@@ -0,0 +1,21 @@
+// Capa de acceso a datos de Taskademic.
+//
+// Las páginas importan desde '@/lib/db' en lugar de construir consultas con
+// supabaseClient. Cada módulo agrupa las operaciones de una tabla.
+
+export * from './types';
+export * from './tasks';
+export * from './tags';
+export * from './taskViews';
+export * from './subtasks';
+export * from './terms';
+export * from './courses';
+export * from './topics';
+export * from './flashcards';
+export * from './grades';
+export * from './pomodoro';
+export * from './pomodoroTimers';
+export * from './examPlans';
+export * from './examTopics';
+export * from './projects';
+export * from './profiles';
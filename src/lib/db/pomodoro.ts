@@ -0,0 +1,56 @@
+// Acceso a la tabla `pomodoro_sessions`
+//
+// REQUISITO: Ejecutar en Supabase SQL Editor:
+// ALTER TABLE pomodoro_sessions
+//   ADD COLUMN exam_topic_id uuid REFERENCES exam_topics (id) ON DELETE SET NULL;
+// ALTER TABLE pomodoro_sessions
+//   ADD COLUMN course_id uuid REFERENCES courses (id) ON DELETE SET NULL,
+//   ADD COLUMN exam_plan_id uuid REFERENCES exam_plans (id) ON DELETE SET NULL;
+// CREATE UNIQUE INDEX pomodoro_sessions_user_start ON pomodoro_sessions (user_id, started_at);
+// ALTER TABLE pomodoro_sessions
+//   ADD COLUMN status text NOT NULL DEFAULT 'completed' CHECK (status IN ('completed', 'aborted')),
+//   ADD COLUMN interruptions jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { toListResult, toResult } from './result';
+import type { DbResult, PomodoroSession, PomodoroSessionInsert } from './types';
+
+export const POMODORO_SESSION_COLUMNS =
+  'id, user_id, started_at, ended_at, duration_minutes, task_id, course_id, exam_plan_id, exam_topic_id, status, interruptions';
+
+/**
+ * Lista las sesiones del usuario en orden cronológico.
+ * `since` (ISO) limita a las sesiones iniciadas desde esa fecha.
+ */
+export async function listPomodoroSessions(
+  userId: string,
+  options: { since?: string } = {},
+): Promise<DbResult<PomodoroSession[]>> {
+  let query = supabaseClient
+    .from('pomodoro_sessions')
+    .select(POMODORO_SESSION_COLUMNS)
+    .eq('user_id', userId);
+
+  if (options.since) {
+    query = query.gte('started_at', options.since);
+  }
+
+  const res = await query.order('started_at', { ascending: true });
+
+  return toListResult<PomodoroSession>(res);
+}
+
+/**
+ * Registra una sesión de enfoque terminada. Si otra pestaña o dispositivo ya
+ * registró el mismo enfoque (mismo inicio), no se duplica.
+ */
+export async function createPomodoroSession(
+  userId: string,
+  input: PomodoroSessionInsert,
+): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('pomodoro_sessions')
+    .upsert({ ...input, user_id: userId }, { onConflict: 'user_id,started_at', ignoreDuplicates: true });
+
+  return toResult<null>(res);
+}
@@ -0,0 +1,75 @@
+// Acceso a la tabla `pomodoro_timers` (el timer en curso de cada usuario)
+//
+// REQUISITO: Ejecutar en Supabase SQL Editor:
+// CREATE TABLE pomodoro_timers (
+//   user_id uuid PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+//   mode text NOT NULL DEFAULT 'focus' CHECK (mode IN ('focus', 'break', 'long_break')),
+//   is_running boolean NOT NULL DEFAULT false,
+//   remaining_seconds integer NOT NULL DEFAULT 0,
+//   cycle_start timestamptz,
+//   completed_rounds integer NOT NULL DEFAULT 0,
+//   updated_at timestamptz NOT NULL DEFAULT now(),
+//   updated_by text NOT NULL DEFAULT ''
+// );
+// ALTER TABLE pomodoro_timers ENABLE ROW LEVEL SECURITY;
+// CREATE POLICY "pomodoro_timers_owner" ON pomodoro_timers FOR ALL
+//   USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+// ALTER PUBLICATION supabase_realtime ADD TABLE pomodoro_timers;
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { toResult } from './result';
+import type { DbResult, PomodoroTimer, PomodoroTimerUpdate } from './types';
+
+export const POMODORO_TIMER_COLUMNS =
+  'user_id, mode, is_running, remaining_seconds, cycle_start, completed_rounds, updated_at, updated_by';
+
+/**
+ * Obtiene el timer del usuario (null si nunca usó el Pomodoro con sincronización)
+ */
+export async function getPomodoroTimer(userId: string): Promise<DbResult<PomodoroTimer | null>> {
+  const res = await supabaseClient
+    .from('pomodoro_timers')
+    .select(POMODORO_TIMER_COLUMNS)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return toResult<PomodoroTimer | null>(res);
+}
+
+/**
+ * Guarda el estado actual del timer (pisa el anterior)
+ */
+export async function savePomodoroTimer(
+  userId: string,
+  timer: PomodoroTimerUpdate,
+): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('pomodoro_timers')
+    .upsert({ ...timer, user_id: userId });
+
+  return toResult<null>(res);
+}
+
+/**
+ * Escucha los cambios del timer hechos desde otros dispositivos.
+ * Devuelve la función que corta la suscripción.
+ */
+export function subscribePomodoroTimer(
+  userId: string,
+  onChange: (timer: PomodoroTimer) => void,
+): () => void {
+  const channel = supabaseClient
+    .channel(`pomodoro_timers:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'pomodoro_timers', filter: `user_id=eq.${userId}` },
+      (payload) => {
+        if (payload.new && 'user_id' in payload.new) onChange(payload.new as PomodoroTimer);
+      },
+    )
+    .subscribe();
+
+  return () => {
+    supabaseClient.removeChannel(channel);
+  };
+}
@@ -0,0 +1,124 @@
+// Acceso a la tabla `profiles`
+//
+// REQUISITO: Ejecutar en Supabase SQL Editor:
+// ALTER TABLE profiles ADD COLUMN grading_scale jsonb;
+// ALTER TABLE profiles ADD COLUMN study_availability jsonb;
+// ALTER TABLE profiles ADD COLUMN pomodoro_settings jsonb;
+// ALTER TABLE profiles ADD COLUMN keyboard_shortcuts jsonb;
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { toListResult, toResult } from './result';
+import type { Plan } from '@/lib/plans';
+import type { DbResult, Profile, ProfileUpdate } from './types';
+
+export const PROFILE_COLUMNS =
+  'id, email, full_name, avatar_url, career, university, academic_year, plan, grading_scale, study_availability, pomodoro_settings, keyboard_shortcuts';
+
+/**
+ * Obtiene el perfil del usuario (null si todavía no existe)
+ */
+export async function getProfile(userId: string): Promise<DbResult<Profile | null>> {
+  const res = await supabaseClient
+    .from('profiles')
+    .select(PROFILE_COLUMNS)
+    .eq('id', userId)
+    .maybeSingle();
+
+  return toResult<Profile | null>(res);
+}
+
+/**
+ * Obtiene solo el plan del usuario ('free' si todavía no tiene perfil)
+ */
+export async function getProfilePlan(userId: string): Promise<DbResult<Plan>> {
+  const res = await supabaseClient
+    .from('profiles')
+    .select('plan')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (res.error) return { data: null, error: res.error };
+  return { data: res.data?.plan ?? 'free', error: null };
+}
+
+/**
+ * Busca un perfil por email (para invitar miembros a proyectos)
+ */
+export async function findProfileByEmail(
+  email: string,
+): Promise<DbResult<Pick<Profile, 'id' | 'email'>>> {
+  const res = await supabaseClient
+    .from('profiles')
+    .select('id, email')
+    .eq('email', email)
+    .single();
+
+  return toResult<Pick<Profile, 'id' | 'email'>>(res);
+}
+
+/**
+ * Lista id y email de varios perfiles
+ */
+export async function listProfileEmails(
+  userIds: string[],
+): Promise<DbResult<Pick<Profile, 'id' | 'email'>[]>> {
+  const res = await supabaseClient
+    .from('profiles')
+    .select('id, email')
+    .in('id', userIds);
+
+  return toListResult<Pick<Profile, 'id' | 'email'>>(res);
+}
+
+/**
+ * Crea o actualiza los datos editables del perfil
+ */
+export async function upsertProfile(
+  userId: string,
+  patch: ProfileUpdate,
+): Promise<DbResult<null>> {
+  const res = await supabaseClient.from('profiles').upsert({ ...patch, id: userId });
+
+  return toResult<null>(res);
+}
+
+/**
+ * Elimina el perfil del usuario
+ */
+export async function deleteProfile(userId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient.from('profiles').delete().eq('id', userId);
+
+  return toResult<null>(res);
+}
+
+// ---- feed de calendario ----
+//
+// REQUISITO: Ejecutar en Supabase SQL Editor:
+// ALTER TABLE profiles ADD COLUMN calendar_feed_token uuid UNIQUE;
+
+/**
+ * Obtiene el token del feed .ics del usuario (null si nunca se generó)
+ */
+export async function getCalendarFeedToken(userId: string): Promise<DbResult<string | null>> {
+  const res = await supabaseClient
+    .from('profiles')
+    .select('calendar_feed_token')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (res.error) return { data: null, error: res.error };
+  return { data: res.data?.calendar_feed_token ?? null, error: null };
+}
+
+/**
+ * Genera un token nuevo; la URL anterior deja de funcionar
+ */
+export async function rotateCalendarFeedToken(userId: string): Promise<DbResult<string>> {
+  const token = crypto.randomUUID();
+  const res = await supabaseClient
+    .from('profiles')
+    .upsert({ id: userId, calendar_feed_token: token });
+
+  if (res.error) return { data: null, error: res.error };
+  return { data: token, error: null };
+}
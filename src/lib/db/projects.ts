@@ -0,0 +1,171 @@
+// Acceso a las tablas `projects`, `project_members` y `project_tasks`
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { toListResult, toResult } from './result';
+import type {
+  DbResult,
+  Project,
+  ProjectInsert,
+  ProjectMember,
+  ProjectRole,
+  ProjectTask,
+  ProjectTaskInsert,
+  ProjectTaskUpdate,
+} from './types';
+
+export const PROJECT_COLUMNS = 'id, name, description, color, owner_id, created_at';
+export const PROJECT_MEMBER_COLUMNS = 'id, project_id, user_id, role, joined_at';
+export const PROJECT_TASK_COLUMNS =
+  'id, project_id, title, description, status, assigned_to, due_date, created_by, created_at';
+
+// ---- projects ----
+
+/**
+ * Lista los proyectos visibles para el usuario (RLS filtra por membresía)
+ */
+export async function listProjects(): Promise<DbResult<Project[]>> {
+  const res = await supabaseClient
+    .from('projects')
+    .select(PROJECT_COLUMNS)
+    .order('created_at', { ascending: false });
+
+  return toListResult<Project>(res);
+}
+
+/**
+ * Obtiene un proyecto por id
+ */
+export async function getProject(projectId: string): Promise<DbResult<Project>> {
+  const res = await supabaseClient
+    .from('projects')
+    .select(PROJECT_COLUMNS)
+    .eq('id', projectId)
+    .single();
+
+  return toResult<Project>(res);
+}
+
+/**
+ * Crea un proyecto y registra al dueño como miembro
+ */
+export async function createProject(
+  ownerId: string,
+  input: ProjectInsert,
+): Promise<DbResult<Project>> {
+  const res = await supabaseClient
+    .from('projects')
+    .insert({ ...input, owner_id: ownerId })
+    .select(PROJECT_COLUMNS)
+    .single();
+
+  const result = toResult<Project>(res);
+  if (result.error) return result;
+
+  await addProjectMember(result.data.id, ownerId, 'owner');
+  return result;
+}
+
+/**
+ * Elimina un proyecto
+ */
+export async function deleteProject(projectId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient.from('projects').delete().eq('id', projectId);
+
+  return toResult<null>(res);
+}
+
+// ---- project_members ----
+
+/**
+ * Lista los miembros de uno o varios proyectos por fecha de ingreso
+ */
+export async function listProjectMembers(
+  projectIds: string[],
+): Promise<DbResult<ProjectMember[]>> {
+  const res = await supabaseClient
+    .from('project_members')
+    .select(PROJECT_MEMBER_COLUMNS)
+    .in('project_id', projectIds)
+    .order('joined_at', { ascending: true });
+
+  return toListResult<ProjectMember>(res);
+}
+
+/**
+ * Agrega un usuario a un proyecto
+ */
+export async function addProjectMember(
+  projectId: string,
+  userId: string,
+  role: ProjectRole,
+): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('project_members')
+    .insert({ project_id: projectId, user_id: userId, role });
+
+  return toResult<null>(res);
+}
+
+/**
+ * Quita un miembro de un proyecto
+ */
+export async function removeProjectMember(memberId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient.from('project_members').delete().eq('id', memberId);
+
+  return toResult<null>(res);
+}
+
+// ---- project_tasks ----
+
+/**
+ * Lista las tareas de uno o varios proyectos en orden de creación
+ */
+export async function listProjectTasks(
+  projectIds: string[],
+): Promise<DbResult<ProjectTask[]>> {
+  const res = await supabaseClient
+    .from('project_tasks')
+    .select(PROJECT_TASK_COLUMNS)
+    .in('project_id', projectIds)
+    .order('created_at', { ascending: true });
+
+  return toListResult<ProjectTask>(res);
+}
+
+/**
+ * Crea una tarea de proyecto
+ */
+export async function createProjectTask(
+  projectId: string,
+  createdBy: string,
+  input: ProjectTaskInsert,
+): Promise<DbResult<ProjectTask>> {
+  const res = await supabaseClient
+    .from('project_tasks')
+    .insert({ ...input, project_id: projectId, created_by: createdBy })
+    .select(PROJECT_TASK_COLUMNS)
+    .single();
+
+  return toResult<ProjectTask>(res);
+}
+
+/**
+ * Actualiza una tarea de proyecto
+ */
+export async function updateProjectTask(
+  taskId: string,
+  patch: ProjectTaskUpdate,
+): Promise<DbResult<null>> {
+  const res = await supabaseClient.from('project_tasks').update(patch).eq('id', taskId);
+
+  return toResult<null>(res);
+}
+
+/**
+ * Elimina una tarea de proyecto
+ */
+export async function deleteProjectTask(taskId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient.from('project_tasks').delete().eq('id', taskId);
+
+  return toResult<null>(res);
+}
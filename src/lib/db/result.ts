@@ -0,0 +1,20 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import type { DbResult } from './types';
+
+type RawResult = { data: unknown; error: PostgrestError | null };
+
+/**
+ * Convierte la respuesta cruda de Supabase en un DbResult tipado
+ */
+export function toResult<T>({ data, error }: RawResult): DbResult<T> {
+  if (error) return { data: null, error };
+  return { data: data as T, error: null };
+}
+
+/**
+ * Igual que toResult, pero garantiza un array vacío cuando no hay filas
+ */
+export function toListResult<T>({ data, error }: RawResult): DbResult<T[]> {
+  if (error) return { data: null, error };
+  return { data: (data ?? []) as T[], error: null };
+}
@@ -0,0 +1,99 @@
+// Acceso a la tabla `task_subtasks`
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { toListResult, toResult } from './result';
+import type { DbResult, Subtask, SubtaskCount } from './types';
+
+export const SUBTASK_COLUMNS = 'id, task_id, title, completed, created_at';
+
+/**
+ * Lista las subtareas de una tarea en orden de creación
+ */
+export async function listSubtasks(taskId: string): Promise<DbResult<Subtask[]>> {
+  const res = await supabaseClient
+    .from('task_subtasks')
+    .select(SUBTASK_COLUMNS)
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+
+  return toListResult<Subtask>(res);
+}
+
+/**
+ * Lista las subtareas de varias tareas a la vez (para el buscador)
+ */
+export async function listSubtasksByTasks(taskIds: string[]): Promise<DbResult<Subtask[]>> {
+  if (taskIds.length === 0) return { data: [], error: null };
+
+  const res = await supabaseClient
+    .from('task_subtasks')
+    .select(SUBTASK_COLUMNS)
+    .in('task_id', taskIds)
+    .order('created_at', { ascending: true });
+
+  return toListResult<Subtask>(res);
+}
+
+/**
+ * Cuenta subtareas totales y completadas por tarea
+ */
+export async function countSubtasksByTask(
+  taskIds: string[],
+): Promise<DbResult<Record<string, SubtaskCount>>> {
+  if (taskIds.length === 0) return { data: {}, error: null };
+
+  const res = await supabaseClient
+    .from('task_subtasks')
+    .select('task_id, completed')
+    .in('task_id', taskIds);
+
+  if (res.error) return { data: null, error: res.error };
+
+  const counts: Record<string, SubtaskCount> = {};
+  for (const row of (res.data ?? []) as Pick<Subtask, 'task_id' | 'completed'>[]) {
+    if (!counts[row.task_id]) counts[row.task_id] = { total: 0, done: 0 };
+    counts[row.task_id].total += 1;
+    if (row.completed) counts[row.task_id].done += 1;
+  }
+
+  return { data: counts, error: null };
+}
+
+/**
+ * Crea una subtarea pendiente
+ */
+export async function createSubtask(taskId: string, title: string): Promise<DbResult<Subtask>> {
+  const res = await supabaseClient
+    .from('task_subtasks')
+    .insert({ task_id: taskId, title, completed: false })
+    .select(SUBTASK_COLUMNS)
+    .single();
+
+  return toResult<Subtask>(res);
+}
+
+/**
+ * Marca o desmarca una subtarea como completada
+ */
+export async function setSubtaskCompleted(
+  subtaskId: string,
+  completed: boolean,
+): Promise<DbResult<Subtask>> {
+  const res = await supabaseClient
+    .from('task_subtasks')
+    .update({ completed })
+    .eq('id', subtaskId)
+    .select(SUBTASK_COLUMNS)
+    .single();
+
+  return toResult<Subtask>(res);
+}
+
+/**
+ * Elimina una subtarea
+ */
+export async function deleteSubtask(subtaskId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient.from('task_subtasks').delete().eq('id', subtaskId);
+
+  return toResult<null>(res);
+}
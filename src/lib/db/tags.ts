@@ -0,0 +1,223 @@
+// Acceso a las tablas `tags` y `task_tags` (etiquetas de tareas)
+//
+// REQUISITO: Ejecutar en Supabase SQL Editor:
+// CREATE TABLE tags (
+//   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+//   user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+//   name text NOT NULL,
+//   color text NOT NULL DEFAULT '#80499d',
+//   created_at timestamptz NOT NULL DEFAULT now()
+// );
+// CREATE UNIQUE INDEX tags_user_name ON tags (user_id, lower(name));
+// ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+// CREATE POLICY "tags_owner" ON tags FOR ALL
+//   USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+//
+// CREATE TABLE task_tags (
+//   task_id uuid NOT NULL REFERENCES tasks (id) ON DELETE CASCADE,
+//   tag_id uuid NOT NULL REFERENCES tags (id) ON DELETE CASCADE,
+//   user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+//   PRIMARY KEY (task_id, tag_id)
+// );
+// CREATE INDEX task_tags_tag_id_idx ON task_tags (tag_id);
+// ALTER TABLE task_tags ENABLE ROW LEVEL SECURITY;
+// CREATE POLICY "task_tags_owner" ON task_tags FOR ALL
+//   USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+//
+// Migración de `tasks.tags` (texto separado por comas; al crear se guardaba escapado
+// como HTML y al editar no). La columna queda de respaldo y la app ya no la usa.
+// CREATE FUNCTION pg_temp.tag_name(raw text) RETURNS text LANGUAGE sql AS $$
+//   SELECT trim(replace(replace(replace(replace(replace(replace(raw,
+//     '&lt;', '<'), '&gt;', '>'), '&quot;', '"'), '&#x27;', ''''), '&#x2F;', '/'), '&amp;', '&'))
+// $$;
+// INSERT INTO tags (user_id, name)
+//   SELECT t.user_id, pg_temp.tag_name(raw)
+//   FROM tasks t, unnest(string_to_array(t.tags, ',')) AS raw
+//   WHERE pg_temp.tag_name(raw) <> ''
+//   ON CONFLICT DO NOTHING;
+// INSERT INTO task_tags (task_id, tag_id, user_id)
+//   SELECT DISTINCT t.id, g.id, t.user_id
+//   FROM tasks t, unnest(string_to_array(t.tags, ',')) AS raw, tags g
+//   WHERE g.user_id = t.user_id AND lower(g.name) = lower(pg_temp.tag_name(raw));
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { tagKey } from '@/lib/tags';
+import { toListResult, toResult } from './result';
+import type { DbResult, Tag, TagInsert, TagUpdate, TaskTag } from './types';
+
+export const TAG_COLUMNS = 'id, user_id, name, color, created_at';
+
+/**
+ * Lista las etiquetas del usuario por nombre
+ */
+export async function listTags(userId: string): Promise<DbResult<Tag[]>> {
+  const res = await supabaseClient
+    .from('tags')
+    .select(TAG_COLUMNS)
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  return toListResult<Tag>(res);
+}
+
+/**
+ * Lista qué etiqueta tiene cada tarea del usuario
+ */
+export async function listTaskTags(userId: string): Promise<DbResult<TaskTag[]>> {
+  const res = await supabaseClient
+    .from('task_tags')
+    .select('task_id, tag_id')
+    .eq('user_id', userId);
+
+  return toListResult<TaskTag>(res);
+}
+
+/**
+ * Crea una etiqueta y devuelve la fila insertada
+ */
+export async function createTag(userId: string, input: TagInsert): Promise<DbResult<Tag>> {
+  const res = await supabaseClient
+    .from('tags')
+    .insert({ ...input, user_id: userId })
+    .select(TAG_COLUMNS)
+    .single();
+
+  return toResult<Tag>(res);
+}
+
+/**
+ * Devuelve las etiquetas con esos nombres (sin distinguir mayúsculas), creando las que falten
+ */
+export async function ensureTags(userId: string, names: string[]): Promise<DbResult<Tag[]>> {
+  if (names.length === 0) return { data: [], error: null };
+
+  const existing = await listTags(userId);
+  if (existing.error) return existing;
+
+  const byKey = new Map(existing.data.map((t) => [tagKey(t.name), t]));
+  const missing = names.filter((n) => !byKey.has(tagKey(n)));
+
+  if (missing.length > 0) {
+    const res = await supabaseClient
+      .from('tags')
+      .insert(missing.map((name) => ({ name, user_id: userId })))
+      .select(TAG_COLUMNS);
+    const created = toListResult<Tag>(res);
+    if (created.error) return created;
+    created.data.forEach((t) => byKey.set(tagKey(t.name), t));
+  }
+
+  return {
+    data: names.map((n) => byKey.get(tagKey(n))).filter((t): t is Tag => !!t),
+    error: null,
+  };
+}
+
+/**
+ * Renombra o cambia el color de una etiqueta (se ve en todas sus tareas)
+ */
+export async function updateTag(
+  userId: string,
+  tagId: string,
+  patch: TagUpdate,
+): Promise<DbResult<Tag>> {
+  const res = await supabaseClient
+    .from('tags')
+    .update(patch)
+    .eq('id', tagId)
+    .eq('user_id', userId)
+    .select(TAG_COLUMNS)
+    .single();
+
+  return toResult<Tag>(res);
+}
+
+/**
+ * Elimina una etiqueta y la quita de todas sus tareas
+ */
+export async function deleteTag(userId: string, tagId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('tags')
+    .delete()
+    .eq('id', tagId)
+    .eq('user_id', userId);
+
+  return toResult<null>(res);
+}
+
+/**
+ * Fusiona `sourceId` en `targetId`: sus tareas pasan a tener la otra etiqueta y la original se borra
+ */
+export async function mergeTags(
+  userId: string,
+  sourceId: string,
+  targetId: string,
+): Promise<DbResult<null>> {
+  const rows = await supabaseClient
+    .from('task_tags')
+    .select('task_id')
+    .eq('user_id', userId)
+    .eq('tag_id', sourceId);
+  if (rows.error) return { data: null, error: rows.error };
+
+  if (rows.data.length > 0) {
+    const moved = await supabaseClient.from('task_tags').upsert(
+      rows.data.map((r) => ({ task_id: r.task_id as string, tag_id: targetId, user_id: userId })),
+      { onConflict: 'task_id,tag_id', ignoreDuplicates: true },
+    );
+    if (moved.error) return { data: null, error: moved.error };
+  }
+
+  return deleteTag(userId, sourceId);
+}
+
+/**
+ * Reemplaza las etiquetas de una o varias tareas por `tagIds`
+ */
+export async function setTaskTags(
+  userId: string,
+  taskIds: string[],
+  tagIds: string[],
+): Promise<DbResult<null>> {
+  if (taskIds.length === 0) return { data: null, error: null };
+
+  const removed = await supabaseClient
+    .from('task_tags')
+    .delete()
+    .eq('user_id', userId)
+    .in('task_id', taskIds);
+  if (removed.error || tagIds.length === 0) return toResult<null>(removed);
+
+  const res = await supabaseClient
+    .from('task_tags')
+    .insert(
+      taskIds.flatMap((taskId) =>
+        tagIds.map((tagId) => ({ task_id: taskId, tag_id: tagId, user_id: userId })),
+      ),
+    );
+
+  return toResult<null>(res);
+}
+
+/**
+ * Copia las etiquetas de una tarea a otra (ocurrencias nuevas de una serie)
+ */
+export async function copyTaskTags(
+  userId: string,
+  fromTaskId: string,
+  toTaskId: string,
+): Promise<DbResult<null>> {
+  const rows = await supabaseClient
+    .from('task_tags')
+    .select('tag_id')
+    .eq('user_id', userId)
+    .eq('task_id', fromTaskId);
+  if (rows.error) return { data: null, error: rows.error };
+  if (rows.data.length === 0) return { data: null, error: null };
+
+  const res = await supabaseClient
+    .from('task_tags')
+    .insert(rows.data.map((r) => ({ task_id: toTaskId, tag_id: r.tag_id as string, user_id: userId })));
+
+  return toResult<null>(res);
+}
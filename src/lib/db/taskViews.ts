@@ -0,0 +1,62 @@
+// Acceso a la tabla `task_views` (vistas guardadas de la lista de tareas)
+//
+// REQUISITO: Ejecutar en Supabase SQL Editor:
+// CREATE TABLE task_views (
+//   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+//   user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+//   name text NOT NULL,
+//   filters jsonb NOT NULL,
+//   created_at timestamptz NOT NULL DEFAULT now()
+// );
+// CREATE UNIQUE INDEX task_views_user_name ON task_views (user_id, lower(name));
+// ALTER TABLE task_views ENABLE ROW LEVEL SECURITY;
+// CREATE POLICY "task_views_owner" ON task_views FOR ALL
+//   USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { toListResult, toResult } from './result';
+import type { DbResult, TaskView, TaskViewInsert } from './types';
+
+export const TASK_VIEW_COLUMNS = 'id, user_id, name, filters, created_at';
+
+/**
+ * Lista las vistas guardadas del usuario (por nombre)
+ */
+export async function listTaskViews(userId: string): Promise<DbResult<TaskView[]>> {
+  const res = await supabaseClient
+    .from('task_views')
+    .select(TASK_VIEW_COLUMNS)
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  return toListResult<TaskView>(res);
+}
+
+/**
+ * Guarda una vista y devuelve la fila insertada
+ */
+export async function createTaskView(
+  userId: string,
+  input: TaskViewInsert,
+): Promise<DbResult<TaskView>> {
+  const res = await supabaseClient
+    .from('task_views')
+    .insert({ ...input, user_id: userId })
+    .select(TASK_VIEW_COLUMNS)
+    .single();
+
+  return toResult<TaskView>(res);
+}
+
+/**
+ * Elimina una vista guardada
+ */
+export async function deleteTaskView(userId: string, viewId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('task_views')
+    .delete()
+    .eq('id', viewId)
+    .eq('user_id', userId);
+
+  return toResult<null>(res);
+}
@@ -0,0 +1,190 @@
+// Acceso a la tabla `tasks`
+//
+// REQUISITO: Ejecutar en Supabase SQL Editor:
+// ALTER TABLE tasks ADD COLUMN recurrence jsonb;
+// ALTER TABLE tasks ADD COLUMN series_id uuid;
+// CREATE INDEX tasks_series_id_idx ON tasks (series_id);
+
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabaseClient } from '@/lib/supabaseClient';
+import { buildNextOccurrence } from '@/lib/recurrence';
+import { toListResult, toResult } from './result';
+import { copyTaskTags } from './tags';
+import type { DbResult, Task, TaskInsert, TaskUpdate } from './types';
+
+export const TASK_COLUMNS =
+  'id, user_id, title, description, due_date, completed, created_at, course_id, priority, recurrence, series_id';
+
+/**
+ * Lista todas las tareas del usuario (más recientes primero)
+ */
+export async function listTasks(userId: string): Promise<DbResult<Task[]>> {
+  const res = await supabaseClient
+    .from('tasks')
+    .select(TASK_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  return toListResult<Task>(res);
+}
+
+/**
+ * Lista las tareas pendientes ordenadas por fecha límite
+ */
+export async function listPendingTasks(userId: string): Promise<DbResult<Task[]>> {
+  const res = await supabaseClient
+    .from('tasks')
+    .select(TASK_COLUMNS)
+    .eq('user_id', userId)
+    .eq('completed', false)
+    .order('due_date', { ascending: true });
+
+  return toListResult<Task>(res);
+}
+
+/**
+ * Crea una tarea y devuelve la fila insertada
+ */
+export async function createTask(
+  userId: string,
+  input: TaskInsert,
+): Promise<DbResult<Task>> {
+  const res = await supabaseClient
+    .from('tasks')
+    .insert({ ...input, user_id: userId })
+    .select(TASK_COLUMNS)
+    .single();
+
+  return toResult<Task>(res);
+}
+
+/**
+ * Actualiza una tarea del usuario y devuelve la fila resultante
+ */
+export async function updateTask(
+  userId: string,
+  taskId: string,
+  patch: TaskUpdate,
+): Promise<DbResult<Task>> {
+  const res = await supabaseClient
+    .from('tasks')
+    .update(patch)
+    .eq('id', taskId)
+    .eq('user_id', userId)
+    .select(TASK_COLUMNS)
+    .single();
+
+  return toResult<Task>(res);
+}
+
+/**
+ * Crea la ocurrencia siguiente de una serie, salvo que ya exista una fila en esa fecha
+ */
+async function ensureNextOccurrence(userId: string, task: Task): Promise<DbResult<Task | null>> {
+  const input = buildNextOccurrence(task);
+  if (!input || !task.series_id) return { data: null, error: null };
+
+  const existing = await supabaseClient
+    .from('tasks')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('series_id', task.series_id)
+    .eq('due_date', input.due_date ?? '')
+    .limit(1);
+  if (existing.error) return { data: null, error: existing.error };
+  if (existing.data.length > 0) return { data: null, error: null };
+
+  const created = await createTask(userId, input);
+  if (created.error) return created;
+
+  // La ocurrencia nueva conserva las etiquetas de la serie
+  const tagged = await copyTaskTags(userId, task.id, created.data.id);
+  if (tagged.error) return tagged;
+
+  return created;
+}
+
+/**
+ * Marca una tarea como completada. Si es recurrente, crea también la siguiente ocurrencia.
+ * La tarea queda completada aunque falle la ocurrencia nueva: ese error viaja en `nextError`.
+ */
+export async function completeTask(
+  userId: string,
+  task: Task,
+): Promise<DbResult<{ task: Task; next: Task | null; nextError: PostgrestError | null }>> {
+  const updated = await updateTask(userId, task.id, { completed: true });
+  if (updated.error) return updated;
+
+  const next = await ensureNextOccurrence(userId, task);
+
+  return { data: { task: updated.data, next: next.data, nextError: next.error }, error: null };
+}
+
+/**
+ * Edita una sola ocurrencia: la separa de su serie y deja creada la siguiente
+ * para que la repetición continúe con los valores originales.
+ */
+export async function detachOccurrence(
+  userId: string,
+  task: Task,
+  patch: TaskUpdate,
+): Promise<DbResult<{ task: Task; next: Task | null }>> {
+  const next = await ensureNextOccurrence(userId, task);
+  if (next.error) return next;
+
+  const updated = await updateTask(userId, task.id, {
+    ...patch,
+    recurrence: null,
+    series_id: null,
+  });
+  if (updated.error) return updated;
+
+  return { data: { task: updated.data, next: next.data }, error: null };
+}
+
+/**
+ * Aplica cambios a las ocurrencias pendientes de una serie desde una fecha en adelante
+ */
+export async function updateFutureOccurrences(
+  userId: string,
+  seriesId: string,
+  fromDate: string,
+  patch: TaskUpdate,
+): Promise<DbResult<Task[]>> {
+  const res = await supabaseClient
+    .from('tasks')
+    .update(patch)
+    .eq('user_id', userId)
+    .eq('series_id', seriesId)
+    .eq('completed', false)
+    .gte('due_date', fromDate)
+    .select(TASK_COLUMNS);
+
+  return toListResult<Task>(res);
+}
+
+/**
+ * Elimina una tarea del usuario
+ */
+export async function deleteTask(userId: string, taskId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('tasks')
+    .delete()
+    .eq('id', taskId)
+    .eq('user_id', userId);
+
+  return toResult<null>(res);
+}
+
+/**
+ * Elimina todas las tareas completadas del usuario
+ */
+export async function deleteCompletedTasks(userId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('tasks')
+    .delete()
+    .eq('completed', true)
+    .eq('user_id', userId);
+
+  return toResult<null>(res);
+}
@@ -0,0 +1,79 @@
+// Acceso a la tabla `terms` (cuatrimestres o períodos lectivos)
+//
+// REQUISITO: Ejecutar en Supabase SQL Editor:
+// CREATE TABLE terms (
+//   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+//   user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+//   name text NOT NULL,
+//   start_date date NOT NULL,
+//   end_date date NOT NULL,
+//   archived boolean NOT NULL DEFAULT false,
+//   created_at timestamptz NOT NULL DEFAULT now()
+// );
+// ALTER TABLE terms ENABLE ROW LEVEL SECURITY;
+// CREATE POLICY "terms_owner" ON terms FOR ALL
+//   USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { toListResult, toResult } from './result';
+import type { DbResult, Term, TermInsert, TermUpdate } from './types';
+
+export const TERM_COLUMNS = 'id, user_id, name, start_date, end_date, archived, created_at';
+
+/**
+ * Lista los cuatrimestres del usuario (más recientes primero)
+ */
+export async function listTerms(userId: string): Promise<DbResult<Term[]>> {
+  const res = await supabaseClient
+    .from('terms')
+    .select(TERM_COLUMNS)
+    .eq('user_id', userId)
+    .order('start_date', { ascending: false });
+
+  return toListResult<Term>(res);
+}
+
+/**
+ * Crea un cuatrimestre y devuelve la fila insertada
+ */
+export async function createTerm(userId: string, input: TermInsert): Promise<DbResult<Term>> {
+  const res = await supabaseClient
+    .from('terms')
+    .insert({ ...input, user_id: userId })
+    .select(TERM_COLUMNS)
+    .single();
+
+  return toResult<Term>(res);
+}
+
+/**
+ * Actualiza un cuatrimestre (nombre, fechas o archivado)
+ */
+export async function updateTerm(
+  userId: string,
+  termId: string,
+  patch: TermUpdate,
+): Promise<DbResult<Term>> {
+  const res = await supabaseClient
+    .from('terms')
+    .update(patch)
+    .eq('id', termId)
+    .eq('user_id', userId)
+    .select(TERM_COLUMNS)
+    .single();
+
+  return toResult<Term>(res);
+}
+
+/**
+ * Elimina un cuatrimestre; sus materias quedan sin cuatrimestre
+ */
+export async function deleteTerm(userId: string, termId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('terms')
+    .delete()
+    .eq('id', termId)
+    .eq('user_id', userId);
+
+  return toResult<null>(res);
+}
@@ -0,0 +1,109 @@
+// Acceso a la tabla `course_topics` (temas de cada materia con repaso espaciado)
+//
+// REQUISITO: Ejecutar en Supabase SQL Editor:
+// CREATE TABLE course_topics (
+//   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+//   user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+//   course_id uuid NOT NULL REFERENCES courses (id) ON DELETE CASCADE,
+//   name text NOT NULL,
+//   ease numeric NOT NULL DEFAULT 2.5,
+//   interval_days integer NOT NULL DEFAULT 0,
+//   repetitions integer NOT NULL DEFAULT 0,
+//   due_date date NOT NULL DEFAULT current_date,
+//   last_reviewed_at timestamptz,
+//   created_at timestamptz NOT NULL DEFAULT now()
+// );
+// ALTER TABLE course_topics ENABLE ROW LEVEL SECURITY;
+// CREATE POLICY "course_topics_owner" ON course_topics FOR ALL
+//   USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+import { supabaseClient } from '@/lib/supabaseClient';
+import { toListResult, toResult } from './result';
+import type { CourseTopic, CourseTopicInsert, CourseTopicUpdate, DbResult } from './types';
+
+export const COURSE_TOPIC_COLUMNS =
+  'id, user_id, course_id, name, ease, interval_days, repetitions, due_date, last_reviewed_at, created_at';
+
+/**
+ * Lista los temas del usuario ordenados por próximo repaso.
+ * `dueBy` (YYYY-MM-DD) limita a los que vencen hasta esa fecha.
+ */
+export async function listTopics(
+  userId: string,
+  options: { dueBy?: string } = {},
+): Promise<DbResult<CourseTopic[]>> {
+  let query = supabaseClient
+    .from('course_topics')
+    .select(COURSE_TOPIC_COLUMNS)
+    .eq('user_id', userId);
+
+  if (options.dueBy) {
+    query = query.lte('due_date', options.dueBy);
+  }
+
+  const res = await query.order('due_date', { ascending: true });
+
+  return toListResult<CourseTopic>(res);
+}
+
+/**
+ * Obtiene un tema por id
+ */
+export async function getTopic(userId: string, topicId: string): Promise<DbResult<CourseTopic>> {
+  const res = await supabaseClient
+    .from('course_topics')
+    .select(COURSE_TOPIC_COLUMNS)
+    .eq('id', topicId)
+    .eq('user_id', userId)
+    .single();
+
+  return toResult<CourseTopic>(res);
+}
+
+/**
+ * Crea un tema (queda para repasar desde `due_date`, por defecto hoy)
+ */
+export async function createTopic(
+  userId: string,
+  input: CourseTopicInsert,
+): Promise<DbResult<CourseTopic>> {
+  const res = await supabaseClient
+    .from('course_topics')
+    .insert({ ...input, user_id: userId })
+    .select(COURSE_TOPIC_COLUMNS)
+    .single();
+
+  return toResult<CourseTopic>(res);
+}
+
+/**
+ * Actualiza un tema (nombre o estado de repaso)
+ */
+export async function updateTopic(
+  userId: string,
+  topicId: string,
+  patch: CourseTopicUpdate,
+): Promise<DbResult<CourseTopic>> {
+  const res = await supabaseClient
+    .from('course_topics')
+    .update(patch)
+    .eq('id', topicId)
+    .eq('user_id', userId)
+    .select(COURSE_TOPIC_COLUMNS)
+    .single();
+
+  return toResult<CourseTopic>(res);
+}
+
+/**
+ * Elimina un tema
+ */
+export async function deleteTopic(userId: string, topicId: string): Promise<DbResult<null>> {
+  const res = await supabaseClient
+    .from('course_topics')
+    .delete()
+    .eq('id', topicId)
+    .eq('user_id', userId);
+
+  return toResult<null>(res);
+}
@@ -0,0 +1,539 @@
+// Tipos canónicos de las filas de Supabase.
+//
+// Todas las páginas deben usar estos tipos en lugar de redeclarar los suyos:
+// si cambia una columna, se actualiza acá y en el módulo de la tabla.
+
+import type { PostgrestError } from '@supabase/supabase-js';
+import type { Plan } from '@/lib/plans';
+
+/**
+ * Resultado de una operación de la capa de datos.
+ * Sigue la forma `{ data, error }` de Supabase, pero con `data` tipado.
+ */
+export type DbResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: PostgrestError };
+
+// ---- tasks ----
+
+export type Priority = 'low' | 'medium' | 'high';
+
+export type RecurrenceFrequency = 'daily' | 'weekly';
+
+/** Regla de repetición guardada en `tasks.recurrence` (jsonb) */
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number; // cada N días / semanas
+  weekdays?: number[]; // 0 = domingo … 6 = sábado (solo semanal)
+  start: string; // YYYY-MM-DD, primera ocurrencia de la serie
+  until?: string | null; // YYYY-MM-DD, última fecha posible
+  count?: number | null; // cantidad total de ocurrencias
+};
+
+export type Task = {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  due_date: string | null; // YYYY-MM-DD
+  completed: boolean;
+  created_at: string;
+  course_id: string | null;
+  priority: Priority | null;
+  recurrence: RecurrenceRule | null;
+  series_id: string | null; // compartido por todas las ocurrencias de una serie
+};
+
+export type TaskInsert = {
+  title: string;
+  description?: string | null;
+  due_date?: string | null;
+  course_id?: string | null;
+  priority?: Priority | null;
+  completed?: boolean;
+  recurrence?: RecurrenceRule | null;
+  series_id?: string | null;
+};
+
+export type TaskUpdate = Partial<TaskInsert>;
+
+// ---- tags (etiquetas de tareas, únicas por usuario) ----
+
+export type Tag = {
+  id: string;
+  user_id: string;
+  name: string;
+  color: string;
+  created_at: string;
+};
+
+export type TagInsert = {
+  name: string;
+  color?: string;
+};
+
+export type TagUpdate = Partial<Pick<Tag, 'name' | 'color'>>;
+
+// Fila de `task_tags` (relación muchos a muchos entre tareas y etiquetas)
+export type TaskTag = {
+  task_id: string;
+  tag_id: string;
+};
+
+// ---- task_views (vistas guardadas de la lista de tareas) ----
+
+// Estado de los filtros de la lista; también se guarda en la URL
+export type TaskViewFilters = {
+  query: string; // texto del buscador (ver src/lib/taskQuery.ts)
+  status: 'all' | 'pending' | 'completed';
+  course_id: string | null;
+  priority: Priority | null;
+  tag_id: string | null;
+  order: 'nearest' | 'farthest';
+};
+
+export type TaskView = {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: TaskViewFilters;
+  created_at: string;
+};
+
+export type TaskViewInsert = {
+  name: string;
+  filters: TaskViewFilters;
+};
+
+// ---- task_subtasks ----
+
+export type Subtask = {
+  id: string;
+  task_id: string;
+  title: string;
+  completed: boolean;
+  created_at: string;
+};
+
+export type SubtaskCount = { total: number; done: number };
+
+// ---- terms ----
+
+export type Term = {
+  id: string;
+  user_id: string;
+  name: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD
+  archived: boolean; // archivado: no cuenta para los límites del plan
+  created_at: string;
+};
+
+export type TermInsert = {
+  name: string;
+  start_date: string;
+  end_date: string;
+};
+
+export type TermUpdate = Partial<TermInsert> & {
+  archived?: boolean;
+};
+
+// ---- courses ----
+
+/** Esquema de evaluación guardado en `courses.grading_scheme` (jsonb) */
+export type GradingScheme = {
+  weights: Record<string, number>; // tipo de examen (EXAM_TYPES) → peso en %
+  recovery_replaces_failed: boolean; // el recuperatorio reemplaza al parcial desaprobado
+  passing_grade: number; // nota mínima para aprobar
+  promotion_grade: number | null; // nota para promocionar (null = sin promoción)
+};
+
+export type Course = {
+  id: string;
+  user_id: string;
+  name: string;
+  color: string | null;
+  created_at: string;
+  grading_scheme: GradingScheme | null;
+  term_id: string | null;
+  credits: number | null; // carga horaria / créditos para el analítico
+};
+
+export type CourseInsert = {
+  name: string;
+  color?: string | null;
+  term_id?: string | null;
+  credits?: number | null;
+};
+
+export type CourseUpdate = Partial<CourseInsert> & {
+  grading_scheme?: GradingScheme | null;
+};
+
+// ---- course_grades ----
+
+export type CourseGrade = {
+  id: string;
+  user_id: string;
+  course_id: string;
+  grade: number;
+  exam_type: string | null;
+  exam_date: string | null; // YYYY-MM-DD
+  created_at: string;
+};
+
+export type CourseGradeInsert = {
+  course_id: string;
+  grade: number;
+  exam_type?: string | null;
+  exam_date?: string | null;
+};
+
+// ---- course_topics ----
+
+/** Calificación de un repaso espaciado */
+export type ReviewRating = 'again' | 'hard' | 'easy';
+
+/** Estado de repaso espaciado (SM-2) de un tema o una tarjeta */
+export type ReviewSchedule = {
+  ease: number; // factor de facilidad (mínimo 1.3)
+  interval_days: number; // días hasta el próximo repaso
+  repetitions: number; // repasos correctos seguidos
+  due_date: string; // YYYY-MM-DD
+};
+
+export type CourseTopic = ReviewSchedule & {
+  id: string;
+  user_id: string;
+  course_id: string;
+  name: string;
+  last_reviewed_at: string | null;
+  created_at: string;
+};
+
+export type CourseTopicInsert = {
+  course_id: string;
+  name: string;
+  due_date?: string;
+};
+
+export type CourseTopicUpdate = Partial<ReviewSchedule> & {
+  name?: string;
+  last_reviewed_at?: string | null;
+};
+
+// ---- flashcard_decks / flashcards / flashcard_reviews ----
+
+export type FlashcardDeck = {
+  id: string;
+  user_id: string;
+  course_id: string;
+  name: string;
+  created_at: string;
+};
+
+export type FlashcardDeckInsert = {
+  course_id: string;
+  name: string;
+};
+
+export type Flashcard = ReviewSchedule & {
+  id: string;
+  user_id: string;
+  deck_id: string;
+  front: string;
+  back: string;
+  tags: string | null; // separadas por espacios, como en Anki
+  last_reviewed_at: string | null;
+  created_at: string;
+};
+
+export type FlashcardInsert = {
+  deck_id: string;
+  front: string;
+  back: string;
+  tags?: string | null;
+  due_date?: string;
+};
+
+export type FlashcardUpdate = Partial<ReviewSchedule> & {
+  front?: string;
+  back?: string;
+  tags?: string | null;
+  last_reviewed_at?: string | null;
+};
+
+export type FlashcardReview = {
+  id: string;
+  user_id: string;
+  card_id: string;
+  deck_id: string;
+  rating: ReviewRating;
+  reviewed_at: string;
+};
+
+export type FlashcardReviewInsert = {
+  card_id: string;
+  deck_id: string;
+  rating: ReviewRating;
+};
+
+// ---- pomodoro_sessions ----
+
+// Un enfoque cortado antes de tiempo (reinicio) queda como 'aborted'
+export type PomodoroSessionStatus = 'completed' | 'aborted';
+
+export type InterruptionReason = 'phone' | 'person' | 'internal';
+
+export type PomodoroInterruption = {
+  reason: InterruptionReason;
+  at: string;
+};
+
+export type PomodoroSession = {
+  id: string;
+  user_id: string;
+  started_at: string;
+  ended_at: string;
+  duration_minutes: number;
+  task_id: string | null;
+  course_id: string | null;
+  exam_plan_id: string | null;
+  exam_topic_id: string | null;
+  status: PomodoroSessionStatus;
+  interruptions: PomodoroInterruption[];
+};
+
+export type PomodoroSessionInsert = {
+  started_at: string;
+  ended_at: string;
+  duration_minutes: number;
+  task_id?: string | null;
+  course_id?: string | null;
+  exam_plan_id?: string | null;
+  exam_topic_id?: string | null;
+  status?: PomodoroSessionStatus;
+  interruptions?: PomodoroInterruption[];
+};
+
+// ---- pomodoro_timers (timer en curso, uno por usuario) ----
+
+// Fases del ciclo: el descanso largo llega después de `rounds` enfoques
+export type PomodoroMode = 'focus' | 'break' | 'long_break';
+
+/**
+ * Estado del timer compartido entre pestañas y dispositivos.
+ * Con el timer corriendo, `remaining_seconds` es lo que faltaba en `updated_at`.
+ */
+export type PomodoroTimer = {
+  user_id: string;
+  mode: PomodoroMode;
+  is_running: boolean;
+  remaining_seconds: number;
+  cycle_start: string | null; // inicio del enfoque en curso
+  completed_rounds: number;
+  updated_at: string;
+  updated_by: string; // pestaña que hizo el último cambio
+};
+
+export type PomodoroTimerUpdate = Omit<PomodoroTimer, 'user_id'>;
+
+/** Duraciones de un ciclo de Pomodoro, en minutos */
+export type PomodoroTimes = {
+  focus: number;
+  shortBreak: number;
+  longBreak: number;
+  rounds: number; // rondas de enfoque antes del descanso largo (0: sin descanso largo)
+};
+
+export type PomodoroPreset = PomodoroTimes & {
+  id: string;
+  name: string;
+};
+
+// Sonido al terminar cada fase (se genera en el navegador, sin archivos)
+export type PomodoroSound = 'bell' | 'chime' | 'beep' | 'none';
+
+/**
+ * Configuración del Pomodoro guardada en `profiles.pomodoro_settings` (jsonb),
+ * para que los mismos tiempos sigan al usuario entre dispositivos
+ */
+export type PomodoroSettings = PomodoroTimes & {
+  autoStart: boolean; // la fase siguiente arranca sola
+  presets: PomodoroPreset[]; // presets propios (los predefinidos no se guardan)
+  sound: PomodoroSound;
+  notify: boolean; // notificación del sistema al terminar cada fase
+};
+
+// ---- exam_plans ----
+
+export type ExamPlan = {
+  id: string;
+  user_id: string;
+  course_id: string | null;
+  name: string;
+  exam_date: string; // YYYY-MM-DD
+  study_hours: number;
+  created_at: string;
+};
+
+export type ExamPlanInsert = {
+  course_id?: string | null;
+  name: string;
+  exam_date: string;
+  study_hours: number;
+};
+
+// ---- exam_topics (unidades del programa de cada examen) ----
+
+export type ExamTopicStatus = 'pending' | 'in_progress' | 'done';
+
+export type ExamTopic = {
+  id: string;
+  user_id: string;
+  plan_id: string;
+  name: string;
+  estimated_hours: number;
+  status: ExamTopicStatus;
+  position: number;
+  created_at: string;
+};
+
+export type ExamTopicInsert = {
+  plan_id: string;
+  name: string;
+  estimated_hours: number;
+  status?: ExamTopicStatus;
+  position?: number;
+};
+
+export type ExamTopicUpdate = Partial<
+  Pick<ExamTopic, 'name' | 'estimated_hours' | 'status' | 'position'>
+>;
+
+// Minutos disponibles para estudiar por día de la semana (índice 0 = domingo)
+export type StudyAvailability = number[];
+
+// ---- projects ----
+
+export type Project = {
+  id: string;
+  name: string;
+  description: string | null;
+  color: string;
+  owner_id: string;
+  created_at: string;
+};
+
+export type ProjectInsert = {
+  name: string;
+  description?: string | null;
+  color: string;
+};
+
+export type ProjectRole = 'owner' | 'member';
+
+export type ProjectMember = {
+  id: string;
+  project_id: string;
+  user_id: string;
+  role: ProjectRole;
+  joined_at: string;
+};
+
+export type ProjectTaskStatus = 'todo' | 'in_progress' | 'done';
+
+export type ProjectTask = {
+  id: string;
+  project_id: string;
+  title: string;
+  description: string | null;
+  status: ProjectTaskStatus;
+  assigned_to: string | null;
+  due_date: string | null; // YYYY-MM-DD
+  created_by: string;
+  created_at: string;
+};
+
+export type ProjectTaskInsert = {
+  title: string;
+  description?: string | null;
+  status: ProjectTaskStatus;
+  assigned_to?: string | null;
+  due_date?: string | null;
+};
+
+export type ProjectTaskUpdate = Partial<ProjectTaskInsert>;
+
+// ---- profiles ----
+
+export type GradeTone = 'success' | 'warn' | 'danger';
+
+export type GradingScalePreset = 'ar10' | 'pct100' | 'letter' | 'gpa4' | 'custom';
+
+/** Franja de la escala: desde `min` (en unidades de la escala) hacia arriba */
+export type GradeBand = {
+  min: number;
+  label: string;
+  tone: GradeTone;
+};
+
+/**
+ * Escala de calificación guardada en `profiles.grading_scale` (jsonb).
+ * Las notas se guardan siempre de 0 a 10; la escala solo convierte al mostrar y cargar.
+ */
+export type GradingScale = {
+  preset: GradingScalePreset;
+  name: string;
+  min: number;
+  max: number;
+  decimals: number;
+  passing: number; // nota para aprobar, en unidades de la escala
+  letters: boolean; // muestra la etiqueta de la franja en lugar del número
+  bands: GradeBand[]; // vacío: etiquetas según el esquema de cada materia
+};
+
+// Atajos de teclado de Tareas y del tablero de proyectos
+export type ShortcutAction =
+  | 'new'
+  | 'search'
+  | 'next'
+  | 'previous'
+  | 'toggle'
+  | 'edit'
+  | 'due_date'
+  | 'priority_high'
+  | 'priority_medium'
+  | 'priority_low'
+  | 'help';
+
+// Teclas elegidas por el usuario; las que faltan usan las de fábrica
+export type KeyboardShortcuts = Partial<Record<ShortcutAction, string>>;
+
+export type Profile = {
+  id: string;
+  email: string | null;
+  full_name: string | null;
+  avatar_url: string | null;
+  career: string | null;
+  university: string | null;
+  academic_year: string | null;
+  plan: Plan;
+  grading_scale: GradingScale | null;
+  study_availability: StudyAvailability | null;
+  pomodoro_settings: PomodoroSettings | null;
+  keyboard_shortcuts: KeyboardShortcuts | null;
+};
+
+export type ProfileUpdate = {
+  full_name?: string | null;
+  avatar_url?: string | null;
+  career?: string | null;
+  university?: string | null;
+  academic_year?: string | null;
+  grading_scale?: GradingScale | null;
+  study_availability?: StudyAvailability | null;
+  pomodoro_settings?: PomodoroSettings | null;
+  keyboard_shortcuts?: KeyboardShortcuts | null;
+};
@@ -0,0 +1,82 @@
+// Exportación de datos del usuario a CSV (feature premium `export`)
+
+import { toCsv } from './csv';
+import type { Course, CourseGrade, PomodoroSession, SubtaskCount, Task } from './db';
+
+const PRIORITY_LABELS = { low: 'Baja', medium: 'Media', high: 'Alta' } as const;
+
+/**
+ * Tareas con materia, prioridad, etiquetas y conteo de subtareas
+ */
+export function buildTasksCsv(
+  tasks: Task[],
+  courses: Course[],
+  subtaskCounts: Record<string, SubtaskCount>,
+  tagNames: Map<string, string[]> = new Map(), // task_id → nombres de etiquetas
+): string {
+  const courseNames = new Map(courses.map((c) => [c.id, c.name]));
+
+  return toCsv(
+    [
+      'titulo',
+      'descripcion',
+      'fecha_limite',
+      'completada',
+      'materia',
+      'prioridad',
+      'etiquetas',
+      'subtareas_total',
+      'subtareas_completadas',
+      'creada',
+    ],
+    tasks.map((t) => [
+      t.title,
+      t.description,
+      t.due_date,
+      t.completed ? 'si' : 'no',
+      t.course_id ? courseNames.get(t.course_id) : null,
+      t.priority ? PRIORITY_LABELS[t.priority] : null,
+      (tagNames.get(t.id) ?? []).join(', '),
+      subtaskCounts[t.id]?.total ?? 0,
+      subtaskCounts[t.id]?.done ?? 0,
+      t.created_at,
+    ]),
+  );
+}
+
+/**
+ * Notas de exámenes con el nombre de la materia
+ */
+export function buildGradesCsv(grades: CourseGrade[], courses: Course[]): string {
+  const courseNames = new Map(courses.map((c) => [c.id, c.name]));
+
+  return toCsv(
+    ['materia', 'nota', 'tipo_examen', 'fecha_examen', 'registrada'],
+    grades.map((g) => [
+      courseNames.get(g.course_id) ?? 'Materia desconocida',
+      g.grade,
+      g.exam_type,
+      g.exam_date,
+      g.created_at,
+    ]),
+  );
+}
+
+/**
+ * Sesiones de Pomodoro con el título de la tarea vinculada
+ */
+export function buildSessionsCsv(sessions: PomodoroSession[], tasks: Task[]): string {
+  const taskTitles = new Map(tasks.map((t) => [t.id, t.title]));
+
+  return toCsv(
+    ['inicio', 'fin', 'minutos', 'tarea', 'estado', 'interrupciones'],
+    sessions.map((s) => [
+      s.started_at,
+      s.ended_at,
+      s.duration_minutes,
+      s.task_id ? taskTitles.get(s.task_id) : null,
+      s.status === 'aborted' ? 'cortada' : 'completa',
+      (s.interruptions ?? []).length,
+    ]),
+  );
+}
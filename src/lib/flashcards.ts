@@ -0,0 +1,209 @@
+// Mazos de tarjetas: importación/exportación compatible con Anki y estadísticas por mazo
+
+import type { Flashcard, FlashcardReview } from './db';
+import { parseCsv, type CsvValue } from './csv';
+import { isDue } from './spacedRepetition';
+
+// Intervalo desde el que una tarjeta se considera aprendida (igual que Anki)
+export const MATURE_INTERVAL_DAYS = 21;
+
+// Tope de tarjetas por archivo importado
+export const MAX_IMPORT_CARDS = 2000;
+
+export type DeckFileFormat = 'tsv' | 'csv';
+
+export type ParsedCard = {
+  front: string;
+  back: string;
+  tags: string | null;
+};
+
+export type ParsedDeckFile = {
+  cards: ParsedCard[];
+  skipped: number; // filas sin frente o dorso
+  error?: string;
+};
+
+const SEPARATORS: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  pipe: '|',
+  space: ' ',
+};
+
+// Encabezados que se reconocen como fila de títulos y no como tarjeta
+const HEADER_WORDS = ['front', 'frente', 'pregunta', 'anverso'];
+
+// Entidad numérica (&#39;, &#x27;); si el código no existe se deja como está
+function fromCodePoint(code: number, entity: string): string {
+  return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+}
+
+/**
+ * Texto plano de un campo HTML exportado por Anki
+ */
+function htmlToText(value: string): string {
+  return value
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (entity, code: string) => fromCodePoint(Number(code), entity))
+    .replace(/&#x([0-9a-f]+);/gi, (entity, code: string) => fromCodePoint(parseInt(code, 16), entity))
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+// Columnas de metadatos que Anki agrega al exportar (no son campos de la tarjeta)
+const META_COLUMNS = ['guid column', 'notetype column', 'deck column'];
+
+/**
+ * Lee un mazo en TSV/CSV (formato "Notas en texto plano" de Anki).
+ * Respeta los encabezados `#separator:`, `#html:`, `#tags column:` y las columnas
+ * de GUID, tipo de nota y mazo; frente y dorso son las dos primeras columnas restantes.
+ * Sin encabezados, las etiquetas son la tercera columna.
+ */
+export function parseDeckFile(fileName: string, text: string): ParsedDeckFile {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  let separator: string | undefined;
+  let html: boolean | undefined;
+  let tagsColumn: number | undefined;
+  const metaColumns = new Set<number>(); // índices desde 0
+
+  let firstDataLine = 0;
+  while (firstDataLine < lines.length && lines[firstDataLine].startsWith('#')) {
+    const line = lines[firstDataLine].slice(1);
+    const colon = line.indexOf(':');
+    const option = (colon === -1 ? line : line.slice(0, colon)).trim().toLowerCase();
+    const value = colon === -1 ? '' : line.slice(colon + 1);
+    const column = parseInt(value, 10);
+
+    if (option === 'separator') {
+      const name = value.trim().toLowerCase();
+      separator = Object.prototype.hasOwnProperty.call(SEPARATORS, name) ? SEPARATORS[name] : value;
+    }
+    if (option === 'html') html = value.trim().toLowerCase() === 'true';
+    if (option === 'tags column' && column > 0) tagsColumn = column;
+    if (META_COLUMNS.includes(option) && column > 0) metaColumns.add(column - 1);
+    firstDataLine++;
+  }
+
+  // Con columnas de metadatos y sin `#tags column:` no hay columna de etiquetas
+  if (tagsColumn === undefined && metaColumns.size === 0) tagsColumn = 3;
+  const tagsIndex = tagsColumn === undefined ? -1 : tagsColumn - 1;
+
+  if (!separator && /\.(tsv|txt)$/i.test(fileName)) separator = '\t';
+
+  const rows = parseCsv(lines.slice(firstDataLine).join('\n'), separator);
+  const cardFields = (row: string[]) => row.filter((_, i) => !metaColumns.has(i) && i !== tagsIndex);
+  if (rows.length > 0 && HEADER_WORDS.includes(cardFields(rows[0])[0]?.trim().toLowerCase())) {
+    rows.shift();
+  }
+
+  if (rows.length === 0) {
+    return { cards: [], skipped: 0, error: 'El archivo no tiene tarjetas.' };
+  }
+  if (rows.length > MAX_IMPORT_CARDS) {
+    return {
+      cards: [],
+      skipped: 0,
+      error: `El archivo tiene ${rows.length} filas; el máximo por importación es ${MAX_IMPORT_CARDS}.`,
+    };
+  }
+
+  const clean = (value: string | undefined) => {
+    const raw = (value ?? '').trim();
+    // Las exportaciones viejas de Anki no traen encabezado pero sí HTML
+    const isHtml = html ?? /<(br|div|p|b|i|u|span)\b[^>]*>/i.test(raw);
+    return isHtml ? htmlToText(raw) : raw;
+  };
+
+  const cards: ParsedCard[] = [];
+  let skipped = 0;
+  rows.forEach((row) => {
+    const fields = cardFields(row);
+    const front = clean(fields[0]);
+    const back = clean(fields[1]);
+    if (!front || !back) {
+      skipped++;
+      return;
+    }
+    const tags = (tagsIndex === -1 ? '' : (row[tagsIndex] ?? '')).trim().replace(/\s+/g, ' ');
+    cards.push({ front, back, tags: tags || null });
+  });
+
+  return { cards, skipped };
+}
+
+function escapeField(value: CsvValue, separator: string): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  if (text.includes(separator) || /["\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Exporta un mazo con los encabezados que Anki usa para importar sin preguntar
+ */
+export function buildDeckExport(cards: Flashcard[], format: DeckFileFormat): string {
+  const separator = format === 'tsv' ? '\t' : ',';
+  const header = [
+    `#separator:${format === 'tsv' ? 'tab' : 'comma'}`,
+    '#html:false',
+    `#columns:${['Front', 'Back', 'Tags'].join(separator)}`,
+    '#tags column:3',
+  ];
+  const rows = cards.map((c) =>
+    [c.front, c.back, c.tags].map((v) => escapeField(v, separator)).join(separator),
+  );
+  return [...header, ...rows].join('\r\n').concat('\r\n');
+}
+
+/**
+ * Tarjetas para estudiar hoy: primero las más atrasadas
+ */
+export function dueCards(cards: Flashcard[], today: string): Flashcard[] {
+  return cards
+    .filter((c) => isDue(c, today))
+    .sort((a, b) => a.due_date.localeCompare(b.due_date) || a.created_at.localeCompare(b.created_at));
+}
+
+export type DeckStats = {
+  total: number;
+  due: number;
+  fresh: number; // nunca repasadas
+  mature: number;
+  reviews: number; // repasos en el período
+  retention: number | null; // % de repasos sin olvido en el período
+};
+
+/**
+ * Estadísticas de un mazo; `since` (ISO) define el período de los repasos
+ */
+export function deckStats(
+  cards: Flashcard[],
+  reviews: FlashcardReview[],
+  today: string,
+  since: string,
+): DeckStats {
+  const periodReviews = reviews.filter((r) => r.reviewed_at >= since);
+  const remembered = periodReviews.filter((r) => r.rating !== 'again').length;
+
+  return {
+    total: cards.length,
+    due: cards.filter((c) => isDue(c, today)).length,
+    fresh: cards.filter((c) => !c.last_reviewed_at).length,
+    mature: cards.filter((c) => c.interval_days >= MATURE_INTERVAL_DAYS).length,
+    reviews: periodReviews.length,
+    retention:
+      periodReviews.length > 0 ? Math.round((remembered / periodReviews.length) * 100) : null,
+  };
+}
@@ -0,0 +1,367 @@
+// Reglas de calificaciones compartidas entre páginas
+
+import type { Course, CourseGrade, GradeTone, GradingScale, GradingScheme } from './db';
+import { bandTone, DEFAULT_GRADING_SCALE, fromScale, gradeBand, isDefaultScale, toScale } from './gradingScales';
+
+export type { GradeTone };
+
+export const EXAM_TYPES = [
+  'Primer parcial',
+  'Segundo parcial',
+  'Recuperatorio',
+  'Globalizador',
+  'Examen final',
+];
+
+export const RECOVERY_EXAM_TYPE = 'Recuperatorio';
+
+// Evaluaciones que un recuperatorio puede reemplazar
+export const RECOVERABLE_EXAM_TYPES = ['Primer parcial', 'Segundo parcial'];
+
+// Sin pesos configurados el promedio es simple (comportamiento histórico)
+export const DEFAULT_GRADING_SCHEME: GradingScheme = {
+  weights: {},
+  recovery_replaces_failed: false,
+  passing_grade: 4,
+  promotion_grade: 7,
+};
+
+/**
+ * Esquema efectivo de una materia (el guardado, completado con los valores por defecto).
+ * Con otra escala, la aprobación por defecto es la de la escala y no hay promoción.
+ */
+export function schemeForCourse(
+  course: Course | null | undefined,
+  scale: GradingScale = DEFAULT_GRADING_SCALE,
+): GradingScheme {
+  const defaults = isDefaultScale(scale)
+    ? DEFAULT_GRADING_SCHEME
+    : { ...DEFAULT_GRADING_SCHEME, passing_grade: fromScale(scale.passing, scale), promotion_grade: null };
+  return { ...defaults, ...(course?.grading_scheme ?? {}) };
+}
+
+export function hasWeights(scheme: GradingScheme): boolean {
+  return Object.values(scheme.weights).some((w) => w > 0);
+}
+
+/**
+ * Semáforo de una nota: las franjas de la escala o, si no tiene, los umbrales del esquema
+ */
+export function gradeTone(
+  grade: number,
+  scheme: GradingScheme = DEFAULT_GRADING_SCHEME,
+  scale?: GradingScale,
+): GradeTone {
+  const band = scale ? bandTone(grade, scale) : null;
+  if (band) return band;
+  if (grade >= (scheme.promotion_grade ?? scheme.passing_grade)) return 'success';
+  if (grade >= scheme.passing_grade) return 'warn';
+  return 'danger';
+}
+
+/**
+ * Clases para el badge de una nota individual
+ */
+export function gradeBadgeClasses(
+  grade: number,
+  scheme?: GradingScheme,
+  scale?: GradingScale,
+): string {
+  const tone = gradeTone(grade, scheme, scale);
+  if (tone === 'success') {
+    return 'bg-[var(--success)]/15 text-[var(--success)] border-[var(--success)]/40';
+  }
+  if (tone === 'warn') {
+    return 'bg-[var(--warn)]/15 text-[var(--warn)] border-[var(--warn)]/40';
+  }
+  return 'bg-[var(--danger)]/15 text-[var(--danger)] border-[var(--danger)]/40';
+}
+
+/**
+ * Color de texto para mostrar una nota destacada
+ */
+export function gradeColor(grade: number, scheme?: GradingScheme, scale?: GradingScale): string {
+  const tone = gradeTone(grade, scheme, scale);
+  if (tone === 'success') return 'text-[var(--success)]';
+  if (tone === 'warn') return 'text-[var(--warn)]';
+  return 'text-[var(--danger)]';
+}
+
+/**
+ * Texto para la etiqueta de estado: la franja de la escala o los umbrales del esquema
+ */
+export function gradeStatusLabel(
+  grade: number,
+  scheme: GradingScheme = DEFAULT_GRADING_SCHEME,
+  scale?: GradingScale,
+): string {
+  const band = scale ? gradeBand(grade, scale) : null;
+  if (band) return band.label;
+  if (grade >= 10) return 'Excelente';
+  if (scheme.promotion_grade !== null && grade >= scheme.promotion_grade) return 'Promoción';
+  if (grade >= scheme.passing_grade) return 'Aprobado';
+  if (grade >= scheme.passing_grade - 1) return 'En riesgo';
+  return 'Desaprobado';
+}
+
+type CountedGrade = {
+  id: string;
+  examType: string | null;
+  grade: number;
+  recovered: boolean;
+};
+
+function mean(values: number[]): number {
+  return values.reduce((acc, v) => acc + v, 0) / values.length;
+}
+
+function gradeDay(g: CourseGrade): string {
+  return g.exam_date ?? g.created_at.slice(0, 10);
+}
+
+/**
+ * Aplica los recuperatorios en orden cronológico: cada uno reemplaza al parcial
+ * desaprobado más bajo todavía no recuperado. Si no hay ninguno, cuenta como nota propia.
+ */
+function resolveRecoveries(grades: CourseGrade[], scheme: GradingScheme) {
+  const sorted = [...grades].sort(
+    (a, b) => gradeDay(a).localeCompare(gradeDay(b)) || a.created_at.localeCompare(b.created_at),
+  );
+
+  const counted: CountedGrade[] = [];
+  const replacedIds = new Set<string>();
+
+  for (const g of sorted) {
+    if (scheme.recovery_replaces_failed && g.exam_type === RECOVERY_EXAM_TYPE) {
+      const target = counted
+        .filter(
+          (c) =>
+            !c.recovered &&
+            RECOVERABLE_EXAM_TYPES.includes(c.examType ?? '') &&
+            c.grade < scheme.passing_grade,
+        )
+        .sort((a, b) => a.grade - b.grade)[0];
+
+      if (target) {
+        replacedIds.add(target.id);
+        target.grade = g.grade;
+        target.recovered = true;
+        continue;
+      }
+    }
+    counted.push({ id: g.id, examType: g.exam_type, grade: g.grade, recovered: false });
+  }
+
+  return { counted, replacedIds };
+}
+
+export type CourseGradeSummary = {
+  average: number | null; // nota de la materia según el esquema (null sin notas)
+  evaluatedShare: number | null; // fracción del peso total ya rendida (null sin pesos)
+  replacedIds: Set<string>; // notas reemplazadas por un recuperatorio
+};
+
+/**
+ * Calcula la nota de una materia: promedio por tipo de examen, ponderado por los
+ * pesos del esquema y normalizado sobre lo ya rendido. Sin pesos (o sin notas en
+ * tipos con peso) se usa el promedio simple.
+ */
+export function summarizeCourseGrades(
+  grades: CourseGrade[],
+  scheme: GradingScheme,
+): CourseGradeSummary {
+  const { counted, replacedIds } = resolveRecoveries(grades, scheme);
+  if (counted.length === 0) return { average: null, evaluatedShare: null, replacedIds };
+
+  const flat = mean(counted.map((c) => c.grade));
+  if (!hasWeights(scheme)) return { average: flat, evaluatedShare: null, replacedIds };
+
+  let total = 0;
+  let weightDone = 0;
+  let weightTotal = 0;
+
+  for (const [examType, weight] of Object.entries(scheme.weights)) {
+    if (weight <= 0) continue;
+    weightTotal += weight;
+    const values = counted.filter((c) => c.examType === examType).map((c) => c.grade);
+    if (values.length === 0) continue;
+    total += weight * mean(values);
+    weightDone += weight;
+  }
+
+  if (weightDone === 0) return { average: flat, evaluatedShare: 0, replacedIds };
+  return { average: total / weightDone, evaluatedShare: weightDone / weightTotal, replacedIds };
+}
+
+/**
+ * Nota de cada materia según su esquema (solo materias con notas)
+ */
+export function courseAverages(
+  grades: CourseGrade[],
+  courses: Course[],
+  scale?: GradingScale,
+): Map<string, number> {
+  const byCourse = new Map<string, CourseGrade[]>();
+  for (const g of grades) {
+    const list = byCourse.get(g.course_id) ?? [];
+    list.push(g);
+    byCourse.set(g.course_id, list);
+  }
+
+  const coursesById = new Map(courses.map((c) => [c.id, c]));
+  const result = new Map<string, number>();
+  for (const [courseId, list] of byCourse) {
+    const { average } = summarizeCourseGrades(
+      list,
+      schemeForCourse(coursesById.get(courseId), scale),
+    );
+    if (average !== null) result.set(courseId, average);
+  }
+  return result;
+}
+
+// ---- calculadora de nota necesaria ----
+
+/**
+ * Sugiere el tipo de evaluación a partir del nombre de un examen planificado
+ */
+export function guessExamType(name: string): string | null {
+  const text = name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  if (/recup/.test(text)) return 'Recuperatorio';
+  if (/globaliz|integrador/.test(text)) return 'Globalizador';
+  if (/final/.test(text)) return 'Examen final';
+  if (/(segundo|2do|2°|\b2\b|ii)\s*parcial|parcial\s*(2|ii)\b/.test(text)) return 'Segundo parcial';
+  if (/parcial/.test(text)) return 'Primer parcial';
+  return null;
+}
+
+export type PendingAssessment = {
+  id: string;
+  examType: string | null;
+  date: string; // YYYY-MM-DD
+};
+
+export type RequiredGrade =
+  | { status: 'reached' } // se alcanza aunque se saque 0
+  | { status: 'reachable'; grade: number } // nota mínima en cada pendiente
+  | { status: 'unreachable'; maxAchievable: number };
+
+/**
+ * Nota mínima (la misma en cada evaluación pendiente) para que la materia
+ * llegue a `target`. Las pendientes se simulan como notas del esquema, así que
+ * pesos y recuperatorios se aplican igual que con las notas reales.
+ */
+export function requiredGrade(
+  grades: CourseGrade[],
+  pending: PendingAssessment[],
+  scheme: GradingScheme,
+  target: number,
+): RequiredGrade {
+  const projectWith = (value: number) => {
+    const simulated: CourseGrade[] = pending.map((p) => ({
+      id: `pending-${p.id}`,
+      user_id: '',
+      course_id: '',
+      grade: value,
+      exam_type: p.examType,
+      exam_date: p.date,
+      created_at: `${p.date}T23:59:59`,
+    }));
+    return summarizeCourseGrades([...grades, ...simulated], scheme).average ?? 0;
+  };
+
+  if (projectWith(0) >= target) return { status: 'reached' };
+
+  const best = projectWith(10);
+  if (best < target) return { status: 'unreachable', maxAchievable: best };
+
+  // La nota final crece con la nota de las pendientes: búsqueda binaria
+  let low = 0;
+  let high = 10;
+  while (high - low > 0.005) {
+    const mid = (low + high) / 2;
+    if (projectWith(mid) >= target) high = mid;
+    else low = mid;
+  }
+  return { status: 'reachable', grade: Math.ceil(high * 100) / 100 };
+}
+
+// ---- formulario del esquema ----
+
+/** Estado editable del esquema (los números quedan como texto) */
+export type GradingSchemeDraft = {
+  weights: Record<string, string>;
+  recoveryReplacesFailed: boolean;
+  passingGrade: string;
+  promotionGrade: string;
+};
+
+// Umbral interno → texto en unidades de la escala
+function thresholdText(grade: number, scale: GradingScale): string {
+  return String(Number(toScale(grade, scale).toFixed(2)));
+}
+
+export function draftFromScheme(
+  scheme: GradingScheme,
+  scale: GradingScale = DEFAULT_GRADING_SCALE,
+): GradingSchemeDraft {
+  return {
+    weights: Object.fromEntries(
+      EXAM_TYPES.map((t) => [t, scheme.weights[t] ? String(scheme.weights[t]) : '']),
+    ),
+    recoveryReplacesFailed: scheme.recovery_replaces_failed,
+    passingGrade: thresholdText(scheme.passing_grade, scale),
+    promotionGrade:
+      scheme.promotion_grade !== null ? thresholdText(scheme.promotion_grade, scale) : '',
+  };
+}
+
+/**
+ * Valida el formulario y arma el esquema a guardar (umbrales en unidades de la escala)
+ */
+export function schemeFromDraft(
+  draft: GradingSchemeDraft,
+  scale: GradingScale = DEFAULT_GRADING_SCALE,
+): {
+  scheme: GradingScheme | null;
+  error?: string;
+} {
+  const weights: Record<string, number> = {};
+  for (const examType of EXAM_TYPES) {
+    const raw = (draft.weights[examType] ?? '').trim().replace(',', '.');
+    if (!raw) continue;
+    const value = Number(raw);
+    if (isNaN(value) || value < 0 || value > 100) {
+      return { scheme: null, error: `El peso de "${examType}" debe estar entre 0 y 100` };
+    }
+    if (value > 0) weights[examType] = value;
+  }
+
+  const passing = Number(draft.passingGrade.replace(',', '.'));
+  if (!draft.passingGrade.trim() || isNaN(passing) || passing < scale.min || passing > scale.max) {
+    return {
+      scheme: null,
+      error: `La nota de aprobación debe estar entre ${scale.min} y ${scale.max}`,
+    };
+  }
+
+  let promotion: number | null = null;
+  if (draft.promotionGrade.trim()) {
+    promotion = Number(draft.promotionGrade.replace(',', '.'));
+    if (isNaN(promotion) || promotion < passing || promotion > scale.max) {
+      return {
+        scheme: null,
+        error: `La nota de promoción debe estar entre la de aprobación y ${scale.max}`,
+      };
+    }
+  }
+
+  return {
+    scheme: {
+      weights,
+      recovery_replaces_failed: draft.recoveryReplacesFailed,
+      passing_grade: fromScale(passing, scale),
+      promotion_grade: promotion !== null ? fromScale(promotion, scale) : null,
+    },
+  };
+}
@@ -0,0 +1,245 @@
+// Escalas de calificación: conversión entre la escala del usuario y la nota interna (0 a 10)
+
+import type { GradeBand, GradeTone, GradingScale, GradingScalePreset } from './db';
+
+// Tolerancia para comparar límites de franjas tras convertir
+const EPSILON = 1e-6;
+
+export const GRADING_SCALE_PRESETS: Record<Exclude<GradingScalePreset, 'custom'>, GradingScale> = {
+  // Escala histórica: las etiquetas salen del esquema de cada materia
+  ar10: {
+    preset: 'ar10',
+    name: '1 a 10',
+    min: 0,
+    max: 10,
+    decimals: 2,
+    passing: 4,
+    letters: false,
+    bands: [],
+  },
+  pct100: {
+    preset: 'pct100',
+    name: '0 a 100',
+    min: 0,
+    max: 100,
+    decimals: 0,
+    passing: 60,
+    letters: false,
+    bands: [
+      { min: 90, label: 'Excelente', tone: 'success' },
+      { min: 75, label: 'Muy bueno', tone: 'success' },
+      { min: 60, label: 'Aprobado', tone: 'warn' },
+      { min: 0, label: 'Desaprobado', tone: 'danger' },
+    ],
+  },
+  letter: {
+    preset: 'letter',
+    name: 'Letras (A a F)',
+    min: 0,
+    max: 100,
+    decimals: 0,
+    passing: 60,
+    letters: true,
+    bands: [
+      { min: 93, label: 'A', tone: 'success' },
+      { min: 90, label: 'A-', tone: 'success' },
+      { min: 87, label: 'B+', tone: 'success' },
+      { min: 83, label: 'B', tone: 'success' },
+      { min: 80, label: 'B-', tone: 'success' },
+      { min: 77, label: 'C+', tone: 'warn' },
+      { min: 73, label: 'C', tone: 'warn' },
+      { min: 70, label: 'C-', tone: 'warn' },
+      { min: 60, label: 'D', tone: 'warn' },
+      { min: 0, label: 'F', tone: 'danger' },
+    ],
+  },
+  gpa4: {
+    preset: 'gpa4',
+    name: 'GPA (0 a 4.0)',
+    min: 0,
+    max: 4,
+    decimals: 2,
+    passing: 1,
+    letters: false,
+    bands: [
+      { min: 3.7, label: 'A', tone: 'success' },
+      { min: 2.7, label: 'B', tone: 'success' },
+      { min: 1.7, label: 'C', tone: 'warn' },
+      { min: 1, label: 'D', tone: 'warn' },
+      { min: 0, label: 'F', tone: 'danger' },
+    ],
+  },
+};
+
+export const DEFAULT_GRADING_SCALE = GRADING_SCALE_PRESETS.ar10;
+
+/**
+ * Escala efectiva del usuario (la guardada o la de 1 a 10)
+ */
+export function resolveScale(scale: GradingScale | null | undefined): GradingScale {
+  return scale ?? DEFAULT_GRADING_SCALE;
+}
+
+export function isDefaultScale(scale: GradingScale): boolean {
+  return scale.preset === 'ar10';
+}
+
+/** Nota interna (0 a 10) → unidades de la escala */
+export function toScale(grade: number, scale: GradingScale): number {
+  return scale.min + (grade / 10) * (scale.max - scale.min);
+}
+
+/** Unidades de la escala → nota interna (0 a 10) */
+export function fromScale(value: number, scale: GradingScale): number {
+  return ((value - scale.min) / (scale.max - scale.min)) * 10;
+}
+
+function sortedBands(scale: GradingScale): GradeBand[] {
+  return [...scale.bands].sort((a, b) => b.min - a.min);
+}
+
+/**
+ * Franja en la que cae una nota interna, o null si la escala no define franjas
+ */
+export function gradeBand(grade: number, scale: GradingScale): GradeBand | null {
+  const value = toScale(grade, scale);
+  const bands = sortedBands(scale);
+  return bands.find((b) => value + EPSILON >= b.min) ?? bands[bands.length - 1] ?? null;
+}
+
+export function bandTone(grade: number, scale: GradingScale): GradeTone | null {
+  return gradeBand(grade, scale)?.tone ?? null;
+}
+
+/**
+ * Texto de una nota interna en la escala del usuario ("7.50", "75", "B+", "3.00").
+ * `maxDecimals` acorta las notas individuales sin agregar decimales a escalas enteras.
+ */
+export function formatGrade(
+  grade: number,
+  scale: GradingScale,
+  maxDecimals: number = scale.decimals,
+): string {
+  if (scale.letters) {
+    const band = gradeBand(grade, scale);
+    if (band) return band.label;
+  }
+  return toScale(grade, scale).toFixed(Math.min(scale.decimals, maxDecimals));
+}
+
+/** Paso sugerido para los inputs numéricos de la escala */
+export function scaleStep(scale: GradingScale): number {
+  return scale.decimals > 0 ? 1 / 10 ** Math.min(scale.decimals, 2) : 1;
+}
+
+/**
+ * Opciones para cargar notas en escalas de letras: cada letra vale el centro de su franja
+ */
+export function letterOptions(scale: GradingScale): { label: string; grade: number }[] {
+  const bands = sortedBands(scale);
+  return bands.map((band, i) => {
+    const upper = i === 0 ? scale.max : bands[i - 1].min;
+    return { label: band.label, grade: fromScale((band.min + upper) / 2, scale) };
+  });
+}
+
+/**
+ * Interpreta una nota cargada en la escala del usuario (número o letra)
+ */
+export function parseScaleInput(
+  raw: string,
+  scale: GradingScale,
+): { grade: number | null; error?: string } {
+  const text = raw.trim();
+  if (!text) return { grade: null, error: 'Ingrese una nota.' };
+
+  if (scale.letters) {
+    const option = letterOptions(scale).find((o) => o.label.toLowerCase() === text.toLowerCase());
+    if (option) return { grade: option.grade };
+  }
+
+  const value = Number(text.replace(',', '.'));
+  if (isNaN(value) || value < scale.min || value > scale.max) {
+    return {
+      grade: null,
+      error: `La nota debe estar entre ${scale.min} y ${scale.max}.`,
+    };
+  }
+  return { grade: fromScale(value, scale) };
+}
+
+/**
+ * Valida una escala personalizada antes de guardarla
+ */
+export function validateScale(scale: GradingScale): string | null {
+  if (!scale.name.trim()) return 'La escala necesita un nombre';
+  if (isNaN(scale.min) || isNaN(scale.max) || scale.max <= scale.min) {
+    return 'El máximo de la escala debe ser mayor que el mínimo';
+  }
+  if (isNaN(scale.passing) || scale.passing < scale.min || scale.passing > scale.max) {
+    return 'La nota para aprobar debe estar dentro de la escala';
+  }
+  for (const band of scale.bands) {
+    if (!band.label.trim()) return 'Cada franja necesita una etiqueta';
+    if (isNaN(band.min) || band.min < scale.min || band.min > scale.max) {
+      return `La franja "${band.label}" empieza fuera de la escala`;
+    }
+  }
+  if (scale.letters && scale.bands.length === 0) {
+    return 'Las escalas de letras necesitan al menos una franja';
+  }
+  return null;
+}
+
+// ---- formulario de escala personalizada ----
+
+/** Estado editable de la escala (los números quedan como texto) */
+export type GradingScaleDraft = {
+  name: string;
+  min: string;
+  max: string;
+  decimals: string;
+  passing: string;
+  letters: boolean;
+  bands: { min: string; label: string; tone: GradeTone }[];
+};
+
+export function draftFromScale(scale: GradingScale): GradingScaleDraft {
+  return {
+    name: scale.preset === 'custom' ? scale.name : `${scale.name} (personalizada)`,
+    min: String(scale.min),
+    max: String(scale.max),
+    decimals: String(scale.decimals),
+    passing: String(scale.passing),
+    letters: scale.letters,
+    bands: sortedBands(scale).map((b) => ({ min: String(b.min), label: b.label, tone: b.tone })),
+  };
+}
+
+/**
+ * Arma la escala personalizada a partir del formulario y la valida
+ */
+export function scaleFromDraft(draft: GradingScaleDraft): {
+  scale: GradingScale | null;
+  error?: string;
+} {
+  const num = (raw: string) => (raw.trim() ? Number(raw.replace(',', '.')) : NaN);
+
+  const decimals = parseInt(draft.decimals, 10);
+  const scale: GradingScale = {
+    preset: 'custom',
+    name: draft.name.trim(),
+    min: num(draft.min),
+    max: num(draft.max),
+    decimals: isNaN(decimals) ? 0 : Math.min(Math.max(decimals, 0), 2),
+    passing: num(draft.passing),
+    letters: draft.letters,
+    bands: draft.bands.map((b) => ({ min: num(b.min), label: b.label.trim(), tone: b.tone })),
+  };
+
+  const error = validateScale(scale);
+  if (error) return { scale: null, error };
+
+  scale.bands = sortedBands(scale);
+  return { scale };
+}
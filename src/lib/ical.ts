@@ -0,0 +1,294 @@
+// Generación y lectura de calendarios iCalendar (RFC 5545)
+
+import type { Course, CourseGrade, ExamPlan, Priority, Tag, Task, TaskTag } from './db';
+import { downloadBlob } from './csv';
+import { tagsByTask } from './tags';
+
+export type CalendarEvent = {
+  uid: string;
+  date: string; // YYYY-MM-DD, evento de día completo
+  summary: string;
+  description?: string;
+  categories?: string[];
+  color?: string | null;
+  priority?: Priority | null;
+};
+
+// PRIORITY de RFC 5545: 1 = máxima, 9 = mínima
+const ICAL_PRIORITY: Record<Priority, number> = { high: 1, medium: 5, low: 9 };
+
+const PRIORITY_LABELS: Record<Priority, string> = { high: 'Alta', medium: 'Media', low: 'Baja' };
+
+/**
+ * Escapa texto según RFC 5545 (barra, punto y coma, coma y saltos de línea)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Corta líneas de más de 75 octetos continuándolas con un espacio
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const ch of line) {
+    const bytes = encoder.encode(ch).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += ch;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+function formatTimestamp(d: Date): string {
+  return d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Serializa eventos a un VCALENDAR completo
+ */
+export function buildCalendar(events: CalendarEvent[], calendarName = 'Taskademic'): string {
+  const stamp = formatTimestamp(new Date());
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Taskademic//Calendario//ES',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const ev of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${ev.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(ev.date)}`,
+      `DTEND;VALUE=DATE:${formatDate(nextDay(ev.date))}`,
+      `SUMMARY:${escapeText(ev.summary)}`,
+    );
+    if (ev.description) lines.push(`DESCRIPTION:${escapeText(ev.description)}`);
+    if (ev.categories && ev.categories.length > 0) {
+      lines.push(`CATEGORIES:${ev.categories.map(escapeText).join(',')}`);
+    }
+    if (ev.color) lines.push(`X-TASKADEMIC-COLOR:${ev.color}`);
+    if (ev.priority) lines.push(`PRIORITY:${ICAL_PRIORITY[ev.priority]}`);
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+type TaskademicCalendarData = {
+  tasks: Task[];
+  courses: Course[];
+  examPlans: ExamPlan[];
+  grades: CourseGrade[];
+  tags?: Tag[];
+  taskTags?: TaskTag[];
+};
+
+/**
+ * Convierte tareas pendientes, planes de examen y fechas de notas en eventos
+ */
+export function buildTaskademicEvents({
+  tasks,
+  courses,
+  examPlans,
+  grades,
+  tags = [],
+  taskTags = [],
+}: TaskademicCalendarData): CalendarEvent[] {
+  const coursesMap = new Map(courses.map((c) => [c.id, c]));
+  const tagsMap = tagsByTask(taskTags, tags);
+  const events: CalendarEvent[] = [];
+
+  const courseInfo = (courseId: string | null) => {
+    const course = courseId ? coursesMap.get(courseId) : undefined;
+    return {
+      categories: course ? [course.name] : undefined,
+      color: course?.color ?? null,
+      label: course ? `Materia: ${course.name}` : null,
+    };
+  };
+
+  for (const t of tasks) {
+    if (!t.due_date || t.completed) continue;
+    const course = courseInfo(t.course_id);
+    const taskTagNames = (tagsMap.get(t.id) ?? []).map((tag) => tag.name);
+    const description = [
+      t.description,
+      course.label,
+      t.priority ? `Prioridad: ${PRIORITY_LABELS[t.priority]}` : null,
+      taskTagNames.length > 0 ? `Etiquetas: ${taskTagNames.join(', ')}` : null,
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    events.push({
+      uid: `task-${t.id}@taskademic`,
+      date: t.due_date,
+      summary: t.title,
+      description,
+      categories: course.categories,
+      color: course.color,
+      priority: t.priority,
+    });
+  }
+
+  for (const p of examPlans) {
+    const course = courseInfo(p.course_id);
+    events.push({
+      uid: `exam-plan-${p.id}@taskademic`,
+      date: p.exam_date,
+      summary: `Examen: ${p.name}`,
+      description: [course.label, `Horas de estudio planificadas: ${p.study_hours}`]
+        .filter(Boolean)
+        .join('\n'),
+      categories: course.categories,
+      color: course.color,
+    });
+  }
+
+  for (const g of grades) {
+    if (!g.exam_date) continue;
+    const course = courseInfo(g.course_id);
+    const courseName = course.categories?.[0] ?? 'Materia';
+    events.push({
+      uid: `grade-${g.id}@taskademic`,
+      date: g.exam_date,
+      summary: `${g.exam_type ?? 'Examen'} · ${courseName}`,
+      description: `Nota: ${g.grade}`,
+      categories: course.categories,
+      color: course.color,
+    });
+  }
+
+  return events.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export type ParsedIcsEvent = {
+  uid: string | null;
+  summary: string;
+  description: string;
+  date: string; // YYYY-MM-DD (fecha local de inicio)
+  recurrenceId: string | null; // YYYY-MM-DD de la ocurrencia que reemplaza (RECURRENCE-ID)
+  repeats: boolean; // tiene RRULE: solo se toma la primera fecha
+};
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) =>
+    ch === 'n' || ch === 'N' ? '\n' : ch,
+  );
+}
+
+/**
+ * Convierte DTSTART (fecha o fecha-hora, UTC o flotante) a YYYY-MM-DD local
+ */
+function parseIcsDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss, utc] = match;
+  if (!hh || !utc) return `${y}-${m}-${d}`;
+
+  const date = new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Extrae los VEVENT de un archivo .ics (ignora eventos sin fecha de inicio).
+ * Las propiedades de componentes anidados (VALARM, etc.) no pisan las del evento.
+ */
+export function parseCalendar(text: string): ParsedIcsEvent[] {
+  // Deshacer el plegado de líneas (una línea que empieza con espacio continúa la anterior)
+  const lines = text.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  const events: ParsedIcsEvent[] = [];
+  let current: Partial<ParsedIcsEvent> | null = null;
+  let nested = 0; // profundidad de componentes dentro del VEVENT actual
+
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase();
+
+    if (upper === 'BEGIN:VEVENT' && !current) {
+      current = {};
+      nested = 0;
+      continue;
+    }
+    if (!current) continue;
+
+    if (upper.startsWith('BEGIN:')) {
+      nested += 1;
+      continue;
+    }
+    if (upper.startsWith('END:')) {
+      if (nested > 0) {
+        nested -= 1;
+        continue;
+      }
+      if (upper !== 'END:VEVENT') continue;
+      if (current.date) {
+        events.push({
+          uid: current.uid ?? null,
+          summary: current.summary ?? 'Sin título',
+          description: current.description ?? '',
+          date: current.date,
+          recurrenceId: current.recurrenceId ?? null,
+          repeats: current.repeats ?? false,
+        });
+      }
+      current = null;
+      continue;
+    }
+    if (nested > 0) continue;
+
+    const sep = line.indexOf(':');
+    if (sep === -1) continue;
+    const name = line.slice(0, sep).split(';')[0].toUpperCase();
+    const value = line.slice(sep + 1);
+
+    if (name === 'UID') current.uid = value.trim();
+    else if (name === 'SUMMARY') current.summary = unescapeText(value).trim();
+    else if (name === 'DESCRIPTION') current.description = unescapeText(value).trim();
+    else if (name === 'DTSTART') current.date = parseIcsDate(value.trim()) ?? undefined;
+    else if (name === 'RECURRENCE-ID') current.recurrenceId = parseIcsDate(value.trim());
+    else if (name === 'RRULE') current.repeats = true;
+  }
+
+  return events;
+}
+
+/**
+ * Descarga un archivo .ics en el navegador
+ */
+export function downloadCalendar(filename: string, ics: string) {
+  downloadBlob(filename, new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+}
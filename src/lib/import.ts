@@ -0,0 +1,385 @@
+// Importación de tareas, materias y notas desde CSV o JSON
+
+import { parseCsv } from './csv';
+import { EXAM_TYPES } from './grades';
+import { DEFAULT_GRADING_SCALE, parseScaleInput } from './gradingScales';
+import { canAccess, type Plan, type PremiumFeature } from './plans';
+import { parseTagList } from './tags';
+import {
+  validateColor,
+  validateCourseName,
+  validateDateFormat,
+  validateTaskDescription,
+  validateTaskTitle,
+} from './validation';
+import {
+  createCourse,
+  createCourseGrade,
+  createTask,
+  ensureTags,
+  setTaskTags,
+  type Course,
+  type CourseGradeInsert,
+  type CourseInsert,
+  type DbResult,
+  type GradingScale,
+  type Priority,
+  type TaskInsert,
+} from './db';
+
+export type ImportTarget = 'tasks' | 'courses' | 'grades';
+
+export type ImportField = {
+  key: string;
+  label: string;
+  required: boolean;
+  aliases: string[];
+};
+
+export const IMPORT_TARGET_LABELS: Record<ImportTarget, string> = {
+  tasks: 'Tareas',
+  courses: 'Materias',
+  grades: 'Notas',
+};
+
+// Los alias incluyen los encabezados que genera la exportación CSV
+export const IMPORT_FIELDS: Record<ImportTarget, ImportField[]> = {
+  tasks: [
+    { key: 'title', label: 'Título', required: true, aliases: ['titulo', 'tarea', 'nombre'] },
+    { key: 'description', label: 'Descripción', required: false, aliases: ['descripcion', 'detalle'] },
+    { key: 'due_date', label: 'Fecha límite', required: false, aliases: ['fecha_limite', 'fecha', 'vencimiento', 'due'] },
+    { key: 'course', label: 'Materia', required: false, aliases: ['materia', 'curso', 'course_name'] },
+    { key: 'priority', label: 'Prioridad', required: false, aliases: ['prioridad'] },
+    { key: 'tags', label: 'Etiquetas', required: false, aliases: ['etiquetas', 'tag'] },
+    { key: 'completed', label: 'Completada', required: false, aliases: ['completada', 'hecha', 'done'] },
+  ],
+  courses: [
+    { key: 'name', label: 'Nombre', required: true, aliases: ['nombre', 'materia', 'curso'] },
+    { key: 'color', label: 'Color', required: false, aliases: [] },
+  ],
+  grades: [
+    { key: 'course', label: 'Materia', required: true, aliases: ['materia', 'curso', 'course_name'] },
+    { key: 'grade', label: 'Nota', required: true, aliases: ['nota', 'calificacion', 'score'] },
+    { key: 'exam_type', label: 'Tipo de evaluación', required: false, aliases: ['tipo_examen', 'tipo', 'evaluacion'] },
+    { key: 'exam_date', label: 'Fecha del examen', required: false, aliases: ['fecha_examen', 'fecha'] },
+  ],
+};
+
+// Columnas que solo se importan con el plan que incluye la función
+const FIELD_FEATURES: Partial<Record<ImportTarget, Record<string, PremiumFeature>>> = {
+  tasks: { priority: 'priorities', tags: 'tags' },
+};
+
+/**
+ * Campos del destino que el plan no permite importar (se ignoran al validar)
+ */
+export function lockedImportFields(target: ImportTarget, plan: Plan): string[] {
+  return Object.entries(FIELD_FEATURES[target] ?? {})
+    .filter(([, feature]) => !canAccess(plan, feature))
+    .map(([key]) => key);
+}
+
+/** Campo de destino → columna del archivo ('' = sin asignar) */
+export type ColumnMapping = Record<string, string>;
+
+export type ParsedFile = {
+  columns: string[];
+  records: Record<string, string>[];
+};
+
+export type ImportPayload =
+  | { target: 'tasks'; data: TaskInsert; tagNames: string[] }
+  | { target: 'courses'; data: CourseInsert }
+  | { target: 'grades'; data: CourseGradeInsert };
+
+export type ImportRow = {
+  line: number; // número de fila en el archivo (1 = primera fila de datos)
+  values: Record<string, string>;
+  errors: string[];
+  payload: ImportPayload | null;
+};
+
+/**
+ * Normaliza texto para comparar: sin acentos, minúsculas y con `_` como separador
+ */
+export function normalizeKey(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+}
+
+/**
+ * Lee el contenido de un archivo .csv o .json.
+ * Lanza un Error con mensaje legible si el formato no es válido.
+ */
+export function parseImportFile(fileName: string, text: string): ParsedFile {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('El archivo JSON no es válido.');
+    }
+
+    // Se acepta un array o un objeto con un único array adentro
+    let list: unknown = parsed;
+    if (!Array.isArray(list) && list && typeof list === 'object') {
+      list = Object.values(list).find(Array.isArray);
+    }
+    if (!Array.isArray(list)) {
+      throw new Error('El JSON debe contener una lista de objetos.');
+    }
+
+    const columns: string[] = [];
+    const records = list
+      .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+      .map((item) => {
+        const record: Record<string, string> = {};
+        for (const [key, value] of Object.entries(item)) {
+          if (!columns.includes(key)) columns.push(key);
+          record[key] = value === null || value === undefined ? '' : String(value);
+        }
+        return record;
+      });
+
+    return { columns, records };
+  }
+
+  const rows = parseCsv(text);
+  if (rows.length < 2) {
+    throw new Error('El CSV debe tener una fila de encabezados y al menos una fila de datos.');
+  }
+
+  const columns = rows[0].map((c) => c.trim());
+  const records = rows.slice(1).map((row) => {
+    const record: Record<string, string> = {};
+    columns.forEach((col, i) => {
+      record[col] = row[i] ?? '';
+    });
+    return record;
+  });
+
+  return { columns, records };
+}
+
+/**
+ * Sugiere una asignación de columnas comparando nombres y alias
+ */
+export function guessMapping(target: ImportTarget, columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const normalizedColumns = columns.map((c) => ({ original: c, key: normalizeKey(c) }));
+
+  for (const field of IMPORT_FIELDS[target]) {
+    const candidates = [field.key, normalizeKey(field.label), ...field.aliases];
+    const match = normalizedColumns.find((c) => candidates.includes(c.key));
+    mapping[field.key] = match?.original ?? '';
+  }
+
+  return mapping;
+}
+
+/**
+ * Convierte DD/MM/YYYY o DD-MM-YYYY a YYYY-MM-DD; deja el resto como está
+ */
+function normalizeDate(value: string): string {
+  const match = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (!match) return value;
+  const [, d, m, y] = match;
+  return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+}
+
+function parsePriority(value: string): Priority | null | undefined {
+  const key = normalizeKey(value);
+  if (!key) return null;
+  if (['alta', 'high', '3'].includes(key)) return 'high';
+  if (['media', 'medium', '2'].includes(key)) return 'medium';
+  if (['baja', 'low', '1'].includes(key)) return 'low';
+  return undefined;
+}
+
+function parseBoolean(value: string): boolean {
+  return ['si', 'yes', 'true', '1', 'x'].includes(normalizeKey(value));
+}
+
+type ValidateOptions = {
+  plan: Plan; // sin prioridades ni etiquetas en free, como en el alta de tareas
+  courses: Course[];
+  remaining: number; // cupo del plan (Infinity en premium)
+  limitMessage: string;
+  scale?: GradingScale; // escala en la que vienen las notas del archivo
+  termId?: string | null; // cuatrimestre de las materias importadas
+};
+
+/**
+ * Aplica la asignación de columnas y valida cada fila.
+ * Las filas que superan el cupo del plan quedan marcadas con error.
+ */
+export function validateImportRows(
+  target: ImportTarget,
+  records: Record<string, string>[],
+  mapping: ColumnMapping,
+  { plan, courses, remaining, limitMessage, scale = DEFAULT_GRADING_SCALE, termId = null }: ValidateOptions,
+): ImportRow[] {
+  const locked = new Set(lockedImportFields(target, plan));
+  const courseIds = new Map(courses.map((c) => [normalizeKey(c.name), c.id]));
+  const seenCourseNames = new Set(courseIds.keys());
+  let quota = remaining;
+
+  return records.map((record, i) => {
+    const values: Record<string, string> = {};
+    for (const field of IMPORT_FIELDS[target]) {
+      const column = locked.has(field.key) ? '' : mapping[field.key];
+      values[field.key] = column ? (record[column] ?? '').trim() : '';
+    }
+
+    const errors: string[] = [];
+    let payload: ImportPayload | null = null;
+    let countsTowardLimit = false;
+
+    if (target === 'tasks') {
+      const titleCheck = validateTaskTitle(values.title);
+      if (!titleCheck.valid) errors.push(titleCheck.error ?? 'Título inválido');
+
+      const descCheck = validateTaskDescription(values.description);
+      if (!descCheck.valid) errors.push(descCheck.error ?? 'Descripción inválida');
+
+      const dueDate = normalizeDate(values.due_date);
+      const dateCheck = validateDateFormat(dueDate);
+      if (!dateCheck.valid) errors.push(dateCheck.error ?? 'Fecha inválida');
+
+      let courseId: string | null = null;
+      if (values.course) {
+        courseId = courseIds.get(normalizeKey(values.course)) ?? null;
+        if (!courseId) errors.push(`Materia "${values.course}" no encontrada`);
+      }
+
+      const priority = parsePriority(values.priority);
+      if (priority === undefined) errors.push(`Prioridad "${values.priority}" inválida`);
+
+      const completed = parseBoolean(values.completed);
+      countsTowardLimit = !completed;
+
+      payload = {
+        target,
+        data: {
+          title: values.title,
+          description: values.description || null,
+          due_date: dueDate || null,
+          course_id: courseId,
+          priority: priority ?? 'medium',
+          completed,
+        },
+        tagNames: parseTagList(values.tags),
+      };
+    } else if (target === 'courses') {
+      const nameCheck = validateCourseName(values.name);
+      if (!nameCheck.valid) errors.push(nameCheck.error ?? 'Nombre inválido');
+
+      const colorCheck = validateColor(values.color);
+      if (!colorCheck.valid) errors.push(colorCheck.error ?? 'Color inválido');
+
+      const key = normalizeKey(values.name);
+      if (key && seenCourseNames.has(key)) {
+        errors.push('Ya existe una materia con ese nombre');
+      }
+      seenCourseNames.add(key);
+      countsTowardLimit = true;
+
+      payload = {
+        target,
+        data: { name: values.name, color: values.color || null, term_id: termId },
+      };
+    } else {
+      const courseId = courseIds.get(normalizeKey(values.course));
+      if (!values.course) errors.push('La materia es requerida');
+      else if (!courseId) errors.push(`Materia "${values.course}" no encontrada`);
+
+      const { grade, error: gradeError } = parseScaleInput(values.grade, scale);
+      if (grade === null) errors.push(gradeError ?? 'Nota inválida');
+
+      let examType: string | null = null;
+      if (values.exam_type) {
+        examType =
+          EXAM_TYPES.find((t) => normalizeKey(t) === normalizeKey(values.exam_type)) ?? null;
+        if (!examType) errors.push(`Tipo de evaluación "${values.exam_type}" desconocido`);
+      }
+
+      const examDate = normalizeDate(values.exam_date);
+      const dateCheck = validateDateFormat(examDate);
+      if (!dateCheck.valid) errors.push(dateCheck.error ?? 'Fecha inválida');
+
+      payload = {
+        target,
+        data: {
+          course_id: courseId ?? '',
+          grade: grade ?? 0,
+          exam_type: examType,
+          exam_date: examDate || null,
+        },
+      };
+    }
+
+    if (errors.length === 0 && countsTowardLimit) {
+      if (quota <= 0) errors.push(limitMessage);
+      else quota -= 1;
+    }
+
+    return {
+      line: i + 1,
+      values,
+      errors,
+      payload: errors.length === 0 ? payload : null,
+    };
+  });
+}
+
+// ---- importación de calendarios .ics ----
+
+export type IcsImportKind = 'task' | 'exam';
+
+const EXAM_KEYWORDS = ['examen', 'parcial', 'final', 'recuperatorio', 'globalizador', 'exam', 'midterm', 'quiz'];
+
+/**
+ * Sugiere si un evento es un examen o una tarea según su título
+ */
+export function guessIcsKind(summary: string): IcsImportKind {
+  const words = normalizeKey(summary).split('_');
+  return words.some((w) => EXAM_KEYWORDS.includes(w)) ? 'exam' : 'task';
+}
+
+/**
+ * Busca una materia cuyo nombre aparezca en el texto del evento
+ */
+export function guessCourseId(text: string, courses: Course[]): string | null {
+  const haystack = normalizeKey(text);
+  const match = courses
+    .filter((c) => normalizeKey(c.name) && haystack.includes(normalizeKey(c.name)))
+    .sort((a, b) => b.name.length - a.name.length)[0];
+  return match?.id ?? null;
+}
+
+/**
+ * Inserta una fila ya validada en la tabla que corresponde
+ */
+export async function insertImportPayload(
+  userId: string,
+  payload: ImportPayload,
+): Promise<DbResult<unknown>> {
+  switch (payload.target) {
+    case 'tasks': {
+      const created = await createTask(userId, payload.data);
+      if (created.error || payload.tagNames.length === 0) return created;
+
+      const tags = await ensureTags(userId, payload.tagNames);
+      if (tags.error) return tags;
+      return setTaskTags(userId, [created.data.id], tags.data.map((t) => t.id));
+    }
+    case 'courses':
+      return createCourse(userId, payload.data);
+    case 'grades':
+      return createCourseGrade(userId, payload.data);
+  }
+}
@@ -0,0 +1,314 @@
+// Reglas de las sesiones de Pomodoro compartidas entre páginas
+
+import type {
+  ExamPlan,
+  InterruptionReason,
+  PomodoroMode,
+  PomodoroPreset,
+  PomodoroSession,
+  PomodoroSettings,
+  PomodoroSound,
+  PomodoroTimerUpdate,
+  PomodoroTimes,
+  Task,
+} from './db';
+
+export type { PomodoroMode };
+
+export const POMODORO_MODE_LABELS: Record<PomodoroMode, string> = {
+  focus: 'Enfoque',
+  break: 'Descanso',
+  long_break: 'Descanso largo',
+};
+
+export const POMODORO_SOUND_LABELS: Record<PomodoroSound, string> = {
+  bell: 'Campana',
+  chime: 'Acorde',
+  beep: 'Pitido',
+  none: 'Sin sonido',
+};
+
+export const INTERRUPTION_REASON_LABELS: Record<InterruptionReason, string> = {
+  phone: 'Celular',
+  person: 'Alguien me habló',
+  internal: 'Me distraje',
+};
+
+export const INTERRUPTION_REASONS = Object.keys(INTERRUPTION_REASON_LABELS) as InterruptionReason[];
+
+// Límites de cada duración (minutos) y de las rondas por ciclo
+export const POMODORO_LIMITS = {
+  focus: { min: 1, max: 120 },
+  shortBreak: { min: 1, max: 60 },
+  longBreak: { min: 1, max: 90 },
+  rounds: { min: 0, max: 12 },
+} as const;
+
+// Tope de presets propios por usuario
+export const MAX_CUSTOM_PRESETS = 8;
+
+export const BUILTIN_POMODORO_PRESETS: PomodoroPreset[] = [
+  { id: 'classic', name: 'Clásico', focus: 25, shortBreak: 5, longBreak: 15, rounds: 4 },
+  { id: 'deep', name: 'Bloque largo', focus: 50, shortBreak: 10, longBreak: 10, rounds: 0 },
+  { id: 'sprint', name: 'Sprint', focus: 15, shortBreak: 3, longBreak: 10, rounds: 4 },
+];
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  ...BUILTIN_POMODORO_PRESETS[0],
+  autoStart: true,
+  presets: [],
+  sound: 'bell',
+  notify: false,
+};
+
+function clampTime(value: unknown, key: keyof PomodoroTimes): number {
+  const { min, max } = POMODORO_LIMITS[key];
+  if (typeof value !== 'number' || isNaN(value)) return DEFAULT_POMODORO_SETTINGS[key];
+  return Math.min(Math.max(Math.round(value), min), max);
+}
+
+function resolveTimes(saved: Partial<PomodoroTimes>): PomodoroTimes {
+  return {
+    focus: clampTime(saved.focus, 'focus'),
+    shortBreak: clampTime(saved.shortBreak, 'shortBreak'),
+    longBreak: clampTime(saved.longBreak, 'longBreak'),
+    rounds: clampTime(saved.rounds, 'rounds'),
+  };
+}
+
+export function isPomodoroSound(value: unknown): value is PomodoroSound {
+  // Solo claves propias: "toString" o "constructor" del JSON guardado no son sonidos
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(POMODORO_SOUND_LABELS, value);
+}
+
+/**
+ * Configuración efectiva (la guardada o la predeterminada) con valores dentro de los límites
+ */
+export function resolvePomodoroSettings(
+  saved: Partial<PomodoroSettings> | null | undefined,
+): PomodoroSettings {
+  if (!saved) return DEFAULT_POMODORO_SETTINGS;
+  const presets = Array.isArray(saved.presets) ? saved.presets : [];
+  return {
+    ...resolveTimes(saved),
+    autoStart: typeof saved.autoStart === 'boolean' ? saved.autoStart : DEFAULT_POMODORO_SETTINGS.autoStart,
+    sound: isPomodoroSound(saved.sound) ? saved.sound : DEFAULT_POMODORO_SETTINGS.sound,
+    notify: saved.notify === true,
+    presets: presets
+      .filter((p) => p && typeof p.id === 'string' && typeof p.name === 'string')
+      .slice(0, MAX_CUSTOM_PRESETS)
+      .map((p) => ({ id: p.id, name: p.name, ...resolveTimes(p) })),
+  };
+}
+
+/**
+ * Valida las duraciones antes de aplicarlas o guardarlas como preset
+ */
+export function validatePomodoroTimes(times: PomodoroTimes): string | null {
+  if (
+    [times.focus, times.shortBreak, times.longBreak, times.rounds].some(
+      (v) => !Number.isInteger(v),
+    )
+  ) {
+    return 'Las duraciones y las rondas deben ser números enteros.';
+  }
+  const labels: Record<keyof PomodoroTimes, string> = {
+    focus: 'El enfoque',
+    shortBreak: 'El descanso',
+    longBreak: 'El descanso largo',
+    rounds: 'Las rondas',
+  };
+  for (const key of Object.keys(labels) as (keyof PomodoroTimes)[]) {
+    const { min, max } = POMODORO_LIMITS[key];
+    if (times[key] < min || times[key] > max) {
+      return key === 'rounds'
+        ? `${labels[key]} por ciclo deben estar entre ${min} y ${max}.`
+        : `${labels[key]} debe durar entre ${min} y ${max} minutos.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resumen corto de un preset: "25/5/15×4" o "50/10" si no tiene descanso largo
+ */
+export function formatPomodoroTimes(times: PomodoroTimes): string {
+  const base = `${times.focus}/${times.shortBreak}`;
+  return times.rounds > 0 ? `${base}/${times.longBreak}×${times.rounds}` : base;
+}
+
+export function sameTimes(a: PomodoroTimes, b: PomodoroTimes): boolean {
+  return (
+    a.focus === b.focus &&
+    a.shortBreak === b.shortBreak &&
+    a.longBreak === b.longBreak &&
+    a.rounds === b.rounds
+  );
+}
+
+/**
+ * Minutos de una fase según la configuración
+ */
+export function phaseMinutes(mode: PomodoroMode, times: PomodoroTimes): number {
+  if (mode === 'focus') return times.focus;
+  return mode === 'long_break' ? times.longBreak : times.shortBreak;
+}
+
+/**
+ * Descanso que sigue a un enfoque: largo cuando se completa la última ronda del ciclo
+ */
+export function breakAfterFocus(completedRounds: number, rounds: number): PomodoroMode {
+  return rounds > 0 && completedRounds > 0 && completedRounds % rounds === 0 ? 'long_break' : 'break';
+}
+
+// Objetivo de estudio elegido en el Pomodoro: 'none', 'course:<id>' o 'plan:<id>'
+export type PomodoroTargetValue = 'none' | `course:${string}` | `plan:${string}`;
+
+export type PomodoroTarget = { kind: 'course' | 'plan'; id: string } | null;
+
+export function parsePomodoroTarget(value: string): PomodoroTarget {
+  const [kind, id] = value.split(':');
+  if ((kind === 'course' || kind === 'plan') && id) return { kind, id };
+  return null;
+}
+
+export function pomodoroTargetValue(target: PomodoroTarget): PomodoroTargetValue {
+  return target ? `${target.kind}:${target.id}` : 'none';
+}
+
+/**
+ * Materia a la que cuenta una sesión: la guardada en la sesión o, en las
+ * sesiones anteriores a ese campo, la de su tarea
+ */
+export function sessionCourseId(
+  session: PomodoroSession,
+  taskCourseMap: Map<string, string>,
+): string | null {
+  if (session.course_id) return session.course_id;
+  return session.task_id ? taskCourseMap.get(session.task_id) ?? null : null;
+}
+
+/**
+ * Minutos enfocados por materia (course_id → minutos); `since` limita por fecha de inicio
+ */
+export function minutesByCourse(
+  sessions: PomodoroSession[],
+  taskCourseMap: Map<string, string>,
+  since?: string,
+): Map<string, number> {
+  const minutes = new Map<string, number>();
+  sessions.forEach((s) => {
+    if (since && s.started_at < since) return;
+    const courseId = sessionCourseId(s, taskCourseMap);
+    if (!courseId) return;
+    minutes.set(courseId, (minutes.get(courseId) ?? 0) + (s.duration_minutes || 0));
+  });
+  return minutes;
+}
+
+/**
+ * Vínculos que se guardan con la sesión según la tarea y el objetivo elegidos.
+ * Un examen fija también su materia; si no la tiene, la materia sale de la tarea.
+ */
+export function sessionLinks(
+  taskId: string | null,
+  tasks: Task[],
+  target: PomodoroTarget,
+  plans: ExamPlan[],
+): Pick<PomodoroSession, 'task_id' | 'course_id' | 'exam_plan_id'> {
+  const task = taskId ? tasks.find((t) => t.id === taskId) ?? null : null;
+  const plan = target?.kind === 'plan' ? plans.find((p) => p.id === target.id) ?? null : null;
+  const courseId =
+    target?.kind === 'course' ? target.id : plan?.course_id ?? task?.course_id ?? null;
+
+  return {
+    task_id: taskId,
+    course_id: courseId,
+    exam_plan_id: target?.kind === 'plan' ? target.id : null,
+  };
+}
+
+export type FocusQuality = {
+  completed: number;
+  aborted: number;
+  interruptions: Record<InterruptionReason, number>;
+};
+
+function emptyQuality(): FocusQuality {
+  return { completed: 0, aborted: 0, interruptions: { phone: 0, person: 0, internal: 0 } };
+}
+
+/**
+ * Enfoques completos, cortados e interrupciones por día (YYYY-MM-DD de inicio)
+ */
+export function focusQualityByDay(sessions: PomodoroSession[]): Map<string, FocusQuality> {
+  const byDay = new Map<string, FocusQuality>();
+  sessions.forEach((s) => {
+    const day = s.started_at.slice(0, 10);
+    const quality = byDay.get(day) ?? emptyQuality();
+    if (s.status === 'aborted') quality.aborted++;
+    else quality.completed++;
+    (s.interruptions ?? []).forEach((i) => {
+      // El jsonb puede traer motivos desconocidos: solo se cuentan los de la lista
+      if (INTERRUPTION_REASONS.includes(i.reason)) quality.interruptions[i.reason]++;
+    });
+    byDay.set(day, quality);
+  });
+  return byDay;
+}
+
+/**
+ * % de enfoques terminados sin cortar (null sin sesiones)
+ */
+export function completionRate(sessions: PomodoroSession[]): number | null {
+  if (sessions.length === 0) return null;
+  const completed = sessions.filter((s) => s.status !== 'aborted').length;
+  return Math.round((completed / sessions.length) * 100);
+}
+
+// ---- sincronización del timer entre pestañas y dispositivos ----
+
+export const POMODORO_SYNC_CHANNEL = 'taskademic:pomodoro';
+
+/**
+ * Clave de los cambios que se comparten: con el timer corriendo el tiempo restante
+ * no cuenta, porque cada pestaña lo descuenta sola
+ */
+export function timerKey(
+  mode: PomodoroMode,
+  isRunning: boolean,
+  cycleStart: number | null,
+  completedRounds: number,
+  remainingSeconds: number,
+): string {
+  return [mode, isRunning, cycleStart ?? '', completedRounds, isRunning ? '' : remainingSeconds].join('|');
+}
+
+/**
+ * Segundos que le quedan a la fase de un estado recibido, a la hora `now` (ms)
+ */
+export function remainingAt(timer: PomodoroTimerUpdate, now: number): number {
+  if (!timer.is_running) return Math.max(0, timer.remaining_seconds);
+  const elapsed = (now - Date.parse(timer.updated_at)) / 1000;
+  return Math.max(0, Math.ceil(timer.remaining_seconds - Math.max(0, elapsed)));
+}
+
+export type TimerChannel = {
+  post: (timer: PomodoroTimerUpdate) => void;
+  close: () => void;
+};
+
+/**
+ * Canal entre pestañas del mismo navegador (sin BroadcastChannel no hace nada)
+ */
+export function openTimerChannel(onMessage: (timer: PomodoroTimerUpdate) => void): TimerChannel {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { post: () => {}, close: () => {} };
+  }
+  const channel = new BroadcastChannel(POMODORO_SYNC_CHANNEL);
+  channel.onmessage = (event: MessageEvent<PomodoroTimerUpdate>) => onMessage(event.data);
+  return {
+    post: (timer) => channel.postMessage(timer),
+    close: () => channel.close(),
+  };
+}
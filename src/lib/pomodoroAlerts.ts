@@ -0,0 +1,175 @@
+// Avisos de fin de fase del Pomodoro: sonido en la página y un Service Worker
+// (public/pomodoro-sw.js) que notifica y registra el enfoque aunque la pestaña
+// esté dormida o cerrada
+
+import type { PomodoroMode, PomodoroSessionInsert, PomodoroSound } from './db';
+import { supabaseAnonKey, supabaseClient, supabaseUrl } from './supabaseClient';
+
+export const POMODORO_SW_URL = '/pomodoro-sw.js';
+
+// Cada cuánto la página le renueva la fase al worker mientras el timer corre
+export const PHASE_ALERT_REFRESH_MS = 20_000;
+
+export type PhaseAlertAction = 'start' | 'skip';
+
+/**
+ * Lo que el worker necesita para avisar el fin de fase y, si era un enfoque, registrarlo
+ */
+export type PhaseAlert = {
+  mode: PomodoroMode;
+  endsAt: number; // ms
+  title: string;
+  body: string;
+  actions: { action: PhaseAlertAction; title: string }[];
+  notify: boolean;
+  session: (PomodoroSessionInsert & { user_id: string }) | null;
+  auth: { url: string; anonKey: string; accessToken: string } | null;
+};
+
+// Mensaje del worker cuando se toca una acción de la notificación
+export type PhaseAlertMessage = {
+  type: 'pomodoro:action';
+  action: PhaseAlertAction;
+  mode: PomodoroMode;
+};
+
+export function isPhaseAlertAction(value: unknown): value is PhaseAlertAction {
+  return value === 'start' || value === 'skip';
+}
+
+/**
+ * Textos y acciones de la notificación al terminar `mode` (la siguiente fase es `nextMode`)
+ */
+export function phaseAlertText(
+  mode: PomodoroMode,
+  nextMode: PomodoroMode,
+): Pick<PhaseAlert, 'title' | 'body' | 'actions'> {
+  if (mode === 'focus') {
+    const long = nextMode === 'long_break';
+    return {
+      title: 'Terminó el enfoque',
+      body: long ? 'Completaste el ciclo: toca un descanso largo.' : 'Buen trabajo, tomate un descanso.',
+      actions: [
+        { action: 'start', title: long ? 'Empezar descanso largo' : 'Empezar descanso' },
+        { action: 'skip', title: 'Saltar' },
+      ],
+    };
+  }
+  return {
+    title: 'Terminó el descanso',
+    body: 'Es hora de volver a enfocarse.',
+    actions: [{ action: 'start', title: 'Empezar enfoque' }],
+  };
+}
+
+function workerSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+/**
+ * Registra el worker del Pomodoro (null si el navegador no lo soporta)
+ */
+export async function registerPomodoroWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!workerSupported()) return null;
+  try {
+    await navigator.serviceWorker.register(POMODORO_SW_URL);
+    return await navigator.serviceWorker.ready;
+  } catch {
+    return null;
+  }
+}
+
+async function postToWorker(message: unknown): Promise<void> {
+  if (!workerSupported()) return;
+  const registration = await navigator.serviceWorker.getRegistration(POMODORO_SW_URL);
+  registration?.active?.postMessage(message);
+}
+
+/**
+ * Datos para que el worker escriba en Supabase con la sesión del usuario
+ */
+export async function phaseAlertAuth(): Promise<PhaseAlert['auth']> {
+  const { data } = await supabaseClient.auth.getSession();
+  const accessToken = data.session?.access_token;
+  return accessToken ? { url: supabaseUrl, anonKey: supabaseAnonKey, accessToken } : null;
+}
+
+/**
+ * Programa (o reemplaza) el aviso de la fase en curso
+ */
+export function schedulePhaseAlert(alert: PhaseAlert): Promise<void> {
+  return postToWorker({ type: 'pomodoro:schedule', alert });
+}
+
+export function cancelPhaseAlert(): Promise<void> {
+  return postToWorker({ type: 'pomodoro:cancel' });
+}
+
+/**
+ * Escucha las acciones tocadas en las notificaciones. Devuelve la función que deja de escuchar.
+ */
+export function listenPhaseAlertActions(onAction: (message: PhaseAlertMessage) => void): () => void {
+  if (!workerSupported()) return () => {};
+
+  const handleMessage = (event: MessageEvent<PhaseAlertMessage>) => {
+    if (event.data?.type === 'pomodoro:action' && isPhaseAlertAction(event.data.action)) {
+      onAction(event.data);
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+}
+
+/**
+ * Pide permiso para notificar; true si quedó concedido
+ */
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+type Note = { freq: number; at: number; duration: number; type: OscillatorType };
+
+const SOUND_NOTES: Record<Exclude<PomodoroSound, 'none'>, Note[]> = {
+  bell: [
+    { freq: 880, at: 0, duration: 1.2, type: 'sine' },
+    { freq: 880, at: 0.6, duration: 1.2, type: 'sine' },
+  ],
+  chime: [
+    { freq: 523.25, at: 0, duration: 0.5, type: 'triangle' },
+    { freq: 659.25, at: 0.18, duration: 0.5, type: 'triangle' },
+    { freq: 783.99, at: 0.36, duration: 0.9, type: 'triangle' },
+  ],
+  beep: [
+    { freq: 1000, at: 0, duration: 0.15, type: 'square' },
+    { freq: 1000, at: 0.3, duration: 0.15, type: 'square' },
+    { freq: 1000, at: 0.6, duration: 0.15, type: 'square' },
+  ],
+};
+
+/**
+ * Toca el sonido elegido con Web Audio
+ */
+export function playPomodoroSound(sound: PomodoroSound): void {
+  if (sound === 'none' || typeof AudioContext === 'undefined') return;
+
+  const ctx = new AudioContext();
+  const notes = SOUND_NOTES[sound];
+  notes.forEach((note) => {
+    const start = ctx.currentTime + note.at;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = note.type;
+    osc.frequency.value = note.freq;
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + note.duration);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(start);
+    osc.stop(start + note.duration);
+  });
+
+  const totalSeconds = Math.max(...notes.map((n) => n.at + n.duration));
+  setTimeout(() => ctx.close(), (totalSeconds + 0.2) * 1000);
+}
@@ -0,0 +1,329 @@
+// Alta rápida de tareas: una frase en español o inglés se separa en campos
+//
+// Ejemplo: Entregar TP2 de Álgebra el viernes !alta #lab
+// - Fecha: hoy, mañana, pasado mañana, el viernes, próximo lunes, en 3 días,
+//   la semana que viene, 3 de noviembre, 3/11, 2026-11-03 (y sus equivalentes en inglés)
+// - Materia: el nombre de una de tus materias (o el comienzo, después de "de", "para" o @)
+// - Prioridad: !alta, !media, !baja (o !high, !medium, !low)
+// - Etiquetas: #lab
+// Lo que queda es el título.
+
+import type { Course, Priority } from './db';
+import { addDays } from './recurrence';
+import { normalizeTagName, tagKey } from './tags';
+
+export type QuickAddResult = {
+  title: string;
+  due_date: string | null;
+  course_id: string | null;
+  priority: Priority | null; // null = sin indicar (se usa la de siempre)
+  tags: string[];
+};
+
+const PRIORITY_WORDS: Record<string, Priority> = {
+  alta: 'high',
+  high: 'high',
+  media: 'medium',
+  medium: 'medium',
+  baja: 'low',
+  low: 'low',
+};
+
+// Domingo = 0, como Date.getUTCDay
+const WEEKDAYS: Record<string, number> = {
+  domingo: 0,
+  lunes: 1,
+  martes: 2,
+  miercoles: 3,
+  jueves: 4,
+  viernes: 5,
+  sabado: 6,
+  sunday: 0,
+  monday: 1,
+  tuesday: 2,
+  wednesday: 3,
+  thursday: 4,
+  friday: 5,
+  saturday: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  enero: 1,
+  febrero: 2,
+  marzo: 3,
+  abril: 4,
+  mayo: 5,
+  junio: 6,
+  julio: 7,
+  agosto: 8,
+  septiembre: 9,
+  setiembre: 9,
+  octubre: 10,
+  noviembre: 11,
+  diciembre: 12,
+  january: 1,
+  february: 2,
+  march: 3,
+  april: 4,
+  may: 5,
+  june: 6,
+  july: 7,
+  august: 8,
+  september: 9,
+  october: 10,
+  november: 11,
+  december: 12,
+  ene: 1,
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  abr: 4,
+  apr: 4,
+  jun: 6,
+  jul: 7,
+  ago: 8,
+  aug: 8,
+  sep: 9,
+  sept: 9,
+  oct: 10,
+  nov: 11,
+  dic: 12,
+  dec: 12,
+};
+
+const UNIT_DAYS: Record<string, number> = {
+  dia: 1,
+  dias: 1,
+  day: 1,
+  days: 1,
+  semana: 7,
+  semanas: 7,
+  week: 7,
+  weeks: 7,
+};
+
+const NUMBER_WORDS: Record<string, number> = { un: 1, una: 1, a: 1, one: 1, dos: 2, two: 2, tres: 3, three: 3 };
+
+// Palabras que se van con la fecha o la materia ("para el viernes", "de Álgebra")
+const DATE_CONNECTORS = new Set(['el', 'la', 'para', 'hasta', 'antes', 'del', 'on', 'by', 'due', 'this', 'este', 'esta']);
+const COURSE_CONNECTORS = new Set(['de', 'del', 'para', 'of', 'for']);
+
+const NEXT_WORDS = new Set(['proximo', 'proxima', 'next']);
+
+type DateMatch = { date: string; length: number };
+
+function searchKey(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[.,;:]+$/, '');
+}
+
+// Solo claves propias (que "constructor" no cuente como palabra conocida)
+function lookup<T>(table: Record<string, T>, key: string | undefined): T | undefined {
+  return key !== undefined && Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * Fecha válida del calendario en formato YYYY-MM-DD (null si no existe, p. ej. 31/02)
+ */
+function buildDate(year: number, month: number, day: number): string | null {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Día y mes sin año: el de este año, o el del próximo si ya pasó
+ */
+function upcomingDate(today: string, month: number, day: number, year?: number): string | null {
+  if (year !== undefined) return buildDate(year < 100 ? 2000 + year : year, month, day);
+  const thisYear = Number(today.slice(0, 4));
+  const date = buildDate(thisYear, month, day);
+  if (date && date < today) return buildDate(thisYear + 1, month, day);
+  return date;
+}
+
+/**
+ * Próximo día de la semana después de hoy ("el lunes" dicho un lunes es el de la semana que viene)
+ */
+function nextWeekday(today: string, weekday: number): string {
+  return addDays(today, ((weekday - weekdayOf(today) + 6) % 7) + 1);
+}
+
+function dayNumber(key: string | undefined): number | null {
+  const match = key?.match(/^(\d{1,2})(?:st|nd|rd|th|°|º)?$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Reconoce una fecha que empieza en la palabra `i`
+ */
+function matchDate(keys: string[], i: number, today: string): DateMatch | null {
+  const [k0, k1, k2] = keys.slice(i, i + 3);
+
+  if (k0 === 'hoy' || k0 === 'today') return { date: today, length: 1 };
+  if (k0 === 'pasado' && k1 === 'manana') return { date: addDays(today, 2), length: 2 };
+  if (k0 === 'day' && k1 === 'after' && k2 === 'tomorrow') return { date: addDays(today, 2), length: 3 };
+  if (k0 === 'manana' || k0 === 'tomorrow') return { date: addDays(today, 1), length: 1 };
+
+  // Semana que viene / próxima semana / next week
+  if (k0 === 'semana' && k1 === 'que' && k2 === 'viene') return { date: addDays(today, 7), length: 3 };
+  if (NEXT_WORDS.has(k0) && (k1 === 'semana' || k1 === 'week')) return { date: addDays(today, 7), length: 2 };
+
+  // Día de la semana: "viernes", "próximo viernes", "viernes que viene", "next friday"
+  const afterNext = NEXT_WORDS.has(k0) ? lookup(WEEKDAYS, k1) : undefined;
+  if (afterNext !== undefined) return { date: nextWeekday(today, afterNext), length: 2 };
+  const weekday = lookup(WEEKDAYS, k0);
+  if (weekday !== undefined) {
+    if (k1 === 'que' && k2 === 'viene') return { date: nextWeekday(today, weekday), length: 3 };
+    return { date: nextWeekday(today, weekday), length: NEXT_WORDS.has(k1) ? 2 : 1 };
+  }
+
+  // "en 3 días", "in 2 weeks", "en una semana"
+  if (k0 === 'en' || k0 === 'in') {
+    const amount = /^\d+$/.test(k1 ?? '') ? Number(k1) : lookup(NUMBER_WORDS, k1);
+    const unit = lookup(UNIT_DAYS, k2);
+    if (amount && unit) return { date: addDays(today, amount * unit), length: 3 };
+  }
+
+  // 2026-11-03
+  const iso = k0?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const date = buildDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    return date ? { date, length: 1 } : null;
+  }
+
+  // 3/11 o 3/11/2026 (día/mes)
+  const slash = k0?.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+  if (slash) {
+    const date = upcomingDate(today, Number(slash[2]), Number(slash[1]), slash[3] ? Number(slash[3]) : undefined);
+    return date ? { date, length: 1 } : null;
+  }
+
+  // "3 de noviembre (de 2026)", "3 nov", "3rd november"
+  const day = dayNumber(k0);
+  if (day !== null) {
+    const hasDe = k1 === 'de';
+    const month = lookup(MONTHS, hasDe ? k2 : k1);
+    if (month) {
+      const length = hasDe ? 3 : 2;
+      const yearKeys = keys.slice(i + length, i + length + 2);
+      const year = yearKeys[0] === 'de' && /^\d{4}$/.test(yearKeys[1] ?? '') ? Number(yearKeys[1]) : undefined;
+      const date = upcomingDate(today, month, day, year);
+      return date ? { date, length: year !== undefined ? length + 2 : length } : null;
+    }
+  }
+
+  // "november 3", "nov 3rd"
+  const monthFirst = lookup(MONTHS, k0);
+  if (monthFirst !== undefined) {
+    const monthDay = dayNumber(k1);
+    if (monthDay !== null) {
+      const year = /^\d{4}$/.test(k2 ?? '') ? Number(k2) : undefined;
+      const date = upcomingDate(today, monthFirst, monthDay, year);
+      return date ? { date, length: year !== undefined ? 3 : 2 } : null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Busca la materia: primero el nombre completo en cualquier parte;
+ * si no, el comienzo del nombre después de "de", "para" o con @ (solo si es una única materia)
+ */
+function matchCourse(
+  keys: string[],
+  free: (i: number, length?: number) => boolean,
+  courses: Course[],
+): { course: Course; start: number; length: number } | null {
+  const byLength = [...courses].sort((a, b) => b.name.length - a.name.length);
+
+  for (const course of byLength) {
+    const nameKeys = course.name.trim().split(/\s+/).map(searchKey);
+    for (let i = 0; i + nameKeys.length <= keys.length; i++) {
+      const found = free(i, nameKeys.length) && nameKeys.every((k, j) => keys[i + j].replace(/^@/, '') === k);
+      if (found) return { course, start: i, length: nameKeys.length };
+    }
+  }
+
+  for (let i = 0; i < keys.length; i++) {
+    if (!free(i)) continue;
+    const mention = keys[i].startsWith('@');
+    const prefix = keys[i].replace(/^@/, '');
+    if (prefix.length < 3 || (!mention && !(i > 0 && COURSE_CONNECTORS.has(keys[i - 1])))) continue;
+
+    const candidates = courses.filter((c) => searchKey(c.name).startsWith(prefix));
+    if (candidates.length === 1) return { course: candidates[0], start: i, length: 1 };
+  }
+
+  return null;
+}
+
+/**
+ * Separa la frase en título, fecha, materia, prioridad y etiquetas
+ */
+export function parseQuickAdd(input: string, ctx: { today: string; courses: Course[] }): QuickAddResult {
+  const words = input.trim().split(/\s+/).filter(Boolean);
+  const keys = words.map(searchKey);
+  const used = words.map(() => false);
+  // true si las palabras [i, i + length) existen y no se usaron para otro campo
+  const free = (i: number, length = 1) =>
+    i >= 0 && i + length <= words.length && used.slice(i, i + length).every((u) => !u);
+
+  let priority: Priority | null = null;
+  const tags: string[] = [];
+
+  words.forEach((word, i) => {
+    const wordPriority = word.startsWith('!') ? lookup(PRIORITY_WORDS, keys[i].slice(1)) : undefined;
+    if (wordPriority) {
+      priority = wordPriority;
+      used[i] = true;
+    } else if (word.startsWith('#') && word.length > 1) {
+      const name = normalizeTagName(word.replace(/[.,;:]+$/, ''));
+      if (name && !tags.some((t) => tagKey(t) === tagKey(name))) tags.push(name);
+      used[i] = true;
+    }
+  });
+
+  // La primera fecha que aparezca, con el "el" / "para el" que la precede
+  let due_date: string | null = null;
+  for (let i = 0; i < words.length && !due_date; i++) {
+    const match = free(i) ? matchDate(keys, i, ctx.today) : null;
+    if (!match || !free(i, match.length)) continue;
+
+    due_date = match.date;
+    for (let j = i; j < i + match.length; j++) used[j] = true;
+    for (let j = i - 1; j >= i - 2 && free(j) && DATE_CONNECTORS.has(keys[j]); j--) used[j] = true;
+  }
+
+  const courseMatch = matchCourse(keys, free, ctx.courses);
+  if (courseMatch) {
+    const { start, length } = courseMatch;
+    for (let j = start; j < start + length; j++) used[j] = true;
+    if (free(start - 1) && COURSE_CONNECTORS.has(keys[start - 1])) used[start - 1] = true;
+  }
+
+  const title = words
+    .filter((_, i) => !used[i])
+    .join(' ')
+    .replace(/[\s,;:]+$/, '');
+
+  return {
+    title,
+    due_date,
+    course_id: courseMatch?.course.id ?? null,
+    priority,
+    tags,
+  };
+}
@@ -0,0 +1,246 @@
+// Reglas de repetición de tareas (subconjunto de RRULE: diaria / semanal)
+
+import type { RecurrenceFrequency, RecurrenceRule, Task, TaskInsert } from './db';
+
+export const WEEKDAY_LABELS = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+
+// Tope de seguridad para reglas sin fin al recorrer ocurrencias
+const MAX_ITERATIONS = 2000;
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  const d = parseDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return formatDate(d);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / 86_400_000);
+}
+
+function weekdayOf(date: string): number {
+  return parseDate(date).getUTCDay();
+}
+
+/**
+ * Recorre en orden las ocurrencias de la regla desde `from` (inclusive).
+ * La primera ocurrencia siempre es `start`, aunque no caiga en uno de los días elegidos.
+ * Se salta directo al primer período en o después de `from`: una serie vieja no agota el tope.
+ */
+function* iterateOccurrences(rule: RecurrenceRule, from: string): Generator<string> {
+  const interval = Math.max(1, rule.interval);
+  const max = rule.count ?? Infinity;
+
+  // `index` es la posición en la serie (start es la 0), para respetar `count`
+  const accept = (date: string, index: number) => {
+    if (rule.until && date > rule.until) return false;
+    return index < max;
+  };
+
+  if (from <= rule.start) {
+    if (!accept(rule.start, 0)) return;
+    yield rule.start;
+  }
+
+  if (rule.freq === 'daily') {
+    const first = Math.max(1, Math.ceil(daysBetween(rule.start, from) / interval));
+    for (let i = first; i < first + MAX_ITERATIONS; i++) {
+      const date = addDays(rule.start, i * interval);
+      if (!accept(date, i)) return;
+      yield date;
+    }
+    return;
+  }
+
+  const weekdays =
+    rule.weekdays && rule.weekdays.length > 0
+      ? [...rule.weekdays].sort((a, b) => a - b)
+      : [weekdayOf(rule.start)];
+  const startDay = weekdayOf(rule.start);
+  const firstWeek = addDays(rule.start, -startDay);
+  const firstWeekCount = weekdays.filter((wd) => wd > startDay).length;
+
+  // Ocurrencias anteriores a la semana de `from`: start, el resto de su semana y las semanas completas
+  const fromWeek = Math.max(0, Math.floor(daysBetween(firstWeek, from) / (7 * interval)));
+  let index = fromWeek === 0 ? 1 : 1 + firstWeekCount + (fromWeek - 1) * weekdays.length;
+
+  for (let week = fromWeek; week < fromWeek + MAX_ITERATIONS; week++) {
+    const base = addDays(firstWeek, week * 7 * interval);
+    for (const wd of weekdays) {
+      const date = addDays(base, wd);
+      if (date <= rule.start) continue;
+      if (date >= from) {
+        if (!accept(date, index)) return;
+        yield date;
+      }
+      index += 1;
+    }
+  }
+}
+
+/**
+ * Primera ocurrencia posterior a `after`, o null si la regla ya terminó
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: string): string | null {
+  const next = iterateOccurrences(rule, addDays(after, 1)).next();
+  return next.done ? null : next.value;
+}
+
+/**
+ * Ocurrencias dentro del rango [from, to] (ambos inclusive)
+ */
+export function occurrencesBetween(rule: RecurrenceRule, from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (const date of iterateOccurrences(rule, from)) {
+    if (date > to) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Descripción corta para mostrar en tarjetas ("Cada 2 semanas: Lun, Mié")
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  let text: string;
+  if (rule.freq === 'daily') {
+    text = rule.interval > 1 ? `Cada ${rule.interval} días` : 'Todos los días';
+  } else {
+    text = rule.interval > 1 ? `Cada ${rule.interval} semanas` : 'Cada semana';
+    const days = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [weekdayOf(rule.start)];
+    text += `: ${[...days].sort((a, b) => a - b).map((d) => WEEKDAY_LABELS[d]).join(', ')}`;
+  }
+
+  if (rule.until) text += ` hasta el ${rule.until}`;
+  else if (rule.count) text += ` (${rule.count} veces)`;
+  return text;
+}
+
+/**
+ * Arma la siguiente ocurrencia de una tarea recurrente, o null si no corresponde
+ */
+export function buildNextOccurrence(task: Task): TaskInsert | null {
+  if (!task.recurrence || !task.due_date) return null;
+
+  const next = nextOccurrence(task.recurrence, task.due_date);
+  if (!next) return null;
+
+  return {
+    title: task.title,
+    description: task.description,
+    due_date: next,
+    course_id: task.course_id,
+    priority: task.priority,
+    recurrence: task.recurrence,
+    series_id: task.series_id,
+  };
+}
+
+export type ProjectedOccurrence = {
+  date: string; // YYYY-MM-DD
+  task: Task; // última ocurrencia real de la serie (sirve de plantilla)
+};
+
+/**
+ * Ocurrencias futuras que todavía no existen como fila, dentro de [from, to].
+ * Se proyectan desde la última tarea guardada de cada serie.
+ */
+export function projectOccurrences(tasks: Task[], from: string, to: string): ProjectedOccurrence[] {
+  const latestBySeries = new Map<string, Task>();
+  for (const t of tasks) {
+    if (!t.series_id || !t.recurrence || !t.due_date) continue;
+    const current = latestBySeries.get(t.series_id);
+    if (!current || (current.due_date ?? '') < t.due_date) latestBySeries.set(t.series_id, t);
+  }
+
+  const projected: ProjectedOccurrence[] = [];
+  for (const task of latestBySeries.values()) {
+    const after = addDays(task.due_date as string, 1);
+    const start = after > from ? after : from;
+    for (const date of occurrencesBetween(task.recurrence as RecurrenceRule, start, to)) {
+      projected.push({ date, task });
+    }
+  }
+  return projected;
+}
+
+// ---- formulario de repetición ----
+
+export type RecurrenceEnd = 'never' | 'until' | 'count';
+
+/** Estado editable de la regla en los modales (los números quedan como texto) */
+export type RecurrenceDraft = {
+  freq: 'none' | RecurrenceFrequency;
+  interval: string;
+  weekdays: number[];
+  end: RecurrenceEnd;
+  until: string;
+  count: string;
+};
+
+export const EMPTY_RECURRENCE_DRAFT: RecurrenceDraft = {
+  freq: 'none',
+  interval: '1',
+  weekdays: [],
+  end: 'never',
+  until: '',
+  count: '',
+};
+
+export function draftFromRule(rule: RecurrenceRule | null): RecurrenceDraft {
+  if (!rule) return EMPTY_RECURRENCE_DRAFT;
+  return {
+    freq: rule.freq,
+    interval: String(rule.interval),
+    weekdays: rule.weekdays ?? [],
+    end: rule.until ? 'until' : rule.count ? 'count' : 'never',
+    until: rule.until ?? '',
+    count: rule.count ? String(rule.count) : '',
+  };
+}
+
+/**
+ * Valida el formulario y arma la regla. `start` es la fecha límite de la tarea.
+ */
+export function ruleFromDraft(
+  draft: RecurrenceDraft,
+  start: string,
+): { rule: RecurrenceRule | null; error?: string } {
+  if (draft.freq === 'none') return { rule: null };
+
+  if (!start) {
+    return { rule: null, error: 'Las tareas que se repiten necesitan una fecha límite' };
+  }
+
+  const interval = parseInt(draft.interval, 10);
+  if (isNaN(interval) || interval < 1 || interval > 52) {
+    return { rule: null, error: 'La frecuencia debe ser un número entre 1 y 52' };
+  }
+
+  const rule: RecurrenceRule = { freq: draft.freq, interval, start };
+  if (draft.freq === 'weekly') {
+    rule.weekdays = draft.weekdays.length > 0 ? [...draft.weekdays].sort((a, b) => a - b) : [weekdayOf(start)];
+  }
+
+  if (draft.end === 'until') {
+    if (!draft.until || draft.until < start) {
+      return { rule: null, error: 'La fecha de fin debe ser posterior a la fecha límite' };
+    }
+    rule.until = draft.until;
+  } else if (draft.end === 'count') {
+    const count = parseInt(draft.count, 10);
+    if (isNaN(count) || count < 1 || count > 365) {
+      return { rule: null, error: 'La cantidad de repeticiones debe estar entre 1 y 365' };
+    }
+    rule.count = count;
+  }
+
+  return { rule };
+}
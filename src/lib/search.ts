@@ -0,0 +1,230 @@
+// Buscador global: índice de tareas, subtareas, tareas de proyectos, materias,
+// planes de examen y notas, con coincidencias sin distinguir acentos
+
+import type {
+  Course,
+  CourseGrade,
+  ExamPlan,
+  GradingScale,
+  Project,
+  ProjectTask,
+  Subtask,
+  Task,
+} from './db';
+import { formatGrade } from './gradingScales';
+import type { TermSelection } from './terms';
+
+export type SearchKind = 'task' | 'subtask' | 'project_task' | 'course' | 'exam_plan' | 'grade';
+
+export type SearchItem = {
+  id: string;
+  kind: SearchKind;
+  title: string;
+  detail: string | null; // línea secundaria (materia, proyecto, fecha...)
+  body: string | null; // texto extra donde también se busca (descripciones)
+  href: string; // página a la que lleva
+  elementId: string; // id del elemento a enfocar en esa página
+  // Cuatrimestre en el que la página lo muestra: undefined en todos, null solo con "Todos"
+  termId?: string | null;
+  done: boolean;
+};
+
+export type SearchData = {
+  tasks: Task[];
+  subtasks: Subtask[];
+  courses: Course[];
+  examPlans: ExamPlan[];
+  projects: Project[];
+  projectTasks: ProjectTask[];
+  grades: CourseGrade[];
+};
+
+export const SEARCH_KIND_LABELS: Record<SearchKind, string> = {
+  task: 'Tarea',
+  subtask: 'Subtarea',
+  project_task: 'Proyecto',
+  course: 'Materia',
+  exam_plan: 'Examen',
+  grade: 'Nota',
+};
+
+// Desempate entre tipos cuando la coincidencia es igual de buena
+const KIND_WEIGHT: Record<SearchKind, number> = {
+  task: 6,
+  project_task: 5,
+  course: 4,
+  exam_plan: 4,
+  subtask: 3,
+  grade: 2,
+};
+
+function fold(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function formatDate(date: string): string {
+  return new Date(date + 'T00:00:00').toLocaleDateString('es-AR', { day: 'numeric', month: 'short' });
+}
+
+function joinDetail(parts: (string | null | undefined)[]): string | null {
+  const present = parts.filter((p): p is string => !!p);
+  return present.length > 0 ? present.join(' · ') : null;
+}
+
+/**
+ * Arma la lista de resultados posibles a partir de los datos del usuario.
+ * Las notas se muestran en la escala del usuario.
+ */
+export function buildSearchItems(data: SearchData, scale: GradingScale): SearchItem[] {
+  const courseNames = new Map(data.courses.map((c) => [c.id, c.name]));
+  const courseTerms = new Map(data.courses.map((c) => [c.id, c.term_id]));
+  const taskById = new Map(data.tasks.map((t) => [t.id, t]));
+  const projectNames = new Map(data.projects.map((p) => [p.id, p.name]));
+  const courseName = (id: string | null) => (id ? courseNames.get(id) : null);
+  // Tareas y notas se filtran por el cuatrimestre de su materia; sin materia se ven siempre
+  const courseTerm = (id: string | null | undefined) => (id ? courseTerms.get(id) : undefined);
+
+  return [
+    ...data.tasks.map((t): SearchItem => ({
+      id: t.id,
+      kind: 'task',
+      title: t.title,
+      detail: joinDetail([courseName(t.course_id), t.due_date && `Vence ${formatDate(t.due_date)}`]),
+      body: t.description,
+      href: '/tasks',
+      elementId: `tarea-${t.id}`,
+      termId: courseTerm(t.course_id),
+      done: t.completed,
+    })),
+    ...data.subtasks.map((s): SearchItem => ({
+      id: s.id,
+      kind: 'subtask',
+      title: s.title,
+      detail: taskById.has(s.task_id) ? `En “${taskById.get(s.task_id)?.title}”` : null,
+      body: null,
+      href: `/tasks?subtareas=${s.task_id}`,
+      elementId: `subtarea-${s.id}`,
+      termId: courseTerm(taskById.get(s.task_id)?.course_id),
+      done: s.completed,
+    })),
+    ...data.projectTasks.map((t): SearchItem => ({
+      id: t.id,
+      kind: 'project_task',
+      title: t.title,
+      detail: joinDetail([projectNames.get(t.project_id), t.due_date && `Vence ${formatDate(t.due_date)}`]),
+      body: t.description,
+      href: `/projects/${t.project_id}`,
+      elementId: `tarea-proyecto-${t.id}`,
+      done: t.status === 'done',
+    })),
+    ...data.courses.map((c): SearchItem => ({
+      id: c.id,
+      kind: 'course',
+      title: c.name,
+      detail: null,
+      body: null,
+      href: '/courses',
+      elementId: `materia-${c.id}`,
+      termId: c.term_id,
+      done: false,
+    })),
+    ...data.examPlans.map((p): SearchItem => ({
+      id: p.id,
+      kind: 'exam_plan',
+      title: p.name,
+      detail: joinDetail([courseName(p.course_id), formatDate(p.exam_date)]),
+      body: null,
+      href: '/study-planner',
+      elementId: `plan-${p.id}`,
+      done: false,
+    })),
+    ...data.grades.map((g): SearchItem => ({
+      id: g.id,
+      kind: 'grade',
+      title: joinDetail([g.exam_type ?? 'Nota', courseName(g.course_id)]) ?? 'Nota',
+      detail: joinDetail([`Nota ${formatGrade(g.grade, scale)}`, g.exam_date && formatDate(g.exam_date)]),
+      body: null,
+      href: '/grades',
+      elementId: `nota-${g.id}`,
+      termId: courseTerm(g.course_id),
+      done: false,
+    })),
+  ];
+}
+
+// Qué tan bien coincide el título; 0 si la búsqueda solo aparece en el resto del texto
+function titleScore(title: string, query: string, words: string[]): number {
+  if (title === query) return 100;
+  if (title.startsWith(query)) return 80;
+  if (` ${title.replace(/[^a-z0-9]+/g, ' ')}`.includes(` ${query}`)) return 60;
+  if (title.includes(query)) return 45;
+  if (words.every((w) => title.includes(w))) return 30;
+  return 0;
+}
+
+/**
+ * Resultados que contienen todas las palabras buscadas, los más relevantes primero
+ */
+export function searchItems(items: SearchItem[], query: string, limit = 20): SearchItem[] {
+  const q = fold(query).trim().replace(/\s+/g, ' ');
+  const words = q.split(' ').filter(Boolean);
+  if (words.length === 0) return [];
+
+  return items
+    .map((item) => {
+      const title = fold(item.title);
+      const haystack = fold(`${item.title} ${item.detail ?? ''} ${item.body ?? ''}`);
+      if (!words.every((w) => haystack.includes(w))) return null;
+
+      const score = (titleScore(title, q, words) || 10) + KIND_WEIGHT[item.kind] - (item.done ? 8 : 0);
+      return { item, score };
+    })
+    .filter((r): r is { item: SearchItem; score: number } => !!r)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.item.title.length - b.item.title.length ||
+        a.item.title.localeCompare(b.item.title),
+    )
+    .slice(0, limit)
+    .map((r) => r.item);
+}
+
+/**
+ * Cuatrimestre a elegir en el sidebar para que el resultado se vea en su página,
+ * o null si ya está visible con la selección actual
+ */
+export function searchTermSelection(item: SearchItem, selection: TermSelection): TermSelection | null {
+  if (item.termId === undefined || selection === 'all' || item.termId === selection) return null;
+  return item.termId ?? 'all';
+}
+
+/**
+ * Lleva la vista al elemento y lo resalta. Lo espera unos segundos porque la página
+ * de destino suele estar cargando sus datos.
+ */
+export function focusSearchTarget(elementId: string, timeoutMs = 5000): void {
+  const started = Date.now();
+
+  const tryFocus = () => {
+    const el = document.getElementById(elementId);
+    if (!el) {
+      if (Date.now() - started < timeoutMs) setTimeout(tryFocus, 150);
+      return;
+    }
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    el.classList.remove('search-focus');
+    void el.offsetWidth; // reinicia la animación si ya estaba resaltado
+    el.classList.add('search-focus');
+    setTimeout(() => el.classList.remove('search-focus'), 2500);
+  };
+
+  tryFocus();
+}
+
+// Evento para abrir el buscador desde otra parte (p. ej. el atajo "/" de Tareas)
+export const OPEN_SEARCH_EVENT = 'taskademic:open-search';
+
+export function openSearchPalette(): void {
+  window.dispatchEvent(new Event(OPEN_SEARCH_EVENT));
+}
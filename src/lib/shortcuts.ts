@@ -0,0 +1,115 @@
+// Atajos de teclado de Tareas y del tablero de proyectos
+
+import type { KeyboardShortcuts, ShortcutAction } from './db';
+
+export const DEFAULT_SHORTCUTS: Record<ShortcutAction, string> = {
+  new: 'n',
+  search: '/',
+  next: 'j',
+  previous: 'k',
+  toggle: 'x',
+  edit: 'e',
+  due_date: 'd',
+  priority_high: '1',
+  priority_medium: '2',
+  priority_low: '3',
+  help: '?',
+};
+
+// En el orden en que se muestran en la ayuda y en el perfil
+export const SHORTCUT_ACTIONS = Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[];
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  new: 'Nueva tarea',
+  search: 'Buscar',
+  next: 'Tarea siguiente',
+  previous: 'Tarea anterior',
+  toggle: 'Completar / reabrir',
+  edit: 'Editar',
+  due_date: 'Cambiar fecha límite',
+  priority_high: 'Prioridad alta',
+  priority_medium: 'Prioridad media',
+  priority_low: 'Prioridad baja',
+  help: 'Ver atajos',
+};
+
+/**
+ * Atajos efectivos: los guardados por el usuario sobre los de fábrica
+ */
+export function resolveShortcuts(saved: KeyboardShortcuts | null | undefined): Record<ShortcutAction, string> {
+  const resolved = { ...DEFAULT_SHORTCUTS };
+  SHORTCUT_ACTIONS.forEach((action) => {
+    const key = saved?.[action];
+    if (key && isBindableKey(key)) resolved[action] = key;
+  });
+  return resolved;
+}
+
+/**
+ * Solo los atajos que difieren de los de fábrica (lo que se guarda en el perfil)
+ */
+export function customShortcuts(shortcuts: Record<ShortcutAction, string>): KeyboardShortcuts {
+  const custom: KeyboardShortcuts = {};
+  SHORTCUT_ACTIONS.forEach((action) => {
+    if (shortcuts[action] !== DEFAULT_SHORTCUTS[action]) custom[action] = shortcuts[action];
+  });
+  return custom;
+}
+
+/**
+ * Un solo carácter visible (letras, números y signos); Enter, Esc o Tab no se pueden asignar
+ */
+export function isBindableKey(key: string): boolean {
+  return key.length === 1 && key.trim() !== '';
+}
+
+/**
+ * Tecla del evento tal como se guarda en los atajos (letras en minúscula)
+ */
+export function keyFromEvent(e: KeyboardEvent | { key: string }): string {
+  return e.key.length === 1 ? e.key.toLowerCase() : e.key;
+}
+
+/**
+ * true si el foco está en un campo de texto (ahí las teclas escriben, no son atajos)
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
+
+/**
+ * Acción asignada a la tecla (null si no hay ninguna)
+ */
+export function actionForKey(
+  shortcuts: Record<ShortcutAction, string>,
+  key: string,
+): ShortcutAction | null {
+  return SHORTCUT_ACTIONS.find((action) => shortcuts[action] === key) ?? null;
+}
+
+/**
+ * Valida que cada acción tenga una tecla válida y que no haya teclas repetidas
+ */
+export function validateShortcuts(shortcuts: Record<ShortcutAction, string>): string | null {
+  const seen = new Map<string, ShortcutAction>();
+  for (const action of SHORTCUT_ACTIONS) {
+    const key = shortcuts[action];
+    if (!isBindableKey(key)) return `“${SHORTCUT_LABELS[action]}” necesita una tecla.`;
+    const other = seen.get(key);
+    if (other) {
+      return `La tecla “${formatShortcutKey(key)}” está asignada a “${SHORTCUT_LABELS[other]}” y a “${SHORTCUT_LABELS[action]}”.`;
+    }
+    seen.set(key, action);
+  }
+  return null;
+}
+
+export function formatShortcutKey(key: string): string {
+  return key.toUpperCase();
+}
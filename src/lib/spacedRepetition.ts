@@ -0,0 +1,119 @@
+// Repaso espaciado estilo SM-2: cada calificación mueve el próximo repaso y la facilidad
+
+import type { CourseTopic, ReviewRating, ReviewSchedule } from './db';
+import { addDays } from './recurrence';
+import type { PomodoroExamContext } from './studySchedule';
+
+export type { ReviewRating };
+
+export const REVIEW_RATINGS: ReviewRating[] = ['again', 'hard', 'easy'];
+
+export const RATING_LABELS: Record<ReviewRating, string> = {
+  again: 'No me acordaba',
+  hard: 'Difícil',
+  easy: 'Fácil',
+};
+
+// Calidad de respuesta de SM-2 (0 a 5) para cada calificación
+const RATING_QUALITY: Record<ReviewRating, number> = {
+  again: 1,
+  hard: 3,
+  easy: 5,
+};
+
+export const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+/**
+ * Próximo estado de repaso después de calificar uno hecho en `today`.
+ * Un olvido reinicia la serie y vuelve a pedir el tema mañana.
+ */
+export function nextReview(
+  current: ReviewSchedule,
+  rating: ReviewRating,
+  today: string,
+): ReviewSchedule {
+  const q = RATING_QUALITY[rating];
+  const ease = Math.max(
+    MIN_EASE,
+    Math.round((current.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))) * 100) / 100,
+  );
+
+  if (q < 3) {
+    return { ease, interval_days: 1, repetitions: 0, due_date: addDays(today, 1) };
+  }
+
+  const repetitions = current.repetitions + 1;
+  const interval =
+    repetitions === 1
+      ? 1
+      : repetitions === 2
+        ? 6
+        : Math.max(1, Math.round(current.interval_days * ease));
+
+  return { ease, interval_days: interval, repetitions, due_date: addDays(today, interval) };
+}
+
+/**
+ * Cambios a guardar en un tema o una tarjeta después de repasarlo
+ */
+export function reviewPatch(
+  item: ReviewSchedule,
+  rating: ReviewRating,
+  today: string,
+): ReviewSchedule & { last_reviewed_at: string } {
+  return { ...nextReview(item, rating, today), last_reviewed_at: new Date().toISOString() };
+}
+
+/**
+ * Contexto para repasar un tema con un Pomodoro vinculado a su materia
+ */
+export function topicPomodoroContext(
+  topic: CourseTopic,
+  courseName: string | null,
+): PomodoroExamContext {
+  return {
+    courseId: topic.course_id,
+    examName: `Repaso: ${topic.name}`,
+    courseName,
+    topicId: topic.id,
+    autoStart: true,
+  };
+}
+
+/**
+ * Intervalo que dejaría cada calificación, para mostrarlo en los botones
+ */
+export function previewIntervals(
+  current: ReviewSchedule,
+  today: string,
+): Record<ReviewRating, number> {
+  return {
+    again: nextReview(current, 'again', today).interval_days,
+    hard: nextReview(current, 'hard', today).interval_days,
+    easy: nextReview(current, 'easy', today).interval_days,
+  };
+}
+
+export function isDue(item: Pick<ReviewSchedule, 'due_date'>, today: string): boolean {
+  return item.due_date <= today;
+}
+
+/** "hoy", "mañana", "en 6 días" o "hace 2 días" */
+export function describeDue(dueDate: string, today: string): string {
+  const days = Math.round(
+    (new Date(`${dueDate}T00:00:00Z`).getTime() - new Date(`${today}T00:00:00Z`).getTime()) /
+      86_400_000,
+  );
+  if (days === 0) return 'hoy';
+  if (days === 1) return 'mañana';
+  if (days < 0) return days === -1 ? 'ayer' : `hace ${-days} días`;
+  return `en ${days} días`;
+}
+
+/** Texto corto de un intervalo ("1 d", "6 d", "2 m") */
+export function formatInterval(days: number): string {
+  if (days < 30) return `${days} d`;
+  if (days < 365) return `${Math.round(days / 30)} m`;
+  return `${Math.round((days / 365) * 10) / 10} a`;
+}
@@ -0,0 +1,307 @@
+// Agenda automática de estudio: reparte las horas de cada examen en bloques diarios
+
+import type {
+  ExamPlan,
+  ExamTopic,
+  ExamTopicStatus,
+  PomodoroSession,
+  StudyAvailability,
+  Task,
+} from './db';
+import { sessionCourseId } from './pomodoro';
+import { addDays } from './recurrence';
+
+// Minutos por día de la semana si el usuario no cargó su disponibilidad (domingo primero)
+export const DEFAULT_STUDY_AVAILABILITY: StudyAvailability = [60, 120, 120, 120, 120, 120, 60];
+
+// Tope de minutos por día que acepta el editor de disponibilidad
+export const MAX_DAILY_MINUTES = 12 * 60;
+
+// Con esta cantidad de entregas el día se considera lleno
+export const HEAVY_DAY_TASKS = 3;
+
+// Cada entrega del día le quita esta fracción a la disponibilidad
+const TASK_LOAD_PENALTY = 0.25;
+
+// Los bloques se redondean a múltiplos de este valor
+const BLOCK_ROUNDING = 5;
+
+// Bloques más cortos que esto no se agendan (salvo que sea lo último que falta)
+const MIN_BLOCK_MINUTES = 15;
+
+// Tope de días hacia adelante que se planifican
+const MAX_HORIZON_DAYS = 180;
+
+export type StudyBlock = {
+  date: string; // YYYY-MM-DD
+  planId: string;
+  courseId: string | null;
+  examName: string;
+  examDate: string;
+  minutes: number;
+};
+
+export type StudySchedule = {
+  blocks: StudyBlock[];
+  // plan_id → minutos que no entran en la disponibilidad antes del examen
+  shortfall: Map<string, number>;
+};
+
+/**
+ * Disponibilidad efectiva (la guardada o la sugerida), siempre con 7 días válidos
+ */
+export function resolveAvailability(saved: StudyAvailability | null | undefined): StudyAvailability {
+  if (!saved || saved.length !== 7) return DEFAULT_STUDY_AVAILABILITY;
+  return saved.map((m) =>
+    typeof m === 'number' && !isNaN(m) ? Math.min(Math.max(Math.round(m), 0), MAX_DAILY_MINUTES) : 0,
+  );
+}
+
+export const EXAM_TOPIC_STATUS_LABELS: Record<ExamTopicStatus, string> = {
+  pending: 'Pendiente',
+  in_progress: 'En curso',
+  done: 'Vista',
+};
+
+// Orden en que avanza el estado al tocar una unidad
+export const NEXT_EXAM_TOPIC_STATUS: Record<ExamTopicStatus, ExamTopicStatus> = {
+  pending: 'in_progress',
+  in_progress: 'done',
+  done: 'pending',
+};
+
+export type PlanProgress = {
+  studiedMinutes: number;
+  // Lo que falta: por unidades no vistas si el plan las tiene, si no por horas objetivo
+  remainingMinutes: number;
+  topicsTotal: number;
+  topicsDone: number;
+  // exam_topic_id → minutos enfocados en esa unidad
+  minutesByTopic: Map<string, number>;
+};
+
+/**
+ * Unidades agrupadas por plan (plan_id → unidades en el orden del programa)
+ */
+export function topicsByPlan(topics: ExamTopic[]): Map<string, ExamTopic[]> {
+  const map = new Map<string, ExamTopic[]>();
+  topics.forEach((t) => map.set(t.plan_id, [...(map.get(t.plan_id) ?? []), t]));
+  return map;
+}
+
+/**
+ * Próxima unidad a estudiar: la que está en curso o, si no hay, la primera pendiente
+ */
+export function nextExamTopic(topics: ExamTopic[]): ExamTopic | null {
+  return (
+    topics.find((t) => t.status === 'in_progress') ??
+    topics.find((t) => t.status === 'pending') ??
+    null
+  );
+}
+
+/**
+ * Avance de un plan. Una sesión cuenta si se hizo para el plan o una de sus unidades;
+ * las que no apuntan a ningún examen cuentan si son de la materia del plan.
+ */
+export function planProgress(
+  plan: ExamPlan,
+  topics: ExamTopic[],
+  sessions: PomodoroSession[],
+  taskCourseMap: Map<string, string>,
+): PlanProgress {
+  const topicIds = new Set(topics.map((t) => t.id));
+  const byTopic = new Map<string, number>();
+  let studiedMinutes = 0;
+
+  sessions.forEach((s) => {
+    const counts = s.exam_topic_id
+      ? topicIds.has(s.exam_topic_id)
+      : s.exam_plan_id
+      ? s.exam_plan_id === plan.id
+      : !!plan.course_id && sessionCourseId(s, taskCourseMap) === plan.course_id;
+    if (!counts) return;
+
+    const minutes = s.duration_minutes || 0;
+    studiedMinutes += minutes;
+    if (s.exam_topic_id) {
+      byTopic.set(s.exam_topic_id, (byTopic.get(s.exam_topic_id) ?? 0) + minutes);
+    }
+  });
+
+  const remainingMinutes =
+    topics.length > 0
+      ? topics
+          .filter((t) => t.status !== 'done')
+          .reduce(
+            (acc, t) => acc + Math.max(0, Math.round(t.estimated_hours * 60) - (byTopic.get(t.id) ?? 0)),
+            0,
+          )
+      : Math.max(0, Math.round(plan.study_hours * 60) - studiedMinutes);
+
+  return {
+    studiedMinutes,
+    remainingMinutes,
+    topicsTotal: topics.length,
+    topicsDone: topics.filter((t) => t.status === 'done').length,
+    minutesByTopic: byTopic,
+  };
+}
+
+/**
+ * Entregas pendientes por fecha (YYYY-MM-DD → cantidad)
+ */
+function dueCountByDate(tasks: Task[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  tasks.forEach((t) => {
+    if (t.completed || !t.due_date) return;
+    counts.set(t.due_date, (counts.get(t.due_date) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * Minutos de estudio disponibles en una fecha, descontando los días cargados de entregas
+ */
+export function dayCapacity(
+  date: string,
+  availability: StudyAvailability,
+  dueCount: number,
+): number {
+  if (dueCount >= HEAVY_DAY_TASKS) return 0;
+  const base = availability[new Date(`${date}T00:00:00Z`).getUTCDay()] ?? 0;
+  return Math.floor(base * (1 - TASK_LOAD_PENALTY * dueCount));
+}
+
+type ScheduleInput = {
+  plans: ExamPlan[];
+  // plan_id → minutos que faltan estudiar (ver planProgress)
+  remaining: Map<string, number>;
+  tasks: Task[];
+  availability: StudyAvailability;
+  today: string;
+};
+
+/**
+ * Arma los bloques diarios de todos los exámenes futuros.
+ * Cada día, cada examen pide la parte de lo que le falta que le corresponde a ese día
+ * según la disponibilidad que queda hasta su fecha, así los exámenes que se superponen
+ * avanzan juntos. Si el día no alcanza, se atiende primero al examen más cercano.
+ * El día del examen no se agenda estudio para ese examen.
+ */
+export function buildStudySchedule({
+  plans,
+  remaining: remainingByPlan,
+  tasks,
+  availability,
+  today,
+}: ScheduleInput): StudySchedule {
+  const remaining = new Map<string, number>();
+  const active = plans.filter((p) => {
+    if (p.exam_date <= today) return false;
+    const left = remainingByPlan.get(p.id) ?? 0;
+    if (left <= 0) return false;
+    remaining.set(p.id, left);
+    return true;
+  });
+
+  const blocks: StudyBlock[] = [];
+  if (active.length === 0) return { blocks, shortfall: new Map() };
+
+  const lastExam = active.reduce((max, p) => (p.exam_date > max ? p.exam_date : max), today);
+  const dueCounts = dueCountByDate(tasks);
+
+  const days: { date: string; capacity: number }[] = [];
+  for (let date = today, i = 0; date < lastExam && i < MAX_HORIZON_DAYS; date = addDays(date, 1), i++) {
+    days.push({ date, capacity: dayCapacity(date, availability, dueCounts.get(date) ?? 0) });
+  }
+
+  // Exámenes más cercanos primero
+  const byDate = [...active].sort((a, b) => a.exam_date.localeCompare(b.exam_date));
+
+  days.forEach(({ date, capacity }, dayIndex) => {
+    let free = capacity;
+
+    byDate.forEach((plan) => {
+      const left = remaining.get(plan.id) ?? 0;
+      if (free <= 0 || left <= 0 || plan.exam_date <= date) return;
+
+      const capacityUntilExam = days
+        .slice(dayIndex)
+        .filter((d) => d.date < plan.exam_date)
+        .reduce((acc, d) => acc + d.capacity, 0);
+      const need = (left * capacity) / Math.max(1, capacityUntilExam);
+
+      // Se redondea hacia arriba para no dejar migajas, sin pasarse de lo libre
+      let minutes = Math.min(
+        left,
+        Math.ceil(need / BLOCK_ROUNDING) * BLOCK_ROUNDING,
+        Math.floor(free / BLOCK_ROUNDING) * BLOCK_ROUNDING,
+      );
+      if (minutes < MIN_BLOCK_MINUTES && minutes < left) {
+        minutes = free >= MIN_BLOCK_MINUTES ? Math.min(left, MIN_BLOCK_MINUTES) : 0;
+      }
+      if (minutes <= 0) return;
+
+      free -= minutes;
+      remaining.set(plan.id, left - minutes);
+      blocks.push({
+        date,
+        planId: plan.id,
+        courseId: plan.course_id,
+        examName: plan.name,
+        examDate: plan.exam_date,
+        minutes,
+      });
+    });
+  });
+
+  const shortfall = new Map<string, number>();
+  remaining.forEach((left, planId) => {
+    if (left > 0) shortfall.set(planId, left);
+  });
+
+  return { blocks, shortfall };
+}
+
+/**
+ * Bloques agrupados por fecha (YYYY-MM-DD → bloques)
+ */
+export function blocksByDate(blocks: StudyBlock[]): Map<string, StudyBlock[]> {
+  const map = new Map<string, StudyBlock[]>();
+  blocks.forEach((b) => {
+    const list = map.get(b.date) ?? [];
+    list.push(b);
+    map.set(b.date, list);
+  });
+  return map;
+}
+
+// ---- contexto para abrir el Pomodoro desde un examen ----
+
+export const POMODORO_EXAM_CTX_KEY = 'pomodoro_exam_ctx';
+
+export type PomodoroExamContext = {
+  courseId: string | null;
+  examName: string;
+  suggested?: number; // minutos por día sugeridos por el planificador
+  courseName: string | null;
+  planId?: string; // plan de examen: las sesiones se guardan con él como objetivo
+  blockMinutes?: number; // duración del bloque agendado en el calendario
+  topicId?: string; // tema en repaso: al terminar se califica desde el Pomodoro
+  examTopicId?: string; // unidad del plan a la que se atribuyen las sesiones
+  examTopicName?: string;
+  autoStart?: boolean; // arranca el foco apenas carga
+};
+
+/**
+ * Guarda el contexto que el Pomodoro consume una sola vez al cargar
+ */
+export function savePomodoroExamContext(ctx: PomodoroExamContext) {
+  if (typeof window === 'undefined') return;
+  try {
+    sessionStorage.setItem(POMODORO_EXAM_CTX_KEY, JSON.stringify(ctx));
+  } catch {
+    // ignorar si sessionStorage no está disponible
+  }
+}
@@ -0,0 +1,16 @@
+// Cliente de Supabase con service role, SOLO para route handlers del servidor.
+// Saltea RLS: nunca importar desde componentes cliente.
+//
+// REQUISITO: definir SUPABASE_SERVICE_ROLE_KEY en las variables de entorno del servidor.
+
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+export const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false,
+  },
+});
@@ -0,0 +1,105 @@
+// Etiquetas de tareas: nombres normalizados, autocompletado y agrupación por tarea
+
+import type { Tag, TaskTag } from './db';
+
+export const MAX_TAG_LENGTH = 30;
+
+// Color de las etiquetas nuevas (el mismo que el de las materias)
+export const DEFAULT_TAG_COLOR = '#80499d';
+
+// Escapes que sanitizeInput dejaba en las etiquetas guardadas al crear tareas
+const LEGACY_ENTITIES: [RegExp, string][] = [
+  [/&lt;/g, '<'],
+  [/&gt;/g, '>'],
+  [/&quot;/g, '"'],
+  [/&#x27;/g, "'"],
+  [/&#x2F;/g, '/'],
+  [/&amp;/g, '&'],
+];
+
+/**
+ * Nombre prolijo: sin '#' inicial, sin espacios de más y sin escapes HTML viejos
+ */
+export function normalizeTagName(raw: string): string {
+  const decoded = LEGACY_ENTITIES.reduce((text, [pattern, value]) => text.replace(pattern, value), raw);
+  return decoded.replace(/^#+/, '').replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Clave para comparar nombres sin distinguir mayúsculas (igual que el índice único)
+ */
+export function tagKey(name: string): string {
+  return normalizeTagName(name).toLowerCase();
+}
+
+/**
+ * Lista de nombres a partir de un texto separado por comas, sin repetidos
+ */
+export function parseTagList(input: string | null | undefined): string[] {
+  if (!input) return [];
+  const seen = new Set<string>();
+  const names: string[] = [];
+  input.split(',').forEach((part) => {
+    const name = normalizeTagName(part);
+    const key = name.toLowerCase();
+    if (!name || seen.has(key)) return;
+    seen.add(key);
+    names.push(name);
+  });
+  return names;
+}
+
+/**
+ * Valida el nombre al crear o renombrar una etiqueta
+ */
+export function validateTagName(name: string): string | null {
+  if (!normalizeTagName(name)) return 'La etiqueta necesita un nombre.';
+  if (name.trim().length > MAX_TAG_LENGTH) {
+    return `La etiqueta puede tener hasta ${MAX_TAG_LENGTH} caracteres.`;
+  }
+  return null;
+}
+
+function searchKey(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Etiquetas existentes que coinciden con lo que se está escribiendo (primero las que empiezan igual)
+ */
+export function suggestTags(tags: Tag[], query: string, exclude: string[] = [], limit = 6): Tag[] {
+  const q = searchKey(normalizeTagName(query));
+  const excluded = new Set(exclude.map(tagKey));
+  return tags
+    .filter((t) => !excluded.has(tagKey(t.name)) && searchKey(t.name).includes(q))
+    .sort((a, b) => {
+      const aStarts = searchKey(a.name).startsWith(q) ? 0 : 1;
+      const bStarts = searchKey(b.name).startsWith(q) ? 0 : 1;
+      return aStarts - bStarts || a.name.localeCompare(b.name);
+    })
+    .slice(0, limit);
+}
+
+/**
+ * task_id → etiquetas de la tarea, por nombre
+ */
+export function tagsByTask(taskTags: TaskTag[], tags: Tag[]): Map<string, Tag[]> {
+  const byId = new Map(tags.map((t) => [t.id, t]));
+  const result = new Map<string, Tag[]>();
+  taskTags.forEach((tt) => {
+    const tag = byId.get(tt.tag_id);
+    if (!tag) return;
+    result.set(tt.task_id, [...(result.get(tt.task_id) ?? []), tag]);
+  });
+  result.forEach((list) => list.sort((a, b) => a.name.localeCompare(b.name)));
+  return result;
+}
+
+/**
+ * tag_id → cantidad de tareas con esa etiqueta
+ */
+export function tagUsage(taskTags: TaskTag[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  taskTags.forEach((tt) => counts.set(tt.tag_id, (counts.get(tt.tag_id) ?? 0) + 1));
+  return counts;
+}
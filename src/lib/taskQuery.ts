@@ -0,0 +1,240 @@
+// Buscador de tareas con filtros escritos y estado de la lista en la URL
+//
+// Ejemplo: course:Física priority:high due:<7d tag:lab -done
+// - course: / materia:   la materia contiene el texto
+// - priority: / prioridad:   high|alta, medium|media, low|baja
+// - due: / vence:   <7d, >2s, =0d, hoy, mañana, vencida, sin, 2026-11-03, <2026-11-03
+// - tag: / etiqueta: / #lab   tiene la etiqueta
+// - done / hecha   completada
+// Un '-' adelante niega el filtro; lo demás se busca en el título y la descripción.
+// Los valores con espacios van entre comillas: course:"Análisis II"
+
+import type { Priority, Tag, Task, TaskViewFilters } from './db';
+import { addDays } from './recurrence';
+
+type DueCondition = { op: '<' | '>' | '='; date: string } | { op: '<' | '>' | '='; days: number } | { op: 'none' };
+
+export type TaskQueryTerm = { negate: boolean } & (
+  | { field: 'text'; value: string }
+  | { field: 'course'; value: string }
+  | { field: 'tag'; value: string }
+  | { field: 'priority'; value: Priority }
+  | { field: 'done' }
+  | { field: 'due'; value: DueCondition }
+);
+
+export type TaskQuery = {
+  terms: TaskQueryTerm[];
+  errors: string[];
+};
+
+// Lo que el filtro necesita además de la tarea
+export type TaskQueryContext = {
+  today: string;
+  courseName: (courseId: string | null) => string | null;
+  tagsOf: (taskId: string) => Tag[];
+};
+
+const FIELD_ALIASES: Record<string, 'course' | 'priority' | 'due' | 'tag'> = {
+  course: 'course',
+  materia: 'course',
+  priority: 'priority',
+  prioridad: 'priority',
+  due: 'due',
+  vence: 'due',
+  tag: 'tag',
+  etiqueta: 'tag',
+};
+
+const PRIORITY_ALIASES: Record<string, Priority> = {
+  high: 'high',
+  alta: 'high',
+  medium: 'medium',
+  media: 'medium',
+  low: 'low',
+  baja: 'low',
+};
+
+const DONE_WORDS = new Set(['done', 'hecha', 'completada']);
+
+const DUE_WORDS: Record<string, DueCondition> = {
+  hoy: { op: '=', days: 0 },
+  today: { op: '=', days: 0 },
+  manana: { op: '=', days: 1 },
+  tomorrow: { op: '=', days: 1 },
+  vencida: { op: '<', days: 0 },
+  overdue: { op: '<', days: 0 },
+  sin: { op: 'none' },
+  none: { op: 'none' },
+};
+
+function searchKey(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Solo claves propias: "constructor" o "__proto__" no son campos ni valores conocidos
+function lookup<T>(table: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"/, '').replace(/"$/, '');
+}
+
+function parseDue(raw: string): DueCondition | null {
+  const word = lookup(DUE_WORDS, searchKey(raw));
+  if (word) return word;
+
+  const match = raw.match(/^([<>=]?)(?:(\d{4}-\d{2}-\d{2})|(\d+)([dsw]))$/i);
+  if (!match) return null;
+
+  const op = (match[1] || '=') as '<' | '>' | '=';
+  if (match[2]) return { op, date: match[2] };
+  const amount = Number(match[3]);
+  return { op, days: match[4].toLowerCase() === 'd' ? amount : amount * 7 };
+}
+
+/**
+ * Separa el texto del buscador en filtros; los valores que no se entienden van a `errors`
+ */
+export function parseTaskQuery(input: string): TaskQuery {
+  const terms: TaskQueryTerm[] = [];
+  const errors: string[] = [];
+  const tokens = input.match(/-?(?:[^\s:"]+:)?(?:"[^"]*"?|[^\s"]+)|"[^"]*"?/g) ?? [];
+
+  tokens.forEach((token) => {
+    const negate = token.length > 1 && token.startsWith('-');
+    const body = negate ? token.slice(1) : token;
+
+    if (body.startsWith('#') && body.length > 1) {
+      terms.push({ negate, field: 'tag', value: unquote(body.slice(1)) });
+      return;
+    }
+
+    const colon = body.startsWith('"') ? -1 : body.indexOf(':');
+    const field = colon > 0 ? lookup(FIELD_ALIASES, body.slice(0, colon).toLowerCase()) : undefined;
+    const value = unquote(field ? body.slice(colon + 1) : body).trim();
+    if (!value) return;
+
+    if (!field) {
+      if (DONE_WORDS.has(searchKey(value))) terms.push({ negate, field: 'done' });
+      else terms.push({ negate, field: 'text', value });
+      return;
+    }
+
+    if (field === 'priority') {
+      const priority = lookup(PRIORITY_ALIASES, searchKey(value));
+      if (priority) terms.push({ negate, field, value: priority });
+      else errors.push(`Prioridad desconocida: "${value}" (usá alta, media o baja).`);
+    } else if (field === 'due') {
+      const due = parseDue(value);
+      if (due) terms.push({ negate, field, value: due });
+      else errors.push(`Fecha desconocida: "${value}" (por ejemplo <7d, hoy o 2026-11-03).`);
+    } else {
+      terms.push({ negate, field, value });
+    }
+  });
+
+  return { terms, errors };
+}
+
+function matchesDue(dueDate: string | null, condition: DueCondition, today: string): boolean {
+  if (condition.op === 'none') return !dueDate;
+  if (!dueDate) return false;
+
+  const target = 'date' in condition ? condition.date : addDays(today, condition.days);
+  if (condition.op === '<') return dueDate < target;
+  if (condition.op === '>') return dueDate > target;
+  return dueDate === target;
+}
+
+function matchesTerm(task: Task, term: TaskQueryTerm, ctx: TaskQueryContext): boolean {
+  switch (term.field) {
+    case 'text':
+      return searchKey(`${task.title} ${task.description ?? ''}`).includes(searchKey(term.value));
+    case 'course': {
+      const name = ctx.courseName(task.course_id);
+      return !!name && searchKey(name).includes(searchKey(term.value));
+    }
+    case 'tag':
+      return ctx.tagsOf(task.id).some((t) => searchKey(t.name) === searchKey(term.value));
+    case 'priority':
+      return (task.priority ?? 'medium') === term.value;
+    case 'done':
+      return task.completed;
+    case 'due':
+      return matchesDue(task.due_date, term.value, ctx.today);
+  }
+}
+
+/**
+ * true si la tarea cumple todos los filtros del buscador
+ */
+export function matchesTaskQuery(task: Task, query: TaskQuery, ctx: TaskQueryContext): boolean {
+  return query.terms.every((term) => matchesTerm(task, term, ctx) !== term.negate);
+}
+
+// ---- Estado de la lista en la URL ----
+
+export const DEFAULT_TASK_FILTERS: TaskViewFilters = {
+  query: '',
+  status: 'all',
+  course_id: null,
+  priority: null,
+  tag_id: null,
+  order: 'nearest',
+};
+
+/**
+ * Filtros a partir de los parámetros de /tasks (lo que falta queda por defecto)
+ */
+export function filtersFromParams(params: URLSearchParams): TaskViewFilters {
+  const status = params.get('estado');
+  const priority = params.get('prioridad');
+  return {
+    query: params.get('q') ?? '',
+    status: status === 'pending' || status === 'completed' ? status : 'all',
+    course_id: params.get('materia'),
+    priority: priority === 'low' || priority === 'medium' || priority === 'high' ? priority : null,
+    tag_id: params.get('etiqueta'),
+    order: params.get('orden') === 'farthest' ? 'farthest' : 'nearest',
+  };
+}
+
+/**
+ * Parámetros de /tasks para los filtros (omite los que están por defecto)
+ */
+export function filtersToParams(filters: TaskViewFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set('q', filters.query.trim());
+  if (filters.status !== 'all') params.set('estado', filters.status);
+  if (filters.course_id) params.set('materia', filters.course_id);
+  if (filters.priority) params.set('prioridad', filters.priority);
+  if (filters.tag_id) params.set('etiqueta', filters.tag_id);
+  if (filters.order !== 'nearest') params.set('orden', filters.order);
+  return params;
+}
+
+/**
+ * true si dos estados de filtros muestran lo mismo
+ */
+export function sameFilters(a: TaskViewFilters, b: TaskViewFilters): boolean {
+  return filtersToParams(a).toString() === filtersToParams(b).toString();
+}
+
+export const MAX_VIEW_NAME_LENGTH = 40;
+
+/**
+ * Valida el nombre de una vista nueva
+ */
+export function validateViewName(name: string, taken: string[]): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'La vista necesita un nombre.';
+  if (trimmed.length > MAX_VIEW_NAME_LENGTH) {
+    return `El nombre puede tener hasta ${MAX_VIEW_NAME_LENGTH} caracteres.`;
+  }
+  if (taken.some((n) => n.toLowerCase() === trimmed.toLowerCase())) {
+    return 'Ya tenés una vista con ese nombre.';
+  }
+  return null;
+}
@@ -0,0 +1,52 @@
+// Reglas de cuatrimestres compartidas entre páginas
+
+import type { Course, Term, TermInsert } from './db';
+
+// Selección del switcher: un cuatrimestre puntual o todos
+export type TermSelection = 'all' | string;
+
+/**
+ * Cuatrimestre vigente (el que contiene a `today`), si existe y no está archivado
+ */
+export function currentTerm(terms: Term[], today: string): Term | null {
+  return terms.find((t) => !t.archived && t.start_date <= today && today <= t.end_date) ?? null;
+}
+
+/**
+ * Las materias sin cuatrimestre o de cuatrimestres activos cuentan para el límite del plan
+ */
+export function countsTowardLimit(course: Course, terms: Term[]): boolean {
+  if (!course.term_id) return true;
+  const term = terms.find((t) => t.id === course.term_id);
+  return !term?.archived;
+}
+
+export function countActiveCourses(courses: Course[], terms: Term[]): number {
+  return courses.filter((c) => countsTowardLimit(c, terms)).length;
+}
+
+/**
+ * Materias del cuatrimestre elegido ('all' devuelve todas)
+ */
+export function filterCoursesByTerm(courses: Course[], selection: TermSelection): Course[] {
+  if (selection === 'all') return courses;
+  return courses.filter((c) => c.term_id === selection);
+}
+
+/**
+ * Ids de materias visibles para el cuatrimestre elegido, o null si no hay filtro
+ */
+export function courseIdsForTerm(courses: Course[], selection: TermSelection): Set<string> | null {
+  if (selection === 'all') return null;
+  return new Set(filterCoursesByTerm(courses, selection).map((c) => c.id));
+}
+
+/**
+ * Valida los datos de un cuatrimestre antes de guardarlo
+ */
+export function validateTerm(input: TermInsert): string | null {
+  if (!input.name.trim()) return 'El cuatrimestre necesita un nombre';
+  if (!input.start_date || !input.end_date) return 'Completá las fechas de inicio y fin';
+  if (input.end_date < input.start_date) return 'La fecha de fin debe ser posterior al inicio';
+  return null;
+}
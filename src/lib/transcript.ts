@@ -0,0 +1,129 @@
+// Analítico: nota final, créditos y condición de cada materia
+
+import { toCsv } from './csv';
+import type { Course, CourseGrade, GradingScale, GradingScheme, Term } from './db';
+import { schemeForCourse, summarizeCourseGrades } from './grades';
+import { DEFAULT_GRADING_SCALE, formatGrade } from './gradingScales';
+
+export type TranscriptStatus = 'promocionada' | 'aprobada' | 'libre' | 'en_curso';
+
+export const TRANSCRIPT_STATUS_LABELS: Record<TranscriptStatus, string> = {
+  promocionada: 'Promocionada',
+  aprobada: 'Aprobada',
+  libre: 'Libre',
+  en_curso: 'En curso',
+};
+
+export type TranscriptEntry = {
+  course: Course;
+  term: Term | null;
+  scheme: GradingScheme;
+  finalGrade: number | null; // nota de la materia según su esquema
+  status: TranscriptStatus;
+};
+
+/**
+ * Condición de la materia según su nota final y los umbrales del esquema
+ */
+export function transcriptStatus(finalGrade: number | null, scheme: GradingScheme): TranscriptStatus {
+  if (finalGrade === null) return 'en_curso';
+  if (scheme.promotion_grade !== null && finalGrade >= scheme.promotion_grade) return 'promocionada';
+  if (finalGrade >= scheme.passing_grade) return 'aprobada';
+  return 'libre';
+}
+
+export function isApproved(status: TranscriptStatus): boolean {
+  return status === 'promocionada' || status === 'aprobada';
+}
+
+/**
+ * Una fila por materia, agrupadas por cuatrimestre (más recientes primero, sin cuatrimestre al final)
+ */
+export function buildTranscript(
+  courses: Course[],
+  grades: CourseGrade[],
+  terms: Term[],
+  scale: GradingScale = DEFAULT_GRADING_SCALE,
+): TranscriptEntry[] {
+  const termsById = new Map(terms.map((t) => [t.id, t]));
+
+  const entries = courses.map((course) => {
+    const scheme = schemeForCourse(course, scale);
+    const { average } = summarizeCourseGrades(
+      grades.filter((g) => g.course_id === course.id),
+      scheme,
+    );
+    return {
+      course,
+      term: course.term_id ? termsById.get(course.term_id) ?? null : null,
+      scheme,
+      finalGrade: average,
+      status: transcriptStatus(average, scheme),
+    };
+  });
+
+  return entries.sort((a, b) => {
+    if (a.term?.id !== b.term?.id) {
+      if (!a.term) return 1;
+      if (!b.term) return -1;
+      return b.term.start_date.localeCompare(a.term.start_date);
+    }
+    return a.course.name.localeCompare(b.course.name);
+  });
+}
+
+export type TranscriptTotals = {
+  approvedCount: number;
+  approvedCredits: number;
+  simpleAverage: number | null; // promedio simple de las aprobadas
+  weightedAverage: number | null; // ponderado por créditos (sin créditos pesa 1)
+};
+
+/**
+ * Totales del analítico: solo cuentan las materias aprobadas o promocionadas
+ */
+export function transcriptTotals(entries: TranscriptEntry[]): TranscriptTotals {
+  const approved = entries.filter(
+    (e): e is TranscriptEntry & { finalGrade: number } =>
+      e.finalGrade !== null && isApproved(e.status),
+  );
+  if (approved.length === 0) {
+    return { approvedCount: 0, approvedCredits: 0, simpleAverage: null, weightedAverage: null };
+  }
+
+  let weighted = 0;
+  let weights = 0;
+  let credits = 0;
+  for (const e of approved) {
+    const weight = e.course.credits && e.course.credits > 0 ? e.course.credits : 1;
+    weighted += e.finalGrade * weight;
+    weights += weight;
+    credits += e.course.credits ?? 0;
+  }
+
+  return {
+    approvedCount: approved.length,
+    approvedCredits: credits,
+    simpleAverage: approved.reduce((acc, e) => acc + e.finalGrade, 0) / approved.length,
+    weightedAverage: weighted / weights,
+  };
+}
+
+/**
+ * Analítico en CSV (una fila por materia, notas en la escala del usuario)
+ */
+export function buildTranscriptCsv(
+  entries: TranscriptEntry[],
+  scale: GradingScale = DEFAULT_GRADING_SCALE,
+): string {
+  return toCsv(
+    ['cuatrimestre', 'materia', 'creditos', 'nota_final', 'condicion'],
+    entries.map((e) => [
+      e.term?.name ?? null,
+      e.course.name,
+      e.course.credits,
+      e.finalGrade !== null ? formatGrade(e.finalGrade, scale) : null,
+      TRANSCRIPT_STATUS_LABELS[e.status],
+    ]),
+  );
+}